@@ -0,0 +1,98 @@
+// api/_lib/auth.ts
+/**
+ * Verifies the MSAL id token sent by the portal as `Authorization: Bearer <token>`.
+ *
+ * Notes:
+ * - AUTH_JWKS_URI overrides the signing keys endpoint; otherwise it is derived from the
+ *   same identity host / tenant env vars the SPA uses (see docs/auth-config-pattern.md)
+ * - AUTH_AUDIENCE defaults to the SPA client id, which is the `aud` of its id tokens
+ */
+
+import { Buffer } from 'buffer';
+import { createPublicKey, verify, JsonWebKey } from 'crypto';
+import { AnyRequest, HttpError, sanitizeEnv } from './storage.js';
+import { Permissions, permissionsFromClaims } from '../../src/utils/permissions.js';
+
+const TENANT_NAME = sanitizeEnv(process.env.B2C_TENANT_NAME || process.env.VITE_B2C_TENANT_NAME);
+const IDENTITY_HOST = sanitizeEnv(
+  process.env.IDENTITY_HOST ||
+  process.env.VITE_IDENTITY_HOST ||
+  (process.env.VITE_AZURE_SUBDOMAIN ? `${process.env.VITE_AZURE_SUBDOMAIN}.ciamlogin.com` : '')
+);
+const JWKS_URI = sanitizeEnv(process.env.AUTH_JWKS_URI) ||
+  (IDENTITY_HOST && TENANT_NAME ? `https://${IDENTITY_HOST}/${TENANT_NAME}.onmicrosoft.com/discovery/v2.0/keys` : '');
+const AUDIENCE = sanitizeEnv(process.env.AUTH_AUDIENCE || process.env.VITE_AZURE_CLIENT_ID);
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+export interface Caller {
+  id: string;
+  /** Directory tenant (`tid` claim); blob names are prefixed with it */
+  tenantId?: string;
+  name?: string;
+  email?: string;
+  /** Roles and capabilities carried by the token; null when it has none (see api/_lib/permissions.ts) */
+  permissions: Permissions | null;
+}
+
+let jwksCache: { keys: (JsonWebKey & { kid?: string })[]; fetchedAt: number } | null = null;
+
+const getSigningKeys = async (forceRefresh = false) => {
+  if (!JWKS_URI) throw new Error('AUTH_JWKS_URI (or identity host and tenant) must be configured.');
+  if (!forceRefresh && jwksCache && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_MS) {
+    return jwksCache.keys;
+  }
+  const response = await fetch(JWKS_URI);
+  if (!response.ok) throw new Error(`Failed to fetch signing keys: ${response.status}`);
+  const { keys } = await response.json();
+  jwksCache = { keys: keys || [], fetchedAt: Date.now() };
+  return jwksCache.keys;
+};
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Returns the verified caller, or throws a 401 HttpError
+ */
+export const requireCaller = async (req: AnyRequest): Promise<Caller> => {
+  const authHeader = req.headers.authorization || '';
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const parts = token.split('.');
+  if (!token || parts.length !== 3) throw new HttpError(401, 'Missing bearer token');
+
+  let header: any;
+  let claims: any;
+  try {
+    header = decodeSegment(parts[0]);
+    claims = decodeSegment(parts[1]);
+  } catch {
+    throw new HttpError(401, 'Malformed token');
+  }
+  if (header.alg !== 'RS256') throw new HttpError(401, 'Unsupported token algorithm');
+
+  // Keys rotate; refresh once when the kid is unknown
+  let jwk = (await getSigningKeys()).find((key) => key.kid === header.kid);
+  if (!jwk) jwk = (await getSigningKeys(true)).find((key) => key.kid === header.kid);
+  if (!jwk) throw new HttpError(401, 'Unknown signing key');
+
+  const valid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${parts[0]}.${parts[1]}`),
+    createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(parts[2], 'base64url')
+  );
+  if (!valid) throw new HttpError(401, 'Invalid token signature');
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp < now) throw new HttpError(401, 'Token expired');
+  if (AUDIENCE && claims.aud !== AUDIENCE) throw new HttpError(401, 'Invalid token audience');
+
+  const id = claims.oid || claims.sub;
+  if (!id) throw new HttpError(401, 'Token has no subject');
+  return {
+    id,
+    tenantId: claims.tid,
+    name: claims.name,
+    email: claims.emails?.[0] || claims.email || claims.preferred_username,
+    permissions: permissionsFromClaims(claims)
+  };
+};
@@ -0,0 +1,102 @@
+// api/_lib/dataverse.ts
+/**
+ * Server-side Dataverse access for the API, authenticated as the app registration
+ * (client credentials) rather than as the signed-in user.
+ *
+ * Notes:
+ * - DATAVERSE_URL falls back to the portal's VITE_DATAVERSE_URL; without it the portal runs on
+ *   its in-memory demo data and getDataverseClient returns null
+ * - DATAVERSE_TENANT_ID, DATAVERSE_CLIENT_ID and DATAVERSE_CLIENT_SECRET identify the application
+ *   user, which needs read access to the team tables
+ */
+
+import { createDataverseClient, odataString } from '../../src/services/dataverse/client.js';
+import { fromDataverseRecord, selectColumns } from '../../src/services/dataverse/fieldMap.js';
+import {
+  TeamMember,
+  teamMemberFieldMap,
+  TeamRole,
+  teamRoleFieldMap
+} from '../../src/services/dataverse/teamTables.js';
+import { sanitizeEnv } from './storage.js';
+
+const DATAVERSE_URL = sanitizeEnv(process.env.DATAVERSE_URL || process.env.VITE_DATAVERSE_URL).replace(/\/+$/, '');
+const DATAVERSE_API_VERSION =
+  sanitizeEnv(process.env.DATAVERSE_API_VERSION || process.env.VITE_DATAVERSE_API_VERSION) || 'v9.2';
+const TENANT_ID = sanitizeEnv(process.env.DATAVERSE_TENANT_ID);
+const CLIENT_ID = sanitizeEnv(process.env.DATAVERSE_CLIENT_ID);
+const CLIENT_SECRET = sanitizeEnv(process.env.DATAVERSE_CLIENT_SECRET);
+// Renew the app token this long before it expires
+const TOKEN_RENEW_MS = 5 * 60 * 1000;
+
+let tokenCache: { token: string; expiresAt: number } | null = null;
+
+const getAppToken = async () => {
+  if (tokenCache && Date.now() < tokenCache.expiresAt - TOKEN_RENEW_MS) return tokenCache.token;
+  if (!TENANT_ID || !CLIENT_ID || !CLIENT_SECRET) {
+    throw new Error('DATAVERSE_TENANT_ID, DATAVERSE_CLIENT_ID and DATAVERSE_CLIENT_SECRET must be configured.');
+  }
+  const response = await fetch(`https://login.microsoftonline.com/${TENANT_ID}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: CLIENT_ID,
+      client_secret: CLIENT_SECRET,
+      scope: `${DATAVERSE_URL}/.default`
+    })
+  });
+  if (!response.ok) throw new Error(`Failed to get a Dataverse token: ${response.status}`);
+  const { access_token, expires_in } = await response.json();
+  tokenCache = { token: access_token, expiresAt: Date.now() + Number(expires_in || 0) * 1000 };
+  return tokenCache.token;
+};
+
+let client: ReturnType<typeof createDataverseClient> | null = null;
+
+/**
+ * Returns the shared client, or null when Dataverse is not configured
+ */
+export const getDataverseClient = () => {
+  if (!DATAVERSE_URL) return null;
+  if (!client) {
+    client = createDataverseClient({
+      baseUrl: `${DATAVERSE_URL}/api/data/${DATAVERSE_API_VERSION}`,
+      getToken: getAppToken
+    });
+  }
+  return client;
+};
+
+/**
+ * Finds the caller's team member row by user id, then by the email an unclaimed invitation was sent to.
+ * Returns null when the caller is not on the team.
+ */
+export const findTeamMember = async (
+  dataverse: ReturnType<typeof createDataverseClient>,
+  caller: { id: string; email?: string }
+): Promise<TeamMember | null> => {
+  const userIdColumn = teamMemberFieldMap.fields.userId.column;
+  const emailColumn = teamMemberFieldMap.fields.email.column;
+  const filter = caller.email
+    ? `${userIdColumn} eq ${odataString(caller.id)} or ${emailColumn} eq ${odataString(caller.email.trim().toLowerCase())}`
+    : `${userIdColumn} eq ${odataString(caller.id)}`;
+  const members = (
+    await dataverse.list(teamMemberFieldMap.entitySet, {
+      select: selectColumns(teamMemberFieldMap),
+      filter
+    })
+  ).map((record) => fromDataverseRecord(teamMemberFieldMap, record));
+  // A row already claimed by another account is not the caller's, whatever its email
+  return members.find((member) => member.userId === caller.id) || members.find((member) => !member.userId) || null;
+};
+
+/**
+ * Lists the business's custom roles
+ */
+export const listTeamRoles = async (dataverse: ReturnType<typeof createDataverseClient>): Promise<TeamRole[]> =>
+  (
+    await dataverse.list(teamRoleFieldMap.entitySet, {
+      select: selectColumns(teamRoleFieldMap)
+    })
+  ).map((record) => fromDataverseRecord(teamRoleFieldMap, record));
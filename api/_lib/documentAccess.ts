@@ -0,0 +1,48 @@
+// api/_lib/documentAccess.ts
+/**
+ * Who may read, share, delete or restore a stored blob.
+ *
+ * Notes:
+ * - Uploads made for a business entity carry its id in blob metadata (`entityid`), so the whole
+ *   team works on them: any caller whose role or active team membership grants the capability
+ *   (see api/_lib/permissions.ts), not just the uploader
+ * - Blobs without an entity (uploaded before entities were recorded, or by a caller who is not on
+ *   the team) stay private to their uploader (`ownerid`); blobs with neither, from before owners
+ *   were recorded, cannot be opened through the API at all
+ * - A caller whose permissions are only the DEFAULT_ROLE fallback is not on the team, so their
+ *   uploads are never tagged with an entity
+ */
+
+import { BlobClient } from '@azure/storage-blob';
+import { Caller } from './auth.js';
+import { getCallerPermissions } from './permissions.js';
+import { HttpError } from './storage.js';
+import { Capability, hasCapability } from '../../src/utils/permissions.js';
+
+const isTeamCaller = async (caller: Caller) => (await getCallerPermissions(caller)).source !== 'default';
+
+/**
+ * The entity to record on a new upload, or undefined when the caller cannot upload for the team
+ */
+export const getUploadEntityId = async (caller: Caller, entityId?: unknown) => {
+  if (typeof entityId !== 'string' || !entityId.trim()) return undefined;
+  return (await isTeamCaller(caller)) ? entityId.trim() : undefined;
+};
+
+/**
+ * Loads a blob's metadata and throws unless the caller may use it for the capability
+ */
+export const assertDocumentAccess = async (blobClient: BlobClient, caller: Caller, capability: Capability) => {
+  let metadata: Record<string, string>;
+  try {
+    metadata = (await blobClient.getProperties()).metadata || {};
+  } catch (e: any) {
+    if (e?.statusCode === 404) throw new HttpError(404, 'Blob not found');
+    throw e;
+  }
+  const allowed = metadata.entityid
+    ? (await isTeamCaller(caller)) && hasCapability(await getCallerPermissions(caller), capability)
+    : metadata.ownerid === caller.id;
+  if (!allowed) throw new HttpError(403, 'You do not have access to this document');
+  return metadata;
+};
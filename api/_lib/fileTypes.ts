@@ -0,0 +1,103 @@
+// api/_lib/fileTypes.ts
+/**
+ * Magic-byte content sniffing for uploads.
+ * The declared type (from the browser or formidable) is only trusted when the file's leading bytes
+ * and extension agree with it, and it is on the shared ALLOWED_FILE_TYPES list.
+ */
+
+import { Buffer } from 'buffer';
+import { ALLOWED_FILE_TYPES } from '../../src/components/Chat/types.js';
+
+// Bytes needed to recognise every signature below
+export const SNIFF_BYTES = 8192;
+
+type Family = 'jpeg' | 'png' | 'gif' | 'pdf' | 'ole2' | 'zip' | 'rar' | 'text';
+
+const SIGNATURES: { family: Family; bytes: number[] }[] = [
+  { family: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { family: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { family: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { family: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  // Legacy Office (doc/xls/ppt) compound file
+  { family: 'ole2', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  // OOXML (docx/xlsx/pptx) and plain zip archives
+  { family: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { family: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] }
+];
+
+// Executables and scripts are rejected outright, whatever they are named
+const BLOCKED_SIGNATURES: number[][] = [
+  [0x4d, 0x5a], // MZ (Windows PE)
+  [0x7f, 0x45, 0x4c, 0x46], // ELF
+  [0xcf, 0xfa, 0xed, 0xfe], // Mach-O
+  [0xca, 0xfe, 0xba, 0xbe], // Mach-O universal / Java class
+  [0x23, 0x21] // #! script
+];
+
+// Allowed types with the container family and extensions each must match
+const TYPE_RULES: Record<string, { family: Family; extensions: string[] }> = {
+  'image/jpeg': { family: 'jpeg', extensions: ['jpg', 'jpeg'] },
+  'image/png': { family: 'png', extensions: ['png'] },
+  'image/gif': { family: 'gif', extensions: ['gif'] },
+  'application/pdf': { family: 'pdf', extensions: ['pdf'] },
+  'application/msword': { family: 'ole2', extensions: ['doc'] },
+  'application/vnd.ms-excel': { family: 'ole2', extensions: ['xls'] },
+  'application/vnd.ms-powerpoint': { family: 'ole2', extensions: ['ppt'] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { family: 'zip', extensions: ['docx'] },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { family: 'zip', extensions: ['xlsx'] },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': { family: 'zip', extensions: ['pptx'] },
+  'application/zip': { family: 'zip', extensions: ['zip'] },
+  'application/x-rar-compressed': { family: 'rar', extensions: ['rar'] },
+  'text/plain': { family: 'text', extensions: ['txt', 'csv'] }
+};
+
+const startsWith = (head: Buffer, bytes: number[]) =>
+  head.length >= bytes.length && bytes.every((byte, i) => head[i] === byte);
+
+const looksLikeText = (head: Buffer) => {
+  if (head.includes(0)) return false;
+  // Reject if more than 5% of the sample is control characters other than tab/CR/LF
+  let control = 0;
+  for (const byte of head) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) control++;
+  }
+  return control <= head.length * 0.05;
+};
+
+const sniffFamily = (head: Buffer): Family | null => {
+  const match = SIGNATURES.find((signature) => startsWith(head, signature.bytes));
+  if (match) return match.family;
+  return looksLikeText(head) ? 'text' : null;
+};
+
+const getExtension = (fileName: string) => (fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '');
+
+export type FileTypeCheck =
+  | { ok: true; contentType: string }
+  | { ok: false; reason: string };
+
+/**
+ * Works out the real content type of an upload from its leading bytes
+ * @param head At least the first SNIFF_BYTES bytes of the file (or the whole file if shorter)
+ * @param fileName Original file name; its extension must agree with the content
+ * @param declaredType Type reported by the browser, used to tell apart formats sharing a container
+ */
+export const checkFileType = (head: Buffer, fileName: string, declaredType?: string): FileTypeCheck => {
+  if (head.length === 0) return { ok: false, reason: 'File is empty' };
+  if (BLOCKED_SIGNATURES.some((bytes) => startsWith(head, bytes))) {
+    return { ok: false, reason: 'Executable files are not allowed' };
+  }
+  const family = sniffFamily(head);
+  if (!family) return { ok: false, reason: 'Unrecognised file content' };
+
+  const extension = getExtension(fileName);
+  const candidates = Object.entries(TYPE_RULES).filter(
+    ([type, rule]) => rule.family === family && rule.extensions.includes(extension) && ALLOWED_FILE_TYPES.includes(type)
+  );
+  if (candidates.length === 0) {
+    return { ok: false, reason: `File content does not match an allowed type for .${extension || '(none)'}` };
+  }
+  const declared = (declaredType || '').split(';')[0].trim().toLowerCase();
+  const [contentType] = candidates.find(([type]) => type === declared) || candidates[0];
+  return { ok: true, contentType };
+};
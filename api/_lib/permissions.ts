@@ -0,0 +1,65 @@
+// api/_lib/permissions.ts
+/**
+ * Capability checks for API callers. Roles and capabilities are defined once in
+ * src/utils/permissions.ts and shared with the portal.
+ *
+ * Notes:
+ * - Resolved in the same order as the portal (src/services/PermissionService.ts): role or
+ *   capability claims on the token, then the caller's team member row when Dataverse is
+ *   configured (see api/_lib/dataverse.ts), then DEFAULT_ROLE (env) or the shared read-only default
+ * - Team members get their role's capabilities only while active, as in TeamService; callers
+ *   who are not on the team get none
+ * - When the team cannot be read the request fails with 503 rather than falling back
+ */
+
+import { Caller } from './auth.js';
+import { findTeamMember, getDataverseClient, listTeamRoles } from './dataverse.js';
+import { HttpError, sanitizeEnv } from './storage.js';
+import {
+  Capability,
+  DEFAULT_ROLE,
+  hasCapability,
+  membershipPermissions,
+  Permissions,
+  resolvePermissions,
+  toRoleName
+} from '../../src/utils/permissions.js';
+
+const FALLBACK_ROLE = sanitizeEnv(process.env.DEFAULT_ROLE) || DEFAULT_ROLE;
+
+export type CallerPermissions = Permissions & { source: 'token' | 'team' | 'default' };
+
+// One lookup per request, however many checks it makes
+const resolved = new WeakMap<Caller, Promise<CallerPermissions>>();
+
+const resolveCallerPermissions = async (caller: Caller): Promise<CallerPermissions> => {
+  if (caller.permissions) return { ...caller.permissions, source: 'token' };
+  const dataverse = getDataverseClient();
+  if (!dataverse) return { ...resolvePermissions([FALLBACK_ROLE]), source: 'default' };
+  try {
+    const member = await findTeamMember(dataverse, caller);
+    const customRoles = member && !toRoleName(member.role) ? await listTeamRoles(dataverse) : [];
+    return { ...membershipPermissions(member, customRoles), source: 'team' };
+  } catch (e) {
+    console.error('Failed to load team membership:', e);
+    throw new HttpError(503, 'Could not load your team membership');
+  }
+};
+
+export const getCallerPermissions = (caller: Caller) => {
+  let permissions = resolved.get(caller);
+  if (!permissions) {
+    permissions = resolveCallerPermissions(caller);
+    resolved.set(caller, permissions);
+  }
+  return permissions;
+};
+
+/**
+ * Throws a 403 HttpError unless the caller has the capability
+ */
+export const requireCapability = async (caller: Caller, capability: Capability) => {
+  if (!hasCapability(await getCallerPermissions(caller), capability)) {
+    throw new HttpError(403, `Your role does not allow ${capability}`);
+  }
+};
@@ -0,0 +1,120 @@
+// api/_lib/sas.ts
+/**
+ * Signs short-lived, blob-scoped SAS URLs.
+ *
+ * Notes:
+ * - With AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_CLIENT_SECRET set, tokens are user-delegation SAS
+ *   (signed with a delegation key; the service principal needs "Storage Blob Delegator" on the account)
+ * - Otherwise tokens are signed with AZURE_STORAGE_ACCOUNT_KEY
+ * - The static SAS_TOKEN fallback cannot sign new tokens, so SAS issuing requires one of the above
+ */
+
+import { AccessToken, TokenCredential } from '@azure/core-auth';
+import {
+  BlobSASPermissions,
+  BlobServiceClient,
+  SASProtocol,
+  StorageSharedKeyCredential,
+  UserDelegationKey,
+  generateBlobSASQueryParameters
+} from '@azure/storage-blob';
+import {
+  STORAGE_ACCOUNT_NAME,
+  CONTAINER_NAME,
+  STORAGE_ACCOUNT_KEY,
+  getBlobUrl,
+  sanitizeEnv
+} from './storage.js';
+
+const TENANT_ID = sanitizeEnv(process.env.AZURE_TENANT_ID);
+const CLIENT_ID = sanitizeEnv(process.env.AZURE_CLIENT_ID);
+const CLIENT_SECRET = sanitizeEnv(process.env.AZURE_CLIENT_SECRET);
+
+export const MAX_SAS_MINUTES = 60;
+// Allows for clock skew between this function and the storage service
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type SasPermission = 'read' | 'create';
+
+export interface SasOptions {
+  permission: SasPermission;
+  expiryMinutes: number;
+  /** Overrides Content-Disposition on download, e.g. `attachment; filename="license.pdf"` */
+  contentDisposition?: string;
+  contentType?: string;
+}
+
+// Minimal client-credentials TokenCredential for the storage resource
+class ClientSecretTokenCredential implements TokenCredential {
+  async getToken(scopes: string | string[]): Promise<AccessToken | null> {
+    const scope = Array.isArray(scopes) ? scopes.join(' ') : scopes;
+    const response = await fetch(`https://login.microsoftonline.com/${TENANT_ID}/oauth2/v2.0/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+        scope
+      })
+    });
+    if (!response.ok) throw new Error(`Failed to acquire storage token: ${response.status}`);
+    const { access_token, expires_in } = await response.json();
+    return { token: access_token, expiresOnTimestamp: Date.now() + expires_in * 1000 };
+  }
+}
+
+const isUserDelegationConfigured = () => Boolean(TENANT_ID && CLIENT_ID && CLIENT_SECRET);
+
+// Delegation keys are valid for up to 7 days; reuse one across warm invocations until it is close to expiry
+let delegationKeyCache: UserDelegationKey | null = null;
+
+const getDelegationKey = async (expiresOn: Date) => {
+  if (delegationKeyCache && new Date(delegationKeyCache.signedExpiresOn).getTime() > expiresOn.getTime()) {
+    return delegationKeyCache;
+  }
+  const serviceClient = new BlobServiceClient(
+    `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net`,
+    new ClientSecretTokenCredential()
+  );
+  const startsOn = new Date(Date.now() - CLOCK_SKEW_MS);
+  const keyExpiresOn = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  delegationKeyCache = await serviceClient.getUserDelegationKey(startsOn, keyExpiresOn);
+  return delegationKeyCache;
+};
+
+export const canIssueSas = () => isUserDelegationConfigured() || Boolean(STORAGE_ACCOUNT_KEY);
+
+/**
+ * Returns a blob URL carrying a SAS token limited to one blob, one permission and a short expiry
+ */
+export const signBlobUrl = async (blobName: string, options: SasOptions) => {
+  if (!canIssueSas()) {
+    throw new Error('SAS issuing requires AZURE_STORAGE_ACCOUNT_KEY or a service principal for user delegation.');
+  }
+  const minutes = Math.min(Math.max(1, options.expiryMinutes), MAX_SAS_MINUTES);
+  const startsOn = new Date(Date.now() - CLOCK_SKEW_MS);
+  const expiresOn = new Date(Date.now() + minutes * 60 * 1000);
+  const values = {
+    containerName: CONTAINER_NAME,
+    blobName,
+    // create (not write) so an issued upload URL can never overwrite an existing blob
+    permissions: BlobSASPermissions.parse(options.permission === 'read' ? 'r' : 'c'),
+    startsOn,
+    expiresOn,
+    protocol: SASProtocol.Https,
+    contentDisposition: options.contentDisposition,
+    contentType: options.contentType
+  };
+  const query = isUserDelegationConfigured()
+    ? generateBlobSASQueryParameters(values, await getDelegationKey(expiresOn), STORAGE_ACCOUNT_NAME)
+    : generateBlobSASQueryParameters(values, new StorageSharedKeyCredential(STORAGE_ACCOUNT_NAME, STORAGE_ACCOUNT_KEY));
+  return { url: `${getBlobUrl(blobName)}?${query.toString()}`, expiresOn: expiresOn.toISOString() };
+};
+
+// RFC 6266 header value; the ASCII fallback keeps older clients working
+export const buildContentDisposition = (disposition: 'inline' | 'attachment', fileName?: string) => {
+  if (!fileName) return disposition;
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
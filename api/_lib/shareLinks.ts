@@ -0,0 +1,240 @@
+// api/_lib/shareLinks.ts
+/**
+ * Share links: expiring, optionally password-protected links to one document blob.
+ *
+ * Each link is a JSON record stored under the `shares/` prefix, named after a random id that is
+ * also the link token. The record holds the expiry, download limit, a scrypt hash of the password
+ * (never the password itself) and the access log. Records carry `shareownerid`, not `ownerid`,
+ * so they can never be signed for reading through api/storage/sas.
+ *
+ * Notes:
+ * - Entity documents are shared by the team: anyone with documents:share on the document can create,
+ *   list and revoke its links (see api/_lib/documentAccess.ts); other links belong to their creator
+ * - Updates use the record's ETag, so concurrent downloads cannot both take the last download
+ * - SHARE_MAX_DAYS caps how long a link can live (default 30 days)
+ */
+
+import { Buffer } from 'buffer';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { ContainerClient } from '@azure/storage-blob';
+import { Caller } from './auth.js';
+import { assertDocumentAccess } from './documentAccess.js';
+import { AnyRequest, HttpError } from './storage.js';
+import { INCOMING_PREFIX, QUARANTINE_PREFIX } from './uploadPolicy.js';
+import { DELETED_PREFIX } from './softDelete.js';
+
+export const SHARES_PREFIX = 'shares/';
+export const MAX_SHARE_DAYS = Number(process.env.SHARE_MAX_DAYS) || 30;
+// Failed password attempts before a link stops accepting passwords
+export const MAX_PASSWORD_ATTEMPTS = 10;
+export const MIN_PASSWORD_LENGTH = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LOG_ENTRIES = 500;
+const MAX_UPDATE_ATTEMPTS = 5;
+// Expiries are computed in the browser; allow for its clock running ahead of ours
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export type ShareAccessOutcome = 'download' | 'denied';
+
+export interface ShareAccess {
+  at: string;
+  ip: string;
+  userAgent: string;
+  outcome: ShareAccessOutcome;
+  /** Why access was denied, e.g. "invalid password" */
+  reason?: string;
+}
+
+export interface ShareRecord {
+  id: string;
+  blobName: string;
+  fileName: string;
+  ownerId: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Null means unlimited downloads until expiry */
+  maxDownloads: number | null;
+  downloadCount: number;
+  failedAttempts: number;
+  /** `salt:hash`, both base64url */
+  passwordHash: string | null;
+  revokedAt: string | null;
+  accessLog: ShareAccess[];
+}
+
+export type ShareStatus = 'active' | 'expired' | 'revoked' | 'exhausted' | 'locked';
+
+const toRecordName = (id: string) => `${SHARES_PREFIX}${id}.json`;
+
+const isValidShareId = (id: string) => /^[A-Za-z0-9_-]{16,64}$/.test(id);
+
+export const getShareStatus = (record: ShareRecord, now = Date.now()): ShareStatus => {
+  if (record.revokedAt) return 'revoked';
+  if (new Date(record.expiresAt).getTime() <= now) return 'expired';
+  if (record.maxDownloads !== null && record.downloadCount >= record.maxDownloads) return 'exhausted';
+  if (record.passwordHash && record.failedAttempts >= MAX_PASSWORD_ATTEMPTS) return 'locked';
+  return 'active';
+};
+
+// The owner's view of a link; the password hash never leaves the server
+export const toShareSummary = (record: ShareRecord) => {
+  const { passwordHash, ...rest } = record;
+  return { ...rest, hasPassword: !!passwordHash, status: getShareStatus(record) };
+};
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `${salt.toString('base64url')}:${hash.toString('base64url')}`;
+};
+
+export const verifySharePassword = async (record: ShareRecord, password: string) => {
+  if (!record.passwordHash) return true;
+  const [salt, hash] = record.passwordHash.split(':');
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+const writeRecord = async (containerClient: ContainerClient, record: ShareRecord, etag?: string) => {
+  const body = JSON.stringify(record);
+  await containerClient.getBlockBlobClient(toRecordName(record.id)).upload(body, Buffer.byteLength(body), {
+    blobHTTPHeaders: { blobContentType: 'application/json' },
+    metadata: {
+      shareownerid: record.ownerId,
+      blobname: encodeURIComponent(record.blobName)
+    },
+    conditions: etag ? { ifMatch: etag } : { ifNoneMatch: '*' }
+  });
+};
+
+const readRecord = async (containerClient: ContainerClient, id: string) => {
+  if (!isValidShareId(id)) throw new HttpError(404, 'Share link not found');
+  try {
+    const response = await containerClient.getBlobClient(toRecordName(id)).download();
+    const chunks: Buffer[] = [];
+    for await (const chunk of response.readableStreamBody as AsyncIterable<Buffer | string>) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return { record: JSON.parse(Buffer.concat(chunks).toString('utf8')) as ShareRecord, etag: response.etag };
+  } catch (e: any) {
+    if (e?.statusCode === 404) throw new HttpError(404, 'Share link not found');
+    throw e;
+  }
+};
+
+export const getShareRecord = async (containerClient: ContainerClient, id: string) =>
+  (await readRecord(containerClient, id)).record;
+
+/**
+ * Reads a record, applies `update` and writes it back if the record is unchanged in between;
+ * retries on conflict. `update` may throw to abort without writing.
+ */
+export const updateShareRecord = async (
+  containerClient: ContainerClient,
+  id: string,
+  update: (record: ShareRecord) => ShareRecord | Promise<ShareRecord>
+) => {
+  for (let attempt = 1; ; attempt++) {
+    const { record, etag } = await readRecord(containerClient, id);
+    const next = await update(record);
+    next.accessLog = next.accessLog.slice(-MAX_LOG_ENTRIES);
+    try {
+      await writeRecord(containerClient, next, etag);
+      return next;
+    } catch (e: any) {
+      if (e?.statusCode !== 412 || attempt >= MAX_UPDATE_ATTEMPTS) throw e;
+    }
+  }
+};
+
+export interface CreateShareOptions {
+  blobName: string;
+  fileName?: string;
+  expiresAt: string;
+  password?: string;
+  maxDownloads?: number | null;
+}
+
+export const createShare = async (containerClient: ContainerClient, options: CreateShareOptions, caller: Caller) => {
+  const { blobName } = options;
+  if ([INCOMING_PREFIX, QUARANTINE_PREFIX, DELETED_PREFIX, SHARES_PREFIX].some((prefix) => blobName.startsWith(prefix))) {
+    throw new HttpError(403, 'This file cannot be shared');
+  }
+  const metadata = await assertDocumentAccess(containerClient.getBlobClient(blobName), caller, 'documents:share');
+  if (metadata.scanstatus !== 'clean') throw new HttpError(409, 'This file has not passed upload checks yet');
+
+  const expiresAt = new Date(options.expiresAt);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+    throw new HttpError(400, 'expiresAt must be a future date');
+  }
+  if (expiresAt.getTime() - Date.now() > MAX_SHARE_DAYS * DAY_MS + CLOCK_SKEW_MS) {
+    throw new HttpError(400, `Share links can last at most ${MAX_SHARE_DAYS} days`);
+  }
+  if (options.password && options.password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const maxDownloads = options.maxDownloads == null ? null : Number(options.maxDownloads);
+  if (maxDownloads !== null && (!Number.isInteger(maxDownloads) || maxDownloads < 1)) {
+    throw new HttpError(400, 'maxDownloads must be a positive whole number');
+  }
+
+  const record: ShareRecord = {
+    id: randomBytes(24).toString('base64url'),
+    blobName,
+    fileName: options.fileName || blobName.split('/').pop() || 'document',
+    ownerId: caller.id,
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    maxDownloads,
+    downloadCount: 0,
+    failedAttempts: 0,
+    passwordHash: options.password ? await hashPassword(options.password) : null,
+    revokedAt: null,
+    accessLog: []
+  };
+  await writeRecord(containerClient, record);
+  return record;
+};
+
+// Team members who may share an entity document manage every link to it, not only their own
+const canManageTeamShares = async (containerClient: ContainerClient, blobName: string, caller: Caller) => {
+  try {
+    const metadata = await assertDocumentAccess(containerClient.getBlobClient(blobName), caller, 'documents:share');
+    return Boolean(metadata.entityid);
+  } catch (e) {
+    if (e instanceof HttpError && (e.statusCode === 403 || e.statusCode === 404)) return false;
+    throw e;
+  }
+};
+
+// Links to one blob the caller may manage, newest first
+export const listShares = async (containerClient: ContainerClient, blobName: string, caller: Caller) => {
+  const records: ShareRecord[] = [];
+  const encoded = encodeURIComponent(blobName);
+  const teamShares = await canManageTeamShares(containerClient, blobName, caller);
+  for await (const blob of containerClient.listBlobsFlat({ prefix: SHARES_PREFIX, includeMetadata: true })) {
+    if (blob.metadata?.blobname !== encoded) continue;
+    if (!teamShares && blob.metadata?.shareownerid !== caller.id) continue;
+    const id = blob.name.slice(SHARES_PREFIX.length).replace(/\.json$/, '');
+    records.push(await getShareRecord(containerClient, id));
+  }
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const revokeShare = async (containerClient: ContainerClient, id: string, caller: Caller) =>
+  updateShareRecord(containerClient, id, async (record) => {
+    if (record.ownerId !== caller.id && !(await canManageTeamShares(containerClient, record.blobName, caller))) {
+      throw new HttpError(403, 'You do not have access to this share link');
+    }
+    return record.revokedAt ? record : { ...record, revokedAt: new Date().toISOString() };
+  });
+
+// Who is asking: the first x-forwarded-for hop is the client on Vercel
+export const describeRequester = (req: AnyRequest) => ({
+  ip: (req.headers['x-forwarded-for'] || '').split(',')[0].trim() || req.headers['x-real-ip'] || req.socket?.remoteAddress || '',
+  userAgent: (req.headers['user-agent'] || '').slice(0, 512)
+});
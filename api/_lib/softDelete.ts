@@ -0,0 +1,78 @@
+// api/_lib/softDelete.ts
+/**
+ * Soft-delete helpers shared by the delete, restore and purge functions.
+ *
+ * Deleted blobs are moved under the `deleted/` prefix with their original name kept in metadata,
+ * and are purged once the retention window has passed.
+ *
+ * Notes:
+ * - Deleting, restoring and purging need the documents:delete capability on entity documents
+ *   (see api/_lib/documentAccess.ts)
+ * - DELETE_RETENTION_DAYS sets the retention window (default 30 days)
+ */
+
+import { ContainerClient } from '@azure/storage-blob';
+import { Caller } from './auth.js';
+import { assertDocumentAccess } from './documentAccess.js';
+import { HttpError, moveBlob } from './storage.js';
+
+export const DELETED_PREFIX = 'deleted/';
+export const RETENTION_DAYS = Number(process.env.DELETE_RETENTION_DAYS) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SOFT_DELETE_KEYS = ['originalname', 'deletedat', 'deletedby', 'purgeafter'];
+
+export const toDeletedName = (blobName: string) => `${DELETED_PREFIX}${blobName}`;
+
+export const softDeleteBlob = async (containerClient: ContainerClient, blobName: string, caller: Caller) => {
+  if (blobName.startsWith(DELETED_PREFIX)) throw new HttpError(400, 'Blob is already deleted');
+  const metadata = await assertDocumentAccess(containerClient.getBlobClient(blobName), caller, 'documents:delete');
+  const deletedAt = new Date();
+  const purgeAfter = new Date(deletedAt.getTime() + RETENTION_DAYS * DAY_MS);
+  await moveBlob(containerClient, blobName, toDeletedName(blobName), {
+    ...metadata,
+    originalname: encodeURIComponent(blobName),
+    deletedat: deletedAt.toISOString(),
+    deletedby: caller.id,
+    purgeafter: purgeAfter.toISOString()
+  });
+  return { blobName, deletedAt: deletedAt.toISOString(), purgeAfter: purgeAfter.toISOString() };
+};
+
+export const restoreBlob = async (containerClient: ContainerClient, blobName: string, caller: Caller) => {
+  const deletedName = toDeletedName(blobName);
+  const deletedMetadata = await assertDocumentAccess(containerClient.getBlobClient(deletedName), caller, 'documents:delete');
+  const { purgeafter } = deletedMetadata;
+  if (purgeafter && new Date(purgeafter).getTime() < Date.now()) {
+    throw new HttpError(410, 'Retention window has passed; the document can no longer be restored');
+  }
+  if (await containerClient.getBlobClient(blobName).exists()) {
+    throw new HttpError(409, 'A document with this name already exists');
+  }
+  const metadata = Object.fromEntries(
+    Object.entries(deletedMetadata).filter(([key]) => !SOFT_DELETE_KEYS.includes(key))
+  );
+  await moveBlob(containerClient, deletedName, blobName, metadata);
+  return { blobName };
+};
+
+export const purgeBlob = async (containerClient: ContainerClient, blobName: string, caller: Caller) => {
+  const deletedClient = containerClient.getBlobClient(toDeletedName(blobName));
+  await assertDocumentAccess(deletedClient, caller, 'documents:delete');
+  await deletedClient.delete({ deleteSnapshots: 'include' });
+  return { blobName };
+};
+
+// Permanently removes every soft-deleted blob whose retention window has passed
+export const purgeExpired = async (containerClient: ContainerClient) => {
+  const purged: string[] = [];
+  const now = Date.now();
+  for await (const blob of containerClient.listBlobsFlat({ prefix: DELETED_PREFIX, includeMetadata: true })) {
+    const purgeAfter = blob.metadata?.purgeafter;
+    if (purgeAfter && new Date(purgeAfter).getTime() < now) {
+      await containerClient.getBlobClient(blob.name).delete({ deleteSnapshots: 'include' });
+      purged.push(blob.name);
+    }
+  }
+  return purged;
+};
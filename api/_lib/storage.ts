@@ -0,0 +1,131 @@
+// api/_lib/storage.ts
+/**
+ * Shared helpers for the storage serverless functions.
+ * Files under api/_lib are not deployed as routes (Vercel ignores underscore-prefixed paths).
+ *
+ * Notes:
+ * - Set STORAGE_ACCOUNT_NAME, CONTAINER_NAME, AZURE_STORAGE_ACCOUNT_KEY in Vercel environment variables
+ * - Keep AZURE_STORAGE_ACCOUNT_KEY secret (do NOT expose to the browser)
+ */
+
+import { Buffer } from 'buffer';
+import {
+  StorageSharedKeyCredential,
+  BlobServiceClient,
+  ContainerClient
+} from '@azure/storage-blob';
+
+export const sanitizeEnv = (v?: string) => (v || '').toString().trim().replace(/^["']|["'];?$/g, '');
+
+export const STORAGE_ACCOUNT_NAME = sanitizeEnv(process.env.STORAGE_ACCOUNT_NAME || process.env.VITE_STORAGE_ACCOUNT_NAME);
+export const CONTAINER_NAME = sanitizeEnv(process.env.CONTAINER_NAME || process.env.VITE_CONTAINER_NAME);
+export const STORAGE_ACCOUNT_KEY = sanitizeEnv(process.env.AZURE_STORAGE_ACCOUNT_KEY);
+// Optional static SAS fallback — only if you plan to use it
+export const SAS_TOKEN = sanitizeEnv(process.env.SAS_TOKEN || process.env.VITE_SAS_TOKEN).replace(/^\?/, '');
+
+if (!STORAGE_ACCOUNT_NAME || !CONTAINER_NAME) {
+  // Will still compile and deploy; you will see warnings in logs if these are missing.
+  console.warn('Missing STORAGE_ACCOUNT_NAME or CONTAINER_NAME env vars.');
+}
+
+export type AnyRequest = {
+  method?: string;
+  headers: Record<string, string | undefined> & { host?: string; 'x-forwarded-proto'?: string };
+  url?: string;
+  // Node request is async iterable for the body
+  [key: string]: any;
+};
+
+export type AnyResponse = {
+  status?: (code: number) => AnyResponse;
+  json?: (body: any) => void;
+  setHeader?: (k: string, v: string) => void;
+  end?: (body?: any) => void;
+  [key: string]: any;
+};
+
+// Error carrying the HTTP status the handler should respond with
+export class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const getServiceClient = (): BlobServiceClient => {
+  const credential = new StorageSharedKeyCredential(STORAGE_ACCOUNT_NAME!, STORAGE_ACCOUNT_KEY);
+  return new BlobServiceClient(`https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net`, credential);
+};
+
+// Container client; uses the account key when present, otherwise the static SAS token
+export const getContainerClient = (): ContainerClient => {
+  if (STORAGE_ACCOUNT_KEY) {
+    return getServiceClient().getContainerClient(CONTAINER_NAME!);
+  }
+  if (SAS_TOKEN) {
+    return new ContainerClient(`https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}?${SAS_TOKEN}`);
+  }
+  throw new Error('No AZURE_STORAGE_ACCOUNT_KEY or SAS_TOKEN available.');
+};
+
+// Server-side copy followed by delete; blobs in the same account copy without moving bytes through the function
+export const moveBlob = async (
+  containerClient: ContainerClient,
+  sourceName: string,
+  targetName: string,
+  metadata: Record<string, string>
+) => {
+  const source = containerClient.getBlobClient(sourceName);
+  const target = containerClient.getBlobClient(targetName);
+  const poller = await target.beginCopyFromURL(source.url, { metadata });
+  await poller.pollUntilDone();
+  await source.delete({ deleteSnapshots: 'include' });
+};
+
+// Public (unsigned) URL of a blob; path separators are kept so prefixes stay readable
+export const getBlobUrl = (blobName: string) =>
+  `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${blobName.split('/').map(encodeURIComponent).join('/')}`;
+
+// Build URL from request to properly read query params
+export const getRequestUrl = (req: AnyRequest): URL => {
+  const proto = req.headers['x-forwarded-proto'] || 'https';
+  const host = req.headers.host || 'localhost';
+  return new URL(`${proto}://${host}${req.url || ''}`);
+};
+
+export const readBody = async (req: AnyRequest, limit: number): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of req as any) {
+    const buf = typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk);
+    total += buf.length;
+    if (total > limit) {
+      throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+    }
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks);
+};
+
+const MAX_JSON_BODY = 64 * 1024;
+
+export const readJsonBody = async (req: AnyRequest): Promise<Record<string, any>> => {
+  // Some runtimes pre-parse JSON bodies
+  if (req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body)) return req.body;
+  const body = await readBody(req, MAX_JSON_BODY);
+  try {
+    return body.length ? JSON.parse(body.toString('utf8')) : {};
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+export const sendError = (res: AnyResponse, err: any, context: string) => {
+  console.error(`${context} error:`, err);
+  try {
+    res.status?.(err?.statusCode || 500);
+    res.json?.({ error: err?.message || 'Storage error' });
+  } catch {
+    // swallow
+  }
+};
@@ -0,0 +1,155 @@
+// api/_lib/uploadPolicy.ts
+/**
+ * Upload rules shared by every upload path (multipart, raw, chunked and direct SAS):
+ * - per-route size limits
+ * - collision-free blob names under a tenant/user prefix
+ * - finalizeUpload: size check, magic-byte sniffing and malware scan before a blob is usable
+ * - purgeAbandonedUploads: removes direct uploads that were never verified (INCOMING_RETENTION_HOURS, default 24)
+ *
+ * Blob metadata `scanstatus` is "pending" until finalizeUpload marks it "clean";
+ * read SAS URLs are only issued for clean blobs.
+ */
+
+import { randomUUID } from 'crypto';
+import { ContainerClient } from '@azure/storage-blob';
+import { Caller } from './auth.js';
+import { checkFileType, SNIFF_BYTES } from './fileTypes.js';
+import { getMalwareScanner } from './scan.js';
+import { HttpError, moveBlob } from './storage.js';
+
+const MB = 1024 * 1024;
+
+// Maximum upload size per route, in bytes
+export const UPLOAD_LIMITS = {
+  documents: 100 * MB,
+  profile: 10 * MB,
+  chat: 10 * MB
+};
+
+export type UploadRoute = keyof typeof UPLOAD_LIMITS;
+
+// Direct (SAS) uploads land here and are moved to their final name once verified
+export const INCOMING_PREFIX = 'incoming/';
+// Unverified uploads older than this are abandoned; upload SAS URLs live at most an hour
+export const INCOMING_RETENTION_HOURS = Number(process.env.INCOMING_RETENTION_HOURS) || 24;
+// Blobs that fail the malware scan are kept here for review, never served
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+export const resolveUploadRoute = (value?: string | null): UploadRoute => {
+  const route = value || 'documents';
+  if (!(route in UPLOAD_LIMITS)) throw new HttpError(400, `Unknown upload route: ${route}`);
+  return route as UploadRoute;
+};
+
+export const assertWithinLimit = (route: UploadRoute, size: number) => {
+  if (size > UPLOAD_LIMITS[route]) {
+    throw new HttpError(413, `File exceeds the ${UPLOAD_LIMITS[route] / MB}MB limit for ${route} uploads`);
+  }
+};
+
+const safeSegment = (value: string) => value.replace(/[^\w.-]+/g, '_');
+
+export const getOwnerPrefix = (caller: Caller) => `${safeSegment(caller.tenantId || 'default')}/${safeSegment(caller.id)}/`;
+
+export const isOwnPath = (blobName: string, caller: Caller) => blobName.startsWith(getOwnerPrefix(caller));
+
+/**
+ * e.g. "<tenant>/<user>/documents/<uuid>-Trade_License.pdf"
+ */
+export const createBlobName = (caller: Caller, route: UploadRoute, fileName: string) =>
+  `${getOwnerPrefix(caller)}${route}/${randomUUID()}-${safeSegment(fileName) || 'upload'}`;
+
+/**
+ * The route a blob was named under by createBlobName, or null for a name that is not the caller's
+ */
+export const getBlobRoute = (blobName: string, caller: Caller): UploadRoute | null => {
+  if (!isOwnPath(blobName, caller)) return null;
+  const route = blobName.slice(getOwnerPrefix(caller).length).split('/')[0];
+  return route in UPLOAD_LIMITS ? (route as UploadRoute) : null;
+};
+
+/**
+ * Metadata of a new upload; entityId comes from getUploadEntityId (see api/_lib/documentAccess.ts)
+ */
+export const pendingMetadata = (caller: Caller, fileName: string, entityId?: string): Record<string, string> => ({
+  ownerid: caller.id,
+  ...(entityId ? { entityid: entityId } : {}),
+  originalfilename: encodeURIComponent(fileName),
+  scanstatus: 'pending'
+});
+
+export interface FinalizeOptions {
+  route: UploadRoute;
+  fileName: string;
+  declaredType?: string;
+}
+
+/**
+ * Verifies an uploaded blob in place. Blobs with the wrong content are deleted (415),
+ * oversized ones are deleted (413) and infected ones are quarantined (422).
+ * @returns The sniffed content type, which is also written to the blob's headers
+ */
+export const finalizeUpload = async (containerClient: ContainerClient, blobName: string, options: FinalizeOptions) => {
+  const blobClient = containerClient.getBlobClient(blobName);
+  const properties = await blobClient.getProperties();
+  const { contentLength = 0, metadata = {} } = properties;
+  const reject = async (error: HttpError) => {
+    await blobClient.deleteIfExists({ deleteSnapshots: 'include' });
+    throw error;
+  };
+
+  if (contentLength === 0) return reject(new HttpError(400, 'File is empty'));
+  if (contentLength > UPLOAD_LIMITS[options.route]) {
+    return reject(new HttpError(413, `File exceeds the ${UPLOAD_LIMITS[options.route] / MB}MB limit for ${options.route} uploads`));
+  }
+
+  const head = await blobClient.downloadToBuffer(0, Math.min(SNIFF_BYTES, contentLength));
+  const check = checkFileType(head, options.fileName, options.declaredType);
+  if (!check.ok) return reject(new HttpError(415, check.reason));
+
+  const scanner = getMalwareScanner();
+  const result = await scanner.scan({
+    blobName,
+    size: contentLength,
+    openStream: async () => {
+      const download = await blobClient.download();
+      if (!download.readableStreamBody) throw new Error('Blob download returned no stream');
+      return download.readableStreamBody;
+    }
+  });
+  if (!result.clean) {
+    await moveBlob(containerClient, blobName, `${QUARANTINE_PREFIX}${blobName}`, {
+      ...metadata,
+      scanstatus: 'infected',
+      scanner: scanner.name,
+      threat: result.threat || 'unknown',
+      scannedat: new Date().toISOString()
+    });
+    throw new HttpError(422, 'File failed the malware scan and has been quarantined');
+  }
+
+  // setHTTPHeaders replaces every header, so carry the others over
+  await blobClient.setHTTPHeaders({
+    blobCacheControl: properties.cacheControl,
+    blobContentDisposition: properties.contentDisposition,
+    blobContentEncoding: properties.contentEncoding,
+    blobContentLanguage: properties.contentLanguage,
+    blobContentMD5: properties.contentMD5,
+    blobContentType: check.contentType
+  });
+  await blobClient.setMetadata({ ...metadata, scanstatus: 'clean', scanner: scanner.name });
+  return { blobName, contentType: check.contentType, size: contentLength };
+};
+
+// Deletes direct uploads that were never verified within INCOMING_RETENTION_HOURS
+export const purgeAbandonedUploads = async (containerClient: ContainerClient) => {
+  const purged: string[] = [];
+  const cutoff = Date.now() - INCOMING_RETENTION_HOURS * 60 * 60 * 1000;
+  for await (const blob of containerClient.listBlobsFlat({ prefix: INCOMING_PREFIX })) {
+    if (blob.properties.lastModified.getTime() < cutoff) {
+      await containerClient.getBlobClient(blob.name).deleteIfExists({ deleteSnapshots: 'include' });
+      purged.push(blob.name);
+    }
+  }
+  return purged;
+};
@@ -0,0 +1,34 @@
+// api/profile/permissions.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Returns the signed-in user's roles and capabilities
+ *
+ * Behavior:
+ * - GET with `Authorization: Bearer <id token>` -> { roles, capabilities, source }
+ *   `source` is "token" when the token carried role claims, "team" when they came from the
+ *   caller's team member row, otherwise "default" (see api/_lib/permissions.ts)
+ *
+ * Notes:
+ * - The portal calls this when neither the id token nor the team could be read (see src/services/PermissionService.ts)
+ */
+
+import { AnyRequest, AnyResponse, sendError } from '../../_lib/storage.js';
+import { requireCaller } from '../../_lib/auth.js';
+import { getCallerPermissions } from '../../_lib/permissions.js';
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'GET') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+
+    const caller = await requireCaller(req);
+    res.setHeader?.('Cache-Control', 'no-store');
+    res.status?.(200);
+    res.json?.(await getCallerPermissions(caller));
+  } catch (err: any) {
+    sendError(res, err, 'api/profile/permissions');
+  }
+}
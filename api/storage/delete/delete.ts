@@ -0,0 +1,51 @@
+// api/storage/delete.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Soft-deletes a document blob: it is moved under `deleted/` and kept for the retention window
+ *
+ * Behavior:
+ * - DELETE (or POST) { blobName } or ?blobName=... -> { blobName, deletedAt, purgeAfter }
+ * - Requires `Authorization: Bearer <id token>` and the documents:delete capability; entity documents can be
+ *   deleted by the team, others only by their uploader (see api/_lib/documentAccess.ts)
+ *
+ * Notes:
+ * - DELETE_RETENTION_DAYS sets how long deleted blobs can be restored (default 30)
+ * - See api/storage/restore and api/storage/purge for the matching endpoints
+ */
+
+import {
+  AnyRequest,
+  AnyResponse,
+  getContainerClient,
+  getRequestUrl,
+  readJsonBody,
+  sendError
+} from '../../_lib/storage.js';
+import { requireCaller } from '../../_lib/auth.js';
+import { requireCapability } from '../../_lib/permissions.js';
+import { softDeleteBlob } from '../../_lib/softDelete.js';
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'DELETE' && req.method !== 'POST') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+
+    const caller = await requireCaller(req);
+    await requireCapability(caller, 'documents:delete');
+    const blobName = getRequestUrl(req).searchParams.get('blobName') || (await readJsonBody(req)).blobName;
+    if (!blobName) {
+      res.status?.(400);
+      res.json?.({ error: 'blobName required' });
+      return;
+    }
+
+    const result = await softDeleteBlob(getContainerClient(), blobName, caller);
+    res.status?.(200);
+    res.json?.(result);
+  } catch (err: any) {
+    sendError(res, err, 'api/storage/delete');
+  }
+}
@@ -0,0 +1,67 @@
+// api/storage/purge.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Permanently removes soft-deleted document blobs
+ *
+ * Behavior:
+ * - POST { blobName } with `Authorization: Bearer <id token>` -> purges one deleted blob the caller owns
+ *   (requires the documents:delete capability)
+ * - GET or POST with `Authorization: Bearer <CRON_SECRET>` -> purges every blob past its retention window
+ *   and every direct upload under incoming/ that was never verified (suitable for a Vercel cron job)
+ *   -> { purged, abandonedUploads }
+ */
+
+import {
+  AnyRequest,
+  AnyResponse,
+  getContainerClient,
+  readJsonBody,
+  sanitizeEnv,
+  sendError
+} from '../../_lib/storage.js';
+import { requireCaller } from '../../_lib/auth.js';
+import { requireCapability } from '../../_lib/permissions.js';
+import { purgeBlob, purgeExpired } from '../../_lib/softDelete.js';
+import { purgeAbandonedUploads } from '../../_lib/uploadPolicy.js';
+
+const CRON_SECRET = sanitizeEnv(process.env.CRON_SECRET);
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+
+    if (CRON_SECRET && req.headers.authorization === `Bearer ${CRON_SECRET}`) {
+      const containerClient = getContainerClient();
+      const purged = await purgeExpired(containerClient);
+      const abandonedUploads = await purgeAbandonedUploads(containerClient);
+      res.status?.(200);
+      res.json?.({ purged, abandonedUploads });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.status?.(401);
+      res.json?.({ error: 'Unauthorized' });
+      return;
+    }
+
+    const caller = await requireCaller(req);
+    await requireCapability(caller, 'documents:delete');
+    const { blobName } = await readJsonBody(req);
+    if (!blobName) {
+      res.status?.(400);
+      res.json?.({ error: 'blobName required' });
+      return;
+    }
+
+    const result = await purgeBlob(getContainerClient(), blobName, caller);
+    res.status?.(200);
+    res.json?.(result);
+  } catch (err: any) {
+    sendError(res, err, 'api/storage/purge');
+  }
+}
@@ -0,0 +1,47 @@
+// api/storage/restore.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Restores a soft-deleted document blob to its original name
+ *
+ * Behavior:
+ * - POST { blobName } -> { blobName }
+ * - 410 once the retention window has passed, 409 if the original name is taken again
+ * - Requires `Authorization: Bearer <id token>` and the documents:delete capability; entity documents can be
+ *   restored by the team, others only by their uploader (see api/_lib/documentAccess.ts)
+ */
+
+import {
+  AnyRequest,
+  AnyResponse,
+  getContainerClient,
+  readJsonBody,
+  sendError
+} from '../../_lib/storage.js';
+import { requireCaller } from '../../_lib/auth.js';
+import { requireCapability } from '../../_lib/permissions.js';
+import { restoreBlob } from '../../_lib/softDelete.js';
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'POST') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+
+    const caller = await requireCaller(req);
+    await requireCapability(caller, 'documents:delete');
+    const { blobName } = await readJsonBody(req);
+    if (!blobName) {
+      res.status?.(400);
+      res.json?.({ error: 'blobName required' });
+      return;
+    }
+
+    const result = await restoreBlob(getContainerClient(), blobName, caller);
+    res.status?.(200);
+    res.json?.(result);
+  } catch (err: any) {
+    sendError(res, err, 'api/storage/restore');
+  }
+}
@@ -0,0 +1,103 @@
+// api/storage/sas.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Issues short-lived SAS URLs so the browser never sees storage keys or long-lived links
+ *
+ * Behavior:
+ * - POST { blobName, permission: 'read', disposition?: 'inline' | 'attachment', fileName?, expiryMinutes? }
+ *   -> { url, expiresOn }        (entity documents need documents:view, others only their uploader)
+ * - POST { permission: 'create', fileName, contentType?, size?, route?, expiryMinutes? }
+ *   -> { url, blobName, expiresOn, headers }                  (a new, server-named blob under incoming/)
+ *   Needs the documents:upload capability. Send the returned headers with the PUT, then call
+ *   api/storage/upload?action=verify with the blobName; until then the blob cannot be read.
+ * - Requires `Authorization: Bearer <id token>`
+ *
+ * Notes:
+ * - Expiry defaults to 10 minutes and is capped at 60 (see api/_lib/sas.ts for signing options)
+ */
+
+import {
+  AnyRequest,
+  AnyResponse,
+  HttpError,
+  getContainerClient,
+  readJsonBody,
+  sendError
+} from '../../_lib/storage.js';
+import { requireCaller } from '../../_lib/auth.js';
+import { assertDocumentAccess } from '../../_lib/documentAccess.js';
+import { requireCapability } from '../../_lib/permissions.js';
+import { buildContentDisposition, signBlobUrl } from '../../_lib/sas.js';
+import { SHARES_PREFIX } from '../../_lib/shareLinks.js';
+import { DELETED_PREFIX } from '../../_lib/softDelete.js';
+import {
+  INCOMING_PREFIX,
+  QUARANTINE_PREFIX,
+  assertWithinLimit,
+  createBlobName,
+  resolveUploadRoute
+} from '../../_lib/uploadPolicy.js';
+
+const DEFAULT_EXPIRY_MINUTES = 10;
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'POST') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+    // SAS URLs are credentials; never let a proxy or the browser cache them
+    res.setHeader?.('Cache-Control', 'no-store');
+
+    const caller = await requireCaller(req);
+    const body = await readJsonBody(req);
+    const expiryMinutes = Number(body.expiryMinutes) || DEFAULT_EXPIRY_MINUTES;
+
+    if (body.permission === 'create') {
+      await requireCapability(caller, 'documents:upload');
+      if (!body.fileName) {
+        res.status?.(400);
+        res.json?.({ error: 'fileName required' });
+        return;
+      }
+      const route = resolveUploadRoute(body.route);
+      assertWithinLimit(route, Number(body.size) || 0);
+      const blobName = `${INCOMING_PREFIX}${createBlobName(caller, route, String(body.fileName))}`;
+      const signed = await signBlobUrl(blobName, { permission: 'create', expiryMinutes });
+      res.status?.(200);
+      res.json?.({
+        ...signed,
+        blobName,
+        headers: {
+          'x-ms-blob-type': 'BlockBlob',
+          'x-ms-blob-content-type': body.contentType || 'application/octet-stream'
+        }
+      });
+      return;
+    }
+
+    if (body.permission !== 'read' || !body.blobName) {
+      res.status?.(400);
+      res.json?.({ error: "permission must be 'read' (with blobName) or 'create' (with fileName)" });
+      return;
+    }
+    const blobName = String(body.blobName);
+    // Unverified, quarantined and soft-deleted blobs and share records are never handed out
+    if ([INCOMING_PREFIX, QUARANTINE_PREFIX, DELETED_PREFIX, SHARES_PREFIX].some((prefix) => blobName.startsWith(prefix))) {
+      throw new HttpError(403, 'This file is not available for download');
+    }
+    const metadata = await assertDocumentAccess(getContainerClient().getBlobClient(blobName), caller, 'documents:view');
+    if (metadata.scanstatus !== 'clean') throw new HttpError(409, 'This file has not passed upload checks yet');
+    const disposition = body.disposition === 'inline' ? 'inline' : 'attachment';
+    const signed = await signBlobUrl(blobName, {
+      permission: 'read',
+      expiryMinutes,
+      contentDisposition: buildContentDisposition(disposition, body.fileName)
+    });
+    res.status?.(200);
+    res.json?.(signed);
+  } catch (err: any) {
+    sendError(res, err, 'api/storage/sas');
+  }
+}
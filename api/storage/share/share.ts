@@ -0,0 +1,81 @@
+// api/storage/share.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Manages share links for documents (see api/storage/shared for the public side)
+ *
+ * Behavior:
+ * - POST { blobName, fileName?, expiresAt, password?, maxDownloads? }
+ *   -> the new link, including its `id` (the token in /share/<id>)
+ * - GET ?blobName=...              -> { shares } the links to that blob the caller manages, with access logs
+ * - POST ?action=revoke { id }     -> the revoked link
+ * - Requires `Authorization: Bearer <id token>` and the documents:share capability to create links;
+ *   entity documents can be shared by the team, others only by their uploader (see api/_lib/shareLinks.ts)
+ *
+ * Notes:
+ * - Passwords are stored as scrypt hashes and never returned
+ * - SHARE_MAX_DAYS caps the expiry (default 30 days)
+ */
+
+import {
+  AnyRequest,
+  AnyResponse,
+  HttpError,
+  getContainerClient,
+  getRequestUrl,
+  readJsonBody,
+  sendError
+} from '../../_lib/storage.js';
+import { requireCaller } from '../../_lib/auth.js';
+import { requireCapability } from '../../_lib/permissions.js';
+import { createShare, listShares, revokeShare, toShareSummary } from '../../_lib/shareLinks.js';
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+    res.setHeader?.('Cache-Control', 'no-store');
+
+    const caller = await requireCaller(req);
+    const url = getRequestUrl(req);
+    const containerClient = getContainerClient();
+
+    if (req.method === 'GET') {
+      const blobName = url.searchParams.get('blobName');
+      if (!blobName) throw new HttpError(400, 'blobName required');
+      const shares = await listShares(containerClient, blobName, caller);
+      res.status?.(200);
+      res.json?.({ shares: shares.map(toShareSummary) });
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (url.searchParams.get('action') === 'revoke') {
+      if (!body.id) throw new HttpError(400, 'id required');
+      const record = await revokeShare(containerClient, String(body.id), caller);
+      res.status?.(200);
+      res.json?.(toShareSummary(record));
+      return;
+    }
+
+    await requireCapability(caller, 'documents:share');
+    if (!body.blobName || !body.expiresAt) throw new HttpError(400, 'blobName and expiresAt required');
+    const record = await createShare(
+      containerClient,
+      {
+        blobName: String(body.blobName),
+        fileName: body.fileName ? String(body.fileName) : undefined,
+        expiresAt: String(body.expiresAt),
+        password: body.password ? String(body.password) : undefined,
+        maxDownloads: body.maxDownloads ?? null
+      },
+      caller
+    );
+    res.status?.(201);
+    res.json?.(toShareSummary(record));
+  } catch (err: any) {
+    sendError(res, err, 'api/storage/share');
+  }
+}
@@ -0,0 +1,124 @@
+// api/storage/shared.ts
+/**
+ * Vercel serverless function (TypeScript)
+ * - Resolves share links created with api/storage/share; no sign-in required
+ *
+ * Behavior:
+ * - GET ?token=...                 -> { fileName, expiresAt, requiresPassword, status }
+ * - POST { token, password? }      -> { url, expiresOn } a read SAS URL for a single download
+ *   Each successful resolve counts as one download; every attempt, including those refused because
+ *   the link is revoked, expired, used up or locked, is logged (timestamp, IP, user agent, reason)
+ *   in the link's access log.
+ * - 401 for a wrong password, 410 once the link is revoked, expired, used up or locked
+ *
+ * Notes:
+ * - The SAS URL is attachment-only and lives SHARED_SAS_MINUTES (default 2). Until then it is a
+ *   bearer link: anyone holding it can fetch the file again, and those fetches are neither counted
+ *   nor logged. Download limits and the access log therefore count resolves, not bytes served
+ */
+
+import {
+  AnyRequest,
+  AnyResponse,
+  HttpError,
+  getContainerClient,
+  getRequestUrl,
+  readJsonBody,
+  sendError
+} from '../../_lib/storage.js';
+import { buildContentDisposition, signBlobUrl } from '../../_lib/sas.js';
+import {
+  MAX_PASSWORD_ATTEMPTS,
+  ShareAccess,
+  describeRequester,
+  getShareRecord,
+  getShareStatus,
+  updateShareRecord,
+  verifySharePassword
+} from '../../_lib/shareLinks.js';
+
+const SAS_MINUTES = Number(process.env.SHARED_SAS_MINUTES) || 2;
+
+// Access log reasons for links that can no longer be used
+const UNAVAILABLE_REASONS = {
+  revoked: 'revoked',
+  expired: 'expired',
+  exhausted: 'download limit reached',
+  locked: 'locked'
+};
+
+const UNAVAILABLE_MESSAGES = {
+  revoked: 'This link has been revoked',
+  expired: 'This link has expired',
+  exhausted: 'This link has reached its download limit',
+  locked: 'This link is locked after too many wrong passwords'
+};
+
+export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      res.status?.(405);
+      res.json?.({ error: 'Method not allowed' });
+      return;
+    }
+    res.setHeader?.('Cache-Control', 'no-store');
+    const containerClient = getContainerClient();
+
+    if (req.method === 'GET') {
+      const token = getRequestUrl(req).searchParams.get('token');
+      if (!token) throw new HttpError(400, 'token required');
+      const record = await getShareRecord(containerClient, token);
+      res.status?.(200);
+      res.json?.({
+        fileName: record.fileName,
+        expiresAt: record.expiresAt,
+        requiresPassword: !!record.passwordHash,
+        status: getShareStatus(record)
+      });
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    if (!body.token) throw new HttpError(400, 'token required');
+    const requester = describeRequester(req);
+    let denial = null as HttpError | null;
+
+    const record = await updateShareRecord(containerClient, String(body.token), async (current) => {
+      denial = null;
+      const access: ShareAccess = { at: new Date().toISOString(), ...requester, outcome: 'download' };
+      const deny = (error: HttpError, reason: string) => {
+        denial = error;
+        return { ...current, accessLog: [...current.accessLog, { ...access, outcome: 'denied' as const, reason }] };
+      };
+      const status = getShareStatus(current);
+      if (status !== 'active') return deny(new HttpError(410, UNAVAILABLE_MESSAGES[status]), UNAVAILABLE_REASONS[status]);
+      if (!(await containerClient.getBlobClient(current.blobName).exists())) {
+        return deny(new HttpError(410, 'This document is no longer available'), 'document unavailable');
+      }
+      if (!(await verifySharePassword(current, String(body.password || '')))) {
+        const failedAttempts = current.failedAttempts + 1;
+        denial = new HttpError(
+          401,
+          failedAttempts >= MAX_PASSWORD_ATTEMPTS ? UNAVAILABLE_MESSAGES.locked : 'Incorrect password'
+        );
+        return {
+          ...current,
+          failedAttempts,
+          accessLog: [...current.accessLog, { ...access, outcome: 'denied', reason: 'invalid password' }]
+        };
+      }
+      return { ...current, downloadCount: current.downloadCount + 1, accessLog: [...current.accessLog, access] };
+    });
+    if (denial) throw denial;
+
+    const signed = await signBlobUrl(record.blobName, {
+      permission: 'read',
+      expiryMinutes: SAS_MINUTES,
+      contentDisposition: buildContentDisposition('attachment', record.fileName)
+    });
+    res.status?.(200);
+    res.json?.(signed);
+  } catch (err: any) {
+    sendError(res, err, 'api/storage/shared');
+  }
+}
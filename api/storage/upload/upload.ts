@@ -6,20 +6,59 @@
  *
  * Behavior:
  * - multipart/form-data -> parsed by formidable -> each uploaded file is read and uploaded to Azure
- * - raw binary body -> require ?blobName=... or x-blob-name header
+ * - raw binary body -> require ?blobName=... or x-blob-name header (used as the file name)
+ * - resumable block uploads (large files):
+ *   - POST ?action=init   { fileName, contentType, size, route, entityId? } -> { uploadId, blobName, chunkSize }
+ *   - PUT  ?uploadId=..&blockIndex=N   raw chunk body      -> stageBlock
+ *   - GET  ?uploadId=..                                    -> { stagedBlocks: number[] } (used to resume)
+ *   - POST ?action=commit { uploadId, blockCount, contentType } -> commitBlockList -> { url }
+ * - POST ?action=verify { blobName, fileName, contentType, route, entityId? } -> finalizes a direct SAS upload
+ *   (see api/storage/sas) -> { url, blobName }
+ * - every path requires `Authorization: Bearer <id token>` and the documents:upload capability; blobs
+ *   are named under the caller's tenant/user prefix and go through api/_lib/uploadPolicy.ts (size limit, content sniffing, malware scan)
+ * - `entityId` (a form field or query parameter for multipart and raw uploads) records the business entity the
+ *   file belongs to, which opens it to the team (see api/_lib/documentAccess.ts)
  *
  * Notes:
  * - Set STORAGE_ACCOUNT_NAME, CONTAINER_NAME, AZURE_STORAGE_ACCOUNT_KEY in Vercel environment variables
  * - Keep AZURE_STORAGE_ACCOUNT_KEY secret (do NOT expose to the browser)
+ * - UPLOAD_SIGNING_SECRET signs upload ids (defaults to AZURE_STORAGE_ACCOUNT_KEY)
  */
 
 import formidable, { File as FormidableFile } from 'formidable';
 import fs from 'fs/promises';
 import { Buffer } from 'buffer';
+import { createHmac, timingSafeEqual } from 'crypto';
 import {
-  StorageSharedKeyCredential,
-  BlobServiceClient
-} from '@azure/storage-blob';
+  STORAGE_ACCOUNT_KEY,
+  SAS_TOKEN,
+  AnyRequest,
+  AnyResponse,
+  HttpError,
+  getContainerClient,
+  getBlobUrl,
+  getRequestUrl,
+  moveBlob,
+  readBody,
+  readJsonBody,
+  sanitizeEnv,
+  sendError
+} from '../../_lib/storage.js';
+import { Caller, requireCaller } from '../../_lib/auth.js';
+import { getUploadEntityId } from '../../_lib/documentAccess.js';
+import { requireCapability } from '../../_lib/permissions.js';
+import {
+  INCOMING_PREFIX,
+  UPLOAD_LIMITS,
+  UploadRoute,
+  assertWithinLimit,
+  createBlobName,
+  finalizeUpload,
+  getBlobRoute,
+  isOwnPath,
+  pendingMetadata,
+  resolveUploadRoute
+} from '../../_lib/uploadPolicy.js';
 
 export const config = {
   api: {
@@ -27,31 +66,19 @@ export const config = {
   },
 };
 
-const sanitizeEnv = (v?: string) => (v || '').toString().trim().replace(/^["']|["'];?$/g, '');
-
-const STORAGE_ACCOUNT_NAME = sanitizeEnv(process.env.STORAGE_ACCOUNT_NAME || process.env.VITE_STORAGE_ACCOUNT_NAME);
-const CONTAINER_NAME = sanitizeEnv(process.env.CONTAINER_NAME || process.env.VITE_CONTAINER_NAME);
-const STORAGE_ACCOUNT_KEY = sanitizeEnv(process.env.AZURE_STORAGE_ACCOUNT_KEY);
-// Optional static SAS fallback — only if you plan to use it
-const SAS_TOKEN = sanitizeEnv(process.env.SAS_TOKEN || process.env.VITE_SAS_TOKEN).replace(/^\?/, '');
-
 const AZURE_STORAGE_API_VERSION = '2020-10-02';
 
-if (!STORAGE_ACCOUNT_NAME || !CONTAINER_NAME) {
-  // Will still compile and deploy; you will see warnings in logs if these are missing.
-  console.warn('Missing STORAGE_ACCOUNT_NAME or CONTAINER_NAME env vars.');
-}
+// Vercel caps request bodies at 4.5MB, so block chunks stay just under that.
+const CHUNK_SIZE = 4 * 1024 * 1024;
 
-const uploadBufferToBlob = async (buffer: Buffer, blobName: string, contentType?: string): Promise<string> => {
+const uploadBufferToBlob = async (buffer: Buffer, blobName: string, contentType?: string, metadata?: Record<string, string>): Promise<string> => {
   // Prefer server-side StorageSharedKeyCredential for uploads (do not expose the key to client).
   if (!STORAGE_ACCOUNT_KEY && !SAS_TOKEN) {
     throw new Error('No AZURE_STORAGE_ACCOUNT_KEY or SAS_TOKEN available for upload.');
   }
 
   if (STORAGE_ACCOUNT_KEY) {
-    const credential = new StorageSharedKeyCredential(STORAGE_ACCOUNT_NAME!, STORAGE_ACCOUNT_KEY);
-    const serviceClient = new BlobServiceClient(`https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net`, credential);
-    const containerClient = serviceClient.getContainerClient(CONTAINER_NAME!);
+    const containerClient = getContainerClient();
 
     try {
       await containerClient.createIfNotExists();
@@ -61,16 +88,15 @@ const uploadBufferToBlob = async (buffer: Buffer, blobName: string, contentType?
 
     const blockBlobClient = containerClient.getBlockBlobClient(blobName);
     await blockBlobClient.uploadData(buffer, {
-      blobHTTPHeaders: { blobContentType: contentType || 'application/octet-stream' }
+      blobHTTPHeaders: { blobContentType: contentType || 'application/octet-stream' },
+      metadata
     });
 
-    const safeName = encodeURIComponent(blobName);
-    return `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${safeName}`;
+    return getBlobUrl(blobName);
   }
 
   // Fallback: use static SAS token (less secure; SAS_TOKEN must be configured)
-  const safeName = encodeURIComponent(blobName);
-  const urlWithSas = `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${safeName}?${SAS_TOKEN}`;
+  const urlWithSas = `${getBlobUrl(blobName)}?${SAS_TOKEN}`;
   // see if this will deploy
   const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
   const res = await fetch(urlWithSas, {
@@ -80,6 +106,7 @@ const uploadBufferToBlob = async (buffer: Buffer, blobName: string, contentType?
       'x-ms-version': AZURE_STORAGE_API_VERSION,
       'Content-Type': contentType || 'application/octet-stream',
       'x-ms-blob-content-type': contentType || 'application/octet-stream',
+      ...Object.fromEntries(Object.entries(metadata || {}).map(([k, v]) => [`x-ms-meta-${k}`, v])),
     },
     body: arrayBuffer as unknown as ArrayBuffer,
   });
@@ -87,40 +114,212 @@ const uploadBufferToBlob = async (buffer: Buffer, blobName: string, contentType?
     const text = await res.text().catch(() => '');
     throw new Error(`Fallback SAS upload failed: ${res.status} ${res.statusText} ${text}`);
   }
-  return `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${safeName}`;
+  return getBlobUrl(blobName);
+};
+
+// Block ids must be base64 and of equal length for every block of a blob
+const toBlockId = (index: number) => Buffer.from(`block-${String(index).padStart(6, '0')}`).toString('base64');
+const fromBlockId = (blockId: string) => parseInt(Buffer.from(blockId, 'base64').toString().replace('block-', ''), 10);
+
+// The upload id is an opaque token for the upload's blob name, route, file name and entity,
+// so no server-side session state is needed. It is HMAC-signed, so none of them can be
+// altered by the client, and it lapses with the uncommitted blocks Azure keeps for 7 days.
+interface UploadSession {
+  blobName: string;
+  route: UploadRoute;
+  fileName: string;
+  entityId?: string;
+  issuedAt: number;
+}
+
+const UPLOAD_SESSION_MS = 7 * 24 * 60 * 60 * 1000;
+const UPLOAD_SIGNING_KEY = sanitizeEnv(process.env.UPLOAD_SIGNING_SECRET) || STORAGE_ACCOUNT_KEY;
+
+const signUploadPayload = (payload: string) => {
+  if (!UPLOAD_SIGNING_KEY) throw new Error('UPLOAD_SIGNING_SECRET (or AZURE_STORAGE_ACCOUNT_KEY) must be configured.');
+  return createHmac('sha256', UPLOAD_SIGNING_KEY).update(payload).digest('base64url');
+};
+
+const encodeUploadId = (session: UploadSession) => {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${signUploadPayload(payload)}`;
+};
+
+const decodeUploadId = (uploadId: string, caller: Caller): UploadSession => {
+  const [payload, signature = ''] = uploadId.split('.');
+  const expected = Buffer.from(signUploadPayload(payload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) throw new HttpError(400, 'Invalid uploadId');
+  let session: UploadSession;
+  try {
+    session = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new HttpError(400, 'Invalid uploadId');
+  }
+  if (!session?.blobName || !isOwnPath(session.blobName, caller)) throw new HttpError(403, 'Upload belongs to another user');
+  if (getBlobRoute(session.blobName, caller) !== session.route) throw new HttpError(400, 'Invalid uploadId');
+  if (!(Date.now() - session.issuedAt < UPLOAD_SESSION_MS)) throw new HttpError(410, 'Upload session has expired');
+  return session;
+};
+
+const initChunkedUpload = async (req: AnyRequest, res: AnyResponse, caller: Caller) => {
+  const { fileName, size, route: routeName, entityId } = await readJsonBody(req);
+  if (!fileName) {
+    res.status?.(400);
+    res.json?.({ error: 'fileName required' });
+    return;
+  }
+  const route = resolveUploadRoute(routeName);
+  assertWithinLimit(route, Number(size) || 0);
+  const blobName = createBlobName(caller, route, String(fileName));
+  const containerClient = getContainerClient();
+  try {
+    await containerClient.createIfNotExists();
+  } catch (e) {
+    // ignore creation errors (container may already exist or permission limited)
+  }
+  res.status?.(201);
+  const session = {
+    blobName,
+    route,
+    fileName: String(fileName),
+    entityId: await getUploadEntityId(caller, entityId),
+    issuedAt: Date.now()
+  };
+  res.json?.({ uploadId: encodeUploadId(session), blobName, chunkSize: CHUNK_SIZE });
+};
+
+const getChunkedUploadStatus = async (uploadId: string, res: AnyResponse, caller: Caller) => {
+  const { blobName } = decodeUploadId(uploadId, caller);
+  const blockBlobClient = getContainerClient().getBlockBlobClient(blobName);
+  let stagedBlocks: number[] = [];
+  try {
+    const blockList = await blockBlobClient.getBlockList('uncommitted');
+    stagedBlocks = (blockList.uncommittedBlocks || []).map((block) => fromBlockId(block.name));
+  } catch (e: any) {
+    // no blocks staged yet
+    if (e?.statusCode !== 404) throw e;
+  }
+  res.status?.(200);
+  res.json?.({ uploadId, stagedBlocks });
+};
+
+const stageChunk = async (req: AnyRequest, res: AnyResponse, caller: Caller, uploadId: string, blockIndex: number) => {
+  const { blobName, route } = decodeUploadId(uploadId, caller);
+  // Refuse blocks past the route's size limit rather than staging them until commit
+  if (blockIndex * CHUNK_SIZE >= UPLOAD_LIMITS[route]) throw new HttpError(413, 'Block is beyond the size limit for this upload');
+  const buffer = await readBody(req, CHUNK_SIZE);
+  if (buffer.length === 0) {
+    res.status?.(400);
+    res.json?.({ error: 'No body provided for block upload' });
+    return;
+  }
+  const blockBlobClient = getContainerClient().getBlockBlobClient(blobName);
+  await blockBlobClient.stageBlock(toBlockId(blockIndex), buffer, buffer.length);
+  res.status?.(200);
+  res.json?.({ uploadId, blockIndex, size: buffer.length });
 };
 
-type AnyRequest = {
-  method?: string;
-  headers: Record<string, string | undefined> & { host?: string; 'x-forwarded-proto'?: string };
-  url?: string;
-  // Node request is async iterable for the body
-  [key: string]: any;
+const commitChunkedUpload = async (req: AnyRequest, res: AnyResponse, caller: Caller) => {
+  const { uploadId, blockCount, contentType } = await readJsonBody(req);
+  const count = Number(blockCount);
+  if (!uploadId || !Number.isInteger(count) || count < 1) {
+    res.status?.(400);
+    res.json?.({ error: 'uploadId and blockCount required' });
+    return;
+  }
+  const { blobName, route, fileName, entityId } = decodeUploadId(uploadId, caller);
+  const containerClient = getContainerClient();
+  const blockIds = Array.from({ length: count }, (_, index) => toBlockId(index));
+  await containerClient.getBlockBlobClient(blobName).commitBlockList(blockIds, {
+    blobHTTPHeaders: { blobContentType: 'application/octet-stream' },
+    // The upload id is not trusted to say the caller is still on the team
+    metadata: pendingMetadata(caller, fileName, await getUploadEntityId(caller, entityId))
+  });
+  const result = await finalizeUpload(containerClient, blobName, { route, fileName, declaredType: contentType });
+  res.status?.(201);
+  res.json?.({ url: getBlobUrl(blobName), ...result });
 };
 
-type AnyResponse = {
-  status?: (code: number) => AnyResponse;
-  json?: (body: any) => void;
-  setHeader?: (k: string, v: string) => void;
-  end?: (body?: any) => void;
-  [key: string]: any;
+// Moves a direct SAS upload out of incoming/ (where client-set metadata is not trusted) and verifies it
+const verifyDirectUpload = async (req: AnyRequest, res: AnyResponse, caller: Caller) => {
+  const { blobName: incomingName, fileName, contentType, route: routeName, entityId } = await readJsonBody(req);
+  if (!incomingName || !String(incomingName).startsWith(INCOMING_PREFIX)) {
+    res.status?.(400);
+    res.json?.({ error: `blobName under ${INCOMING_PREFIX} required` });
+    return;
+  }
+  const blobName = String(incomingName).slice(INCOMING_PREFIX.length);
+  if (!isOwnPath(blobName, caller)) throw new HttpError(403, 'Upload belongs to another user');
+  // The route was fixed when the SAS URL was issued
+  const route = getBlobRoute(blobName, caller);
+  if (!route || (routeName && resolveUploadRoute(routeName) !== route)) {
+    throw new HttpError(400, 'Upload route does not match the blob');
+  }
+  const name = String(fileName || blobName.split('/').pop());
+  const containerClient = getContainerClient();
+  await moveBlob(containerClient, incomingName, blobName, pendingMetadata(caller, name, await getUploadEntityId(caller, entityId)));
+  const result = await finalizeUpload(containerClient, blobName, {
+    route,
+    fileName: name,
+    declaredType: contentType
+  });
+  res.status?.(201);
+  res.json?.({ url: getBlobUrl(blobName), ...result });
 };
 
 export default async function handler(req: AnyRequest, res: AnyResponse): Promise<void> {
   try {
-    if (req.method !== 'POST') {
+    const urlObj = getRequestUrl(req);
+    const action = urlObj.searchParams.get('action');
+    const uploadId = urlObj.searchParams.get('uploadId');
+
+    if (req.method !== 'POST' && req.method !== 'PUT' && !(req.method === 'GET' && uploadId)) {
       res.status?.(405);
       res.json?.({ error: 'Method not allowed' });
       return;
     }
 
+    const caller = await requireCaller(req);
+    await requireCapability(caller, 'documents:upload');
+    const route = resolveUploadRoute(urlObj.searchParams.get('route'));
+
+    // Resumable block upload protocol
+    if (req.method === 'GET' && uploadId) {
+      await getChunkedUploadStatus(uploadId, res, caller);
+      return;
+    }
+    if (req.method === 'PUT') {
+      const blockIndex = Number(urlObj.searchParams.get('blockIndex'));
+      if (!uploadId || !Number.isInteger(blockIndex) || blockIndex < 0) {
+        res.status?.(400);
+        res.json?.({ error: 'uploadId and blockIndex required for block uploads' });
+        return;
+      }
+      await stageChunk(req, res, caller, uploadId, blockIndex);
+      return;
+    }
+    if (action === 'init') {
+      await initChunkedUpload(req, res, caller);
+      return;
+    }
+    if (action === 'commit') {
+      await commitChunkedUpload(req, res, caller);
+      return;
+    }
+    if (action === 'verify') {
+      await verifyDirectUpload(req, res, caller);
+      return;
+    }
+
+    const containerClient = getContainerClient();
     const contentType = (req.headers['content-type'] || '').toLowerCase();
 
     // Multipart/form-data -> formidable
     if (contentType.startsWith('multipart/form-data')) {
-      const form = formidable({ multiples: true, keepExtensions: true });
+      const form = formidable({ multiples: true, keepExtensions: true, maxFileSize: UPLOAD_LIMITS[route] });
 
-      const { files } = await new Promise<{ fields: Record<string, any>; files: Record<string, FormidableFile | FormidableFile[]> }>((resolve, reject) => {
+      const { fields, files } = await new Promise<{ fields: Record<string, any>; files: Record<string, FormidableFile | FormidableFile[]> }>((resolve, reject) => {
         form.parse(req as any, (err, fields, files) => {
           if (err) return reject(err);
           resolve({ fields, files });
@@ -141,17 +340,23 @@ export default async function handler(req: AnyRequest, res: AnyResponse): Promis
         return;
       }
 
+      const entityId = await getUploadEntityId(caller, [fields.entityId].flat()[0]);
       const urls: string[] = [];
       for (const f of flatFiles) {
         // formidable v3 stores the path in f.filepath
         const pathKey = (f as any).filepath || (f as any).file || (f as any).path;
         if (!pathKey) continue;
-        const buffer = await fs.readFile(pathKey);
-        const blobName = f.originalFilename || f.newFilename || `upload-${Date.now()}`;
-        const url = await uploadBufferToBlob(buffer, blobName, f.mimetype || 'application/octet-stream');
-        urls.push(url);
-        // cleanup temp file
-        await fs.unlink(pathKey).catch(() => {});
+        try {
+          const buffer = await fs.readFile(pathKey);
+          const fileName = f.originalFilename || f.newFilename || `upload-${Date.now()}`;
+          const blobName = createBlobName(caller, route, fileName);
+          const url = await uploadBufferToBlob(buffer, blobName, 'application/octet-stream', pendingMetadata(caller, fileName, entityId));
+          await finalizeUpload(containerClient, blobName, { route, fileName, declaredType: f.mimetype || undefined });
+          urls.push(url);
+        } finally {
+          // cleanup temp file
+          await fs.unlink(pathKey).catch(() => {});
+        }
       }
 
       res.status?.(201);
@@ -160,25 +365,15 @@ export default async function handler(req: AnyRequest, res: AnyResponse): Promis
     }
 
     // Raw binary upload -> require blobName in query or header
-    // Build URL from request to properly read query params
-    const proto = req.headers['x-forwarded-proto'] || 'https';
-    const host = req.headers.host || 'localhost';
-    const reqUrl = `${proto}://${host}${req.url || ''}`;
-    const urlObj = new URL(reqUrl);
-    const blobName = urlObj.searchParams.get('blobName') || req.headers['x-blob-name'];
-    if (!blobName) {
+    const fileName = urlObj.searchParams.get('blobName') || req.headers['x-blob-name'];
+    if (!fileName) {
       res.status?.(400);
       res.json?.({ error: 'blobName required (query or x-blob-name header) for raw uploads' });
       return;
     }
 
     // Read raw body from async iterable request
-    const chunks: Buffer[] = [];
-    for await (const chunk of req as any) {
-      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : Buffer.from(chunk));
-    }
-    const buffer = Buffer.concat(chunks);
-    console.log('buffer', buffer);
+    const buffer = await readBody(req, UPLOAD_LIMITS[route]);
     if (!buffer || buffer.length === 0) {
       res.status?.(400);
       res.json?.({ error: 'No body provided for raw upload' });
@@ -186,17 +381,14 @@ export default async function handler(req: AnyRequest, res: AnyResponse): Promis
     }
 
     const uploadContentType = req.headers['x-upload-content-type'] || req.headers['content-type'] || 'application/octet-stream';
-    const blobUrl = await uploadBufferToBlob(buffer, blobName as string, uploadContentType);
+    const blobName = createBlobName(caller, route, fileName);
+    const entityId = await getUploadEntityId(caller, urlObj.searchParams.get('entityId'));
+    const blobUrl = await uploadBufferToBlob(buffer, blobName, 'application/octet-stream', pendingMetadata(caller, fileName, entityId));
+    await finalizeUpload(containerClient, blobName, { route, fileName, declaredType: uploadContentType });
     res.status?.(201);
     res.json?.({ url: blobUrl });
     return;
   } catch (err: any) {
-    console.error('api/storage/upload error:', err);
-    try {
-      res.status?.(500);
-      res.json?.({ error: err?.message || 'Upload error' });
-    } catch {
-      // swallow
-    }
+    sendError(res, err, 'api/storage/upload');
   }
 }
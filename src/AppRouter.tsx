@@ -2,13 +2,14 @@ import { useState } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { App } from './App';
 import { CourseType } from './utils/mockData';
-import { AuthProvider } from './components/Header';
+import { AuthProvider, EntityProvider, PermissionProvider } from './components/Header';
 import { MarketplaceRouter } from './pages/marketplace/MarketplaceRouter';
 import MarketplaceDetailsPage from './pages/marketplace/MarketplaceDetailsPage';
 import DashboardRouter from './pages/dashboard/DashboardRouter';
 import ProtectedRoute from './components/ProtectedRoute';
 import { DiscoverAbuDhabi } from './pages/discoverAbuDhabi';
 import NotFound from './pages/NotFound';
+import SharedDocumentPage from './pages/SharedDocumentPage';
 import { ApolloClient, InMemoryCache, HttpLink } from '@apollo/client';
 import { ApolloProvider } from '@apollo/client/react';
 import KfBot from "./bot/KfBot";
@@ -42,6 +43,8 @@ export function AppRouter() {
   return <ApolloProvider client={client}>
       <BrowserRouter>
         <AuthProvider>
+        <PermissionProvider>
+        <EntityProvider>
         <KfBot />
           <Routes>
             <Route path="/" element={<App />} />
@@ -50,9 +53,12 @@ export function AppRouter() {
             <Route path="/marketplace/*" element={<MarketplaceRouter />} />
             <Route path="/dashboard/*" element={<ProtectedRoute><DashboardRouter /></ProtectedRoute>} />
             <Route path="/discover-abudhabi" element={<DiscoverAbuDhabi />} />
+            <Route path="/share/:token" element={<SharedDocumentPage />} />
             <Route path="/404" element={<NotFound />} />
             <Route path="*" element={<Navigate to="/404" replace />} />
           </Routes>
+        </EntityProvider>
+        </PermissionProvider>
         </AuthProvider>
       </BrowserRouter>
     </ApolloProvider>
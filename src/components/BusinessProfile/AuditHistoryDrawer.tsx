@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DownloadIcon, HistoryIcon, XIcon } from 'lucide-react';
+import { getProfileAuditEntries, ProfileAuditEntry } from '../../services/DataverseService';
+import { downloadCsv, toCsv } from '../../utils/csv';
+interface AuditHistoryDrawerProps {
+    sectionId: string;
+    sectionTitle: string;
+    // When set, only this field's history is shown
+    fieldName?: string;
+    // Display labels keyed by field name
+    fieldLabels: Record<string, string>;
+    onClose: () => void;
+}
+// Slide-over listing who changed which profile field and when
+export function AuditHistoryDrawer({
+    sectionId,
+    sectionTitle,
+    fieldName,
+    fieldLabels,
+    onClose,
+}: AuditHistoryDrawerProps) {
+    const [entries, setEntries] = useState<ProfileAuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [userFilter, setUserFilter] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    // Load entries for the section or field
+    useEffect(() => {
+        let cancelled = false;
+        const loadEntries = async () => {
+            try {
+                setIsLoading(true);
+                setError(null);
+                const data = await getProfileAuditEntries({ section: sectionId, fieldName });
+                if (!cancelled) setEntries(data);
+            } catch (error) {
+                console.error('Error loading profile history:', error);
+                if (!cancelled) setError('Failed to load history. Please try again.');
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        loadEntries();
+        return () => {
+            cancelled = true;
+        };
+    }, [sectionId, fieldName]);
+    const labelFor = (name: string) => fieldLabels[name] || name;
+    const users = useMemo(
+        () => Array.from(new Set(entries.map((entry) => entry.changedByName))).sort(),
+        [entries],
+    );
+    // Apply text, user and date filters
+    const filteredEntries = entries.filter((entry) => {
+        if (userFilter && entry.changedByName !== userFilter) return false;
+        const day = entry.changedAt.slice(0, 10);
+        if (fromDate && day < fromDate) return false;
+        if (toDate && day > toDate) return false;
+        if (searchTerm) {
+            const term = searchTerm.toLowerCase();
+            return [labelFor(entry.fieldName), entry.oldValue, entry.newValue, entry.changedByName]
+                .some((value) => value.toLowerCase().includes(term));
+        }
+        return true;
+    });
+    // Export the filtered entries
+    const handleExport = () => {
+        const csv = toCsv(filteredEntries, [
+            { header: 'Timestamp', value: (entry) => entry.changedAt },
+            { header: 'Section', value: () => sectionTitle },
+            { header: 'Field', value: (entry) => labelFor(entry.fieldName) },
+            { header: 'Old Value', value: (entry) => entry.oldValue },
+            { header: 'New Value', value: (entry) => entry.newValue },
+            { header: 'Changed By', value: (entry) => entry.changedByName },
+            { header: 'Email', value: (entry) => entry.changedByEmail },
+        ]);
+        const scope = fieldName ? `${sectionId}-${fieldName}` : sectionId;
+        downloadCsv(`profile-history-${scope}-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+    };
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end">
+            <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose}></div>
+            <div
+                className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="audit-history-title"
+            >
+                <div className="flex justify-between items-center p-4 border-b border-gray-200">
+                    <div className="flex items-center">
+                        <HistoryIcon size={18} className="text-gray-500 mr-2" />
+                        <div>
+                            <h2 id="audit-history-title" className="text-lg font-semibold text-gray-800">
+                                History
+                            </h2>
+                            <p className="text-xs text-gray-500">
+                                {sectionTitle}
+                                {fieldName && ` • ${labelFor(fieldName)}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button className="text-gray-500 hover:text-gray-700" onClick={onClose}>
+                        <XIcon size={20} />
+                    </button>
+                </div>
+                <div className="p-4 border-b border-gray-200 space-y-2">
+                    <input
+                        type="text"
+                        className="w-full text-sm border border-gray-300 rounded px-3 py-2"
+                        placeholder="Search fields, values or users"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                    />
+                    <div className="grid grid-cols-3 gap-2">
+                        <select
+                            className="text-sm border border-gray-300 rounded px-2 py-2"
+                            value={userFilter}
+                            onChange={(e) => setUserFilter(e.target.value)}
+                            aria-label="Filter by user"
+                        >
+                            <option value="">All users</option>
+                            {users.map((name) => (
+                                <option key={name} value={name}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="date"
+                            className="text-sm border border-gray-300 rounded px-2 py-2"
+                            value={fromDate}
+                            onChange={(e) => setFromDate(e.target.value)}
+                            aria-label="From date"
+                        />
+                        <input
+                            type="date"
+                            className="text-sm border border-gray-300 rounded px-2 py-2"
+                            value={toDate}
+                            onChange={(e) => setToDate(e.target.value)}
+                            aria-label="To date"
+                        />
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-500">
+                            {filteredEntries.length} of {entries.length} changes
+                        </span>
+                        <button
+                            className="flex items-center px-3 py-1.5 text-xs font-medium text-blue-600 border border-blue-200 rounded hover:bg-blue-50 disabled:opacity-50"
+                            onClick={handleExport}
+                            disabled={filteredEntries.length === 0}
+                        >
+                            <DownloadIcon size={14} className="mr-1" />
+                            Export CSV
+                        </button>
+                    </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+                        </div>
+                    ) : error ? (
+                        <p className="text-sm text-red-600">{error}</p>
+                    ) : filteredEntries.length === 0 ? (
+                        <p className="py-8 text-center text-sm text-gray-500 italic">
+                            {entries.length === 0 ? 'No changes recorded yet' : 'No changes match your filters'}
+                        </p>
+                    ) : (
+                        <ol className="space-y-3">
+                            {filteredEntries.map((entry) => (
+                                <li key={entry.id} className="border border-gray-200 rounded-md p-3 text-sm">
+                                    <div className="flex justify-between items-start mb-2">
+                                        <span className="font-medium text-gray-700">
+                                            {labelFor(entry.fieldName)}
+                                        </span>
+                                        <span className="text-xs text-gray-500 ml-2 whitespace-nowrap">
+                                            {new Date(entry.changedAt).toLocaleString()}
+                                        </span>
+                                    </div>
+                                    <div className="space-y-1">
+                                        {entry.oldValue ? (
+                                            <p className="text-red-700 line-through break-words">{entry.oldValue}</p>
+                                        ) : (
+                                            <p className="text-gray-400 italic">Empty</p>
+                                        )}
+                                        {entry.newValue ? (
+                                            <p className="text-green-700 break-words">{entry.newValue}</p>
+                                        ) : (
+                                            <p className="text-gray-400 italic">Empty</p>
+                                        )}
+                                    </div>
+                                    <p className="mt-2 text-xs text-gray-500">
+                                        {entry.changedByName}
+                                        {entry.changedByEmail && ` (${entry.changedByEmail})`}
+                                    </p>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
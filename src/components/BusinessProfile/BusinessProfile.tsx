@@ -2,6 +2,7 @@ import React, { useEffect, useState, useRef } from 'react';
 import { TabSection } from './TabSection';
 import { TableSection } from './TableSection';
 import { DocumentSection } from './DocumentSection';
+import { ConflictResolutionDialog } from './ConflictResolutionDialog';
 import { mockMultiEntryData, mockDocuments } from '../../utils/mockData';
 import {
   CheckCircleIcon,
@@ -22,9 +23,16 @@ import {
 } from '../../utils/config';
 import {
   fetchBusinessProfileData,
+  saveProfileData,
   calculateSectionCompletion,
   calculateMandatoryCompletion,
 } from '../../services/DataverseService';
+import { ConcurrencyConflictError } from '../../services/dataverse/client';
+import { getProfileValues } from '../../utils/fieldRules';
+import { useAuth } from '../Header/context/AuthContext';
+
+// Automatic merges in a row before a save that keeps conflicting is given up on
+const MAX_MERGE_ATTEMPTS = 3;
 
 export function BusinessProfile({ activeSection = 'profile', toggleSidebar, sidebarOpen }) {
   const [activeTabIndex, setActiveTabIndex] = useState(0);
@@ -32,43 +40,55 @@ export function BusinessProfile({ activeSection = 'profile', toggleSidebar, side
   const [showTabsMenu, setShowTabsMenu] = useState(false);
   const [logoUrl, setLogoUrl] = useState('');
   const [isUploadingLogo, setIsUploadingLogo] = useState(false);
-  const [profileData, setProfileData] = useState(null);
+  const [profileData, setProfileData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [sectionCompletions, setSectionCompletions] = useState({});
   const [mandatoryCompletions, setMandatoryCompletions] = useState({});
   const [missingMandatoryFields, setMissingMandatoryFields] = useState([]);
+  const { user } = useAuth();
+  // Pending merge after a save hit a newer server version
+  const [conflict, setConflict] = useState<any>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [conflictError, setConflictError] = useState<string | null>(null);
 
   const tabsRef = useRef(null);
 
+  // Store profile data and recompute completion stats
+  const applyProfileData = (data) => {
+    setProfileData(data);
+
+    const completions = {};
+    const mandatoryStats = {};
+
+    const values = getProfileValues(data);
+    profileConfig.tabs.forEach((tab) => {
+      const sectionData = data.sections[tab.id] || { fields: {} };
+      completions[tab.id] = calculateSectionCompletion(sectionData);
+      mandatoryStats[tab.id] = calculateMandatoryCompletion(
+        sectionData,
+        tab.id,
+        data.companyStage,
+        profileConfig,
+        values,
+      );
+    });
+
+    setSectionCompletions(completions);
+    setMandatoryCompletions(mandatoryStats);
+
+    const mandatoryFieldsCheck = checkMandatoryFieldsCompletion(
+      data,
+      data.companyStage,
+    );
+    setMissingMandatoryFields(mandatoryFieldsCheck.missing);
+  };
+
   useEffect(() => {
     const loadProfileData = async () => {
       setLoading(true);
       try {
         const data = await fetchBusinessProfileData();
-        setProfileData(data);
-
-        const completions = {};
-        const mandatoryStats = {};
-
-        profileConfig.tabs.forEach((tab) => {
-          const sectionData = data.sections[tab.id] || { fields: {} };
-          completions[tab.id] = calculateSectionCompletion(sectionData);
-          mandatoryStats[tab.id] = calculateMandatoryCompletion(
-            sectionData,
-            tab.id,
-            data.companyStage,
-            profileConfig,
-          );
-        });
-
-        setSectionCompletions(completions);
-        setMandatoryCompletions(mandatoryStats);
-
-        const mandatoryFieldsCheck = checkMandatoryFieldsCompletion(
-          data,
-          data.companyStage,
-        );
-        setMissingMandatoryFields(mandatoryFieldsCheck.missing);
+        applyProfileData(data);
       } catch (error) {
         console.error('Error loading profile data:', error);
       } finally {
@@ -78,6 +98,94 @@ export function BusinessProfile({ activeSection = 'profile', toggleSidebar, side
     loadProfileData();
   }, []);
 
+  // Write a section's fields with the etag we last read. On a conflict, changes to
+  // fields nobody else touched are merged automatically; clashing fields go to the dialog.
+  // `section` is the copy the etag belongs to, so a merge never writes back stale status.
+  const writeSection = async (
+    sectionId,
+    baseFields,
+    changes,
+    etag,
+    section = profileData.sections[sectionId] || { fields: {}, status: {} },
+    attempt = 1,
+  ) => {
+    try {
+      const saved = await saveProfileData(
+        { sections: { [sectionId]: { ...section, fields: { ...baseFields, ...changes } } } },
+        { etag, user },
+      );
+      applyProfileData(saved);
+      setConflict(null);
+    } catch (error) {
+      if (!(error instanceof ConcurrencyConflictError) || !error.current) throw error;
+      const current: any = error.current;
+      applyProfileData(current);
+      const serverFields = current.sections?.[sectionId]?.fields || {};
+      const fieldConfig = profileConfig.tabs
+        .find((tab) => tab.id === sectionId)
+        ?.groups.flatMap((group) => group.fields) || [];
+      const clashing = Object.keys(changes).filter(
+        (fieldName) =>
+          (serverFields[fieldName] || '') !== (baseFields[fieldName] || '') &&
+          (serverFields[fieldName] || '') !== changes[fieldName],
+      );
+      if (clashing.length === 0) {
+        // Others keep saving in between; give up rather than retry forever
+        if (attempt >= MAX_MERGE_ATTEMPTS) throw error;
+        // Nothing overlaps; re-apply our changes on top of the server copy
+        await writeSection(
+          sectionId,
+          serverFields,
+          changes,
+          error.currentEtag,
+          current.sections?.[sectionId] || { fields: {}, status: {} },
+          attempt + 1,
+        );
+        return;
+      }
+      setConflict({
+        sectionId,
+        sectionTitle: profileConfig.tabs.find((tab) => tab.id === sectionId)?.title || sectionId,
+        serverFields,
+        section: current.sections?.[sectionId],
+        changes,
+        etag: error.currentEtag,
+        conflicts: clashing.map((fieldName) => ({
+          fieldName,
+          label: fieldConfig.find((field) => field.fieldName === fieldName)?.label || fieldName,
+          yours: changes[fieldName],
+          server: serverFields[fieldName] || '',
+        })),
+      });
+    }
+  };
+
+  // Save edited fields from a section group
+  const handleSectionSave = (sectionId, changes) => {
+    const baseFields = profileData?.sections[sectionId]?.fields || {};
+    return writeSection(sectionId, baseFields, changes, profileData?.etag);
+  };
+
+  // Save the user's per-field choices on top of the latest server copy
+  const handleResolveConflict = async (values) => {
+    try {
+      setIsResolving(true);
+      setConflictError(null);
+      await writeSection(
+        conflict.sectionId,
+        conflict.serverFields,
+        { ...conflict.changes, ...values },
+        conflict.etag,
+        conflict.section,
+      );
+    } catch (error) {
+      console.error('Error saving merged profile changes:', error);
+      setConflictError('Failed to save merged changes. Please try again.');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
   const scrollLeft = () => {
     if (tabsRef.current) {
       tabsRef.current.scrollBy({ left: -200, behavior: 'smooth' });
@@ -534,7 +642,11 @@ export function BusinessProfile({ activeSection = 'profile', toggleSidebar, side
                     data={profileData?.sections[section.id] || { fields: {}, status: {} }}
                     completion={section.completion}
                     companyStage={profileData?.companyStage}
+                    values={getProfileValues(profileData)}
                     mandatoryCompletion={section.mandatoryCompletion}
+                    onSave={(changes) => handleSectionSave(section.id, changes)}
+                    sectionId={section.id}
+                    sectionTitle={section.title}
                   />
                 )}
 
@@ -591,6 +703,22 @@ export function BusinessProfile({ activeSection = 'profile', toggleSidebar, side
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictResolutionDialog
+          key={conflict.etag}
+          sectionTitle={conflict.sectionTitle}
+          conflicts={conflict.conflicts}
+          mergedCount={Object.keys(conflict.changes).length - conflict.conflicts.length}
+          isSaving={isResolving}
+          error={conflictError}
+          onResolve={handleResolveConflict}
+          onCancel={() => {
+            setConflict(null);
+            setConflictError(null);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
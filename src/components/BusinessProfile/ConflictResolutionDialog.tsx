@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { AlertTriangleIcon, XIcon } from 'lucide-react';
+export interface FieldConflict {
+    fieldName: string;
+    label: string;
+    yours: string;
+    server: string;
+}
+interface ConflictResolutionDialogProps {
+    sectionTitle: string;
+    conflicts: FieldConflict[];
+    // Number of your changes that did not clash and will be kept as-is
+    mergedCount: number;
+    isSaving: boolean;
+    error?: string | null;
+    onResolve: (values: Record<string, string>) => void;
+    onCancel: () => void;
+}
+// Shown when a profile save hits a newer version on the server. Lists every
+// field both sides changed so the user can pick a value per field.
+export function ConflictResolutionDialog({
+    sectionTitle,
+    conflicts,
+    mergedCount,
+    isSaving,
+    error,
+    onResolve,
+    onCancel,
+}: ConflictResolutionDialogProps) {
+    const [choices, setChoices] = useState<Record<string, 'yours' | 'server'>>(() =>
+        Object.fromEntries(conflicts.map((conflict) => [conflict.fieldName, 'yours'])),
+    );
+    // Pick the same side for every field
+    const chooseAll = (side: 'yours' | 'server') => {
+        setChoices(Object.fromEntries(conflicts.map((conflict) => [conflict.fieldName, side])));
+    };
+    // Resolve with the chosen value for each field
+    const handleResolve = () => {
+        const values: Record<string, string> = {};
+        conflicts.forEach((conflict) => {
+            values[conflict.fieldName] =
+                choices[conflict.fieldName] === 'server' ? conflict.server : conflict.yours;
+        });
+        onResolve(values);
+    };
+    const renderValue = (value: string) =>
+        value ? (
+            <span className="break-words">{value}</span>
+        ) : (
+            <span className="italic text-gray-400">Empty</span>
+        );
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div
+                className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="conflict-dialog-title"
+            >
+                <div className="flex justify-between items-center p-4 border-b border-gray-200">
+                    <h2 id="conflict-dialog-title" className="text-lg font-semibold text-gray-800">
+                        Resolve conflicting changes
+                    </h2>
+                    <button className="text-gray-500 hover:text-gray-700" onClick={onCancel}>
+                        <XIcon size={20} />
+                    </button>
+                </div>
+                <div className="p-4 space-y-4">
+                    <div className="flex items-start p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+                        <AlertTriangleIcon size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                        <p>
+                            Someone else saved {sectionTitle} while you were editing. Choose which value
+                            to keep for each field below.
+                            {mergedCount > 0 &&
+                                ` Your ${mergedCount} other change${mergedCount === 1 ? '' : 's'} will be kept.`}
+                        </p>
+                    </div>
+                    <div className="flex justify-end space-x-2 text-xs">
+                        <button
+                            className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-50"
+                            onClick={() => chooseAll('yours')}
+                        >
+                            Keep all mine
+                        </button>
+                        <button
+                            className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-50"
+                            onClick={() => chooseAll('server')}
+                        >
+                            Use all server values
+                        </button>
+                    </div>
+                    <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+                        <div className="hidden sm:grid grid-cols-3 gap-3 px-3 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase">
+                            <span>Field</span>
+                            <span>Your value</span>
+                            <span>Server value</span>
+                        </div>
+                        {conflicts.map((conflict) => (
+                            <div
+                                key={conflict.fieldName}
+                                className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3 px-3 py-3 text-sm"
+                            >
+                                <span className="font-medium text-gray-700">{conflict.label}</span>
+                                <label
+                                    className={`flex items-start p-2 rounded border cursor-pointer ${choices[conflict.fieldName] === 'yours' ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                                >
+                                    <input
+                                        type="radio"
+                                        className="mr-2 mt-1"
+                                        name={`conflict-${conflict.fieldName}`}
+                                        checked={choices[conflict.fieldName] === 'yours'}
+                                        onChange={() =>
+                                            setChoices({ ...choices, [conflict.fieldName]: 'yours' })
+                                        }
+                                    />
+                                    {renderValue(conflict.yours)}
+                                </label>
+                                <label
+                                    className={`flex items-start p-2 rounded border cursor-pointer ${choices[conflict.fieldName] === 'server' ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                                >
+                                    <input
+                                        type="radio"
+                                        className="mr-2 mt-1"
+                                        name={`conflict-${conflict.fieldName}`}
+                                        checked={choices[conflict.fieldName] === 'server'}
+                                        onChange={() =>
+                                            setChoices({ ...choices, [conflict.fieldName]: 'server' })
+                                        }
+                                    />
+                                    {renderValue(conflict.server)}
+                                </label>
+                            </div>
+                        ))}
+                    </div>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+                <div className="flex justify-end space-x-2 p-4 border-t border-gray-200">
+                    <button
+                        className="px-4 py-2 text-sm font-medium text-gray-600 rounded border border-gray-300 hover:bg-gray-50"
+                        onClick={onCancel}
+                        disabled={isSaving}
+                    >
+                        Discard my changes
+                    </button>
+                    <button
+                        className="px-4 py-2 text-sm font-medium text-white rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                        onClick={handleResolve}
+                        disabled={isSaving}
+                    >
+                        {isSaving ? 'Saving...' : 'Save merged changes'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -6,18 +6,41 @@ import {
     SaveIcon,
     XIcon,
     AlertCircleIcon,
+    HistoryIcon,
 } from 'lucide-react';
 import { isFieldMandatory } from '../../utils/config';
+import { getFieldState, isFieldVisible } from '../../utils/fieldRules';
+import { AuditHistoryDrawer } from './AuditHistoryDrawer';
+import { usePermission } from '../../hooks/usePermission';
 export function TabSection({
     config,
     data,
     completion,
     companyStage,
+    values,
     mandatoryCompletion,
+    onSave,
+    sectionId,
+    sectionTitle,
 }) {
     // Track expanded sections and edit mode
     const [expandedSections, setExpandedSections] = useState([0]);
     const [editingSections, setEditingSections] = useState([]);
+    const canEdit = usePermission('profile:edit');
+    // Edited values per group while in edit mode
+    const [drafts, setDrafts] = useState({});
+    const [savingGroup, setSavingGroup] = useState(null);
+    const [saveErrors, setSaveErrors] = useState({});
+    // History drawer target: the whole section, or a single field
+    const [historyTarget, setHistoryTarget] = useState<{ fieldName?: string } | null>(null);
+    // Values field rules are evaluated against; edits in progress count for their group
+    const profileValues = values || { companyStage, ...data?.fields };
+    const groupValues = (index) => ({ ...profileValues, ...(drafts[index] || {}) });
+    const visibleFields = (group, index) =>
+        group.fields.filter((field) => isFieldVisible(field, groupValues(index)));
+    const fieldLabels = Object.fromEntries(
+        (config || []).flatMap((group) => group.fields.map((field) => [field.fieldName, field.label])),
+    );
     // Toggle section expansion
     const toggleSection = (index) => {
         if (expandedSections.includes(index)) {
@@ -34,13 +57,39 @@ export function TabSection({
         } else {
             setEditingSections([...editingSections, index]);
         }
+        setDrafts({ ...drafts, [index]: {} });
+        setSaveErrors({ ...saveErrors, [index]: null });
+    };
+    // Track an edited field value for a group
+    const handleFieldChange = (index, fieldName, value) => {
+        setDrafts({ ...drafts, [index]: { ...(drafts[index] || {}), [fieldName]: value } });
+    };
+    // Save the edited fields of a group, then leave edit mode
+    const handleSave = async (index, event) => {
+        event.stopPropagation();
+        const changes = drafts[index] || {};
+        if (onSave && Object.keys(changes).length > 0) {
+            try {
+                setSavingGroup(index);
+                setSaveErrors({ ...saveErrors, [index]: null });
+                await onSave(changes);
+            } catch (error) {
+                console.error('Error saving section:', error);
+                setSaveErrors({ ...saveErrors, [index]: 'Failed to save changes. Please try again.' });
+                return;
+            } finally {
+                setSavingGroup(null);
+            }
+        }
+        setEditingSections(editingSections.filter((i) => i !== index));
+        setDrafts({ ...drafts, [index]: {} });
     };
     // Calculate completion for a group
-    const calculateGroupCompletion = (group) => {
+    const calculateGroupCompletion = (group, index) => {
         if (!data || !data.fields) return 0;
         let completedFields = 0;
         let totalFields = 0;
-        group.fields.forEach((field) => {
+        visibleFields(group, index).forEach((field) => {
             totalFields++;
             if (
                 data.fields[field.fieldName] &&
@@ -49,10 +98,10 @@ export function TabSection({
                 completedFields++;
             }
         });
-        return Math.round((completedFields / totalFields) * 100);
+        return totalFields > 0 ? Math.round((completedFields / totalFields) * 100) : 100;
     };
     // Calculate mandatory completion for a group
-    const calculateGroupMandatoryCompletion = (group) => {
+    const calculateGroupMandatoryCompletion = (group, index) => {
         if (!data || !data.fields || !companyStage)
             return {
                 completed: 0,
@@ -62,7 +111,7 @@ export function TabSection({
         let mandatoryFields = 0;
         let completedMandatory = 0;
         group.fields.forEach((field) => {
-            if (isFieldMandatory(field, companyStage)) {
+            if (isFieldMandatory(field, companyStage, groupValues(index))) {
                 mandatoryFields++;
                 if (
                     data.fields[field.fieldName] &&
@@ -82,13 +131,13 @@ export function TabSection({
         };
     };
     // Check if a field is mandatory for the current company stage
-    const checkIfMandatory = (field) => {
+    const checkIfMandatory = (field, index) => {
         if (!companyStage) return false;
-        return isFieldMandatory(field, companyStage);
+        return isFieldMandatory(field, companyStage, groupValues(index));
     };
     // Check if a mandatory field is missing
-    const isMandatoryFieldMissing = (field) => {
-        if (!companyStage || !checkIfMandatory(field)) return false;
+    const isMandatoryFieldMissing = (field, index) => {
+        if (!companyStage || !checkIfMandatory(field, index)) return false;
         return (
             !data.fields[field.fieldName] ||
             data.fields[field.fieldName].trim() === ''
@@ -96,15 +145,28 @@ export function TabSection({
     };
     return (
         <div className="space-y-4">
+            {sectionId && (
+                <div className="flex justify-end">
+                    <button
+                        className="flex items-center px-3 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 rounded-full hover:bg-gray-100 min-h-[32px]"
+                        onClick={() => setHistoryTarget({})}
+                        aria-label={`Show change history for ${sectionTitle}`}
+                    >
+                        <HistoryIcon size={14} className="mr-1" />
+                        History
+                    </button>
+                </div>
+            )}
             {config.map((group, groupIndex) => {
                 const isExpanded = expandedSections.includes(groupIndex);
                 const isEditing = editingSections.includes(groupIndex);
-                const groupCompletion = calculateGroupCompletion(group);
+                const groupCompletion = calculateGroupCompletion(group, groupIndex);
                 const groupMandatoryCompletion =
-                    calculateGroupMandatoryCompletion(group);
+                    calculateGroupMandatoryCompletion(group, groupIndex);
+                const shownFields = visibleFields(group, groupIndex);
                 // Check if group has any mandatory fields
-                const hasMandatoryFields = group.fields.some((field) =>
-                    checkIfMandatory(field),
+                const hasMandatoryFields = shownFields.some((field) =>
+                    checkIfMandatory(field, groupIndex),
                 );
                 // Check if group has missing mandatory fields
                 const hasMissingMandatory =
@@ -167,7 +229,7 @@ export function TabSection({
                                 </div>
                             </div>
                             <div className="flex items-center justify-between sm:justify-end mt-2 sm:mt-0">
-                                {!isEditing && isExpanded && (
+                                {canEdit && !isEditing && isExpanded && (
                                     <button
                                         className="mr-3 px-3 py-1 text-xs font-medium text-blue-600 hover:text-blue-800 rounded-full hover:bg-blue-50 min-h-[32px]"
                                         onClick={(e) => toggleEditMode(groupIndex, e)}
@@ -190,16 +252,17 @@ export function TabSection({
                                 className="p-3 sm:p-4 bg-white"
                                 id={`section-${groupIndex}-content`}
                             >
-                                {group.fields.length > 0 ? (
+                                {shownFields.length > 0 ? (
                                     <div className="space-y-3">
-                                        {group.fields.map((field, fieldIndex) => {
+                                        {shownFields.map((field) => {
                                             const fieldValue = data?.fields?.[field.fieldName] || '';
                                             const fieldStatus = data?.status?.[field.fieldName] || '';
-                                            const isMandatory = checkIfMandatory(field);
-                                            const isMissing = isMandatoryFieldMissing(field);
+                                            const isMandatory = checkIfMandatory(field, groupIndex);
+                                            const isMissing = isMandatoryFieldMissing(field, groupIndex);
+                                            const isDisabled = getFieldState(field, groupValues(groupIndex)).disabled;
                                             return (
                                                 <div
-                                                    key={fieldIndex}
+                                                    key={field.fieldName}
                                                     className={`flex flex-col py-1 ${isMissing ? 'border border-red-200 bg-red-50 rounded px-2 sm:px-3 py-2' : ''}`}
                                                 >
                                                     <div className="flex flex-col sm:flex-row sm:items-center justify-between">
@@ -217,8 +280,16 @@ export function TabSection({
                                                             {isEditing ? (
                                                                 <input
                                                                     type="text"
-                                                                    className={`w-full text-sm border rounded px-3 py-2 min-h-[44px] ${isMissing ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
+                                                                    className={`w-full text-sm border rounded px-3 py-2 min-h-[44px] disabled:bg-gray-100 disabled:text-gray-500 ${isMissing ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
                                                                     defaultValue={fieldValue}
+                                                                    disabled={isDisabled}
+                                                                    onChange={(e) =>
+                                                                        handleFieldChange(
+                                                                            groupIndex,
+                                                                            field.fieldName,
+                                                                            e.target.value,
+                                                                        )
+                                                                    }
                                                                     placeholder={
                                                                         isMandatory ? 'Required' : 'Optional'
                                                                     }
@@ -235,12 +306,27 @@ export function TabSection({
                                                                                 ? 'Not provided'
                                                                                 : 'Not provided')}
                                                                     </div>
-                                                                    {fieldStatus === 'completed' && (
-                                                                        <CheckCircleIcon
-                                                                            size={12}
-                                                                            className="text-green-500 flex-shrink-0 ml-2"
-                                                                        />
-                                                                    )}
+                                                                    <div className="flex items-center flex-shrink-0 ml-2">
+                                                                        {fieldStatus === 'completed' && (
+                                                                            <CheckCircleIcon
+                                                                                size={12}
+                                                                                className="text-green-500"
+                                                                            />
+                                                                        )}
+                                                                        {sectionId && (
+                                                                            <button
+                                                                                className="ml-2 p-1 text-gray-400 hover:text-gray-600 rounded"
+                                                                                onClick={() =>
+                                                                                    setHistoryTarget({
+                                                                                        fieldName: field.fieldName,
+                                                                                    })
+                                                                                }
+                                                                                aria-label={`Show change history for ${field.label}`}
+                                                                            >
+                                                                                <HistoryIcon size={12} />
+                                                                            </button>
+                                                                        )}
+                                                                    </div>
                                                                 </div>
                                                             )}
                                                         </div>
@@ -261,6 +347,12 @@ export function TabSection({
                                         No fields defined for this group
                                     </div>
                                 )}
+                                {isEditing && saveErrors[groupIndex] && (
+                                    <div className="mt-4 flex items-center text-sm text-red-600">
+                                        <AlertCircleIcon size={16} className="mr-1 flex-shrink-0" />
+                                        {saveErrors[groupIndex]}
+                                    </div>
+                                )}
                                 {isEditing && (
                                     <div className="mt-4 flex flex-col sm:flex-row sm:justify-end space-y-2 sm:space-y-0 sm:space-x-2 border-t border-gray-100 pt-4">
                                         <button
@@ -272,12 +364,13 @@ export function TabSection({
                                             Cancel
                                         </button>
                                         <button
-                                            className="px-3 py-2 text-sm font-medium text-white rounded bg-blue-600 hover:bg-blue-700 flex items-center justify-center min-h-[44px]"
-                                            onClick={(e) => toggleEditMode(groupIndex, e)}
+                                            className="px-3 py-2 text-sm font-medium text-white rounded bg-blue-600 hover:bg-blue-700 flex items-center justify-center min-h-[44px] disabled:opacity-50"
+                                            onClick={(e) => handleSave(groupIndex, e)}
+                                            disabled={savingGroup === groupIndex}
                                             aria-label="Save changes"
                                         >
                                             <SaveIcon size={16} className="mr-1" />
-                                            Save Changes
+                                            {savingGroup === groupIndex ? 'Saving...' : 'Save Changes'}
                                         </button>
                                     </div>
                                 )}
@@ -286,6 +379,15 @@ export function TabSection({
                     </div>
                 );
             })}
+            {historyTarget && (
+                <AuditHistoryDrawer
+                    sectionId={sectionId}
+                    sectionTitle={sectionTitle}
+                    fieldName={historyTarget.fieldName}
+                    fieldLabels={fieldLabels}
+                    onClose={() => setHistoryTarget(null)}
+                />
+            )}
             {/* Empty state when no groups are available */}
             {(!config || config.length === 0) && (
                 <div className="py-8 sm:py-10 md:py-12 text-center bg-gray-50 rounded-lg border border-dashed border-gray-300">
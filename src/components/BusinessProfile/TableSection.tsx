@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { PencilIcon, TrashIcon, PlusIcon, SaveIcon, XIcon, ChevronLeftIcon, ChevronRightIcon, ChevronDownIcon, ChevronUpIcon } from 'lucide-react';
+import { Can } from '../Can';
 export function TableSection({
     title,
     columns,
@@ -87,10 +88,12 @@ export function TableSection({
     return <div className="mt-4 border border-gray-200 rounded-lg overflow-hidden">
         <div className="bg-gray-50 border-b border-gray-200 px-4 py-3 flex justify-between items-center">
             <h3 className="font-medium text-gray-700">{title}</h3>
-            <button className="px-3 py-2 text-xs font-medium text-blue-600 hover:text-blue-800 rounded-full hover:bg-blue-50 flex items-center min-h-[44px]" onClick={handleAddRow}>
-                <PlusIcon size={14} className="mr-1" />
-                <span>Add New</span>
-            </button>
+            <Can capability="profile:edit">
+                <button className="px-3 py-2 text-xs font-medium text-blue-600 hover:text-blue-800 rounded-full hover:bg-blue-50 flex items-center min-h-[44px]" onClick={handleAddRow}>
+                    <PlusIcon size={14} className="mr-1" />
+                    <span>Add New</span>
+                </button>
+            </Can>
         </div>
         {/* Add New Form */}
         {showForm && <div className="p-4 bg-blue-50 border-b border-blue-200">
@@ -154,12 +157,14 @@ export function TableSection({
                                     </span> : column.key === 'percentage' ? `${row[column.key]}%` : row[column.key]}
                                 </td>)}
                                 <td className="px-4 py-3 text-sm text-right">
-                                    <button className="text-gray-500 hover:text-blue-600 mr-2 p-2" onClick={() => handleEditRow(row)}>
-                                        <PencilIcon size={16} />
-                                    </button>
-                                    <button className="text-gray-500 hover:text-red-600 p-2" onClick={() => handleDeleteRow(row.id)}>
-                                        <TrashIcon size={16} />
-                                    </button>
+                                    <Can capability="profile:edit">
+                                        <button className="text-gray-500 hover:text-blue-600 mr-2 p-2" onClick={() => handleEditRow(row)}>
+                                            <PencilIcon size={16} />
+                                        </button>
+                                        <button className="text-gray-500 hover:text-red-600 p-2" onClick={() => handleDeleteRow(row.id)}>
+                                            <TrashIcon size={16} />
+                                        </button>
+                                    </Can>
                                 </td>
                             </>}
                     </tr>)}
@@ -220,14 +225,16 @@ export function TableSection({
                                 </span>
                             </div>)}
                         </div>}
-                        <div className="mt-3 flex justify-end space-x-2">
-                            <button className="p-2 text-gray-500 hover:text-blue-600 min-h-[44px] min-w-[44px]" onClick={() => handleEditRow(row)}>
-                                <PencilIcon size={16} />
-                            </button>
-                            <button className="p-2 text-gray-500 hover:text-red-600 min-h-[44px] min-w-[44px]" onClick={() => handleDeleteRow(row.id)}>
-                                <TrashIcon size={16} />
-                            </button>
-                        </div>
+                        <Can capability="profile:edit">
+                            <div className="mt-3 flex justify-end space-x-2">
+                                <button className="p-2 text-gray-500 hover:text-blue-600 min-h-[44px] min-w-[44px]" onClick={() => handleEditRow(row)}>
+                                    <PencilIcon size={16} />
+                                </button>
+                                <button className="p-2 text-gray-500 hover:text-red-600 min-h-[44px] min-w-[44px]" onClick={() => handleDeleteRow(row.id)}>
+                                    <TrashIcon size={16} />
+                                </button>
+                            </div>
+                        </Can>
                     </div>}
             </div>)}
         </div>
@@ -0,0 +1,24 @@
+import { ReactNode } from 'react';
+import { usePermissions } from './Header/context/PermissionContext';
+import { Capability } from '../utils/permissions';
+
+/**
+ * Renders its children only when the signed-in user has the capability
+ * (or all of them, when given a list). Renders `fallback` otherwise, and
+ * nothing while permissions are loading.
+ */
+export function Can({
+  capability,
+  fallback = null,
+  children
+}: {
+  capability: Capability | Capability[];
+  fallback?: ReactNode;
+  children: ReactNode;
+}) {
+  const { isLoading, can } = usePermissions();
+  if (isLoading) return null;
+  return <>{can(capability) ? children : fallback}</>;
+}
+
+export default Can;
@@ -35,6 +35,9 @@ class ChatService {
   private advisorAvatar =
     "https://images.unsplash.com/photo-1573497019940-1c28c88b4f3e?ixlib=rb-1.2.1&auto=format&fit=crop&w=256&q=80";
   private deletedMessages: Message[] = [];
+  // Each business entity has its own conversation; the current one is in messages
+  private entityId: string | null = null;
+  private conversations = new Map<string | null, { messages: Message[]; deletedMessages: Message[] }>();
   constructor() {
     // Initialize with existing messages
     this.simulateConnection();
@@ -93,6 +96,25 @@ class ChatService {
       );
     };
   }
+  // Switch to the conversation of another business entity
+  setEntity(entityId: string | null): void {
+    if (entityId === this.entityId) return;
+    this.conversations.set(this.entityId, {
+      messages: this.messages,
+      deletedMessages: this.deletedMessages,
+    });
+    const next = this.conversations.get(entityId);
+    this.entityId = entityId;
+    this.messages = next ? next.messages : [...initialMessages];
+    this.deletedMessages = next ? next.deletedMessages : [];
+    // A reply still being typed belongs to the previous conversation
+    if (this.typingTimeout) {
+      clearTimeout(this.typingTimeout);
+      this.typingTimeout = null;
+    }
+    this.setAdvisorTyping(false);
+    this.notifyMessageListeners();
+  }
   // Clear all messages
   clearMessages(): void {
     this.messages = [];
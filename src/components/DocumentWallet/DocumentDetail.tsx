@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
     XIcon,
     FileTextIcon,
@@ -15,15 +15,40 @@ import {
     CalendarIcon,
     UserIcon,
     InfoIcon,
+    EyeIcon,
+    RotateCcwIcon,
+    GitCompareIcon,
+    Share2Icon,
+    BanIcon,
 } from 'lucide-react';
 import {
-    uploadFileToBlobStorage,
-    deleteBlob,
+    uploadFileInChunks,
+    UploadRejectedError,
     getBlobNameFromUrl,
     generateDownloadSasUrl,
 } from '../../services/AzureBlobService';
-import { updateDocument, deleteDocument } from '../../services/DataverseService';
-export function DocumentDetail({ document, onClose, onReplace, onDelete }: { document: any, onClose: () => void, onReplace: (id: string, version: any) => void, onDelete: (id: string) => void; }) {
+import { Can } from '../Can';
+import {
+    addDocumentVersion,
+    getDocumentVersions,
+    restoreDocumentVersion,
+    DocumentVersion,
+} from '../../services/DataverseService';
+import { ConcurrencyConflictError } from '../../services/dataverse/client';
+import { useAuth } from '../Header/context/AuthContext';
+import { DocumentVersionDiff } from './DocumentVersionDiff';
+import { DocumentPreview } from './DocumentPreview';
+import { ShareDocumentModal } from './ShareDocumentModal';
+import { listShareLinks, revokeShareLink, ShareLink, ShareLinkStatus } from '../../services/ShareLinkService';
+// Badge colours for share link states
+const SHARE_STATUS_STYLES: Record<ShareLinkStatus, string> = {
+    active: 'bg-green-100 text-green-800',
+    expired: 'bg-gray-100 text-gray-700',
+    revoked: 'bg-red-100 text-red-800',
+    exhausted: 'bg-yellow-100 text-yellow-800',
+    locked: 'bg-red-100 text-red-800',
+};
+export function DocumentDetail({ document, onClose, onReplace, onDelete }: { document: any, onClose: () => void, onReplace: (id: string, version: any) => void, onDelete: (id: string) => Promise<void> | void; }) {
     const [isReplacing, setIsReplacing] = useState(false);
     const [newFile, setNewFile] = useState<File | null>(null);
     const [uploadProgress, setUploadProgress] = useState(0);
@@ -32,6 +57,59 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
     const [isProcessing, setIsProcessing] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const fileInputRef = useRef(null);
+    const { user } = useAuth();
+    const [versions, setVersions] = useState<DocumentVersion[]>([]);
+    const [isLoadingVersions, setIsLoadingVersions] = useState(true);
+    const [versionNotes, setVersionNotes] = useState('');
+    const [restoringVersionId, setRestoringVersionId] = useState<string | null>(null);
+    const [comparing, setComparing] = useState<{ baseId: string; targetId: string } | null>(null);
+    const [isSharing, setIsSharing] = useState(false);
+    const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+    const [isLoadingShares, setIsLoadingShares] = useState(false);
+    const [revokingShareId, setRevokingShareId] = useState<string | null>(null);
+    const [expandedShareId, setExpandedShareId] = useState<string | null>(null);
+    const currentUserName = user?.name || user?.email || 'Unknown user';
+    // Load version history whenever the current version changes
+    useEffect(() => {
+        let cancelled = false;
+        const loadVersions = async () => {
+            try {
+                setIsLoadingVersions(true);
+                const data = await getDocumentVersions(document.id);
+                if (!cancelled) setVersions(data);
+            } catch (error) {
+                console.error('Error loading document versions:', error);
+                if (!cancelled) setError('Failed to load version history.');
+            } finally {
+                if (!cancelled) setIsLoadingVersions(false);
+            }
+        };
+        loadVersions();
+        return () => {
+            cancelled = true;
+        };
+    }, [document.id, document.versionNumber]);
+    // Load share links and their access logs when the sharing tab is opened
+    useEffect(() => {
+        if (activeTab !== 'sharing') return;
+        let cancelled = false;
+        const loadShareLinks = async () => {
+            try {
+                setIsLoadingShares(true);
+                const links = await listShareLinks(getBlobNameFromUrl(document.fileUrl));
+                if (!cancelled) setShareLinks(links);
+            } catch (error) {
+                console.error('Error loading share links:', error);
+                if (!cancelled) setError('Failed to load share links.');
+            } finally {
+                if (!cancelled) setIsLoadingShares(false);
+            }
+        };
+        loadShareLinks();
+        return () => {
+            cancelled = true;
+        };
+    }, [activeTab, document.fileUrl]);
     // Get icon based on file type
     const getFileIcon = (type: string) => {
         switch (type) {
@@ -68,20 +146,10 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
         try {
             setIsProcessing(true);
             setError(null);
-            // Simulate progress updates
-            const progressInterval = setInterval(() => {
-                setUploadProgress((prev) => {
-                    if (prev >= 95) {
-                        clearInterval(progressInterval);
-                        return 95;
-                    }
-                    return prev + 5;
-                });
-            }, 200);
-            // Generate a unique blob name
-            const blobName = `${Date.now()}-${file.name.replace(/\s+/g, '_')}`;
-            // Upload new file to Azure Blob Storage
-            const fileUrl = await uploadFileToBlobStorage(file, blobName);
+            // Upload the new version in resumable chunks
+            const fileUrl = await uploadFileInChunks(file, {
+                onProgress: setUploadProgress,
+            });
             // Format file size
             const formatFileSize = (bytes: number) => {
                 if (bytes < 1024) return bytes + ' B';
@@ -98,29 +166,61 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                 if (['doc', 'docx', 'txt'].includes(ext)) return 'document';
                 return 'file';
             };
-            // Update document metadata in Dataverse
-            const newVersion = {
-                fileType: getFileType(file.name),
-                fileSize: formatFileSize(file.size),
-                fileUrl: fileUrl,
-                uploadDate: new Date().toISOString().split('T')[0],
-                versionNumber: (document.versionNumber || 1) + 1,
-                previousVersionId: document.id,
-            };
-            await updateDocument(document.id, newVersion);
-            // Complete the progress
-            clearInterval(progressInterval);
+            // Record the new version in Dataverse; earlier versions and their blobs are kept.
+            // The update is conditional on the row version we loaded, so a concurrent edit isn't overwritten
+            const { document: updated } = await addDocumentVersion(
+                document,
+                {
+                    fileType: getFileType(file.name),
+                    fileSize: formatFileSize(file.size),
+                    fileUrl: fileUrl,
+                    uploadedBy: currentUserName,
+                },
+                { notes: versionNotes.trim() || undefined },
+            );
             setUploadProgress(100);
             // Wait a moment to show the 100% completion state
             setTimeout(() => {
                 setIsProcessing(false);
-                onReplace(document.id, newVersion);
+                setIsReplacing(false);
+                setNewFile(null);
+                setUploadProgress(0);
+                setVersionNotes('');
+                onReplace(document.id, updated);
             }, 500);
         } catch (error) {
             console.error('Error replacing document:', error);
             setIsProcessing(false);
-            setError('Failed to replace document. Please try again.');
-            setUploadProgress(0);
+            setError(
+                error instanceof ConcurrencyConflictError
+                    ? `${error.message} Close and reopen the document to see the latest version.`
+                    : error instanceof UploadRejectedError
+                    ? `Upload rejected: ${error.message}`
+                    : 'Upload interrupted. Select the same file again to resume from the last uploaded chunk.',
+            );
+            setNewFile(null);
+        }
+    };
+    // Make an earlier version current again (recorded as a new version)
+    const handleRestoreVersion = async (version: DocumentVersion) => {
+        try {
+            setRestoringVersionId(version.id!);
+            setError(null);
+            const { document: updated } = await restoreDocumentVersion(
+                document,
+                version,
+                currentUserName,
+            );
+            onReplace(document.id, updated);
+        } catch (error) {
+            console.error('Error restoring version:', error);
+            setError(
+                error instanceof ConcurrencyConflictError
+                    ? `${error.message} Close and reopen the document to see the latest version.`
+                    : 'Failed to restore this version. Please try again.',
+            );
+        } finally {
+            setRestoringVersionId(null);
         }
     };
     // Handle document deletion
@@ -128,36 +228,60 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
         try {
             setIsProcessing(true);
             setError(null);
-            // Delete the blob from Azure Blob Storage
-            const blobName = getBlobNameFromUrl(document.fileUrl);
-            await deleteBlob(blobName);
-            // Delete the document metadata from Dataverse
-            await deleteDocument(document.id);
+            // The wallet soft-deletes the blobs and removes the Dataverse record
+            await onDelete(document.id);
             setIsProcessing(false);
-            onDelete(document.id);
         } catch (error) {
             console.error('Error deleting document:', error);
             setIsProcessing(false);
-            setError('Failed to delete document. Please try again.');
+            setShowDeleteConfirm(false);
+            setError(error instanceof Error ? error.message : 'Failed to delete document. Please try again.');
+        }
+    };
+    // Revoke a share link; it stops working immediately
+    const handleRevokeShare = async (link: ShareLink) => {
+        try {
+            setRevokingShareId(link.id);
+            setError(null);
+            const revoked = await revokeShareLink(link.id);
+            setShareLinks((prev) => prev.map((item) => (item.id === revoked.id ? revoked : item)));
+        } catch (error) {
+            console.error('Error revoking share link:', error);
+            setError('Failed to revoke the share link. Please try again.');
+        } finally {
+            setRevokingShareId(null);
         }
     };
-    // Generate a download URL with SAS token
-    const handleDownload = async (fileUrl: string) => {
+    // Open a file through a fresh, short-lived SAS URL ('inline' views, 'attachment' downloads)
+    const handleOpenFile = async (fileUrl: string, disposition: 'inline' | 'attachment' = 'attachment') => {
+        // Open the tab synchronously so popup blockers allow it, then point it at the signed URL
+        const fileWindow = window.open('', '_blank');
         try {
+            setError(null);
             // Get the blob name from the URL
             const blobName = getBlobNameFromUrl(fileUrl);
-            // Generate a SAS URL for downloading
-            const downloadUrl = await generateDownloadSasUrl(blobName);
-            // Open the download URL in a new tab
-            window.open(downloadUrl, '_blank');
+            const extension = blobName.includes('.') ? blobName.split('.').pop() : '';
+            const downloadUrl = await generateDownloadSasUrl(blobName, {
+                fileName: extension ? `${document.name}.${extension}` : document.name,
+                disposition,
+            });
+            if (fileWindow) {
+                fileWindow.opener = null;
+                fileWindow.location.href = downloadUrl;
+            } else {
+                window.open(downloadUrl, '_blank', 'noopener,noreferrer');
+            }
         } catch (error) {
             console.error('Error generating download URL:', error);
+            fileWindow?.close();
             setError('Failed to generate download link. Please try again.');
         }
     };
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+            <div
+                className={`bg-white rounded-lg shadow-xl w-full ${comparing && activeTab === 'versions' ? 'max-w-6xl' : activeTab === 'preview' ? 'max-w-5xl' : 'max-w-3xl'} max-h-[90vh] overflow-hidden flex flex-col`}
+            >
                 <div className="flex justify-between items-center p-4 border-b border-gray-200">
                     <h2 className="text-lg font-semibold text-gray-800 truncate">
                         {document.name}
@@ -177,12 +301,23 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                     >
                         Details
                     </button>
+                    <button
+                        className={`px-4 py-2 text-sm font-medium ${activeTab === 'preview' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                        onClick={() => setActiveTab('preview')}
+                    >
+                        Preview
+                    </button>
                     <button
                         className={`px-4 py-2 text-sm font-medium ${activeTab === 'versions' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
                         onClick={() => setActiveTab('versions')}
                     >
-                        Version History (
-                        {document.versions ? document.versions.length + 1 : 1})
+                        Version History ({versions.length || 1})
+                    </button>
+                    <button
+                        className={`px-4 py-2 text-sm font-medium ${activeTab === 'sharing' ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                        onClick={() => setActiveTab('sharing')}
+                    >
+                        Sharing
                     </button>
                 </div>
                 {error && (
@@ -214,7 +349,15 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                                 </div>
                                 <button
                                     className="text-blue-600 hover:text-blue-800 p-2"
-                                    onClick={() => handleDownload(document.fileUrl)}
+                                    onClick={() => setActiveTab('preview')}
+                                    title="Preview"
+                                >
+                                    <EyeIcon size={18} />
+                                </button>
+                                <button
+                                    className="text-blue-600 hover:text-blue-800 p-2"
+                                    onClick={() => handleOpenFile(document.fileUrl)}
+                                    title="Download"
                                 >
                                     <DownloadIcon size={18} />
                                 </button>
@@ -310,6 +453,16 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                                             <XIcon size={16} />
                                         </button>
                                     </div>
+                                    {!newFile && (
+                                        <textarea
+                                            className="w-full mb-2 text-sm border border-blue-200 rounded-md px-3 py-2 bg-white"
+                                            rows={2}
+                                            placeholder="Version notes (optional), e.g. Renewed for 2025"
+                                            value={versionNotes}
+                                            onChange={(e) => setVersionNotes(e.target.value)}
+                                            disabled={isProcessing}
+                                        />
+                                    )}
                                     {!newFile ? (
                                         <div
                                             className={`border-2 border-dashed border-blue-300 rounded-lg p-4 flex flex-col items-center justify-center cursor-pointer ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
@@ -372,22 +525,36 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                                 </div>
                             ) : (
                                 <div className="flex gap-2 mb-6">
-                                    <button
-                                        className="flex items-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
-                                        onClick={() => setIsReplacing(true)}
-                                        disabled={isProcessing}
-                                    >
-                                        <UploadIcon size={16} className="mr-1" />
-                                        Replace Document
-                                    </button>
-                                    <button
-                                        className="flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
-                                        onClick={() => setShowDeleteConfirm(true)}
-                                        disabled={isProcessing}
-                                    >
-                                        <TrashIcon size={16} className="mr-1" />
-                                        Delete
-                                    </button>
+                                    <Can capability="documents:upload">
+                                        <button
+                                            className="flex items-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+                                            onClick={() => setIsReplacing(true)}
+                                            disabled={isProcessing}
+                                        >
+                                            <UploadIcon size={16} className="mr-1" />
+                                            Replace Document
+                                        </button>
+                                    </Can>
+                                    <Can capability="documents:share">
+                                        <button
+                                            className="flex items-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+                                            onClick={() => setIsSharing(true)}
+                                            disabled={isProcessing}
+                                        >
+                                            <Share2Icon size={16} className="mr-1" />
+                                            Share
+                                        </button>
+                                    </Can>
+                                    <Can capability="documents:delete">
+                                        <button
+                                            className="flex items-center px-3 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                                            onClick={() => setShowDeleteConfirm(true)}
+                                            disabled={isProcessing}
+                                        >
+                                            <TrashIcon size={16} className="mr-1" />
+                                            Delete
+                                        </button>
+                                    </Can>
                                 </div>
                             )}
                             {/* Delete Confirmation */}
@@ -397,8 +564,8 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                                         Confirm Deletion
                                     </h3>
                                     <p className="text-sm text-red-600 mb-3">
-                                        Are you sure you want to delete this document? This action
-                                        cannot be undone.
+                                        Are you sure you want to delete this document? It can be
+                                        restored from the wallet until the retention period ends.
                                     </p>
                                     <div className="flex justify-end gap-2">
                                         <button
@@ -419,83 +586,229 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                                 </div>
                             )}
                         </div>
-                    ) : (
+                    ) : activeTab === 'preview' ? (
+                        <DocumentPreview
+                            key={document.fileUrl}
+                            document={document}
+                            onDownload={() => handleOpenFile(document.fileUrl)}
+                        />
+                    ) : activeTab === 'sharing' ? (
                         <div className="p-4">
-                            <div className="border border-gray-200 rounded-lg overflow-hidden">
-                                <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
-                                    <h3 className="text-sm font-medium text-gray-700">
-                                        Version History
-                                    </h3>
-                                </div>
-                                <div className="divide-y divide-gray-200">
-                                    {/* Current version */}
-                                    <div className="p-4">
-                                        <div className="flex items-start">
-                                            <div className="flex-shrink-0 bg-blue-100 rounded-full p-2">
-                                                <FileIcon size={16} className="text-blue-600" />
-                                            </div>
-                                            <div className="ml-3 flex-1">
-                                                <div className="flex items-center">
-                                                    <p className="text-sm font-medium text-gray-800">
-                                                        Current Version
+                            <div className="flex justify-between items-center mb-3">
+                                <p className="text-sm text-gray-600">
+                                    Links you have created for this document and who opened them.
+                                </p>
+                                <button
+                                    className="flex items-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100"
+                                    onClick={() => setIsSharing(true)}
+                                >
+                                    <Share2Icon size={16} className="mr-1" />
+                                    New link
+                                </button>
+                            </div>
+                            {isLoadingShares ? (
+                                <p className="text-sm text-gray-500 py-4 text-center">Loading share links...</p>
+                            ) : shareLinks.length === 0 ? (
+                                <p className="text-sm text-gray-500 py-4 text-center">
+                                    This document has not been shared.
+                                </p>
+                            ) : (
+                                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                                    {shareLinks.map((link) => (
+                                        <div key={link.id} className="p-4">
+                                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                                <div>
+                                                    <div className="flex items-center gap-2">
+                                                        <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${SHARE_STATUS_STYLES[link.status]}`}>
+                                                            {link.status}
+                                                        </span>
+                                                        {link.hasPassword && (
+                                                            <span className="text-xs text-gray-500 flex items-center">
+                                                                <LockIcon size={10} className="mr-1" /> Password
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    <p className="text-xs text-gray-500 mt-1">
+                                                        Created {new Date(link.createdAt).toLocaleString()} · Expires{' '}
+                                                        {new Date(link.expiresAt).toLocaleString()}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500">
+                                                        Downloads: {link.downloadCount}
+                                                        {link.maxDownloads !== null && ` of ${link.maxDownloads}`}
                                                     </p>
-                                                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
-                                                        Latest
-                                                    </span>
                                                 </div>
-                                                <p className="text-xs text-gray-500">
-                                                    Uploaded {formatDate(document.uploadDate)} by{' '}
-                                                    {document.uploadedBy}
-                                                </p>
-                                                <div className="mt-2 flex gap-2">
+                                                <div className="flex items-center gap-2">
                                                     <button
-                                                        className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
-                                                        onClick={() => handleDownload(document.fileUrl)}
+                                                        className="text-xs text-blue-600 hover:text-blue-800"
+                                                        onClick={() => setExpandedShareId(expandedShareId === link.id ? null : link.id)}
                                                     >
-                                                        <DownloadIcon size={12} className="mr-1" /> Download
+                                                        {expandedShareId === link.id ? 'Hide' : 'Show'} access log ({link.accessLog.length})
                                                     </button>
-                                                </div>
-                                            </div>
-                                        </div>
-                                    </div>
-                                    {/* Previous versions */}
-                                    {document.versions &&
-                                        document.versions.map((version: any, index: number) => (
-                                            <div key={index} className="p-4">
-                                                <div className="flex items-start">
-                                                    <div className="flex-shrink-0 bg-gray-100 rounded-full p-2">
-                                                        <FileIcon size={16} className="text-gray-600" />
-                                                    </div>
-                                                    <div className="ml-3 flex-1">
-                                                        <p className="text-sm font-medium text-gray-800">
-                                                            Version {document.versions.length - index}
-                                                        </p>
-                                                        <p className="text-xs text-gray-500">
-                                                            Uploaded {formatDate(version.uploadDate)} by{' '}
-                                                            {version.uploadedBy}
-                                                        </p>
-                                                        {version.notes && (
-                                                            <p className="text-xs text-gray-600 mt-1">
-                                                                {version.notes}
-                                                            </p>
-                                                        )}
-                                                        <div className="mt-2 flex gap-2">
+                                                    {!link.revokedAt && (
+                                                        <Can capability="documents:share">
                                                             <button
-                                                                className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
-                                                                onClick={() => handleDownload(version.fileUrl)}
+                                                                className="flex items-center px-2 py-1 text-xs font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                                                                onClick={() => handleRevokeShare(link)}
+                                                                disabled={revokingShareId === link.id}
                                                             >
-                                                                <DownloadIcon size={12} className="mr-1" />{' '}
-                                                                Download
+                                                                <BanIcon size={12} className="mr-1" />
+                                                                {revokingShareId === link.id ? 'Revoking...' : 'Revoke'}
                                                             </button>
-                                                        </div>
-                                                    </div>
+                                                        </Can>
+                                                    )}
                                                 </div>
                                             </div>
-                                        ))}
-                                    {(!document.versions || document.versions.length === 0) && (
+                                            {expandedShareId === link.id && (
+                                                link.accessLog.length === 0 ? (
+                                                    <p className="text-xs text-gray-500 mt-3">No one has opened this link yet.</p>
+                                                ) : (
+                                                    <table className="w-full mt-3 text-xs">
+                                                        <thead>
+                                                            <tr className="text-left text-gray-500">
+                                                                <th className="py-1 pr-2 font-medium">Time</th>
+                                                                <th className="py-1 pr-2 font-medium">IP address</th>
+                                                                <th className="py-1 pr-2 font-medium">Browser</th>
+                                                                <th className="py-1 font-medium">Result</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody className="text-gray-700">
+                                                            {[...link.accessLog].reverse().map((access, index) => (
+                                                                <tr key={`${access.at}-${index}`} className="border-t border-gray-100">
+                                                                    <td className="py-1 pr-2 whitespace-nowrap">
+                                                                        {new Date(access.at).toLocaleString()}
+                                                                    </td>
+                                                                    <td className="py-1 pr-2 whitespace-nowrap">{access.ip || 'Unknown'}</td>
+                                                                    <td className="py-1 pr-2 max-w-xs truncate" title={access.userAgent}>
+                                                                        {access.userAgent || 'Unknown'}
+                                                                    </td>
+                                                                    <td className={`py-1 whitespace-nowrap ${access.outcome === 'denied' ? 'text-red-600' : 'text-green-700'}`}>
+                                                                        {access.outcome === 'denied' ? `Denied (${access.reason})` : 'Downloaded'}
+                                                                    </td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                )
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ) : comparing ? (
+                        <DocumentVersionDiff
+                            versions={versions}
+                            initialBaseId={comparing.baseId}
+                            initialTargetId={comparing.targetId}
+                            onBack={() => setComparing(null)}
+                        />
+                    ) : (
+                        <div className="p-4">
+                            <div className="border border-gray-200 rounded-lg overflow-hidden">
+                                <div className="bg-gray-50 px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+                                    <h3 className="text-sm font-medium text-gray-700">
+                                        Version History
+                                    </h3>
+                                    {versions.length > 1 && (
+                                        <button
+                                            className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                                            onClick={() =>
+                                                setComparing({ baseId: versions[1].id!, targetId: versions[0].id! })
+                                            }
+                                        >
+                                            <GitCompareIcon size={12} className="mr-1" /> Compare versions
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="divide-y divide-gray-200">
+                                    {isLoadingVersions && versions.length === 0 ? (
+                                        <div className="flex justify-center p-6">
+                                            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                                        </div>
+                                    ) : versions.length === 0 ? (
                                         <div className="p-6 text-center text-gray-500">
-                                            <p className="text-sm">No previous versions available</p>
+                                            <p className="text-sm">No version history available</p>
                                         </div>
+                                    ) : (
+                                        versions.map((version, index) => {
+                                            const isCurrent = index === 0;
+                                            const restoredFrom = versions.find(
+                                                (candidate) => candidate.id === version.restoredFromVersionId,
+                                            );
+                                            return (
+                                                <div key={version.id} className="p-4">
+                                                    <div className="flex items-start">
+                                                        <div
+                                                            className={`flex-shrink-0 rounded-full p-2 ${isCurrent ? 'bg-blue-100' : 'bg-gray-100'}`}
+                                                        >
+                                                            <FileIcon
+                                                                size={16}
+                                                                className={isCurrent ? 'text-blue-600' : 'text-gray-600'}
+                                                            />
+                                                        </div>
+                                                        <div className="ml-3 flex-1">
+                                                            <div className="flex items-center flex-wrap gap-2">
+                                                                <p className="text-sm font-medium text-gray-800">
+                                                                    Version {version.versionNumber}
+                                                                </p>
+                                                                {isCurrent && (
+                                                                    <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                                                                        Current
+                                                                    </span>
+                                                                )}
+                                                                {restoredFrom && (
+                                                                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                                                                        Restored from v{restoredFrom.versionNumber}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                            <p className="text-xs text-gray-500">
+                                                                Uploaded {formatDate(version.uploadDate)} by{' '}
+                                                                {version.uploadedBy}
+                                                                {version.fileSize && ` • ${version.fileSize}`}
+                                                            </p>
+                                                            {version.notes && (
+                                                                <p className="text-xs text-gray-600 mt-1">
+                                                                    {version.notes}
+                                                                </p>
+                                                            )}
+                                                            <div className="mt-2 flex gap-3">
+                                                                <button
+                                                                    className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                                                                    onClick={() => handleOpenFile(version.fileUrl)}
+                                                                >
+                                                                    <DownloadIcon size={12} className="mr-1" /> Download
+                                                                </button>
+                                                                {!isCurrent && (
+                                                                    <button
+                                                                        className="text-xs text-blue-600 hover:text-blue-800 flex items-center"
+                                                                        onClick={() =>
+                                                                            setComparing({ baseId: version.id!, targetId: versions[0].id! })
+                                                                        }
+                                                                    >
+                                                                        <GitCompareIcon size={12} className="mr-1" /> Compare with current
+                                                                    </button>
+                                                                )}
+                                                                {!isCurrent && (
+                                                                    <Can capability="documents:upload">
+                                                                        <button
+                                                                            className="text-xs text-blue-600 hover:text-blue-800 flex items-center disabled:opacity-50"
+                                                                            onClick={() => handleRestoreVersion(version)}
+                                                                            disabled={restoringVersionId !== null}
+                                                                        >
+                                                                            <RotateCcwIcon size={12} className="mr-1" />
+                                                                            {restoringVersionId === version.id
+                                                                                ? 'Restoring...'
+                                                                                : 'Restore as current'}
+                                                                        </button>
+                                                                    </Can>
+                                                                )}
+                                                            </div>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })
                                     )}
                                 </div>
                             </div>
@@ -503,6 +816,13 @@ export function DocumentDetail({ document, onClose, onReplace, onDelete }: { doc
                     )}
                 </div>
             </div>
+            {isSharing && (
+                <ShareDocumentModal
+                    document={document}
+                    onClose={() => setIsSharing(false)}
+                    onCreated={(link) => setShareLinks((prev) => [link, ...prev])}
+                />
+            )}
         </div>
     );
 }
@@ -1,6 +1,17 @@
 import React from 'react';
 import { XIcon, AlertTriangleIcon, ArrowRightIcon } from 'lucide-react';
-export function DocumentNotification({ documents, onClose }: { documents: any, onClose: () => void; }) {
+import { ExpiryReminder } from '../../services/ExpiryReminderService';
+export function DocumentNotification({
+    reminders,
+    onAcknowledge,
+    onSnooze,
+    onClose,
+}: {
+    reminders: ExpiryReminder[];
+    onAcknowledge: (reminderId: string) => void;
+    onSnooze: (reminderId: string, days: number) => void;
+    onClose: () => void;
+}) {
     // Format date for display
     const formatDate = (dateString: string) => {
         if (!dateString) return 'N/A';
@@ -11,20 +22,6 @@ export function DocumentNotification({ documents, onClose }: { documents: any, o
             day: 'numeric',
         });
     };
-    // Calculate days until expiry
-    const getDaysUntilExpiry = (expiryDate: string) => {
-        if (!expiryDate) return null;
-        const today = new Date();
-        const expiry = new Date(expiryDate);
-        const diffTime = expiry.getTime() - today.getTime();
-        return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    };
-    // Sort documents by expiry date (closest first)
-    const sortedDocuments = [...documents].sort((a, b) => {
-        if (!a.expiryDate) return 1;
-        if (!b.expiryDate) return -1;
-        return new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime();
-    });
     return (
         <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
             <div className="flex justify-between items-center p-3 border-b border-gray-200 bg-gray-50 rounded-t-lg">
@@ -36,38 +33,53 @@ export function DocumentNotification({ documents, onClose }: { documents: any, o
                 </button>
             </div>
             <div className="max-h-80 overflow-y-auto">
-                {sortedDocuments.map((doc) => {
-                    const daysLeft = getDaysUntilExpiry(doc.expiryDate);
+                {reminders.length === 0 && (
+                    <p className="p-4 text-center text-sm text-gray-500">No reminders right now</p>
+                )}
+                {/* Reminders arrive sorted by expiry date (closest first) */}
+                {reminders.map((reminder) => {
+                    const isCritical = reminder.severity === 'critical';
                     return (
                         <div
-                            key={doc.id}
+                            key={reminder.id}
                             className="p-3 border-b border-gray-200 hover:bg-gray-50"
                         >
                             <div className="flex items-start">
                                 <div className="flex-shrink-0 mt-0.5">
                                     <AlertTriangleIcon
                                         size={16}
-                                        className={
-                                            daysLeft && daysLeft <= 7 ? 'text-red-500' : 'text-yellow-500'
-                                        }
+                                        className={isCritical ? 'text-red-500' : 'text-yellow-500'}
                                     />
                                 </div>
                                 <div className="ml-2 flex-1">
                                     <p className="text-sm font-medium text-gray-800 line-clamp-1">
-                                        {doc.name}
+                                        {reminder.documentName}
                                     </p>
                                     <p className="text-xs text-gray-500">
-                                        Expires on {formatDate(doc.expiryDate)}
+                                        {reminder.category} • {reminder.daysLeft < 0 ? 'Expired' : 'Expires'} on{' '}
+                                        {formatDate(reminder.expiryDate)}
                                     </p>
                                     <p className="text-xs font-medium mt-1">
-                                        <span
-                                            className={
-                                                daysLeft && daysLeft <= 7 ? 'text-red-600' : 'text-yellow-600'
-                                            }
-                                        >
-                                            {daysLeft} {daysLeft === 1 ? 'day' : 'days'} left
+                                        <span className={isCritical ? 'text-red-600' : 'text-yellow-600'}>
+                                            {reminder.daysLeft < 0
+                                                ? `Expired ${-reminder.daysLeft} ${reminder.daysLeft === -1 ? 'day' : 'days'} ago`
+                                                : `${reminder.daysLeft} ${reminder.daysLeft === 1 ? 'day' : 'days'} left`}
                                         </span>
                                     </p>
+                                    <div className="flex gap-3 mt-1">
+                                        <button
+                                            className="text-xs text-blue-600 hover:text-blue-800"
+                                            onClick={() => onSnooze(reminder.id, 7)}
+                                        >
+                                            Snooze 1 week
+                                        </button>
+                                        <button
+                                            className="text-xs text-gray-600 hover:text-gray-800"
+                                            onClick={() => onAcknowledge(reminder.id)}
+                                        >
+                                            Acknowledge
+                                        </button>
+                                    </div>
                                 </div>
                             </div>
                         </div>
@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomInIcon, ZoomOutIcon, RotateCcwIcon, DownloadIcon } from 'lucide-react';
+import { generateDownloadSasUrl, getBlobNameFromUrl } from '../../services/AzureBlobService';
+import { parseCsv } from '../../utils/csv';
+import { docxToHtml, readXlsxSheets, SheetPreview } from '../../utils/officePreview';
+import { useAuth } from '../Header/context/AuthContext';
+import { PdfPreview } from './PdfPreview';
+type PreviewKind = 'pdf' | 'image' | 'csv' | 'xlsx' | 'docx' | 'text';
+const PREVIEW_KINDS: Record<string, PreviewKind> = {
+    pdf: 'pdf',
+    jpg: 'image',
+    jpeg: 'image',
+    png: 'image',
+    gif: 'image',
+    webp: 'image',
+    csv: 'csv',
+    xlsx: 'xlsx',
+    docx: 'docx',
+    txt: 'text',
+    md: 'text',
+};
+const IMAGE_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+// Larger files are downloaded rather than previewed
+const MAX_PREVIEW_BYTES = 50 * 1024 * 1024;
+const MAX_TABLE_ROWS = 500;
+const getExtension = (blobName: string) => (blobName.includes('.') ? blobName.split('.').pop()!.toLowerCase() : '');
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnLabel = (index: number): string =>
+    (index >= 26 ? columnLabel(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+const escapeXml = (text: string) =>
+    text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+// Tiled, diagonal name and email over the visible preview area
+function Watermark({ text }: { text: string }) {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="360" height="200"><text x="50%" y="50%" text-anchor="middle" transform="rotate(-30 180 100)" font-family="sans-serif" font-size="14" fill="rgba(107,114,128,0.28)">${escapeXml(text)}</text></svg>`;
+    return (
+        <div
+            className="absolute inset-0 pointer-events-none select-none z-10"
+            style={{ backgroundImage: `url("data:image/svg+xml,${encodeURIComponent(svg)}")` }}
+            aria-hidden="true"
+        />
+    );
+}
+// Image with wheel/button zoom and drag to pan
+function ImagePreview({ data, type, alt }: { data: ArrayBuffer; type: string; alt: string }) {
+    const [url, setUrl] = useState<string | null>(null);
+    const [zoom, setZoom] = useState(1);
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(new Blob([data], { type }));
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [data, type]);
+    const changeZoom = (next: number) => setZoom(Math.min(8, Math.max(0.25, next)));
+    const reset = () => {
+        setZoom(1);
+        setOffset({ x: 0, y: 0 });
+    };
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 bg-white">
+                <button type="button" className="p-1.5 text-gray-600 hover:bg-gray-100 rounded" onClick={() => changeZoom(zoom / 1.25)} title="Zoom out">
+                    <ZoomOutIcon size={16} />
+                </button>
+                <span className="text-xs text-gray-600 w-10 text-center">{Math.round(zoom * 100)}%</span>
+                <button type="button" className="p-1.5 text-gray-600 hover:bg-gray-100 rounded" onClick={() => changeZoom(zoom * 1.25)} title="Zoom in">
+                    <ZoomInIcon size={16} />
+                </button>
+                <button type="button" className="p-1.5 text-gray-600 hover:bg-gray-100 rounded" onClick={reset} title="Reset view">
+                    <RotateCcwIcon size={16} />
+                </button>
+                <span className="text-xs text-gray-400 ml-auto">Scroll to zoom, drag to move</span>
+            </div>
+            <div
+                className="flex-1 overflow-hidden bg-gray-100 flex items-center justify-center cursor-grab active:cursor-grabbing"
+                onWheel={(e) => changeZoom(zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1))}
+                onPointerDown={(e) => {
+                    dragRef.current = { x: e.clientX - offset.x, y: e.clientY - offset.y };
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                }}
+                onPointerMove={(e) => {
+                    if (dragRef.current) setOffset({ x: e.clientX - dragRef.current.x, y: e.clientY - dragRef.current.y });
+                }}
+                onPointerUp={() => {
+                    dragRef.current = null;
+                }}
+            >
+                {url && (
+                    <img
+                        src={url}
+                        alt={alt}
+                        draggable={false}
+                        className="max-w-full max-h-full select-none"
+                        style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+// First rows of a CSV file or XLSX workbook, one tab per sheet
+function TablePreview({ sheets }: { sheets: SheetPreview[] }) {
+    const [activeSheet, setActiveSheet] = useState(0);
+    const sheet = sheets[activeSheet];
+    const columnCount = Math.max(0, ...sheet.rows.map((row) => row.length));
+    return (
+        <div className="flex flex-col h-full">
+            {sheets.length > 1 && (
+                <div className="flex border-b border-gray-200 bg-gray-50 overflow-x-auto">
+                    {sheets.map((entry, index) => (
+                        <button
+                            key={entry.name}
+                            type="button"
+                            className={`px-3 py-1.5 text-xs whitespace-nowrap ${index === activeSheet ? 'bg-white text-blue-600 border-b-2 border-blue-600' : 'text-gray-600 hover:text-gray-800'}`}
+                            onClick={() => setActiveSheet(index)}
+                        >
+                            {entry.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex-1 overflow-auto">
+                {sheet.rows.length === 0 ? (
+                    <p className="p-6 text-sm text-center text-gray-500">This sheet is empty.</p>
+                ) : (
+                    <table className="min-w-full text-xs border-collapse">
+                        <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                                <th className="px-2 py-1 border border-gray-200 text-gray-400 font-normal w-10"></th>
+                                {Array.from({ length: columnCount }, (_, index) => (
+                                    <th key={index} className="px-2 py-1 border border-gray-200 text-gray-500 font-medium">
+                                        {columnLabel(index)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sheet.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex} className={rowIndex === 0 ? 'font-medium bg-gray-50' : ''}>
+                                    <td className="px-2 py-1 border border-gray-200 text-gray-400 text-right">{rowIndex + 1}</td>
+                                    {Array.from({ length: columnCount }, (_, cellIndex) => (
+                                        <td key={cellIndex} className="px-2 py-1 border border-gray-200 text-gray-700 whitespace-nowrap max-w-xs truncate">
+                                            {row[cellIndex] || ''}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {sheet.truncated && (
+                    <p className="p-2 text-xs text-center text-gray-500">
+                        Showing the first {MAX_TABLE_ROWS} rows. Download the file to see everything.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
+export function DocumentPreview({ document, fileUrl, onDownload }: { document: any; fileUrl?: string; onDownload: () => void }) {
+    const { user } = useAuth();
+    const [data, setData] = useState<ArrayBuffer | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const sourceUrl = fileUrl || document.fileUrl;
+    const blobName = sourceUrl ? getBlobNameFromUrl(sourceUrl) : '';
+    const extension = getExtension(blobName);
+    const kind = PREVIEW_KINDS[extension];
+    // Fetch the file through a short-lived read SAS; the URL itself is never shown
+    useEffect(() => {
+        if (!kind) {
+            setIsLoading(false);
+            return;
+        }
+        const controller = new AbortController();
+        setIsLoading(true);
+        setError(null);
+        setData(null);
+        (async () => {
+            try {
+                const url = await generateDownloadSasUrl(blobName, { disposition: 'inline', expiryMinutes: 5 });
+                const response = await fetch(url, { signal: controller.signal });
+                if (!response.ok) throw new Error(`Preview download failed (${response.status})`);
+                if (Number(response.headers.get('content-length')) > MAX_PREVIEW_BYTES) {
+                    setError('This file is too large to preview.');
+                    return;
+                }
+                setData(await response.arrayBuffer());
+            } catch (loadError) {
+                if (controller.signal.aborted) return;
+                console.error('Error loading preview:', loadError);
+                setError('The preview could not be loaded.');
+            } finally {
+                if (!controller.signal.aborted) setIsLoading(false);
+            }
+        })();
+        return () => controller.abort();
+    }, [blobName, kind]);
+    // Convert Office and CSV files once they've downloaded
+    const converted = useMemo((): { sheets?: SheetPreview[]; html?: string; text?: string; error?: string } => {
+        if (!data) return {};
+        try {
+            if (kind === 'text') return { text: new TextDecoder().decode(data) };
+            if (kind === 'csv') {
+                const rows = parseCsv(new TextDecoder().decode(data), MAX_TABLE_ROWS + 1);
+                return { sheets: [{ name: 'CSV', rows: rows.slice(0, MAX_TABLE_ROWS), truncated: rows.length > MAX_TABLE_ROWS }] };
+            }
+            if (kind === 'xlsx') return { sheets: readXlsxSheets(data, MAX_TABLE_ROWS) };
+            if (kind === 'docx') return { html: docxToHtml(data) };
+        } catch (convertError) {
+            console.error('Error converting preview:', convertError);
+            return { error: 'This file could not be displayed.' };
+        }
+        return {};
+    }, [data, kind]);
+    const message = !kind
+        ? 'Preview is not available for this file type.'
+        : error || converted.error || (converted.sheets && converted.sheets.length === 0 ? 'This workbook has no sheets.' : null);
+    const watermark = document.isConfidential && user
+        ? `${user.name} · ${user.email} · ${new Date().toISOString().slice(0, 10)}`
+        : null;
+    return (
+        <div className="relative h-[70vh] flex flex-col bg-white">
+            {message ? (
+                <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+                    <p className="text-sm text-gray-500 mb-3">{message}</p>
+                    <button
+                        type="button"
+                        className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+                        onClick={onDownload}
+                    >
+                        <DownloadIcon size={14} className="mr-1.5" /> Download instead
+                    </button>
+                </div>
+            ) : isLoading || !data ? (
+                <div className="flex-1 flex items-center justify-center">
+                    <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+            ) : kind === 'pdf' ? (
+                <PdfPreview data={data} />
+            ) : kind === 'image' ? (
+                <ImagePreview data={data} type={IMAGE_TYPES[extension]} alt={document.name} />
+            ) : converted.sheets ? (
+                <TablePreview sheets={converted.sheets} />
+            ) : converted.html !== undefined ? (
+                <div
+                    className="flex-1 overflow-auto p-6 text-sm text-gray-800 leading-relaxed [&_h1]:text-xl [&_h1]:font-semibold [&_h1]:mb-3 [&_h2]:text-lg [&_h2]:font-semibold [&_h2]:mb-2 [&_h3]:font-semibold [&_h3]:mb-2 [&_p]:mb-2 [&_ul]:list-disc [&_ul]:pl-6 [&_ul]:mb-2 [&_table]:border-collapse [&_table]:mb-3 [&_td]:border [&_td]:border-gray-300 [&_td]:px-2 [&_td]:py-1 [&_.docx-image]:text-gray-400"
+                    // docxToHtml escapes all document text and only emits its own tags
+                    dangerouslySetInnerHTML={{ __html: converted.html }}
+                />
+            ) : (
+                <pre className="flex-1 overflow-auto p-4 text-xs text-gray-800 whitespace-pre-wrap">{converted.text}</pre>
+            )}
+            {watermark && <Watermark text={watermark} />}
+        </div>
+    );
+}
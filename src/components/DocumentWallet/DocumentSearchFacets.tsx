@@ -0,0 +1,57 @@
+export type FacetField = 'category' | 'status' | 'fileType';
+export interface FacetGroup {
+    field: FacetField;
+    label: string;
+    // Value -> number of documents matching the other filters
+    counts: Record<string, number>;
+    selected: string | null;
+}
+// Readable labels for stored file types
+const FILE_TYPE_LABELS: Record<string, string> = {
+    pdf: 'PDF',
+    image: 'Image',
+    spreadsheet: 'Spreadsheet',
+    presentation: 'Presentation',
+    document: 'Document',
+    file: 'Other',
+};
+export function DocumentSearchFacets({
+    groups,
+    onSelect,
+}: {
+    groups: FacetGroup[];
+    onSelect: (field: FacetField, value: string | null) => void;
+}) {
+    return (
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {groups.map((group) => {
+                const values = Object.keys(group.counts)
+                    .filter((value) => group.counts[value] > 0 || value === group.selected)
+                    .sort();
+                if (values.length === 0) return null;
+                return (
+                    <div key={group.field} className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-xs text-gray-500 mr-1">{group.label}:</span>
+                        {values.map((value) => {
+                            const isSelected = group.selected === value;
+                            return (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    className={`px-2.5 py-1 text-xs rounded-full border ${isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                                    onClick={() => onSelect(group.field, isSelected ? null : value)}
+                                    aria-pressed={isSelected}
+                                >
+                                    {group.field === 'fileType' ? FILE_TYPE_LABELS[value] || value : value}
+                                    <span className={`ml-1 ${isSelected ? 'text-blue-100' : 'text-gray-400'}`}>
+                                        {group.counts[value] || 0}
+                                    </span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
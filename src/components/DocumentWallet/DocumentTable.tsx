@@ -13,8 +13,27 @@ import {
     CalendarIcon,
     UserIcon,
     TagIcon,
+    Share2Icon,
 } from 'lucide-react';
-export function DocumentTable({ documents, onViewDocument }: { documents: any, onViewDocument: (document: any) => void; }) {
+import { isExpiringSoon } from '../../services/ExpiryReminderService';
+import { HighlightSegment, SearchHit } from '../../services/DocumentSearchService';
+// Text with search matches marked
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+    return (
+        <>
+            {segments.map((segment, idx) =>
+                segment.match ? (
+                    <mark key={idx} className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">
+                        {segment.text}
+                    </mark>
+                ) : (
+                    <span key={idx}>{segment.text}</span>
+                ),
+            )}
+        </>
+    );
+}
+export function DocumentTable({ documents, onViewDocument, onShareDocument, searchHits, selectedIds, onSelectionChange }: { documents: any, onViewDocument: (document: any) => void; onShareDocument?: (document: any) => void; searchHits?: Map<string, SearchHit> | null; selectedIds?: string[]; onSelectionChange?: (ids: string[]) => void; }) {
     const [sortField, setSortField] = useState('uploadDate');
     const [sortDirection, setSortDirection] = useState('desc');
     const [expandedRows, setExpandedRows] = useState<any[]>([]);
@@ -40,6 +59,16 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
         if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
         return 0;
     });
+    // Row selection (desktop view), e.g. for exporting
+    const selectable = !!onSelectionChange;
+    const selected = new Set(selectedIds || []);
+    const allSelected = sortedDocuments.length > 0 && sortedDocuments.every((doc: any) => selected.has(doc.id));
+    const toggleSelection = (id: string) => {
+        onSelectionChange?.(selected.has(id) ? [...selected].filter((rowId) => rowId !== id) : [...selected, id]);
+    };
+    const toggleAllSelection = () => {
+        onSelectionChange?.(allSelected ? [] : sortedDocuments.map((doc: any) => doc.id));
+    };
     // Toggle row expansion for mobile view
     const toggleRowExpansion = (id: string) => {
         if (expandedRows.includes(id)) {
@@ -84,15 +113,6 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
             day: 'numeric',
         });
     };
-    // Check if document is expiring soon (within 30 days)
-    const isExpiringSoon = (expiryDate: string) => {
-        if (!expiryDate) return false;
-        const today = new Date();
-        const expiry = new Date(expiryDate);
-        const diffTime = expiry.getTime() - today.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        return diffDays <= 30 && diffDays >= 0;
-    };
     return (
         <div className="border border-gray-200 rounded-lg overflow-hidden">
             {/* Desktop view */}
@@ -100,6 +120,17 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                         <tr>
+                            {selectable && (
+                                <th className="pl-4 py-3 w-8">
+                                    <input
+                                        type="checkbox"
+                                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                        checked={allSelected}
+                                        onChange={toggleAllSelection}
+                                        aria-label="Select all documents"
+                                    />
+                                </th>
+                            )}
                             <th
                                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
                                 onClick={() => handleSort('name')}
@@ -178,14 +209,34 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                     <tbody className="bg-white divide-y divide-gray-200">
                         {sortedDocuments.length > 0 ? (
                             sortedDocuments.map((doc: any) => (
-                                <tr key={doc.id} className="hover:bg-gray-50">
+                                <tr key={doc.id} className={selected.has(doc.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                                    {selectable && (
+                                        <td className="pl-4 py-4 w-8">
+                                            <input
+                                                type="checkbox"
+                                                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                checked={selected.has(doc.id)}
+                                                onChange={() => toggleSelection(doc.id)}
+                                                aria-label={`Select ${doc.name}`}
+                                            />
+                                        </td>
+                                    )}
                                     <td className="px-4 py-4 whitespace-nowrap">
                                         <div className="flex items-center">
                                             {getFileIcon(doc.fileType)}
                                             <span className="ml-2 text-sm text-gray-700">
-                                                {doc.name}
+                                                {searchHits?.get(doc.id) ? (
+                                                    <Highlighted segments={searchHits.get(doc.id)!.name} />
+                                                ) : (
+                                                    doc.name
+                                                )}
                                             </span>
                                         </div>
+                                        {searchHits?.get(doc.id)?.snippet && (
+                                            <p className="mt-1 ml-6 text-xs text-gray-500 whitespace-normal max-w-md line-clamp-2">
+                                                <Highlighted segments={searchHits.get(doc.id)!.snippet!} />
+                                            </p>
+                                        )}
                                     </td>
                                     <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-700">
                                         {doc.category}
@@ -197,13 +248,13 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                                         {doc.expiryDate ? (
                                             <span
                                                 className={
-                                                    isExpiringSoon(doc.expiryDate)
+                                                    isExpiringSoon(doc)
                                                         ? 'text-yellow-600 font-medium'
                                                         : 'text-gray-700'
                                                 }
                                             >
                                                 {formatDate(doc.expiryDate)}
-                                                {isExpiringSoon(doc.expiryDate) && ' (Soon)'}
+                                                {isExpiringSoon(doc) && ' (Soon)'}
                                             </span>
                                         ) : (
                                             <span className="text-gray-500">N/A</span>
@@ -223,12 +274,20 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                                         >
                                             <EyeIcon size={16} className="inline mr-1" /> View
                                         </button>
+                                        {onShareDocument && (
+                                            <button
+                                                className="text-blue-600 hover:text-blue-800 px-2 py-1"
+                                                onClick={() => onShareDocument(doc)}
+                                            >
+                                                <Share2Icon size={16} className="inline mr-1" /> Share
+                                            </button>
+                                        )}
                                     </td>
                                 </tr>
                             ))
                         ) : (
                             <tr>
-                                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                                <td colSpan={selectable ? 7 : 6} className="px-4 py-8 text-center text-gray-500">
                                     No documents found
                                 </td>
                             </tr>
@@ -253,11 +312,20 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                                             </div>
                                             <div className="flex-1 min-w-0">
                                                 <h3 className="text-sm font-medium text-gray-800 truncate">
-                                                    {doc.name}
+                                                    {searchHits?.get(doc.id) ? (
+                                                        <Highlighted segments={searchHits.get(doc.id)!.name} />
+                                                    ) : (
+                                                        doc.name
+                                                    )}
                                                 </h3>
                                                 <p className="text-xs text-gray-500 mt-1">
                                                     {doc.category}
                                                 </p>
+                                                {searchHits?.get(doc.id)?.snippet && (
+                                                    <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                                                        <Highlighted segments={searchHits.get(doc.id)!.snippet!} />
+                                                    </p>
+                                                )}
                                             </div>
                                         </div>
                                         <div className="ml-3 flex-shrink-0">
@@ -281,9 +349,9 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                                                     className="text-gray-400 mr-1.5"
                                                 />
                                                 <span
-                                                    className={`text-xs ${isExpiringSoon(doc.expiryDate) ? 'text-yellow-600 font-medium' : 'text-gray-500'}`}
+                                                    className={`text-xs ${isExpiringSoon(doc) ? 'text-yellow-600 font-medium' : 'text-gray-500'}`}
                                                 >
-                                                    {isExpiringSoon(doc.expiryDate)
+                                                    {isExpiringSoon(doc)
                                                         ? 'Expires soon'
                                                         : 'Expires'}
                                                     : {formatDate(doc.expiryDate)}
@@ -335,6 +403,17 @@ export function DocumentTable({ documents, onViewDocument }: { documents: any, o
                                         >
                                             <EyeIcon size={16} className="mr-2" /> View Details
                                         </button>
+                                        {onShareDocument && (
+                                            <button
+                                                className="w-full mt-2 py-3 flex items-center justify-center text-sm text-blue-600 border border-blue-200 rounded-md bg-white hover:bg-blue-50"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onShareDocument(doc);
+                                                }}
+                                            >
+                                                <Share2Icon size={16} className="mr-2" /> Share
+                                            </button>
+                                        )}
                                     </div>
                                 )}
                             </div>
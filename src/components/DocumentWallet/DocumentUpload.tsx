@@ -1,27 +1,143 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
     UploadIcon,
     XIcon,
     FileIcon,
     CheckIcon,
-    CalendarIcon,
+    FolderIcon,
+    RotateCcwIcon,
+    ChevronDownIcon,
+    ChevronUpIcon,
+    LockIcon,
+    LoaderIcon,
 } from 'lucide-react';
-import { createDocument } from '../../services/DataverseService';
+import { createDocument, fetchBusinessProfileData } from '../../services/DataverseService';
+import { uploadFileInChunks, UploadRejectedError } from '../../services/AzureBlobService';
+import {
+    canExtractMetadata,
+    ExtractedMetadata,
+    extractFileMetadata,
+    getProfileSyncCandidates,
+    ProfileSyncCandidate,
+    syncExtractedProfileFields,
+} from '../../services/DocumentMetadataService';
+import { HIGH_CONFIDENCE } from '../../utils/documentMetadata';
+import { useAuth } from '../Header/context/AuthContext';
+import { ExtractedMetadataPanel, mergeTags, SuggestedField } from './ExtractedMetadataPanel';
+// Files uploaded at the same time
+const UPLOAD_CONCURRENCY = 3;
+// webkitdirectory is non-standard (though every major browser supports it), so React's input props lack it
+const FOLDER_INPUT_PROPS: Record<string, string> = { webkitdirectory: '' };
+type UploadStatus = 'pending' | 'queued' | 'uploading' | 'done' | 'error' | 'cancelled';
+type ExtractionStatus = 'waiting' | 'running' | 'done';
+interface UploadItem {
+    id: string;
+    file: File;
+    // Path inside a dropped folder, for display
+    path: string;
+    name: string;
+    category: string;
+    description: string;
+    expiryDate: string;
+    tags: string;
+    isConfidential: boolean;
+    status: UploadStatus;
+    progress: number;
+    error?: string;
+    showDetails?: boolean;
+    // Suggestions read from the file's text (PDF, Word and text files only)
+    extraction?: ExtractionStatus;
+    metadata?: ExtractedMetadata;
+    profileCandidates?: ProfileSyncCandidate[];
+}
+type SharedValues = Pick<UploadItem, 'category' | 'expiryDate' | 'tags' | 'isConfidential'>;
+let nextItemId = 0;
+// Reads every file under a dropped directory entry
+const readEntryFiles = async (entry: FileSystemEntry): Promise<{ file: File; path: string }[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) =>
+            (entry as FileSystemFileEntry).file(resolve, reject),
+        );
+        return [{ file, path: entry.fullPath.replace(/^\//, '') }];
+    }
+    if (!entry.isDirectory) return [];
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it returns an empty list
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+            reader.readEntries(resolve, reject),
+        );
+        if (batch.length === 0) break;
+        children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(readEntryFiles));
+    return nested.flat();
+};
+// Hidden files (.DS_Store, Thumbs.db) come along with folder drops
+const isHiddenFile = (path: string) =>
+    path.split('/').some((part) => part.startsWith('.')) || /(^|\/)Thumbs\.db$/i.test(path);
+// Get file type from extension
+const getFileType = (filename: any) => {
+    if (!filename) return 'file';
+    const ext = filename.split('.').pop().toLowerCase();
+    if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) return 'image';
+    if (['pdf'].includes(ext)) return 'pdf';
+    if (['xls', 'xlsx', 'csv'].includes(ext)) return 'spreadsheet';
+    if (['ppt', 'pptx'].includes(ext)) return 'presentation';
+    if (['doc', 'docx', 'txt'].includes(ext)) return 'document';
+    return 'file';
+};
+// Format file size
+const formatFileSize = (bytes: number) => {
+    if (!bytes) return '0 B';
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
 export function DocumentUpload({ onClose, onUpload, categories }: { onClose: () => void, onUpload: (document: any) => void, categories: string[]; }) {
+    const { user } = useAuth();
     const [isDragging, setIsDragging] = useState(false);
-    const [file, setFile] = useState<any>(null);
-    const [uploadProgress, setUploadProgress] = useState(0);
-    const [formData, setFormData] = useState({
-        name: '',
+    const [items, setItems] = useState<UploadItem[]>([]);
+    const [shared, setShared] = useState<SharedValues>({
         category: categories[0] || '',
-        description: '',
         expiryDate: '',
         tags: '',
         isConfidential: false,
     });
-    const [errors, setErrors] = useState<any>({});
-    const [isUploading, setIsUploading] = useState(false);
-    const fileInputRef = useRef(null);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    // Abort controllers for uploads in flight, by item id
+    const controllersRef = useRef<Map<string, AbortController>>(new Map());
+    // Items whose upload has started, so a render that still sees them queued can't start them twice
+    const startedRef = useRef<Set<string>>(new Set());
+    // The metadata extraction in progress, so it can be aborted
+    const extractionRef = useRef<{ id: string; controller: AbortController } | null>(null);
+    // Business profile, loaded once the first file needs it
+    const profileRef = useRef<Promise<any> | null>(null);
+    // Update one queue entry
+    const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+        setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    }, []);
+    // Add files to the queue with the current shared values
+    const addFiles = (files: { file: File; path: string }[]) => {
+        const added = files
+            .filter(({ path }) => !isHiddenFile(path))
+            .map(({ file, path }) => ({
+                id: `upload-${++nextItemId}`,
+                file,
+                path,
+                name: file.name.replace(/\.[^.]+$/, ''),
+                description: '',
+                ...shared,
+                status: 'pending' as UploadStatus,
+                progress: 0,
+                extraction: canExtractMetadata(file) ? ('waiting' as ExtractionStatus) : undefined,
+            }));
+        setItems((current) => [...current, ...added]);
+        setErrors({});
+    };
     // Handle drag events
     const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
@@ -30,141 +146,235 @@ export function DocumentUpload({ onClose, onUpload, categories }: { onClose: ()
     const handleDragLeave = () => {
         setIsDragging(false);
     };
-    const handleDrop = (e: any) => {
+    // Accept any number of files and folders
+    const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         setIsDragging(false);
-        const droppedFile = e.dataTransfer.files[0];
-        if (droppedFile) {
-            setFile(droppedFile);
-            setFormData({
-                ...formData,
-                name: droppedFile.name.split('.')[0],
-            });
+        // Entries must be read synchronously; the DataTransfer is cleared after this handler yields
+        const entries = Array.from(e.dataTransfer.items || [])
+            .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+            .filter((entry): entry is FileSystemEntry => !!entry);
+        if (entries.length === 0) {
+            addFiles(Array.from(e.dataTransfer.files).map((file) => ({ file, path: file.name })));
+            return;
         }
-    };
-    // Handle file input change
-    const handleFileChange = (e: any) => {
-        const selectedFile = e.target.files[0];
-        if (selectedFile) {
-            setFile(selectedFile);
-            setFormData({
-                ...formData,
-                name: selectedFile.name.split('.')[0],
-            });
+        try {
+            const nested = await Promise.all(entries.map(readEntryFiles));
+            addFiles(nested.flat());
+        } catch (error) {
+            console.error('Error reading dropped folder:', error);
+            setErrors({ file: 'Some dropped files could not be read. Try selecting them instead.' });
         }
     };
-    // Handle form input changes
-    const handleInputChange = (e: any) => {
+    // Handle file and folder input changes
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(e.target.files || []);
+        addFiles(selected.map((file) => ({ file, path: file.webkitRelativePath || file.name })));
+        e.target.value = '';
+    };
+    // Handle shared value changes
+    const handleSharedChange = (e: any) => {
         const { name, value, type, checked } = e.target;
-        setFormData({
-            ...formData,
+        setShared({
+            ...shared,
             [name]: type === 'checkbox' ? checked : value,
         });
     };
-    // Get file type from extension
-    const getFileType = (filename: any) => {
-        if (!filename) return 'file';
-        const ext = filename.split('.').pop().toLowerCase();
-        if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) return 'image';
-        if (['pdf'].includes(ext)) return 'pdf';
-        if (['xls', 'xlsx', 'csv'].includes(ext)) return 'spreadsheet';
-        if (['ppt', 'pptx'].includes(ext)) return 'presentation';
-        if (['doc', 'docx', 'txt'].includes(ext)) return 'document';
-        return 'file';
-    };
-    // Format file size
-    const formatFileSize = (bytes: number) => {
-        if (!bytes) return '0 B';
-        if (bytes < 1024) return bytes + ' B';
-        if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-        return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    // Copy the shared values onto every file that hasn't been uploaded yet
+    const applySharedValues = () => {
+        setItems((current) =>
+            current.map((item) => (item.status === 'done' || item.status === 'uploading' ? item : { ...item, ...shared })),
+        );
     };
-    // Upload file to API and save metadata to Dataverse
-    const uploadToAzure = async () => {
+    // Upload one file to the API and save its metadata to Dataverse
+    const uploadItem = useCallback(async (item: UploadItem) => {
+        if (startedRef.current.has(item.id)) return;
+        startedRef.current.add(item.id);
+        const controller = new AbortController();
+        controllersRef.current.set(item.id, controller);
+        updateItem(item.id, { status: 'uploading', error: undefined });
         try {
-            setIsUploading(true);
-            // Simulate progress updates
-            const progressInterval = setInterval(() => {
-                setUploadProgress((prev) => {
-                    if (prev >= 95) {
-                        clearInterval(progressInterval);
-                        return 95;
-                    }
-                    return prev + 5;
-                });
-            }, 200);
-            // Prepare multipart form data and call serverless API
-            const form = new FormData();
-            form.append('file', file);
-            const response = await fetch('/api/storage/upload/upload', {
-                method: 'POST',
-                body: form,
+            // Upload in chunks; an interrupted upload resumes from the last staged chunk on retry
+            const fileUrl = await uploadFileInChunks(item.file, {
+                // Leave the last percent for the metadata write
+                onProgress: (percent) => updateItem(item.id, { progress: Math.min(percent, 99) }),
+                signal: controller.signal,
             });
-            if (!response.ok) {
-                throw new Error('Upload failed');
-            }
-            const result = await response.json();
-            const fileUrl = (result?.urls && result.urls[0]) || result?.url;
-            // Create document metadata in Dataverse
             const newDocument = {
-                name: formData.name,
-                category: formData.category,
-                description: formData.description,
-                expiryDate: formData.expiryDate || null,
-                tags: formData.tags
+                name: item.name.trim(),
+                category: item.category,
+                description: item.description,
+                expiryDate: item.expiryDate || null,
+                tags: item.tags
                     .split(',')
                     .map((tag) => tag.trim())
                     .filter((tag) => tag),
-                isConfidential: formData.isConfidential,
-                fileType: getFileType(file.name),
-                fileSize: formatFileSize(file.size),
+                isConfidential: item.isConfidential,
+                fileType: getFileType(item.file.name),
+                fileSize: formatFileSize(item.file.size),
                 uploadDate: new Date().toISOString().split('T')[0],
-                uploadedBy: 'John Smith',
+                uploadedBy: user?.name || user?.email || 'Unknown user',
                 status: 'Active',
                 fileUrl: fileUrl,
                 versionNumber: 1,
             };
             // Save metadata to Dataverse
-            await createDocument(newDocument as any);
-            // Complete the progress
-            clearInterval(progressInterval);
-            setUploadProgress(100);
-            // Wait a moment to show the 100% completion state
-            setTimeout(() => {
-                setIsUploading(false);
-                onUpload(newDocument);
-            }, 500);
+            const created = await createDocument(newDocument as any);
+            updateItem(item.id, { status: 'done', progress: 100 });
+            onUpload(created);
         } catch (error) {
+            if (controller.signal.aborted) {
+                updateItem(item.id, { status: 'cancelled', error: undefined });
+                return;
+            }
             console.error('Error uploading document:', error);
-            setIsUploading(false);
-            setErrors({
-                ...errors,
-                submit: 'Failed to upload document. Please try again.',
+            updateItem(item.id, {
+                status: 'error',
+                // Rejected files (type, size, malware scan) cannot be resumed
+                error: error instanceof UploadRejectedError
+                    ? `Upload rejected: ${error.message}`
+                    : 'Upload interrupted. Retry to continue where it stopped.',
             });
+        } finally {
+            controllersRef.current.delete(item.id);
+            startedRef.current.delete(item.id);
+        }
+    }, [user, onUpload, updateItem]);
+    // Read suggestions from one file and pre-fill the fields the user hasn't changed
+    const extractItem = useCallback(async (item: UploadItem) => {
+        const controller = new AbortController();
+        extractionRef.current = { id: item.id, controller };
+        updateItem(item.id, { extraction: 'running' });
+        try {
+            const metadata = await extractFileMetadata(item.file, { categories, signal: controller.signal });
+            let profileCandidates: ProfileSyncCandidate[] = [];
+            if (metadata.trn || metadata.licenseNumber || metadata.expiryDate) {
+                profileRef.current = profileRef.current || fetchBusinessProfileData();
+                try {
+                    profileCandidates = getProfileSyncCandidates(metadata, await profileRef.current);
+                } catch (error) {
+                    // Still show the suggestions; offer the profile sync for the next file
+                    console.error('Error loading business profile:', error);
+                    profileRef.current = null;
+                }
+            }
+            setItems((current) =>
+                current.map((entry) => {
+                    if (entry.id !== item.id) return entry;
+                    const prefill: Partial<UploadItem> = {};
+                    const untouched = entry.status === 'pending' || entry.status === 'error' || entry.status === 'cancelled';
+                    if (untouched && metadata.category && metadata.category.confidence >= HIGH_CONFIDENCE && entry.category === item.category) {
+                        prefill.category = metadata.category.value;
+                    }
+                    if (untouched && metadata.expiryDate && metadata.expiryDate.confidence >= HIGH_CONFIDENCE && !entry.expiryDate) {
+                        prefill.expiryDate = metadata.expiryDate.value;
+                    }
+                    if (untouched && metadata.tags && metadata.tags.confidence >= HIGH_CONFIDENCE && !entry.tags) {
+                        prefill.tags = mergeTags('', metadata.tags.value);
+                    }
+                    return { ...entry, ...prefill, extraction: 'done', metadata, profileCandidates };
+                }),
+            );
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            // Suggestions are optional; the file can still be uploaded
+            console.error('Error extracting document metadata:', error);
+            updateItem(item.id, { extraction: 'done' });
+        } finally {
+            if (extractionRef.current?.controller === controller) extractionRef.current = null;
+        }
+    }, [categories, updateItem]);
+    // Extract one file at a time, in queue order
+    useEffect(() => {
+        if (items.some((item) => item.extraction === 'running')) return;
+        const next = items.find((item) => item.extraction === 'waiting');
+        if (next) extractItem(next);
+    }, [items, extractItem]);
+    // Accept a suggested value
+    const acceptSuggestion = (id: string, field: SuggestedField, value: string) => {
+        updateItem(id, { [field]: value });
+    };
+    // Sync extracted identifiers into the business profile
+    const syncProfileFields = async (selected: ProfileSyncCandidate[]) => {
+        profileRef.current = syncExtractedProfileFields(selected, user);
+        try {
+            await profileRef.current;
+        } catch (error) {
+            // Reload the profile next time rather than reuse the failed save
+            profileRef.current = null;
+            throw error;
         }
     };
+    // Start queued uploads while fewer than the limit are running
+    useEffect(() => {
+        const running = startedRef.current.size;
+        items
+            .filter((item) => item.status === 'queued' && !startedRef.current.has(item.id))
+            .slice(0, Math.max(0, UPLOAD_CONCURRENCY - running))
+            .forEach((item) => {
+                uploadItem(item);
+            });
+    }, [items, uploadItem]);
+    // Abort anything still uploading when the modal unmounts
+    useEffect(() => {
+        const controllers = controllersRef.current;
+        return () => {
+            controllers.forEach((controller) => controller.abort());
+            extractionRef.current?.controller.abort();
+        };
+    }, []);
     // Validate form
     const validateForm = () => {
-        const newErrors: any = {};
-        if (!formData.name.trim()) newErrors.name = 'Document name is required';
-        if (!formData.category) newErrors.category = 'Category is required';
-        if (!file) newErrors.file = 'Please upload a file';
+        const newErrors: Record<string, string> = {};
+        if (items.length === 0) newErrors.file = 'Please upload a file';
+        items.forEach((item) => {
+            if (item.status === 'done') return;
+            if (!item.name.trim()) newErrors[item.id] = 'Document name is required';
+            else if (!item.category) newErrors[item.id] = 'Category is required';
+        });
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
-    // Handle form submission
-    const handleSubmit = async (e: any) => {
+    // Queue every file that hasn't been uploaded yet
+    const handleSubmit = (e: React.SyntheticEvent) => {
         e.preventDefault();
-        if (validateForm()) {
-            await uploadToAzure();
+        if (!validateForm()) return;
+        setItems((current) =>
+            current.map((item) =>
+                item.status === 'pending' || item.status === 'error' || item.status === 'cancelled'
+                    ? { ...item, status: 'queued', error: undefined }
+                    : item,
+            ),
+        );
+    };
+    // Cancel an upload (or take it out of the queue before it starts)
+    const cancelItem = (item: UploadItem) => {
+        const controller = controllersRef.current.get(item.id);
+        if (controller) controller.abort();
+        else updateItem(item.id, { status: 'cancelled' });
+    };
+    const retryItem = (item: UploadItem) => {
+        if (!item.name.trim() || !item.category) {
+            setErrors({ ...errors, [item.id]: !item.name.trim() ? 'Document name is required' : 'Category is required' });
+            return;
         }
+        updateItem(item.id, { status: 'queued', error: undefined });
+    };
+    const removeItem = (id: string) => {
+        if (extractionRef.current?.id === id) extractionRef.current.controller.abort();
+        setItems((current) => current.filter((item) => item.id !== id));
     };
+    const isBusy = items.some((item) => item.status === 'uploading' || item.status === 'queued');
+    const doneCount = items.filter((item) => item.status === 'done').length;
+    const allDone = items.length > 0 && doneCount === items.length;
+    const remainingCount = items.length - doneCount;
+    const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50';
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
                 <div className="flex justify-between items-center p-4 border-b border-gray-200">
                     <h2 className="text-lg font-semibold text-gray-800">
-                        Upload Document
+                        Upload Documents
                     </h2>
                     <button
                         className="text-gray-500 hover:text-gray-700"
@@ -173,202 +383,312 @@ export function DocumentUpload({ onClose, onUpload, categories }: { onClose: ()
                         <XIcon size={20} />
                     </button>
                 </div>
-                <form onSubmit={handleSubmit} className="p-4">
+                <form onSubmit={handleSubmit} className="p-4 flex-1 overflow-y-auto">
                     {/* File Upload */}
-                    {!file ? (
-                        <div
-                            className={`border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer mb-6 ${isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-blue-400'}`}
-                            // @ts-ignore
-                            onClick={() => fileInputRef.current?.click()}
-                            onDragOver={handleDragOver}
-                            onDragLeave={handleDragLeave}
-                            onDrop={handleDrop}
+                    <div
+                        className={`border-2 border-dashed rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer mb-4 ${isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-blue-400'}`}
+                        onClick={() => fileInputRef.current?.click()}
+                        onDragOver={handleDragOver}
+                        onDragLeave={handleDragLeave}
+                        onDrop={handleDrop}
+                    >
+                        <UploadIcon
+                            size={32}
+                            className={isDragging ? 'text-blue-500' : 'text-gray-400'}
+                        />
+                        <p className="mt-2 text-sm text-gray-600 text-center">
+                            <span className="font-medium text-blue-600">
+                                Click to upload
+                            </span>{' '}
+                            or drag and drop files or folders
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1 text-center">
+                            PDF, Word, Excel, PowerPoint, or image files (max 100MB each)
+                        </p>
+                        <button
+                            type="button"
+                            className="mt-2 flex items-center text-xs text-blue-600 hover:text-blue-800"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                folderInputRef.current?.click();
+                            }}
                         >
-                            <UploadIcon
-                                size={32}
-                                className={isDragging ? 'text-blue-500' : 'text-gray-400'}
-                            />
-                            <p className="mt-2 text-sm text-gray-600 text-center">
-                                <span className="font-medium text-blue-600">
-                                    Click to upload
-                                </span>{' '}
-                                or drag and drop
-                            </p>
-                            <p className="text-xs text-gray-500 mt-1 text-center">
-                                PDF, Word, Excel, PowerPoint, or image files (max 10MB)
-                            </p>
-                            <input
-                                type="file"
-                                ref={fileInputRef}
-                                className="hidden"
-                                onChange={handleFileChange}
-                                accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png,.gif"
-                            />
-                            {errors.file && (
-                                <p className="text-red-500 text-xs mt-1">{errors.file}</p>
-                            )}
-                        </div>
-                    ) : (
-                        <div className="bg-gray-50 rounded-lg p-4 mb-6 border border-gray-200">
-                            <div className="flex items-center">
-                                <FileIcon size={24} className="text-gray-500 mr-3" />
-                                <div className="flex-1">
-                                    <p className="text-sm font-medium text-gray-700">
-                                        {file.name}
-                                    </p>
-                                    <p className="text-xs text-gray-500">
-                                        {formatFileSize(file.size)}
-                                    </p>
+                            <FolderIcon size={14} className="mr-1" /> Select a folder
+                        </button>
+                        <input
+                            type="file"
+                            ref={fileInputRef}
+                            className="hidden"
+                            onChange={handleFileChange}
+                            accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png,.gif"
+                            multiple
+                        />
+                        <input
+                            type="file"
+                            ref={folderInputRef}
+                            className="hidden"
+                            onChange={handleFileChange}
+                            {...FOLDER_INPUT_PROPS}
+                            multiple
+                        />
+                        {errors.file && (
+                            <p className="text-red-500 text-xs mt-1">{errors.file}</p>
+                        )}
+                    </div>
+                    {items.length > 0 && (
+                        <>
+                            {/* Shared values */}
+                            <div className="bg-gray-50 rounded-lg p-3 mb-4 border border-gray-200">
+                                <p className="text-xs font-medium text-gray-600 mb-2">Shared values</p>
+                                <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-center">
+                                    <select
+                                        name="category"
+                                        value={shared.category}
+                                        onChange={handleSharedChange}
+                                        className={inputClass}
+                                        aria-label="Shared category"
+                                    >
+                                        {categories.map((category) => (
+                                            <option key={category} value={category}>
+                                                {category}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="date"
+                                        name="expiryDate"
+                                        value={shared.expiryDate}
+                                        onChange={handleSharedChange}
+                                        className={inputClass}
+                                        aria-label="Shared expiry date"
+                                    />
+                                    <input
+                                        type="text"
+                                        name="tags"
+                                        value={shared.tags}
+                                        onChange={handleSharedChange}
+                                        placeholder="Tags, comma separated"
+                                        className={inputClass}
+                                        aria-label="Shared tags"
+                                    />
+                                    <label className="flex items-center text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            name="isConfidential"
+                                            checked={shared.isConfidential}
+                                            onChange={handleSharedChange}
+                                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                        />
+                                        <span className="ml-2">Confidential</span>
+                                    </label>
                                 </div>
-                                <button
-                                    type="button"
-                                    className="text-gray-500 hover:text-red-500"
-                                    onClick={() => setFile(null)}
-                                >
-                                    <XIcon size={16} />
-                                </button>
-                            </div>
-                            {uploadProgress > 0 && (
-                                <div className="mt-2">
-                                    <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
-                                        <div
-                                            className="bg-blue-500 h-1.5 rounded-full"
-                                            style={{
-                                                width: `${uploadProgress}%`,
-                                            }}
-                                        ></div>
-                                    </div>
-                                    <div className="flex justify-between items-center mt-1">
-                                        <span className="text-xs text-gray-500">
-                                            {uploadProgress}%
-                                        </span>
-                                        {uploadProgress === 100 && (
-                                            <span className="text-xs text-green-500 flex items-center">
-                                                <CheckIcon size={12} className="mr-1" /> Complete
-                                            </span>
-                                        )}
-                                    </div>
-                                </div>
-                            )}
-                        </div>
-                    )}
-                    {/* Document Metadata */}
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
-                        <div className="col-span-2">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Document Name*
-                            </label>
-                            <input
-                                type="text"
-                                name="name"
-                                value={formData.name}
-                                onChange={handleInputChange}
-                                className={`w-full px-3 py-2 border ${errors.name ? 'border-red-500' : 'border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
-                            />
-                            {errors.name && (
-                                <p className="text-red-500 text-xs mt-1">{errors.name}</p>
-                            )}
-                        </div>
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Category*
-                            </label>
-                            <select
-                                name="category"
-                                value={formData.category}
-                                onChange={handleInputChange}
-                                className={`w-full px-3 py-2 border ${errors.category ? 'border-red-500' : 'border-gray-300'} rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500`}
-                            >
-                                {categories.map((category) => (
-                                    <option key={category} value={category}>
-                                        {category}
-                                    </option>
-                                ))}
-                            </select>
-                            {errors.category && (
-                                <p className="text-red-500 text-xs mt-1">{errors.category}</p>
-                            )}
-                        </div>
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Expiry Date
-                            </label>
-                            <div className="relative">
-                                <input
-                                    type="date"
-                                    name="expiryDate"
-                                    value={formData.expiryDate}
-                                    onChange={handleInputChange}
-                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                                />
-                                <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none">
-                                    <CalendarIcon size={16} />
+                                <div className="flex justify-end mt-2">
+                                    <button
+                                        type="button"
+                                        className="px-3 py-1 text-xs font-medium text-blue-600 bg-white border border-blue-200 rounded-md hover:bg-blue-50"
+                                        onClick={applySharedValues}
+                                    >
+                                        Apply to all files
+                                    </button>
                                 </div>
                             </div>
-                        </div>
-                        <div className="col-span-2">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Description
-                            </label>
-                            <textarea
-                                name="description"
-                                value={formData.description}
-                                onChange={handleInputChange}
-                                rows={3}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            ></textarea>
-                        </div>
-                        <div className="col-span-2">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Tags (comma separated)
-                            </label>
-                            <input
-                                type="text"
-                                name="tags"
-                                value={formData.tags}
-                                onChange={handleInputChange}
-                                placeholder="e.g. license, registration, compliance"
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                        </div>
-                        <div className="col-span-2">
-                            <label className="flex items-center">
-                                <input
-                                    type="checkbox"
-                                    name="isConfidential"
-                                    checked={formData.isConfidential}
-                                    onChange={handleInputChange}
-                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                                />
-                                <span className="ml-2 text-sm text-gray-700">
-                                    Mark as confidential
-                                </span>
-                            </label>
-                        </div>
-                        {errors.submit && (
-                            <div className="col-span-2">
-                                <p className="text-red-500 text-sm">{errors.submit}</p>
+                            {/* Upload queue */}
+                            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                                {items.map((item) => {
+                                    const locked = item.status === 'uploading' || item.status === 'queued' || item.status === 'done';
+                                    return (
+                                        <div key={item.id} className="p-3">
+                                            <div className="flex items-start">
+                                                <FileIcon size={20} className="text-gray-500 mr-3 mt-1 flex-shrink-0" />
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="grid grid-cols-1 sm:grid-cols-12 gap-2 items-center">
+                                                        <input
+                                                            type="text"
+                                                            value={item.name}
+                                                            onChange={(e) => updateItem(item.id, { name: e.target.value })}
+                                                            className={`${inputClass} sm:col-span-4 ${errors[item.id] ? 'border-red-500' : ''}`}
+                                                            aria-label="Document name"
+                                                            disabled={locked}
+                                                        />
+                                                        <select
+                                                            value={item.category}
+                                                            onChange={(e) => updateItem(item.id, { category: e.target.value })}
+                                                            className={`${inputClass} sm:col-span-3`}
+                                                            aria-label="Category"
+                                                            disabled={locked}
+                                                        >
+                                                            {categories.map((category) => (
+                                                                <option key={category} value={category}>
+                                                                    {category}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="date"
+                                                            value={item.expiryDate}
+                                                            onChange={(e) => updateItem(item.id, { expiryDate: e.target.value })}
+                                                            className={`${inputClass} sm:col-span-3`}
+                                                            aria-label="Expiry date"
+                                                            disabled={locked}
+                                                        />
+                                                        <label className="flex items-center text-xs text-gray-700 sm:col-span-2" title="Mark as confidential">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={item.isConfidential}
+                                                                onChange={(e) => updateItem(item.id, { isConfidential: e.target.checked })}
+                                                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                                                disabled={locked}
+                                                            />
+                                                            <LockIcon size={12} className="ml-1.5 mr-0.5 text-gray-500" /> Confidential
+                                                        </label>
+                                                    </div>
+                                                    <p className="text-xs text-gray-500 mt-1 truncate">
+                                                        {item.path} • {formatFileSize(item.file.size)}
+                                                        {(item.extraction === 'waiting' || item.extraction === 'running') && (
+                                                            <span className="ml-2 inline-flex items-center text-blue-600">
+                                                                <LoaderIcon size={10} className="mr-1 animate-spin" /> Reading document...
+                                                            </span>
+                                                        )}
+                                                    </p>
+                                                    {item.metadata && (
+                                                        <ExtractedMetadataPanel
+                                                            metadata={item.metadata}
+                                                            values={item}
+                                                            candidates={item.profileCandidates || []}
+                                                            disabled={locked}
+                                                            onAccept={(field, value) => acceptSuggestion(item.id, field, value)}
+                                                            onSync={syncProfileFields}
+                                                        />
+                                                    )}
+                                                    {item.showDetails && (
+                                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2">
+                                                            <input
+                                                                type="text"
+                                                                value={item.tags}
+                                                                onChange={(e) => updateItem(item.id, { tags: e.target.value })}
+                                                                placeholder="Tags, comma separated"
+                                                                className={inputClass}
+                                                                aria-label="Tags"
+                                                                disabled={locked}
+                                                            />
+                                                            <textarea
+                                                                value={item.description}
+                                                                onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                                                                placeholder="Description"
+                                                                rows={1}
+                                                                className={inputClass}
+                                                                aria-label="Description"
+                                                                disabled={locked}
+                                                            />
+                                                        </div>
+                                                    )}
+                                                    {(item.status === 'uploading' || item.status === 'done' || item.progress > 0) && (
+                                                        <div className="flex items-center mt-2">
+                                                            <div className="flex-1 bg-gray-200 rounded-full h-1.5">
+                                                                <div
+                                                                    className={`h-1.5 rounded-full ${item.status === 'done' ? 'bg-green-500' : 'bg-blue-500'}`}
+                                                                    style={{
+                                                                        width: `${item.progress}%`,
+                                                                    }}
+                                                                ></div>
+                                                            </div>
+                                                            <span className="ml-2 text-xs text-gray-500 w-10 text-right">
+                                                                {item.progress}%
+                                                            </span>
+                                                        </div>
+                                                    )}
+                                                    {(errors[item.id] || item.error) && (
+                                                        <p className="text-red-500 text-xs mt-1">{errors[item.id] || item.error}</p>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center ml-3 space-x-2 flex-shrink-0">
+                                                    {item.status === 'done' && (
+                                                        <span className="text-xs text-green-500 flex items-center">
+                                                            <CheckIcon size={12} className="mr-1" /> Uploaded
+                                                        </span>
+                                                    )}
+                                                    {item.status === 'queued' && (
+                                                        <span className="text-xs text-gray-500">Waiting...</span>
+                                                    )}
+                                                    {item.status === 'cancelled' && (
+                                                        <span className="text-xs text-gray-500">Cancelled</span>
+                                                    )}
+                                                    {(item.status === 'error' || item.status === 'cancelled') && (
+                                                        <button
+                                                            type="button"
+                                                            className="text-blue-600 hover:text-blue-800"
+                                                            onClick={() => retryItem(item)}
+                                                            title="Retry"
+                                                        >
+                                                            <RotateCcwIcon size={16} />
+                                                        </button>
+                                                    )}
+                                                    {!locked && (
+                                                        <button
+                                                            type="button"
+                                                            className="text-gray-500 hover:text-gray-700"
+                                                            onClick={() => updateItem(item.id, { showDetails: !item.showDetails })}
+                                                            title={item.showDetails ? 'Hide tags and description' : 'Tags and description'}
+                                                        >
+                                                            {item.showDetails ? <ChevronUpIcon size={16} /> : <ChevronDownIcon size={16} />}
+                                                        </button>
+                                                    )}
+                                                    {item.status === 'uploading' || item.status === 'queued' ? (
+                                                        <button
+                                                            type="button"
+                                                            className="text-gray-500 hover:text-red-500"
+                                                            onClick={() => cancelItem(item)}
+                                                            title="Cancel upload"
+                                                        >
+                                                            <XIcon size={16} />
+                                                        </button>
+                                                    ) : item.status !== 'done' && (
+                                                        <button
+                                                            type="button"
+                                                            className="text-gray-500 hover:text-red-500"
+                                                            onClick={() => removeItem(item.id)}
+                                                            title="Remove from list"
+                                                        >
+                                                            <XIcon size={16} />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
                             </div>
-                        )}
-                    </div>
-                    <div className="flex justify-end space-x-3 border-t border-gray-200 pt-4">
+                        </>
+                    )}
+                </form>
+                <div className="flex justify-between items-center border-t border-gray-200 p-4">
+                    <span className="text-xs text-gray-500">
+                        {items.length > 0 && `${doneCount} of ${items.length} uploaded`}
+                    </span>
+                    <div className="flex space-x-3">
                         <button
                             type="button"
                             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
                             onClick={onClose}
-                            disabled={isUploading}
-                        >
-                            Cancel
-                        </button>
-                        <button
-                            type="submit"
-                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
-                            disabled={isUploading}
                         >
-                            {isUploading ? 'Uploading...' : 'Upload Document'}
+                            {allDone ? 'Done' : isBusy ? 'Close and cancel' : 'Cancel'}
                         </button>
+                        {!allDone && (
+                            <button
+                                type="button"
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+                                onClick={handleSubmit}
+                                disabled={isBusy}
+                            >
+                                {isBusy
+                                    ? 'Uploading...'
+                                    : remainingCount > 1
+                                    ? `Upload ${remainingCount} Documents`
+                                    : 'Upload Document'}
+                            </button>
+                        )}
                     </div>
-                </form>
+                </div>
             </div>
         </div>
     );
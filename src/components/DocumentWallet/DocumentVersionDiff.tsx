@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeftIcon, GitCompareIcon } from 'lucide-react';
+import { DocumentVersion } from '../../services/DataverseService';
+import { compareDocumentFiles, DocumentDiffStage } from '../../services/DocumentDiffService';
+import { getTextExtractableType } from '../../utils/documentText';
+import { DiffRow, DiffSegment, DocumentDiff } from '../../utils/textDiff';
+interface DocumentVersionDiffProps {
+    // Newest first, as returned by getDocumentVersions
+    versions: DocumentVersion[];
+    initialBaseId: string;
+    initialTargetId: string;
+    onBack: () => void;
+}
+const STAGE_LABELS: Record<DocumentDiffStage, string> = {
+    downloading: 'Downloading both versions...',
+    extracting: 'Extracting text...',
+    comparing: 'Comparing...',
+};
+// Side-by-side text comparison of two versions of the same document
+export function DocumentVersionDiff({
+    versions,
+    initialBaseId,
+    initialTargetId,
+    onBack,
+}: DocumentVersionDiffProps) {
+    const [baseId, setBaseId] = useState(initialBaseId);
+    const [targetId, setTargetId] = useState(initialTargetId);
+    const [diff, setDiff] = useState<DocumentDiff | null>(null);
+    const [stage, setStage] = useState<DocumentDiffStage | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [onlyChanges, setOnlyChanges] = useState(true);
+    const base = versions.find((version) => version.id === baseId);
+    const target = versions.find((version) => version.id === targetId);
+    const unsupported = [base, target].some(
+        (version) => version && !getTextExtractableType(version.fileUrl),
+    );
+    // Run the comparison in the worker whenever the selection (or the loaded versions) changes
+    useEffect(() => {
+        if (!base || !target || base.id === target.id || unsupported) return;
+        const controller = new AbortController();
+        setDiff(null);
+        setError(null);
+        setStage('downloading');
+        compareDocumentFiles(base.fileUrl, target.fileUrl, {
+            onProgress: setStage,
+            signal: controller.signal,
+        })
+            .then((result) => setDiff(result))
+            .catch((error) => {
+                if (error?.name === 'AbortError') return;
+                console.error('Error comparing versions:', error);
+                setError(`Couldn't compare these versions: ${error.message}`);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setStage(null);
+            });
+        return () => controller.abort();
+    }, [base, target, unsupported]);
+    const renderSegments = (segments: DiffSegment[]) =>
+        segments.map((segment, index) => (
+            <span
+                key={index}
+                className={
+                    segment.added
+                        ? 'bg-green-200 rounded-sm'
+                        : segment.removed
+                        ? 'bg-red-200 line-through rounded-sm'
+                        : undefined
+                }
+            >
+                {segment.value}
+            </span>
+        ));
+    const cellClass = (row: DiffRow, side: 'old' | 'new') => {
+        if (row.type === 'changed') return side === 'old' ? 'bg-red-50' : 'bg-green-50';
+        if (row.type === 'removed') return side === 'old' ? 'bg-red-50' : 'bg-gray-50';
+        if (row.type === 'added') return side === 'new' ? 'bg-green-50' : 'bg-gray-50';
+        return '';
+    };
+    const marker = (row: DiffRow, side: 'old' | 'new') => {
+        if (side === 'old' && (row.type === 'removed' || row.type === 'changed')) return '-';
+        if (side === 'new' && (row.type === 'added' || row.type === 'changed')) return '+';
+        return '';
+    };
+    const renderCell = (row: DiffRow, side: 'old' | 'new') => {
+        const lineNumber = side === 'old' ? row.oldLineNumber : row.newLineNumber;
+        const text = side === 'old' ? row.oldText : row.newText;
+        const segments = side === 'old' ? row.oldSegments : row.newSegments;
+        return (
+            <>
+                <td className={`w-10 px-2 py-1 text-right text-gray-400 select-none align-top ${cellClass(row, side)}`}>
+                    {lineNumber}
+                </td>
+                <td
+                    className={`w-4 py-1 text-center font-semibold select-none align-top ${side === 'old' ? 'text-red-600' : 'text-green-600'} ${cellClass(row, side)}`}
+                >
+                    {marker(row, side)}
+                </td>
+                <td className={`px-2 py-1 whitespace-pre-wrap break-words align-top ${cellClass(row, side)}`}>
+                    {segments ? renderSegments(segments) : text}
+                </td>
+            </>
+        );
+    };
+    const rows = diff
+        ? onlyChanges
+            ? diff.rows.filter((row) => row.type !== 'unchanged')
+            : diff.rows
+        : [];
+    const versionOptions = versions.map((version, index) => (
+        <option key={version.id} value={version.id}>
+            Version {version.versionNumber}
+            {index === 0 ? ' (current)' : ''}
+        </option>
+    ));
+    return (
+        <div className="p-4">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <button
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                    onClick={onBack}
+                >
+                    <ArrowLeftIcon size={14} className="mr-1" />
+                    Back to versions
+                </button>
+                <div className="flex items-center gap-2 text-sm ml-auto">
+                    <select
+                        className="border border-gray-300 rounded px-2 py-1"
+                        value={baseId}
+                        onChange={(e) => setBaseId(e.target.value)}
+                        aria-label="Base version"
+                    >
+                        {versionOptions}
+                    </select>
+                    <GitCompareIcon size={16} className="text-gray-400" />
+                    <select
+                        className="border border-gray-300 rounded px-2 py-1"
+                        value={targetId}
+                        onChange={(e) => setTargetId(e.target.value)}
+                        aria-label="Compared version"
+                    >
+                        {versionOptions}
+                    </select>
+                </div>
+            </div>
+            {baseId === targetId ? (
+                <p className="py-8 text-center text-sm text-gray-500">Select two different versions to compare.</p>
+            ) : unsupported ? (
+                <p className="py-8 text-center text-sm text-gray-500">
+                    Text comparison is available for PDF, Word (.docx) and text files only.
+                </p>
+            ) : error ? (
+                <p className="text-sm text-red-600">{error}</p>
+            ) : !diff ? (
+                <div className="flex flex-col items-center py-8">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+                    <p className="mt-2 text-sm text-gray-500">{stage ? STAGE_LABELS[stage] : 'Preparing...'}</p>
+                </div>
+            ) : (
+                <>
+                    {/* Summary */}
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4 text-sm">
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            <span className="text-green-700">+{diff.summary.linesAdded} lines added</span>
+                            <span className="text-red-700">-{diff.summary.linesRemoved} lines removed</span>
+                            <span className="text-amber-700">~{diff.summary.linesChanged} lines changed</span>
+                            <span className="text-gray-600">
+                                {diff.summary.wordsAdded} words added, {diff.summary.wordsRemoved} removed
+                            </span>
+                        </div>
+                        <p className="mt-2 text-gray-700">
+                            {diff.summary.sectionsAdded.length} section
+                            {diff.summary.sectionsAdded.length === 1 ? '' : 's'} added,{' '}
+                            {diff.summary.sectionsRemoved.length} section
+                            {diff.summary.sectionsRemoved.length === 1 ? '' : 's'} removed
+                        </p>
+                        {(diff.summary.sectionsAdded.length > 0 || diff.summary.sectionsRemoved.length > 0) && (
+                            <ul className="mt-1 text-xs space-y-0.5">
+                                {diff.summary.sectionsAdded.map((section, index) => (
+                                    <li key={`added-${index}`} className="text-green-700">
+                                        + {section}
+                                    </li>
+                                ))}
+                                {diff.summary.sectionsRemoved.map((section, index) => (
+                                    <li key={`removed-${index}`} className="text-red-700">
+                                        - {section}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <label className="flex items-center mb-2 text-xs text-gray-600">
+                        <input
+                            type="checkbox"
+                            className="mr-2"
+                            checked={onlyChanges}
+                            onChange={(e) => setOnlyChanges(e.target.checked)}
+                        />
+                        Show only changed lines
+                    </label>
+                    {rows.length === 0 ? (
+                        <p className="py-8 text-center text-sm text-gray-500 italic">
+                            No text differences between these versions
+                        </p>
+                    ) : (
+                        <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                            <table className="w-full table-fixed text-xs font-mono">
+                                <thead className="bg-gray-50 text-gray-600">
+                                    <tr>
+                                        <th colSpan={3} className="px-2 py-2 text-left font-medium w-1/2">
+                                            Version {base?.versionNumber}
+                                        </th>
+                                        <th colSpan={3} className="px-2 py-2 text-left font-medium w-1/2 border-l border-gray-200">
+                                            Version {target?.versionNumber}
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100">
+                                    {rows.map((row, index) => (
+                                        <tr key={index}>
+                                            {renderCell(row, 'old')}
+                                            {renderCell(row, 'new')}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
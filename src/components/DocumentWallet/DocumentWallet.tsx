@@ -1,99 +1,147 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { DocumentDashboard } from './DocumentDashboard';
 import { DocumentTable } from './DocumentTable';
 import { DocumentUpload } from './DocumentUpload';
 import { DocumentDetail } from './DocumentDetail';
-import { SearchIcon, FilterIcon, XIcon } from 'lucide-react';
+import { ShareDocumentModal } from './ShareDocumentModal';
+import { ExportDocumentsModal } from './ExportDocumentsModal';
+import { DocumentSearchFacets, FacetField, FacetGroup } from './DocumentSearchFacets';
+import { SearchIcon, FilterIcon, XIcon, ArchiveIcon } from 'lucide-react';
 import { mockDocumentData } from './mockDocumentData';
-import { getAllDocuments } from '../../services/DataverseService';
-import { deleteBlob, getBlobNameFromUrl } from '../../services/AzureBlobService';
+import {
+    getAllDocuments,
+    deleteDocument,
+    getDocumentVersions,
+    restoreDeletedDocument,
+    DocumentVersion,
+} from '../../services/DataverseService';
+import { deleteBlob, restoreBlob, getBlobNameFromUrl } from '../../services/AzureBlobService';
+import { isExpiringSoon } from '../../services/ExpiryReminderService';
+import { useDocumentSearch } from '../../hooks/useDocumentSearch';
+import { usePermission } from '../../hooks/usePermission';
+// Distinct blob URLs of a document's versions, excluding the current file
+const getVersionFileUrls = (versions: DocumentVersion[], currentFileUrl: string) =>
+    Array.from(new Set(versions.map((version) => version.fileUrl))).filter(
+        (fileUrl) => fileUrl && fileUrl !== currentFileUrl,
+    );
 export function DocumentWallet() {
     const [documents, setDocuments] = useState<any[]>([]);
-    const [filteredDocuments, setFilteredDocuments] = useState<any[]>([]);
     const [searchTerm, setSearchTerm] = useState('');
     const [activeFilter, setActiveFilter] = useState('all');
     const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
     const [selectedDocument, setSelectedDocument] = useState(null);
+    const [sharingDocument, setSharingDocument] = useState(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const canUpload = usePermission('documents:upload');
+    const canShare = usePermission('documents:share');
     const [statusFilter, setStatusFilter] = useState(null);
+    // Status and file type facets; the category facet shares activeFilter
+    const [statusFacet, setStatusFacet] = useState<string | null>(null);
+    const [fileTypeFacet, setFileTypeFacet] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isFilterExpanded, setIsFilterExpanded] = useState(false);
+    const [recentlyDeleted, setRecentlyDeleted] = useState<{
+        document: any;
+        versions: DocumentVersion[];
+        purgeAfter: string;
+    } | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [restoreError, setRestoreError] = useState<string | null>(null);
     // Fetch documents from Dataverse
     useEffect(() => {
         const fetchDocuments = async () => {
             try {
                 setIsLoading(true);
                 setError(null);
-                // In a real implementation, this would fetch from Dataverse
-                // const data = await getAllDocuments();
-                // For demo purposes, we'll use mock data with a delay to simulate API call
-                setTimeout(() => {
-                    setDocuments(mockDocumentData);
-                    setFilteredDocuments(mockDocumentData);
-                    setIsLoading(false);
-                }, 1000);
+                const data = await getAllDocuments();
+                setDocuments(data);
+                setIsLoading(false);
             } catch (error) {
                 console.error('Error fetching documents:', error);
                 setError('Failed to load documents. Please try again.');
                 setIsLoading(false);
                 // Fall back to mock data in case of error
                 setDocuments(mockDocumentData);
-                setFilteredDocuments(mockDocumentData);
             }
         };
         fetchDocuments();
     }, []);
-    // Filter documents based on search term, active filter, and status filter
-    useEffect(() => {
-        let filtered = documents;
-        // Apply search filter
-        if (searchTerm) {
-            filtered = filtered.filter(
-                (doc) =>
-                    doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                    doc.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                    doc.tags.some((tag: string) =>
-                        tag.toLowerCase().includes(searchTerm.toLowerCase()),
-                    ),
-            );
-        }
-        // Apply category filter
-        if (activeFilter !== 'all') {
-            filtered = filtered.filter((doc) => doc.category === activeFilter);
-        }
-        // Apply status filter
-        if (statusFilter) {
-            if (statusFilter === 'active') {
-                filtered = filtered.filter((doc) => doc.status === 'Active');
-            } else if (statusFilter === 'expired') {
-                filtered = filtered.filter((doc) => {
-                    if (!doc.expiryDate) return false;
-                    const today = new Date();
-                    const expiry = new Date(doc.expiryDate);
-                    return expiry < today || doc.status === 'Expired';
-                });
-            } else if (statusFilter === 'expiring') {
-                filtered = filtered.filter((doc) => {
-                    if (!doc.expiryDate) return false;
-                    const today = new Date();
-                    const expiry = new Date(doc.expiryDate);
-                    const diffTime = expiry.getTime() - today.getTime();
-                    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-                    return diffDays <= 30 && diffDays >= 0;
-                });
-            }
+    // Full-text search over names, tags and extracted document text
+    const { hits: searchHits, searching, indexing } = useDocumentSearch(documents, searchTerm);
+    // Whether a document matches the search (name, category and tags until the index is available)
+    const matchesSearch = useCallback((doc: any) => {
+        if (!searchTerm.trim()) return true;
+        if (searchHits) return searchHits.has(doc.id);
+        return (
+            doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            doc.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            doc.tags.some((tag: string) =>
+                tag.toLowerCase().includes(searchTerm.toLowerCase()),
+            )
+        );
+    }, [searchTerm, searchHits]);
+    // Whether a document passes the dashboard status filter
+    const matchesStatusFilter = useCallback((doc: any) => {
+        if (statusFilter === 'active') return doc.status === 'Active';
+        if (statusFilter === 'expired') {
+            if (!doc.expiryDate) return false;
+            const today = new Date();
+            const expiry = new Date(doc.expiryDate);
+            return expiry < today || doc.status === 'Expired';
         }
-        setFilteredDocuments(filtered);
-    }, [searchTerm, activeFilter, documents, statusFilter]);
-    // Get expiring documents (within 30 days)
-    const expiringDocuments = documents.filter((doc) => {
-        if (!doc.expiryDate) return false;
-        const today = new Date();
-        const expiry = new Date(doc.expiryDate);
-        const diffTime = expiry.getTime() - today.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        return diffDays <= 30 && diffDays >= 0;
-    });
+        if (statusFilter === 'expiring') return isExpiringSoon(doc);
+        return true;
+    }, [statusFilter]);
+    // Whether a document passes every facet except the one being counted
+    const matchesFacets = useCallback((doc: any, skip?: FacetField) =>
+        (skip === 'category' || activeFilter === 'all' || doc.category === activeFilter) &&
+        (skip === 'status' || !statusFacet || doc.status === statusFacet) &&
+        (skip === 'fileType' || !fileTypeFacet || doc.fileType === fileTypeFacet), [activeFilter, statusFacet, fileTypeFacet]);
+    // Filter documents based on search term, facets, and status filter
+    const filteredDocuments = useMemo(
+        () => documents.filter((doc) => matchesSearch(doc) && matchesStatusFilter(doc) && matchesFacets(doc)),
+        [documents, matchesSearch, matchesStatusFilter, matchesFacets],
+    );
+    // Facet counts over the documents matching the search and the other facets
+    const searchMatches = documents.filter((doc) => matchesSearch(doc) && matchesStatusFilter(doc));
+    const countBy = (field: FacetField) =>
+        searchMatches
+            .filter((doc) => matchesFacets(doc, field))
+            .reduce((counts: Record<string, number>, doc) => {
+                const value = doc[field] || 'Unknown';
+                counts[value] = (counts[value] || 0) + 1;
+                return counts;
+            }, {});
+    const facetGroups: FacetGroup[] = [
+        { field: 'category', label: 'Category', counts: countBy('category'), selected: activeFilter === 'all' ? null : activeFilter },
+        { field: 'status', label: 'Status', counts: countBy('status'), selected: statusFacet },
+        { field: 'fileType', label: 'Type', counts: countBy('fileType'), selected: fileTypeFacet },
+    ];
+    const handleFacetSelect = (field: FacetField, value: string | null) => {
+        if (field === 'category') setActiveFilter(value || 'all');
+        else if (field === 'status') setStatusFacet(value);
+        else setFileTypeFacet(value);
+    };
+    const hasFilters = !!(searchTerm || activeFilter !== 'all' || statusFilter || statusFacet || fileTypeFacet);
+    const clearFilters = () => {
+        setSearchTerm('');
+        setActiveFilter('all');
+        setStatusFilter(null);
+        setStatusFacet(null);
+        setFileTypeFacet(null);
+    };
+    // Export the selected rows that are still visible, or everything the filters show
+    const selectedDocuments = filteredDocuments.filter((doc) => selectedIds.includes(doc.id));
+    const exportDocuments = selectedDocuments.length > 0 ? selectedDocuments : filteredDocuments;
+    const exportScopeLabel = selectedDocuments.length > 0
+        ? `${selectedDocuments.length} selected document(s)`
+        : hasFilters
+        ? `the ${filteredDocuments.length} document(s) matching your filters`
+        : `all ${filteredDocuments.length} document(s)`;
+    // Get expiring documents (inside their category's reminder window)
+    const expiringDocuments = documents.filter((doc) => isExpiringSoon(doc));
     // Calculate document statistics
     const documentStats = {
         total: documents.length,
@@ -113,69 +161,68 @@ export function DocumentWallet() {
     };
     // Get unique categories for filter
     const categories = ['all', ...new Set(documents.map((doc) => doc.category))];
-    // Handle document upload
+    // Handle each uploaded document; bulk uploads finish one at a time, so the modal stays open
     const handleDocumentUpload = (newDocument: any) => {
-        setDocuments([
-            ...documents,
-            {
-                ...newDocument,
-                id: Date.now().toString(),
-            },
-        ]);
-        setIsUploadModalOpen(false);
+        setDocuments((current) => [...current, newDocument]);
     };
-    // Handle document replacement
-    const handleDocumentReplace = (docId: string, newVersion: any) => {
-        setDocuments(
-            documents.map((doc) => {
-                if (doc.id === docId) {
-                    // Add current version to version history
-                    const updatedVersions = [
-                        ...(doc.versions || []),
-                        {
-                            versionNumber: doc.versions ? doc.versions.length + 1 : 1,
-                            uploadDate: doc.uploadDate,
-                            uploadedBy: doc.uploadedBy,
-                            notes: 'Previous version',
-                            fileUrl: doc.fileUrl,
-                        },
-                    ];
-                    return {
-                        ...doc,
-                        ...newVersion,
-                        versions: updatedVersions,
-                        uploadDate: new Date().toISOString().split('T')[0],
-                    };
-                }
-                return doc;
-            }),
-        );
-        setSelectedDocument(null);
+    // Handle a new current version (replaced or restored file); the detail panel stays open
+    const handleDocumentReplace = (docId: string, updatedDocument: any) => {
+        const merged = { ...documents.find((doc) => doc.id === docId), ...updatedDocument };
+        setDocuments(documents.map((doc) => (doc.id === docId ? merged : doc)));
+        setSelectedDocument(merged);
     };
     // Handle document deletion
+    // Blobs are soft-deleted server-side, so the document can be restored until its retention window ends.
+    // Errors propagate to DocumentDetail, which shows them (e.g. when the caller may not delete the document).
     const handleDocumentDelete = async (docId: string) => {
+        const docToDelete = documents.find((doc) => doc.id === docId);
+        if (!docToDelete) return;
+        const versions = await getDocumentVersions(docId);
+        const movedBlobs: string[] = [];
+        let deleted;
         try {
-            const docToDelete = documents.find((doc) => doc.id === docId);
-            if (docToDelete) {
-                // Delete all versions from blob storage
-                if (docToDelete.versions && docToDelete.versions.length > 0) {
-                    for (const version of docToDelete.versions) {
-                        const blobName = getBlobNameFromUrl(version.fileUrl);
-                        await deleteBlob(blobName);
-                    }
-                }
-                // Delete the current version
-                const blobName = getBlobNameFromUrl(docToDelete.fileUrl);
-                await deleteBlob(blobName);
+            // Delete the current version first; the access check fails here before anything else is touched
+            deleted = await deleteBlob(getBlobNameFromUrl(docToDelete.fileUrl));
+            movedBlobs.push(getBlobNameFromUrl(docToDelete.fileUrl));
+            // Delete all previous versions from blob storage (restored versions share a blob)
+            for (const fileUrl of getVersionFileUrls(versions, docToDelete.fileUrl)) {
+                await deleteBlob(getBlobNameFromUrl(fileUrl));
+                movedBlobs.push(getBlobNameFromUrl(fileUrl));
             }
-            // Update state to remove the document
-            setDocuments(documents.filter((doc) => doc.id !== docId));
-            setSelectedDocument(null);
+            // Delete the document metadata and version records from Dataverse
+            await deleteDocument(docId);
         } catch (error) {
-            console.error('Error deleting document:', error);
-            // Continue with UI update even if blob deletion fails
-            setDocuments(documents.filter((doc) => doc.id !== docId));
-            setSelectedDocument(null);
+            // Put the files back so a document that is still listed never points at deleted blobs
+            for (const blobName of movedBlobs) {
+                await restoreBlob(blobName).catch((restoreError) =>
+                    console.error(`Error restoring ${blobName} after a failed delete:`, restoreError)
+                );
+            }
+            throw error;
+        }
+        setRecentlyDeleted({ document: docToDelete, versions, purgeAfter: deleted.purgeAfter });
+        // Update state to remove the document
+        setDocuments(documents.filter((doc) => doc.id !== docId));
+        setSelectedDocument(null);
+    };
+    // Restore the most recently deleted document and its versions
+    const handleUndoDelete = async () => {
+        if (!recentlyDeleted) return;
+        const { document: deletedDocument, versions } = recentlyDeleted;
+        try {
+            setIsRestoring(true);
+            await restoreBlob(getBlobNameFromUrl(deletedDocument.fileUrl));
+            for (const fileUrl of getVersionFileUrls(versions, deletedDocument.fileUrl)) {
+                await restoreBlob(getBlobNameFromUrl(fileUrl));
+            }
+            const restored = await restoreDeletedDocument(deletedDocument, versions);
+            setDocuments((current) => [...current, restored]);
+            setRecentlyDeleted(null);
+        } catch (error) {
+            console.error('Error restoring document:', error);
+            setRestoreError('Failed to restore document. Please try again.');
+        } finally {
+            setIsRestoring(false);
         }
     };
     // Toggle filter expansion for mobile
@@ -221,6 +268,41 @@ export function DocumentWallet() {
                 />
             </div>
 
+            {/* Undo banner for the last deleted document */}
+            {recentlyDeleted && (
+                <div className="mx-4 md:mx-6 mt-4 flex flex-wrap items-center justify-between gap-2 bg-gray-50 border border-gray-200 rounded-md px-4 py-3">
+                    <p className="text-sm text-gray-700">
+                        "{recentlyDeleted.document.name}" was deleted. It can be restored until{' '}
+                        {new Date(recentlyDeleted.purgeAfter).toLocaleDateString('en-US', {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                        })}
+                        .
+                        {restoreError && <span className="text-red-600 ml-2">{restoreError}</span>}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            className="px-3 py-1 text-sm font-medium text-blue-600 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                            onClick={handleUndoDelete}
+                            disabled={isRestoring}
+                        >
+                            {isRestoring ? 'Restoring...' : 'Undo'}
+                        </button>
+                        <button
+                            className="p-1 text-gray-500 hover:text-gray-700"
+                            onClick={() => {
+                                setRecentlyDeleted(null);
+                                setRestoreError(null);
+                            }}
+                            aria-label="Dismiss"
+                        >
+                            <XIcon size={16} />
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Search and Filters - Compact for mobile */}
             <div className="px-4 md:px-6 pt-4">
                 <div className="md:flex md:flex-row md:gap-4 md:items-center">
@@ -230,7 +312,7 @@ export function DocumentWallet() {
                             <div className="relative flex-1">
                                 <input
                                     type="text"
-                                    placeholder="Search documents..."
+                                    placeholder='Search names, tags and contents (use "quotes" for phrases)'
                                     className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                                     value={searchTerm}
                                     onChange={(e) => setSearchTerm(e.target.value)}
@@ -278,12 +360,10 @@ export function DocumentWallet() {
                                         </option>
                                     ))}
                                 </select>
-                                {(searchTerm || activeFilter !== 'all' || statusFilter) && (
+                                {hasFilters && (
                                     <button
                                         onClick={() => {
-                                            setSearchTerm('');
-                                            setActiveFilter('all');
-                                            setStatusFilter(null);
+                                            clearFilters();
                                             setIsFilterExpanded(false);
                                         }}
                                         className="w-full py-3 text-sm text-blue-600 border border-blue-300 rounded-md bg-blue-50 hover:bg-blue-100"
@@ -312,6 +392,27 @@ export function DocumentWallet() {
                         </select>
                     </div>
                 </div>
+                {/* Facets and indexing status */}
+                <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+                    <DocumentSearchFacets groups={facetGroups} onSelect={handleFacetSelect} />
+                    <div className="flex items-center gap-3">
+                        {(searching || indexing) && (
+                            <span className="text-xs text-gray-500">
+                                {indexing
+                                    ? `Indexing document text (${indexing.indexed} of ${indexing.total})...`
+                                    : 'Searching...'}
+                            </span>
+                        )}
+                        <button
+                            className="flex items-center px-3 py-1.5 text-sm font-medium text-blue-600 border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                            onClick={() => setIsExportModalOpen(true)}
+                            disabled={filteredDocuments.length === 0}
+                        >
+                            <ArchiveIcon size={14} className="mr-1.5" />
+                            {selectedDocuments.length > 0 ? `Export ${selectedDocuments.length} selected` : 'Export'}
+                        </button>
+                    </div>
+                </div>
             </div>
 
             {/* Empty state */}
@@ -337,29 +438,25 @@ export function DocumentWallet() {
                         No documents found
                     </h3>
                     <p className="text-gray-500 mb-5 px-6 max-w-md mx-auto">
-                        {searchTerm || activeFilter !== 'all' || statusFilter
+                        {hasFilters
                             ? "Try adjusting your search or filters to find what you're looking for."
                             : 'Upload your first document to get started.'}
                     </p>
-                    {searchTerm || activeFilter !== 'all' || statusFilter ? (
+                    {hasFilters ? (
                         <button
-                            onClick={() => {
-                                setSearchTerm('');
-                                setActiveFilter('all');
-                                setStatusFilter(null);
-                            }}
+                            onClick={clearFilters}
                             className="inline-flex items-center px-5 py-2.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                         >
                             Clear all filters
                         </button>
-                    ) : (
+                    ) : canUpload ? (
                         <button
                             onClick={() => setIsUploadModalOpen(true)}
                             className="inline-flex items-center px-5 py-2.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
                         >
                             Upload a document
                         </button>
-                    )}
+                    ) : null}
                 </div>
             )}
 
@@ -369,6 +466,10 @@ export function DocumentWallet() {
                     <DocumentTable
                         documents={filteredDocuments}
                         onViewDocument={setSelectedDocument}
+                        onShareDocument={canShare ? setSharingDocument : undefined}
+                        searchHits={searchTerm ? searchHits : null}
+                        selectedIds={selectedIds}
+                        onSelectionChange={setSelectedIds}
                     />
                 </div>
             )}
@@ -391,6 +492,24 @@ export function DocumentWallet() {
                     onDelete={handleDocumentDelete}
                 />
             )}
+
+            {/* Share Modal */}
+            {sharingDocument && (
+                <ShareDocumentModal
+                    document={sharingDocument}
+                    onClose={() => setSharingDocument(null)}
+                />
+            )}
+
+            {/* Export Modal */}
+            {isExportModalOpen && (
+                <ExportDocumentsModal
+                    documents={exportDocuments}
+                    scopeLabel={exportScopeLabel}
+                    fileName={`document-wallet-${new Date().toISOString().split('T')[0]}.zip`}
+                    onClose={() => setIsExportModalOpen(false)}
+                />
+            )}
         </div>
     );
 }
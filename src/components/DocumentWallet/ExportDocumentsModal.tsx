@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArchiveIcon, XIcon } from 'lucide-react';
+import {
+    exportDocumentsZip,
+    ExportableDocument,
+    ExportProgress,
+    ExportResult,
+} from '../../services/DocumentExportService';
+// Format file size
+const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+export function ExportDocumentsModal({
+    documents,
+    scopeLabel,
+    allowVersions = true,
+    fileName,
+    onClose,
+}: {
+    documents: ExportableDocument[];
+    /** What is being exported, e.g. "3 selected documents" */
+    scopeLabel: string;
+    /** Offer the "include all versions" option (wallet documents only) */
+    allowVersions?: boolean;
+    fileName?: string;
+    onClose: () => void;
+}) {
+    const [includeVersions, setIncludeVersions] = useState(false);
+    const [progress, setProgress] = useState<ExportProgress | null>(null);
+    const [result, setResult] = useState<ExportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const isExporting = progress !== null && result === null;
+    // Stop a running export when the modal goes away
+    useEffect(() => () => controllerRef.current?.abort(), []);
+    // Start the export; must run straight from the click so the save dialog may open
+    const handleExport = async () => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setError(null);
+        setResult(null);
+        setProgress({ completedDocuments: 0, totalDocuments: documents.length, currentFile: null, bytesWritten: 0 });
+        try {
+            const exported = await exportDocumentsZip(documents, {
+                includeVersions: allowVersions && includeVersions,
+                fileName,
+                signal: controller.signal,
+                onProgress: setProgress,
+            });
+            setResult(exported);
+        } catch (error) {
+            setProgress(null);
+            // Cancelled, either here or in the save dialog
+            if (error instanceof DOMException && error.name === 'AbortError') return;
+            console.error('Error exporting documents:', error);
+            setError('The export failed. Please try again.');
+        }
+    };
+    // Cancel a running export, otherwise close
+    const handleClose = () => {
+        if (isExporting) {
+            controllerRef.current?.abort();
+            return;
+        }
+        onClose();
+    };
+    const percent = progress && progress.totalDocuments > 0
+        ? Math.round((progress.completedDocuments / progress.totalDocuments) * 100)
+        : 0;
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200">
+                    <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+                        <ArchiveIcon size={18} className="mr-2 text-blue-600" />
+                        Export documents
+                    </h2>
+                    <button className="text-gray-500 hover:text-gray-700" onClick={handleClose} disabled={isExporting}>
+                        <XIcon size={20} />
+                    </button>
+                </div>
+                <div className="p-4 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        Download {scopeLabel} as a ZIP file. It includes manifest.json and manifest.csv with each
+                        file's metadata, version, expiry date and SHA-256 checksum.
+                    </p>
+                    {allowVersions && (
+                        <label className="flex items-start text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                className="h-4 w-4 mt-0.5 mr-2 text-blue-600 border-gray-300 rounded"
+                                checked={includeVersions}
+                                onChange={(e) => setIncludeVersions(e.target.checked)}
+                                disabled={isExporting}
+                            />
+                            <span>
+                                Include all previous versions
+                                <span className="block text-xs text-gray-500">Added under a versions/ folder</span>
+                            </span>
+                        </label>
+                    )}
+                    {progress && !result && (
+                        <div>
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                                <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1 truncate">
+                                {progress.completedDocuments} of {progress.totalDocuments} documents ·{' '}
+                                {formatFileSize(progress.bytesWritten)}
+                                {progress.currentFile && ` · ${progress.currentFile}`}
+                            </p>
+                        </div>
+                    )}
+                    {result && (
+                        <div className={`text-sm rounded-md px-3 py-2 ${result.failedCount > 0 ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'}`}>
+                            Exported {result.manifest.files.length - result.failedCount} file(s),{' '}
+                            {formatFileSize(result.bytesWritten)}.
+                            {result.failedCount > 0 &&
+                                ` ${result.failedCount} file(s) could not be downloaded; see the Error column in manifest.csv.`}
+                        </div>
+                    )}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-200">
+                    <button
+                        className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                        onClick={handleClose}
+                    >
+                        {isExporting ? 'Cancel export' : result ? 'Close' : 'Cancel'}
+                    </button>
+                    {!result && (
+                        <button
+                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                            onClick={handleExport}
+                            disabled={isExporting || documents.length === 0}
+                        >
+                            {isExporting ? 'Exporting...' : 'Export ZIP'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
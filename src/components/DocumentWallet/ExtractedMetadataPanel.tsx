@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { SparklesIcon, CheckIcon, RefreshCwIcon } from 'lucide-react';
+import {
+    ExtractedMetadata,
+    MetadataSuggestion,
+    ProfileSyncCandidate,
+} from '../../services/DocumentMetadataService';
+import { HIGH_CONFIDENCE, MEDIUM_CONFIDENCE } from '../../utils/documentMetadata';
+export type SuggestedField = 'category' | 'expiryDate' | 'tags';
+// Confidence shown as a coloured High / Medium / Low badge
+export function ConfidenceBadge({ confidence }: { confidence: number }) {
+    const level = confidence >= HIGH_CONFIDENCE ? 'High' : confidence >= MEDIUM_CONFIDENCE ? 'Medium' : 'Low';
+    const colors = {
+        High: 'bg-green-100 text-green-700',
+        Medium: 'bg-yellow-100 text-yellow-700',
+        Low: 'bg-gray-100 text-gray-600',
+    };
+    return (
+        <span
+            className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${colors[level]}`}
+            title={`${Math.round(confidence * 100)}% confidence`}
+        >
+            {level}
+        </span>
+    );
+}
+// Merge suggested tags into a comma separated tag list
+export const mergeTags = (current: string, suggested: string[]) => {
+    const tags = current
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter((tag) => tag);
+    suggested.forEach((tag) => {
+        if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+    });
+    return tags.join(', ');
+};
+export function ExtractedMetadataPanel({
+    metadata,
+    values,
+    candidates,
+    disabled,
+    onAccept,
+    onSync,
+}: {
+    metadata: ExtractedMetadata;
+    values: { category: string; expiryDate: string; tags: string };
+    candidates: ProfileSyncCandidate[];
+    disabled?: boolean;
+    onAccept: (field: SuggestedField, value: string) => void;
+    onSync: (selected: ProfileSyncCandidate[]) => Promise<void>;
+}) {
+    // Profile fields ticked for syncing; high-confidence values start ticked
+    const [selected, setSelected] = useState<Record<string, boolean>>(() =>
+        Object.fromEntries(candidates.map((c) => [c.fieldName, c.confidence >= HIGH_CONFIDENCE])),
+    );
+    const [syncState, setSyncState] = useState<'idle' | 'syncing' | 'synced' | 'error'>('idle');
+    const formatDate = (dateString: string) =>
+        new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+    const suggestions: { field: SuggestedField; label: string; display: string; value: string; suggestion: MetadataSuggestion<any>; applied: boolean }[] = [];
+    if (metadata.category) {
+        suggestions.push({
+            field: 'category',
+            label: 'Category',
+            display: metadata.category.value,
+            value: metadata.category.value,
+            suggestion: metadata.category,
+            applied: values.category === metadata.category.value,
+        });
+    }
+    if (metadata.expiryDate) {
+        suggestions.push({
+            field: 'expiryDate',
+            label: 'Expiry',
+            display: formatDate(metadata.expiryDate.value),
+            value: metadata.expiryDate.value,
+            suggestion: metadata.expiryDate,
+            applied: values.expiryDate === metadata.expiryDate.value,
+        });
+    }
+    if (metadata.tags && metadata.tags.value.length > 0) {
+        const merged = mergeTags(values.tags, metadata.tags.value);
+        suggestions.push({
+            field: 'tags',
+            label: 'Tags',
+            display: metadata.tags.value.join(', '),
+            value: merged,
+            suggestion: metadata.tags,
+            applied: merged === mergeTags(values.tags, []),
+        });
+    }
+    const pending = suggestions.filter((s) => !s.applied);
+    if (suggestions.length === 0 && candidates.length === 0) return null;
+    // Write the ticked values into the business profile
+    const handleSync = async () => {
+        setSyncState('syncing');
+        try {
+            await onSync(candidates.filter((c) => selected[c.fieldName]));
+            setSyncState('synced');
+        } catch (error) {
+            console.error('Error syncing profile fields:', error);
+            setSyncState('error');
+        }
+    };
+    return (
+        <div className="mt-2 bg-blue-50 border border-blue-100 rounded-md p-2 text-xs">
+            {suggestions.length > 0 && (
+                <>
+                    <div className="flex items-center justify-between mb-1">
+                        <span className="flex items-center font-medium text-blue-800">
+                            <SparklesIcon size={12} className="mr-1" /> Suggested from document
+                        </span>
+                        {pending.length > 1 && !disabled && (
+                            <button
+                                type="button"
+                                className="text-blue-600 hover:text-blue-800 font-medium"
+                                onClick={() => pending.forEach((s) => onAccept(s.field, s.value))}
+                            >
+                                Accept all
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {suggestions.map((s) => (
+                            <div
+                                key={s.field}
+                                className="flex items-center bg-white border border-blue-100 rounded px-2 py-1 space-x-1.5"
+                                title={s.suggestion.source ? `Found in: "${s.suggestion.source}"` : undefined}
+                            >
+                                <span className="text-gray-500">{s.label}:</span>
+                                <span className="text-gray-800 font-medium">{s.display}</span>
+                                <ConfidenceBadge confidence={s.suggestion.confidence} />
+                                {s.applied ? (
+                                    <CheckIcon size={12} className="text-green-600" aria-label="Applied" />
+                                ) : (
+                                    <button
+                                        type="button"
+                                        className="text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400"
+                                        onClick={() => onAccept(s.field, s.value)}
+                                        disabled={disabled}
+                                    >
+                                        Accept
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            {candidates.length > 0 && (
+                <div className={suggestions.length > 0 ? 'mt-2 pt-2 border-t border-blue-100' : ''}>
+                    <p className="font-medium text-blue-800 mb-1">Update your business profile?</p>
+                    {candidates.map((c) => (
+                        <label key={c.fieldName} className="flex items-center text-gray-700 py-0.5">
+                            <input
+                                type="checkbox"
+                                checked={!!selected[c.fieldName]}
+                                onChange={(e) => setSelected({ ...selected, [c.fieldName]: e.target.checked })}
+                                className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                                disabled={syncState === 'syncing' || syncState === 'synced'}
+                            />
+                            <span className="mr-1">{c.label}:</span>
+                            {c.currentValue && (
+                                <span className="text-gray-400 line-through mr-1">{c.currentValue}</span>
+                            )}
+                            <span className="font-medium text-gray-800 mr-1.5">{c.value}</span>
+                            <ConfidenceBadge confidence={c.confidence} />
+                        </label>
+                    ))}
+                    <div className="flex items-center mt-1">
+                        {syncState === 'synced' ? (
+                            <span className="text-green-600 flex items-center">
+                                <CheckIcon size={12} className="mr-1" /> Business profile updated
+                            </span>
+                        ) : (
+                            <button
+                                type="button"
+                                className="flex items-center px-2 py-1 font-medium text-blue-600 bg-white border border-blue-200 rounded hover:bg-blue-50 disabled:text-gray-400"
+                                onClick={handleSync}
+                                disabled={syncState === 'syncing' || !candidates.some((c) => selected[c.fieldName])}
+                            >
+                                <RefreshCwIcon size={12} className={`mr-1 ${syncState === 'syncing' ? 'animate-spin' : ''}`} />
+                                {syncState === 'syncing' ? 'Syncing...' : 'Sync to profile'}
+                            </button>
+                        )}
+                        {syncState === 'error' && (
+                            <span className="text-red-500 ml-2">Could not update the profile. Try again.</span>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
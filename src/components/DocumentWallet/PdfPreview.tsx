@@ -0,0 +1,361 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import {
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    ZoomInIcon,
+    ZoomOutIcon,
+    SearchIcon,
+    PanelLeftIcon,
+    MaximizeIcon,
+} from 'lucide-react';
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+const THUMBNAIL_WIDTH = 96;
+// Parse PDFs off the main thread; one worker is shared by all previews
+const ensurePdfWorker = () => {
+    if (!GlobalWorkerOptions.workerPort) {
+        GlobalWorkerOptions.workerPort = new Worker(new URL('../../workers/pdf.worker.ts', import.meta.url), {
+            type: 'module',
+        });
+    }
+};
+interface TextRun {
+    str: string;
+    transform: number[];
+    width: number;
+    height: number;
+}
+interface SearchMatch {
+    page: number;
+    // Indexes of the text runs containing the query
+    runs: number[];
+}
+// Renders a page small, once it scrolls into view
+function PdfThumbnail({ pdf, pageNumber, active, onSelect }: { pdf: PDFDocumentProxy; pageNumber: number; active: boolean; onSelect: () => void }) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [visible, setVisible] = useState(false);
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const observer = new IntersectionObserver(([entry]) => {
+            if (entry.isIntersecting) {
+                setVisible(true);
+                observer.disconnect();
+            }
+        });
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, []);
+    useEffect(() => {
+        if (!visible) return;
+        let task: RenderTask | null = null;
+        let cancelled = false;
+        pdf.getPage(pageNumber).then((page) => {
+            const canvas = canvasRef.current;
+            if (cancelled || !canvas) return;
+            const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            task = page.render({ canvas, viewport });
+            task.promise.catch(() => undefined);
+        });
+        return () => {
+            cancelled = true;
+            task?.cancel();
+        };
+    }, [visible, pdf, pageNumber]);
+    return (
+        <button
+            type="button"
+            className={`block mx-auto mb-3 text-center ${active ? 'ring-2 ring-blue-500' : 'ring-1 ring-gray-200 hover:ring-gray-400'}`}
+            onClick={onSelect}
+            aria-label={`Page ${pageNumber}`}
+        >
+            <canvas ref={canvasRef} className="block bg-white" style={{ width: THUMBNAIL_WIDTH, minHeight: 60 }} />
+            <span className="block text-[10px] text-gray-500 py-0.5 bg-gray-50">{pageNumber}</span>
+        </button>
+    );
+}
+export function PdfPreview({ data }: { data: ArrayBuffer }) {
+    const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [pageNumber, setPageNumber] = useState(1);
+    const [scale, setScale] = useState(1);
+    const [showThumbnails, setShowThumbnails] = useState(true);
+    const [query, setQuery] = useState('');
+    const [matches, setMatches] = useState<SearchMatch[] | null>(null);
+    const [matchIndex, setMatchIndex] = useState(0);
+    const [isSearching, setIsSearching] = useState(false);
+    const [highlights, setHighlights] = useState<{ left: number; top: number; width: number; height: number }[]>([]);
+    const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    // pdf.js refuses to draw on a canvas until the previous render has stopped
+    const renderTaskRef = useRef<RenderTask | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Text runs per page, loaded the first time the document is searched
+    const textCacheRef = useRef<Map<number, TextRun[]>>(new Map());
+    // Load the document
+    useEffect(() => {
+        ensurePdfWorker();
+        // pdf.js takes ownership of the buffer it is given, so pass a copy
+        const task = getDocument({ data: new Uint8Array(data.slice(0)) });
+        task.promise
+            .then((loaded) => {
+                setPdf(loaded);
+                setPageNumber(1);
+                textCacheRef.current = new Map();
+            })
+            .catch((loadError) => {
+                console.error('Error loading PDF:', loadError);
+                setError('This PDF could not be displayed.');
+            });
+        return () => {
+            task.destroy();
+        };
+    }, [data]);
+    // Fit the page to the panel width when the document opens
+    useEffect(() => {
+        if (!pdf || !containerRef.current) return;
+        pdf.getPage(1).then((page) => {
+            const available = (containerRef.current?.clientWidth || 600) - 32;
+            const fit = available / page.getViewport({ scale: 1 }).width;
+            setScale(Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.floor(fit * 4) / 4)));
+        });
+    }, [pdf]);
+    const getTextRuns = useCallback(async (number: number) => {
+        const cached = textCacheRef.current.get(number);
+        if (cached) return cached;
+        const page = await pdf!.getPage(number);
+        const content = await page.getTextContent();
+        const runs = content.items.filter((item) => 'str' in item) as TextRun[];
+        textCacheRef.current.set(number, runs);
+        return runs;
+    }, [pdf]);
+    // Render the current page and outline search matches on it
+    useEffect(() => {
+        if (!pdf) return;
+        let cancelled = false;
+        (async () => {
+            const page = await pdf.getPage(pageNumber);
+            const previous = renderTaskRef.current;
+            if (previous) {
+                previous.cancel();
+                await previous.promise.catch(() => undefined);
+            }
+            const canvas = canvasRef.current;
+            if (cancelled || !canvas) return;
+            const viewport = page.getViewport({ scale });
+            const ratio = window.devicePixelRatio || 1;
+            canvas.width = Math.floor(viewport.width * ratio);
+            canvas.height = Math.floor(viewport.height * ratio);
+            setPageSize({ width: viewport.width, height: viewport.height });
+            const task = page.render({
+                canvas,
+                viewport,
+                transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+            });
+            renderTaskRef.current = task;
+            task.promise.catch(() => undefined);
+            const pageMatch = matches?.find((match) => match.page === pageNumber);
+            if (!pageMatch) {
+                setHighlights([]);
+                return;
+            }
+            const runs = await getTextRuns(pageNumber);
+            if (cancelled) return;
+            setHighlights(
+                pageMatch.runs.map((index) => {
+                    const { transform, width, height } = runs[index];
+                    const x = transform[4];
+                    const y = transform[5];
+                    const fontHeight = height || Math.hypot(transform[2], transform[3]);
+                    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + width, y + fontHeight]);
+                    return {
+                        left: Math.min(x1, x2),
+                        top: Math.min(y1, y2),
+                        width: Math.abs(x2 - x1),
+                        height: Math.abs(y2 - y1),
+                    };
+                }),
+            );
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [pdf, pageNumber, scale, matches, getTextRuns]);
+    // Find the query on every page
+    const handleSearch = async (e: React.SyntheticEvent) => {
+        e.preventDefault();
+        const needle = query.trim().toLowerCase();
+        if (!pdf || !needle) {
+            setMatches(null);
+            return;
+        }
+        setIsSearching(true);
+        const found: SearchMatch[] = [];
+        for (let number = 1; number <= pdf.numPages; number++) {
+            const runs = await getTextRuns(number);
+            const hits = runs
+                .map((run, index) => (run.str.toLowerCase().includes(needle) ? index : -1))
+                .filter((index) => index >= 0);
+            if (hits.length > 0) found.push({ page: number, runs: hits });
+        }
+        setIsSearching(false);
+        setMatches(found);
+        setMatchIndex(0);
+        if (found.length > 0) setPageNumber(found[0].page);
+    };
+    // Step through pages with matches
+    const goToMatch = (direction: 1 | -1) => {
+        if (!matches || matches.length === 0) return;
+        const next = (matchIndex + direction + matches.length) % matches.length;
+        setMatchIndex(next);
+        setPageNumber(matches[next].page);
+    };
+    const fitWidth = async () => {
+        if (!pdf || !containerRef.current) return;
+        const page = await pdf.getPage(pageNumber);
+        const available = containerRef.current.clientWidth - 32;
+        setScale(Math.min(MAX_SCALE, Math.max(MIN_SCALE, available / page.getViewport({ scale: 1 }).width)));
+    };
+    if (error) {
+        return <p className="p-6 text-sm text-center text-gray-500">{error}</p>;
+    }
+    if (!pdf) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+    const toolbarButton = 'p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:opacity-40';
+    return (
+        <div className="flex flex-col h-full">
+            {/* Toolbar */}
+            <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-200 bg-white">
+                <button type="button" className={toolbarButton} onClick={() => setShowThumbnails(!showThumbnails)} title="Thumbnails">
+                    <PanelLeftIcon size={16} />
+                </button>
+                <div className="flex items-center">
+                    <button
+                        type="button"
+                        className={toolbarButton}
+                        onClick={() => setPageNumber(pageNumber - 1)}
+                        disabled={pageNumber <= 1}
+                        title="Previous page"
+                    >
+                        <ChevronLeftIcon size={16} />
+                    </button>
+                    <input
+                        type="number"
+                        min={1}
+                        max={pdf.numPages}
+                        value={pageNumber}
+                        onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (value >= 1 && value <= pdf.numPages) setPageNumber(value);
+                        }}
+                        className="w-12 px-1 py-0.5 text-sm text-center border border-gray-300 rounded"
+                        aria-label="Page number"
+                    />
+                    <span className="text-sm text-gray-500 mx-1">of {pdf.numPages}</span>
+                    <button
+                        type="button"
+                        className={toolbarButton}
+                        onClick={() => setPageNumber(pageNumber + 1)}
+                        disabled={pageNumber >= pdf.numPages}
+                        title="Next page"
+                    >
+                        <ChevronRightIcon size={16} />
+                    </button>
+                </div>
+                <div className="flex items-center">
+                    <button
+                        type="button"
+                        className={toolbarButton}
+                        onClick={() => setScale(Math.max(MIN_SCALE, scale - SCALE_STEP))}
+                        disabled={scale <= MIN_SCALE}
+                        title="Zoom out"
+                    >
+                        <ZoomOutIcon size={16} />
+                    </button>
+                    <span className="text-xs text-gray-600 w-10 text-center">{Math.round(scale * 100)}%</span>
+                    <button
+                        type="button"
+                        className={toolbarButton}
+                        onClick={() => setScale(Math.min(MAX_SCALE, scale + SCALE_STEP))}
+                        disabled={scale >= MAX_SCALE}
+                        title="Zoom in"
+                    >
+                        <ZoomInIcon size={16} />
+                    </button>
+                    <button type="button" className={toolbarButton} onClick={fitWidth} title="Fit to width">
+                        <MaximizeIcon size={16} />
+                    </button>
+                </div>
+                <form onSubmit={handleSearch} className="flex items-center ml-auto">
+                    <div className="relative">
+                        <SearchIcon size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+                        <input
+                            type="text"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Find in document"
+                            className="pl-7 pr-2 py-1 text-sm border border-gray-300 rounded w-44"
+                        />
+                    </div>
+                    {isSearching ? (
+                        <span className="text-xs text-gray-500 ml-2">Searching...</span>
+                    ) : matches && (
+                        <span className="flex items-center text-xs text-gray-500 ml-2">
+                            {matches.length === 0
+                                ? 'No matches'
+                                : `Page ${matchIndex + 1} of ${matches.length}`}
+                            {matches.length > 1 && (
+                                <>
+                                    <button type="button" className={toolbarButton} onClick={() => goToMatch(-1)} title="Previous match">
+                                        <ChevronLeftIcon size={14} />
+                                    </button>
+                                    <button type="button" className={toolbarButton} onClick={() => goToMatch(1)} title="Next match">
+                                        <ChevronRightIcon size={14} />
+                                    </button>
+                                </>
+                            )}
+                        </span>
+                    )}
+                </form>
+            </div>
+            <div className="flex flex-1 min-h-0">
+                {/* Thumbnails */}
+                {showThumbnails && (
+                    <div className="w-32 flex-shrink-0 overflow-y-auto border-r border-gray-200 bg-gray-50 py-3">
+                        {Array.from({ length: pdf.numPages }, (_, index) => (
+                            <PdfThumbnail
+                                key={index}
+                                pdf={pdf}
+                                pageNumber={index + 1}
+                                active={pageNumber === index + 1}
+                                onSelect={() => setPageNumber(index + 1)}
+                            />
+                        ))}
+                    </div>
+                )}
+                {/* Page */}
+                <div ref={containerRef} className="flex-1 overflow-auto bg-gray-100 p-4">
+                    <div className="relative mx-auto shadow bg-white" style={{ width: pageSize.width, height: pageSize.height }}>
+                        <canvas ref={canvasRef} className="block" style={{ width: pageSize.width, height: pageSize.height }} />
+                        {highlights.map((box, idx) => (
+                            <div
+                                key={idx}
+                                className="absolute bg-yellow-300 bg-opacity-40 pointer-events-none"
+                                style={box}
+                            />
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
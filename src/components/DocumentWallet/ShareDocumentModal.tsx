@@ -0,0 +1,190 @@
+import { FormEvent, useState } from 'react';
+import { XIcon, LinkIcon, CopyIcon, CheckIcon } from 'lucide-react';
+import { getBlobNameFromUrl } from '../../services/AzureBlobService';
+import { createShareLink, getShareLinkUrl, ShareLink } from '../../services/ShareLinkService';
+// Expiry choices offered in the form, in days
+const EXPIRY_OPTIONS = [
+    { days: 1, label: '1 day' },
+    { days: 7, label: '7 days' },
+    { days: 14, label: '14 days' },
+    { days: 30, label: '30 days' },
+];
+export function ShareDocumentModal({
+    document,
+    onClose,
+    onCreated,
+}: {
+    document: any;
+    onClose: () => void;
+    onCreated?: (link: ShareLink) => void;
+}) {
+    const [expiryDays, setExpiryDays] = useState(7);
+    const [usePassword, setUsePassword] = useState(false);
+    const [password, setPassword] = useState('');
+    const [limitDownloads, setLimitDownloads] = useState(false);
+    const [maxDownloads, setMaxDownloads] = useState(1);
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [link, setLink] = useState<ShareLink | null>(null);
+    const [copied, setCopied] = useState(false);
+    // Create the link with the chosen expiry, password and download limit
+    const handleCreate = async (e: FormEvent) => {
+        e.preventDefault();
+        try {
+            setIsCreating(true);
+            setError(null);
+            const blobName = getBlobNameFromUrl(document.fileUrl);
+            const extension = blobName.includes('.') ? blobName.split('.').pop() : '';
+            const created = await createShareLink(blobName, {
+                fileName: extension ? `${document.name}.${extension}` : document.name,
+                expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000),
+                password: usePassword ? password : undefined,
+                maxDownloads: limitDownloads ? maxDownloads : null,
+            });
+            setLink(created);
+            onCreated?.(created);
+        } catch (err) {
+            console.error('Error creating share link:', err);
+            setError(err instanceof Error ? err.message : 'Failed to create share link. Please try again.');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+    // Copy the link to the clipboard
+    const handleCopy = async () => {
+        if (!link) return;
+        try {
+            await navigator.clipboard.writeText(getShareLinkUrl(link.id));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            setError('Could not copy the link. Select it and copy it manually.');
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200">
+                    <h2 className="text-lg font-semibold text-gray-800 truncate">
+                        Share "{document.name}"
+                    </h2>
+                    <button className="text-gray-500 hover:text-gray-700" onClick={onClose}>
+                        <XIcon size={20} />
+                    </button>
+                </div>
+                {link ? (
+                    <div className="p-4">
+                        <p className="text-sm text-gray-600 mb-3">
+                            Anyone with this link can download the document until{' '}
+                            {new Date(link.expiresAt).toLocaleString()}
+                            {link.maxDownloads !== null && ` (${link.maxDownloads} download${link.maxDownloads === 1 ? '' : 's'})`}.
+                            {link.hasPassword && ' Send the password separately.'}
+                        </p>
+                        <div className="flex gap-2">
+                            <input
+                                readOnly
+                                className="flex-1 min-w-0 border border-gray-300 rounded-md px-3 py-2 text-sm bg-gray-50"
+                                value={getShareLinkUrl(link.id)}
+                                onFocus={(e) => e.target.select()}
+                            />
+                            <button
+                                className="flex items-center px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100"
+                                onClick={handleCopy}
+                            >
+                                {copied ? <CheckIcon size={16} className="mr-1" /> : <CopyIcon size={16} className="mr-1" />}
+                                {copied ? 'Copied' : 'Copy'}
+                            </button>
+                        </div>
+                        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+                        <div className="flex justify-end mt-4">
+                            <button
+                                className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                                onClick={onClose}
+                            >
+                                Done
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <form className="p-4 space-y-4" onSubmit={handleCreate}>
+                        <label className="block">
+                            <span className="block text-sm font-medium text-gray-700 mb-1">Link expires after</span>
+                            <select
+                                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                                value={expiryDays}
+                                onChange={(e) => setExpiryDays(Number(e.target.value))}
+                            >
+                                {EXPIRY_OPTIONS.map((option) => (
+                                    <option key={option.days} value={option.days}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <div>
+                            <label className="flex items-center text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    className="mr-2"
+                                    checked={usePassword}
+                                    onChange={(e) => setUsePassword(e.target.checked)}
+                                />
+                                Require a password
+                            </label>
+                            {usePassword && (
+                                <input
+                                    type="password"
+                                    className="mt-2 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                                    placeholder="At least 6 characters"
+                                    minLength={6}
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    required
+                                />
+                            )}
+                        </div>
+                        <div>
+                            <label className="flex items-center text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    className="mr-2"
+                                    checked={limitDownloads}
+                                    onChange={(e) => setLimitDownloads(e.target.checked)}
+                                />
+                                Limit the number of downloads
+                            </label>
+                            {limitDownloads && (
+                                <input
+                                    type="number"
+                                    className="mt-2 w-32 border border-gray-300 rounded-md px-3 py-2 text-sm"
+                                    min={1}
+                                    max={1000}
+                                    value={maxDownloads}
+                                    onChange={(e) => setMaxDownloads(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                                />
+                            )}
+                        </div>
+                        {error && <p className="text-sm text-red-600">{error}</p>}
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                                onClick={onClose}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                                disabled={isCreating}
+                            >
+                                <LinkIcon size={16} className="mr-1" />
+                                {isCreating ? 'Creating...' : 'Create link'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -3,7 +3,8 @@ import React, { Component } from 'react';
  * Field Renderer Component
  *
  * This component renders form fields based on their type and configuration.
- * It handles different field types, validation, and error display.
+ * It handles different field types, validation, and error display, and
+ * applies the field's visibleWhen / requiredWhen / disabledWhen rules.
  *
  * @module onboarding-form/components/FieldRenderer
  */
@@ -15,6 +16,13 @@ import {
     ErrorsState,
     TouchedFields,
 } from '../types/formData';
+import { getFieldState } from '../utils/fieldRules';
+import { todayIsoDate, toIsoDate } from '../utils/fieldFormats';
+import { PhoneField } from './fields/PhoneField';
+import { CurrencyField } from './fields/CurrencyField';
+import { MultiSelectField } from './fields/MultiSelectField';
+import { FileField } from './fields/FileField';
+import { RepeatableGroupField } from './fields/RepeatableGroupField';
 /**
  * Props for the FieldRenderer component
  */
@@ -55,9 +63,157 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({
         );
     };
     // Get current field value and state
+    const { visible, required, disabled } = getFieldState(field, formData);
+    if (!visible) return null;
     const fieldValue = formData[field.fieldName] || '';
     const hasError = !!errors[field.fieldName];
     const isTouched = !!touchedFields[field.fieldName];
+    const inputClassName = `w-full px-4 py-3 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`;
+    /**
+     * Renders the input for the field's type
+     *
+     * @returns JSX for the input
+     */
+    const renderInput = () => {
+        const rawValue = formData[field.fieldName];
+        const handleChange = (value: any) => onChange(field.fieldName, value);
+        // Values picked rather than typed are checked as soon as they change
+        const handlePick = (value: any) => {
+            handleChange(value);
+            validateField(field.fieldName, value);
+        };
+        switch (field.type) {
+            case 'date':
+                return (
+                    <input
+                        type="date"
+                        id={field.fieldName}
+                        name={field.fieldName}
+                        value={toIsoDate(fieldValue)}
+                        onChange={(e) => handleChange(e.target.value)}
+                        onBlur={() => validateField(field.fieldName, fieldValue)}
+                        disabled={disabled}
+                        max={field.rules?.some((rule) => rule.rule === 'notInFuture') ? todayIsoDate() : undefined}
+                        className={inputClassName}
+                    />
+                );
+            case 'phone':
+                return (
+                    <PhoneField
+                        id={field.fieldName}
+                        value={fieldValue}
+                        onChange={handleChange}
+                        onBlur={() => validateField(field.fieldName, fieldValue)}
+                        disabled={disabled}
+                        hasError={hasError}
+                        defaultCountry={field.defaultCountry}
+                    />
+                );
+            case 'currency':
+                return (
+                    <CurrencyField
+                        id={field.fieldName}
+                        value={fieldValue}
+                        onChange={handleChange}
+                        onBlur={() => validateField(field.fieldName, fieldValue)}
+                        disabled={disabled}
+                        hasError={hasError}
+                        currency={field.currency}
+                        placeholder={field.placeholder}
+                    />
+                );
+            case 'multiselect':
+                return (
+                    <MultiSelectField
+                        id={field.fieldName}
+                        value={rawValue || []}
+                        options={field.options || []}
+                        onChange={handlePick}
+                        onBlur={() => validateField(field.fieldName, rawValue || [])}
+                        disabled={disabled}
+                        hasError={hasError}
+                        maxItems={field.maxItems}
+                        placeholder={field.placeholder}
+                    />
+                );
+            case 'file':
+                return (
+                    <FileField
+                        id={field.fieldName}
+                        label={field.label}
+                        value={rawValue || null}
+                        onChange={handlePick}
+                        disabled={disabled}
+                        hasError={hasError}
+                        category={field.documentCategory}
+                        accept={field.accept}
+                    />
+                );
+            case 'repeatable':
+                return (
+                    <RepeatableGroupField
+                        field={field}
+                        value={rawValue || []}
+                        onChange={handleChange}
+                        disabled={disabled}
+                        renderItemField={(itemField, item, onItemChange) => (
+                            <FieldRenderer
+                                field={itemField}
+                                formData={item}
+                                errors={{}}
+                                touchedFields={{}}
+                                onChange={onItemChange}
+                                validateField={() => validateField(field.fieldName, rawValue || [])}
+                            />
+                        )}
+                    />
+                );
+            default:
+                return field.type === 'textarea' ? (
+                    <textarea
+                        id={field.fieldName}
+                        name={field.fieldName}
+                        value={fieldValue}
+                        onChange={(e) => onChange(field.fieldName, e.target.value)}
+                        onBlur={() => validateField(field.fieldName, fieldValue)}
+                        disabled={disabled}
+                        rows={4}
+                        placeholder={field.placeholder || ''}
+                        className={inputClassName}
+                    />
+                ) : field.type === 'select' ? (
+                    <select
+                        id={field.fieldName}
+                        name={field.fieldName}
+                        value={fieldValue}
+                        onChange={(e) => onChange(field.fieldName, e.target.value)}
+                        onBlur={() => validateField(field.fieldName, fieldValue)}
+                        disabled={disabled}
+                        className={inputClassName}
+                    >
+                        {field.options?.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                ) : (
+                    <input
+                        type={field.type || 'text'}
+                        id={field.fieldName}
+                        name={field.fieldName}
+                        value={fieldValue}
+                        onChange={(e) => onChange(field.fieldName, e.target.value)}
+                        onBlur={() => validateField(field.fieldName, fieldValue)}
+                        disabled={disabled}
+                        placeholder={field.placeholder || ''}
+                        min={field.min}
+                        max={field.max}
+                        className={inputClassName}
+                    />
+                );
+        }
+    };
     return (
         <div key={field.id} className="space-y-2 mb-6">
             {/* Field Label */}
@@ -66,50 +222,11 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({
                 className="block text-sm font-medium text-gray-700 flex items-center"
             >
                 {field.label}
-                {field.required && <span className="ml-1 text-red-500">*</span>}
+                {required && <span className="ml-1 text-red-500">*</span>}
                 {field.tooltip && renderTooltip(field.tooltip)}
             </label>
             {/* Field Input - Rendered based on field type */}
-            {field.type === 'textarea' ? (
-                <textarea
-                    id={field.fieldName}
-                    name={field.fieldName}
-                    value={fieldValue}
-                    onChange={(e) => onChange(field.fieldName, e.target.value)}
-                    onBlur={() => validateField(field.fieldName, fieldValue)}
-                    rows={4}
-                    placeholder={field.placeholder || ''}
-                    className={`w-full px-4 py-3 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
-                />
-            ) : field.type === 'select' ? (
-                <select
-                    id={field.fieldName}
-                    name={field.fieldName}
-                    value={fieldValue}
-                    onChange={(e) => onChange(field.fieldName, e.target.value)}
-                    onBlur={() => validateField(field.fieldName, fieldValue)}
-                    className={`w-full px-4 py-3 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
-                >
-                    {field.options?.map((option) => (
-                        <option key={option.value} value={option.value}>
-                            {option.label}
-                        </option>
-                    ))}
-                </select>
-            ) : (
-                <input
-                    type={field.type || 'text'}
-                    id={field.fieldName}
-                    name={field.fieldName}
-                    value={fieldValue}
-                    onChange={(e) => onChange(field.fieldName, e.target.value)}
-                    onBlur={() => validateField(field.fieldName, fieldValue)}
-                    placeholder={field.placeholder || ''}
-                    min={field.min}
-                    max={field.max}
-                    className={`w-full px-4 py-3 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
-                />
-            )}
+            {renderInput()}
             {/* Format Hint */}
             {field.formatHint && !hasError && (
                 <p className="text-xs text-gray-500 mt-1">{field.formatHint}</p>
@@ -6,6 +6,7 @@ import { NotificationsMenu } from './notifications/NotificationsMenu';
 import { NotificationCenter } from './notifications/NotificationCenter';
 import { mockNotifications } from './utils/mockNotifications';
 import { useAuth } from './context/AuthContext';
+import { useExpiryReminders } from '../../hooks/useExpiryReminders';
 import { Link } from 'react-router-dom';
 
 interface HeaderProps {
@@ -27,8 +28,10 @@ export function Header({
     login
   } = useAuth();
 
-  // Count unread notifications
-  const unreadCount = mockNotifications.filter(notif => !notif.read).length;
+  const { reminders } = useExpiryReminders();
+
+  // Count unread notifications, including active document expiry reminders
+  const unreadCount = mockNotifications.filter(notif => !notif.read).length + reminders.length;
 
   // Sticky header behavior
   useEffect(() => {
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { LogOutIcon, BellIcon, ChevronDownIcon, UserIcon } from 'lucide-react';
+import { LogOutIcon, BellIcon, ChevronDownIcon, UserIcon, Building2Icon, CheckIcon, PlusIcon } from 'lucide-react';
 import { useAuth } from './context/AuthContext';
+import { useEntity } from './context/EntityContext';
+import { AddEntityModal } from './components/AddEntityModal';
 import { useNavigate } from 'react-router-dom';
 interface ProfileDropdownProps {
   onViewNotifications: () => void;
@@ -12,11 +14,17 @@ export function ProfileDropdown({
 }: ProfileDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [showLogoutConfirmation, setShowLogoutConfirmation] = useState(false);
+  const [showAddEntity, setShowAddEntity] = useState(false);
   const {
     user,
     logout,
     isLoading
   } = useAuth();
+  const {
+    entities,
+    activeEntity,
+    switchEntity
+  } = useEntity();
   const navigate = useNavigate();
   // Generate initials from user name if no avatar is available
   const getInitials = () => {
@@ -57,6 +65,11 @@ export function ProfileDropdown({
     setShowLogoutConfirmation(false);
     logout();
   };
+  // Switch the business the dashboard shows
+  const handleSwitchEntity = (entityId: string) => {
+    closeDropdown();
+    switchEntity(entityId);
+  };
   // Navigate to user profile
   const navigateToUserProfile = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -100,6 +113,28 @@ export function ProfileDropdown({
             </div>
           </button>
         </div>
+        {entities.length > 0 && <div className="py-1 border-b border-gray-200">
+          <p className="px-4 pt-1 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Businesses
+          </p>
+          <div className="max-h-48 overflow-y-auto">
+            {entities.map(entity => <button key={entity.id} className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => handleSwitchEntity(entity.id)}>
+              <Building2Icon size={16} className="mr-3 text-gray-500 flex-shrink-0" />
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{entity.name}</span>
+                {!entity.onboardingCompletedAt && <span className="block text-xs text-amber-600">Onboarding incomplete</span>}
+              </span>
+              {entity.id === activeEntity?.id && <CheckIcon size={16} className="ml-2 text-blue-600 flex-shrink-0" />}
+            </button>)}
+          </div>
+          <button className="flex items-center w-full text-left px-4 py-2 text-sm text-blue-600 hover:bg-gray-100" onClick={() => {
+            closeDropdown();
+            setShowAddEntity(true);
+          }}>
+            <PlusIcon size={16} className="mr-3" />
+            Add a business
+          </button>
+        </div>}
         <div className="py-1">
           <button className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={e => {
             e.preventDefault();
@@ -124,6 +159,7 @@ export function ProfileDropdown({
         </div>
       </div>
     </>}
+    {showAddEntity && <AddEntityModal onClose={() => setShowAddEntity(false)} />}
     {/* Logout Confirmation Dialog */}
     {showLogoutConfirmation && <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
       <div className="bg-white rounded-lg shadow-lg p-6 max-w-sm w-full mx-4">
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Building2Icon, XIcon } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { ENTITY_PARAM, useEntity } from '../context/EntityContext';
+interface AddEntityModalProps {
+  onClose: () => void;
+}
+// Adds a business entity and opens its onboarding
+export function AddEntityModal({
+  onClose
+}: AddEntityModalProps) {
+  const { addEntity } = useEntity();
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await addEntity(name.trim());
+      onClose();
+      navigate(`/dashboard/onboarding?${ENTITY_PARAM}=${encodeURIComponent(created.id)}`);
+    } catch (saveError) {
+      console.error('Error adding business:', saveError);
+      setError('The business could not be added. Please try again.');
+      setIsSaving(false);
+    }
+  };
+  return <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+    <form className="bg-white rounded-lg shadow-lg w-full max-w-sm" onSubmit={handleSubmit}>
+      <div className="flex justify-between items-center p-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Building2Icon size={18} className="mr-2 text-blue-600" />
+          Add a business
+        </h3>
+        <button type="button" className="text-gray-500 hover:text-gray-700" onClick={onClose}>
+          <XIcon size={20} />
+        </button>
+      </div>
+      <div className="p-4 space-y-3">
+        <label htmlFor="entity-name" className="block text-sm font-medium text-gray-700">
+          Trade name
+        </label>
+        <input id="entity-name" type="text" required autoFocus value={name} onChange={e => setName(e.target.value)} className="block w-full border border-gray-300 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500" placeholder="e.g. FutureTech Holdings" />
+        <p className="text-xs text-gray-500">
+          Each business has its own profile, documents, service requests and reports. You will complete onboarding for it next.
+        </p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+      <div className="flex justify-end space-x-3 p-4 border-t border-gray-200">
+        <button type="button" className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200" onClick={onClose}>
+          Cancel
+        </button>
+        <button type="submit" disabled={isSaving || !name.trim()} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+          {isSaving ? 'Adding...' : 'Add business'}
+        </button>
+      </div>
+    </form>
+  </div>;
+}
@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useState, createContext, useContext, useCall
 import { useMsal, useIsAuthenticated } from '@azure/msal-react';
 import { EventType, AuthenticationResult } from '@azure/msal-browser';
 import { defaultLoginRequest, signupRequest } from '../../../services/auth/msal';
+import { recordTeamLogin, teamUserFromAccount } from '../../../services/TeamService';
 
 interface UserProfile {
   id: string;
@@ -14,6 +15,8 @@ interface UserProfile {
 
 interface AuthContextType {
   user: UserProfile | null;
+  /** The signed-in account's id token claims; empty while signed out */
+  claims: Record<string, unknown>;
   isLoading: boolean;
   login: () => void;
   signup: () => void;
@@ -55,6 +58,10 @@ export function AuthProvider({
         if (account) {
           instance.setActiveAccount(account);
         }
+        // Interactive sign-ins count as the member's last login
+        if (account && event.eventType === EventType.LOGIN_SUCCESS) {
+          recordTeamLogin(teamUserFromAccount(account)).catch((error) => console.warn('Could not record sign-in:', error));
+        }
       }
     });
     return () => {
@@ -84,6 +91,11 @@ export function AuthProvider({
     };
   }, [accounts, instance, emailOverride]);
 
+  const claims = useMemo<Record<string, unknown>>(() => {
+    const account = instance.getActiveAccount() || accounts[0];
+    return (account?.idTokenClaims as Record<string, unknown> | undefined) || {};
+  }, [accounts, instance]);
+
   useEffect(() => {
     // Loading is complete once we have determined authentication state at least once
     setIsLoading(false);
@@ -151,11 +163,12 @@ export function AuthProvider({
 
   const contextValue = useMemo<AuthContextType>(() => ({
     user,
+    claims,
     isLoading,
     login,
     signup,
     logout
-  }), [user, isLoading, login, signup, logout]);
+  }), [user, claims, isLoading, login, signup, logout]);
 
   return <AuthContext.Provider value={contextValue}>
     {children}
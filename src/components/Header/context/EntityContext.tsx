@@ -0,0 +1,150 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+import {
+  BusinessEntity,
+  createBusinessEntity,
+  getBusinessEntities,
+  setActiveEntityId
+} from '../../../services/DataverseService';
+import { chatService } from '../../Chat/ChatService';
+
+/** Query parameter carrying the active entity on dashboard URLs */
+export const ENTITY_PARAM = 'entity';
+// Entity to open when a URL does not name one
+const LAST_ENTITY_KEY = 'activeEntityId';
+
+interface EntityContextType {
+  entities: BusinessEntity[];
+  /** Null while signed out or loading */
+  activeEntity: BusinessEntity | null;
+  isLoading: boolean;
+  error: string | null;
+  switchEntity: (entityId: string) => void;
+  /** Creates an entity; open it by navigating to a dashboard URL naming it */
+  addEntity: (name: string) => Promise<BusinessEntity>;
+  /** Reads the entities again, e.g. after onboarding was submitted */
+  reload: () => Promise<void>;
+}
+
+const EntityContext = createContext<EntityContextType | undefined>(undefined);
+
+const isDashboardPath = (pathname: string) => pathname.startsWith('/dashboard');
+
+export function EntityProvider({
+  children
+}: Readonly<{
+  children: ReactNode;
+}>) {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id;
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [entities, setEntities] = useState<BusinessEntity[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scope the data services before anything renders with the new entity
+  const applyEntity = useCallback((entityId: string | null) => {
+    setActiveEntityId(entityId);
+    chatService.setEntity(entityId);
+    if (entityId) localStorage.setItem(LAST_ENTITY_KEY, entityId);
+    setActiveId(entityId);
+  }, []);
+
+  // Load the user's entities and pick the one named in the URL, else the last used
+  useEffect(() => {
+    if (isAuthLoading) return;
+    if (!userId) {
+      setEntities([]);
+      applyEntity(null);
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    getBusinessEntities()
+      .then((loaded) => {
+        if (cancelled) return;
+        const requested = [
+          new URLSearchParams(window.location.search).get(ENTITY_PARAM),
+          localStorage.getItem(LAST_ENTITY_KEY)
+        ];
+        const initial = requested.find((id) => loaded.some((entity) => entity.id === id)) || loaded[0].id;
+        setEntities(loaded);
+        setError(null);
+        applyEntity(initial);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        console.error('Error loading business entities:', loadError);
+        setError('Your businesses could not be loaded. Please refresh the page.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isAuthLoading, applyEntity]);
+
+  // Keep the entity in dashboard URLs; a URL naming another entity switches to it
+  useEffect(() => {
+    if (!activeId || !isDashboardPath(location.pathname)) return;
+    const params = new URLSearchParams(location.search);
+    const requested = params.get(ENTITY_PARAM);
+    if (requested === activeId) return;
+    if (requested && entities.some((entity) => entity.id === requested)) {
+      applyEntity(requested);
+      return;
+    }
+    if (requested) console.warn(`Business entity ${requested} is not available; showing the current one instead`);
+    params.set(ENTITY_PARAM, activeId);
+    navigate({ pathname: location.pathname, search: `?${params.toString()}`, hash: location.hash }, { replace: true });
+  }, [activeId, entities, location.pathname, location.search, location.hash, navigate, applyEntity]);
+
+  // On dashboard pages the URL leads: navigating there lets the effect above switch
+  const switchEntity = useCallback((entityId: string) => {
+    if (entityId === activeId) return;
+    if (!isDashboardPath(location.pathname)) {
+      applyEntity(entityId);
+      return;
+    }
+    const params = new URLSearchParams(location.search);
+    params.set(ENTITY_PARAM, entityId);
+    navigate({ pathname: location.pathname, search: `?${params.toString()}` });
+  }, [activeId, applyEntity, location.pathname, location.search, navigate]);
+
+  const addEntity = useCallback(async (name: string) => {
+    const created = await createBusinessEntity(name);
+    setEntities((current) => [...current, created]);
+    return created;
+  }, []);
+
+  const reload = useCallback(async () => {
+    setEntities(await getBusinessEntities());
+  }, []);
+
+  const contextValue = useMemo<EntityContextType>(() => ({
+    entities,
+    activeEntity: entities.find((entity) => entity.id === activeId) || null,
+    isLoading,
+    error,
+    switchEntity,
+    addEntity,
+    reload
+  }), [entities, activeId, isLoading, error, switchEntity, addEntity, reload]);
+
+  return <EntityContext.Provider value={contextValue}>
+    {children}
+  </EntityContext.Provider>;
+}
+
+export function useEntity() {
+  const context = useContext(EntityContext);
+  if (context === undefined) {
+    throw new Error('useEntity must be used within an EntityProvider');
+  }
+  return context;
+}
@@ -0,0 +1,80 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { loadPermissions } from '../../../services/PermissionService';
+import { Capability, hasCapability, Permissions } from '../../../utils/permissions';
+
+interface PermissionContextType {
+  /** Null while signed out or loading */
+  permissions: Permissions | null;
+  isLoading: boolean;
+  can: (capability: Capability | Capability[]) => boolean;
+  /** Loads the permissions again, e.g. after the user's team role changed */
+  reload: () => void;
+}
+
+const PermissionContext = createContext<PermissionContextType | undefined>(undefined);
+
+export function PermissionProvider({
+  children
+}: Readonly<{
+  children: ReactNode;
+}>) {
+  const { user, claims, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id;
+  const [permissions, setPermissions] = useState<Permissions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Token refreshes and profile edits keep the loaded permissions; only a different user reloads them
+  const signedInRef = useRef({ user, claims });
+  useEffect(() => {
+    signedInRef.current = { user, claims };
+  }, [user, claims]);
+
+  // Reload whenever a different user signs in
+  useEffect(() => {
+    if (isAuthLoading) return;
+    const signedIn = signedInRef.current;
+    if (!signedIn.user) {
+      setPermissions(null);
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    loadPermissions(signedIn.claims, signedIn.user).then((loaded) => {
+      if (cancelled) return;
+      setPermissions(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isAuthLoading, reloadCount]);
+
+  const can = useCallback(
+    (capability: Capability | Capability[]) => hasCapability(permissions, capability),
+    [permissions]
+  );
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  const contextValue = useMemo<PermissionContextType>(() => ({
+    permissions,
+    isLoading,
+    can,
+    reload
+  }), [permissions, isLoading, can, reload]);
+
+  return <PermissionContext.Provider value={contextValue}>
+    {children}
+  </PermissionContext.Provider>;
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionProvider');
+  }
+  return context;
+}
@@ -7,5 +7,7 @@ export { NotificationItem } from './notifications/NotificationItem';
 export { ExploreDropdown } from './components/ExploreDropdown';
 export { MobileDrawer } from './components/MobileDrawer';
 export { AuthProvider, useAuth } from './context/AuthContext';
+export { PermissionProvider, usePermissions } from './context/PermissionContext';
+export { EntityProvider, useEntity } from './context/EntityContext';
 export { mockNotifications } from './utils/mockNotifications';
 export type { Notification } from './utils/mockNotifications';
\ No newline at end of file
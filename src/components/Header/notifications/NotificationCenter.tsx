@@ -2,6 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { ArrowLeftIcon, SearchIcon, FilterIcon, XIcon, BellIcon } from 'lucide-react';
 import { NotificationItem } from './NotificationItem';
 import { mockNotifications, Notification } from '../utils/mockNotifications';
+import {
+  REMINDER_NOTIFICATION_PREFIX,
+  reminderToNotification,
+  useExpiryReminders
+} from '../../../hooks/useExpiryReminders';
 interface NotificationCenterProps {
   onBack: () => void;
 }
@@ -16,6 +21,12 @@ export function NotificationCenter({
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const {
+    reminders,
+    acknowledge,
+    snooze
+  } = useExpiryReminders();
+  const [readReminderIds, setReadReminderIds] = useState<string[]>([]);
   // Fetch notifications
   useEffect(() => {
     setLoading(true);
@@ -24,10 +35,18 @@ export function NotificationCenter({
       setLoading(false);
     }, 500);
   }, []);
+  // Merge document expiry reminders with other notifications
+  const allNotifications = [...reminders.map(reminder => {
+    const notification = reminderToNotification(reminder);
+    return {
+      ...notification,
+      read: readReminderIds.includes(notification.id)
+    };
+  }), ...notifications];
   // Get all unique categories
-  const categories = Array.from(new Set(notifications.map(n => n.category))).filter(category => category !== 'Updates' && category !== 'Profile').filter(Boolean) as string[];
+  const categories = Array.from(new Set(allNotifications.map(n => n.category))).filter(category => category !== 'Updates' && category !== 'Profile').filter(Boolean) as string[];
   // Filter notifications
-  const filteredNotifications = notifications.filter(notification => {
+  const filteredNotifications = allNotifications.filter(notification => {
     if (activeTab === 'unread' && notification.read) return false;
     if (searchQuery && !notification.message.toLowerCase().includes(searchQuery.toLowerCase())) return false;
     if (selectedCategories.length > 0 && !selectedCategories.includes(notification.category || '')) return false;
@@ -41,6 +60,10 @@ export function NotificationCenter({
   });
   // Mark a notification as read
   const markAsRead = (id: string) => {
+    if (id.startsWith(REMINDER_NOTIFICATION_PREFIX)) {
+      setReadReminderIds([...readReminderIds, id]);
+      return;
+    }
     setNotifications(notifications.map(notif => notif.id === id ? {
       ...notif,
       read: true
@@ -48,6 +71,7 @@ export function NotificationCenter({
   };
   // Mark all notifications as read
   const markAllAsRead = () => {
+    setReadReminderIds(allNotifications.filter(notif => notif.id.startsWith(REMINDER_NOTIFICATION_PREFIX)).map(notif => notif.id));
     setNotifications(notifications.map(notif => ({
       ...notif,
       read: true
@@ -71,7 +95,7 @@ export function NotificationCenter({
   // Group notifications by date
   const groupNotificationsByDate = () => {
     const groups: {
-      [key: string]: typeof notifications;
+      [key: string]: typeof allNotifications;
     } = {
       Today: [],
       Yesterday: [],
@@ -128,7 +152,7 @@ export function NotificationCenter({
           <h1 className="text-xl font-semibold text-gray-800">Notifications</h1>
         </div>
         <div className="flex items-center">
-          {notifications.some(n => !n.read) && <button className="text-sm text-blue-600 hover:text-blue-800 px-3 py-1 rounded hover:bg-blue-50" onClick={markAllAsRead}>
+          {allNotifications.some(n => !n.read) && <button className="text-sm text-blue-600 hover:text-blue-800 px-3 py-1 rounded hover:bg-blue-50" onClick={markAllAsRead}>
               Mark all as read
             </button>}
         </div>
@@ -185,7 +209,10 @@ export function NotificationCenter({
                 <div className="sticky top-0 bg-gray-50 px-4 py-2 border-b border-gray-200">
                   <h3 className="text-xs font-medium text-gray-500">{date}</h3>
                 </div>
-                {notifs.map(notification => <NotificationItem key={notification.id} {...notification} onMarkAsRead={markAsRead} expanded={true} />)}
+                {notifs.map(notification => {
+          const reminderId = notification.id.startsWith(REMINDER_NOTIFICATION_PREFIX) ? notification.id.slice(REMINDER_NOTIFICATION_PREFIX.length) : null;
+          return <NotificationItem key={notification.id} {...notification} onMarkAsRead={markAsRead} onAcknowledge={reminderId ? () => acknowledge(reminderId) : undefined} onSnooze={reminderId ? days => snooze(reminderId, days) : undefined} expanded={true} />;
+        })}
               </div>)}
         {filteredNotifications.length === 0 && <div className="flex flex-col items-center justify-center h-64 text-center">
             <div className="text-gray-400 mb-2">
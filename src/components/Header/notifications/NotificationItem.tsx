@@ -10,6 +10,9 @@ interface NotificationItemProps {
   actionUrl: string;
   category?: string;
   onMarkAsRead?: (id: string) => void;
+  // Reminder actions; shown only when provided
+  onAcknowledge?: () => void;
+  onSnooze?: (days: number) => void;
   expanded?: boolean;
 }
 export function NotificationItem({
@@ -21,6 +24,8 @@ export function NotificationItem({
   actionUrl,
   category,
   onMarkAsRead,
+  onAcknowledge,
+  onSnooze,
   expanded = false
 }: NotificationItemProps) {
   // Format the time as "X time ago"
@@ -41,14 +46,19 @@ export function NotificationItem({
     }
   };
   // Handle click on notification
-  const handleClick = (e: React.MouseEvent) => {
+  const handleClick = (e: React.MouseEvent | React.KeyboardEvent) => {
     e.preventDefault();
     // Mark as read if unread
     if (onMarkAsRead && !read) {
       onMarkAsRead(id);
     }
   };
-  return <button className={`w-full text-left p-3 border-b border-gray-100 hover:bg-gray-50 transition-colors cursor-pointer ${!read ? 'bg-blue-50' : ''}`} onClick={handleClick}>
+  // Run a reminder action without also triggering the item click
+  const handleAction = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+  return <div role="button" tabIndex={0} className={`w-full text-left p-3 border-b border-gray-100 hover:bg-gray-50 transition-colors cursor-pointer ${!read ? 'bg-blue-50' : ''}`} onClick={handleClick} onKeyDown={e => (e.key === 'Enter' || e.key === ' ') && handleClick(e)}>
       <div className="flex items-start">
         <div className="flex-shrink-0 mt-0.5">{getIcon()}</div>
         <div className="ml-3 flex-1">
@@ -64,7 +74,20 @@ export function NotificationItem({
                 {category}
               </span>}
           </div>
+          {(onAcknowledge || onSnooze) && <div className="flex flex-wrap gap-3 mt-2">
+              {onSnooze && <>
+                  <button className="text-xs text-blue-600 hover:text-blue-800" onClick={handleAction(() => onSnooze(1))}>
+                    Snooze 1 day
+                  </button>
+                  <button className="text-xs text-blue-600 hover:text-blue-800" onClick={handleAction(() => onSnooze(7))}>
+                    Snooze 1 week
+                  </button>
+                </>}
+              {onAcknowledge && <button className="text-xs text-gray-600 hover:text-gray-800" onClick={handleAction(onAcknowledge)}>
+                  Acknowledge
+                </button>}
+            </div>}
         </div>
       </div>
-    </button>;
+    </div>;
 }
\ No newline at end of file
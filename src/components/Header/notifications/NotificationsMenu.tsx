@@ -2,6 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { CheckIcon, ArrowRightIcon } from 'lucide-react';
 import { NotificationItem } from './NotificationItem';
 import { mockNotifications, Notification } from '../utils/mockNotifications';
+import {
+  REMINDER_NOTIFICATION_PREFIX,
+  reminderToNotification,
+  useExpiryReminders
+} from '../../../hooks/useExpiryReminders';
 interface NotificationsMenuProps {
   onViewAll: () => void;
   onClose: () => void;
@@ -13,6 +18,12 @@ export function NotificationsMenu({
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const {
+    reminders,
+    acknowledge,
+    snooze
+  } = useExpiryReminders();
+  const [readReminderIds, setReadReminderIds] = useState<string[]>([]);
   // Fetch notifications
   useEffect(() => {
     setLoading(true);
@@ -21,10 +32,22 @@ export function NotificationsMenu({
       setLoading(false);
     }, 300);
   }, []);
+  // Document expiry reminders come first, then other notifications
+  const allNotifications = [...reminders.map(reminder => {
+    const notification = reminderToNotification(reminder);
+    return {
+      ...notification,
+      read: readReminderIds.includes(notification.id)
+    };
+  }), ...notifications];
   // Count unread notifications
-  const unreadCount = notifications.filter(notif => !notif.read).length;
+  const unreadCount = allNotifications.filter(notif => !notif.read).length;
   // Mark a notification as read
   const markAsRead = (id: string) => {
+    if (id.startsWith(REMINDER_NOTIFICATION_PREFIX)) {
+      setReadReminderIds([...readReminderIds, id]);
+      return;
+    }
     setNotifications(notifications.map(notif => notif.id === id ? {
       ...notif,
       read: true
@@ -33,6 +56,7 @@ export function NotificationsMenu({
   // Mark all notifications as read
   const markAllAsRead = (e: React.MouseEvent) => {
     e.stopPropagation();
+    setReadReminderIds(allNotifications.filter(notif => notif.id.startsWith(REMINDER_NOTIFICATION_PREFIX)).map(notif => notif.id));
     setNotifications(notifications.map(notif => ({
       ...notif,
       read: true
@@ -89,7 +113,10 @@ export function NotificationsMenu({
             </button>}
         </div>
         <div className="max-h-80 overflow-y-auto">
-          {notifications.length > 0 ? notifications.slice(0, 5).map(notification => <NotificationItem key={notification.id} {...notification} onMarkAsRead={markAsRead} />) : <div className="p-4 text-center text-sm text-gray-500">
+          {allNotifications.length > 0 ? allNotifications.slice(0, 5).map(notification => {
+          const reminderId = notification.id.startsWith(REMINDER_NOTIFICATION_PREFIX) ? notification.id.slice(REMINDER_NOTIFICATION_PREFIX.length) : null;
+          return <NotificationItem key={notification.id} {...notification} onMarkAsRead={markAsRead} onAcknowledge={reminderId ? () => acknowledge(reminderId) : undefined} onSnooze={reminderId ? days => snooze(reminderId, days) : undefined} />;
+        }) : <div className="p-4 text-center text-sm text-gray-500">
               No notifications
             </div>}
         </div>
@@ -7,6 +7,7 @@ export function StepNavigation({
     loading,
     isRevisit,
     savingProgress,
+    validating = false,
     onPrevious,
     onNext,
     onSaveProgress,
@@ -58,16 +59,27 @@ export function StepNavigation({
                     <button
                         type="button"
                         onClick={onNext}
-                        className="w-full sm:w-auto order-1 sm:order-2 px-5 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center justify-center transition-colors"
+                        disabled={validating}
+                        className={`w-full sm:w-auto order-1 sm:order-2 px-5 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center justify-center transition-colors ${validating ? 'opacity-70 cursor-wait' : ''
+                            }`}
                     >
-                        Continue
-                        <ChevronRightIcon size={18} className="ml-1.5" />
+                        {validating ? (
+                            <>
+                                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2" />
+                                Checking...
+                            </>
+                        ) : (
+                            <>
+                                Continue
+                                <ChevronRightIcon size={18} className="ml-1.5" />
+                            </>
+                        )}
                     </button>
                 ) : (
                     <button
                         type="button"
                         onClick={onSubmit}
-                        disabled={loading}
+                        disabled={loading || validating}
                         className={`w-full sm:w-auto order-1 sm:order-2 px-5 py-3 ${isRevisit ? 'bg-blue-600 hover:bg-blue-700' : 'bg-green-600 hover:bg-green-700'
                             } text-white rounded-md flex items-center justify-center transition-colors ${loading ? 'opacity-70 cursor-not-allowed' : ''
                             }`}
@@ -20,6 +20,8 @@ import {
     MessageCircleIcon,
 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
+import { usePermissions } from '../Header/context/PermissionContext';
+import { Capability } from '../../utils/permissions';
 
 interface Company {
     id: string;
@@ -35,6 +37,8 @@ interface MenuItem {
     category?: 'category';
     external?: boolean;
     href?: string; // <--- new
+    /** Hidden unless the user has this capability */
+    capability?: Capability;
 }
 interface SidebarProps {
     isOpen?: boolean;
@@ -80,6 +84,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
     isLoggedIn = true,
     'data-id': dataId,
 }) => {
+    const { can } = usePermissions();
     if (!isLoggedIn) return null;
 
     const [tooltipItem, setTooltipItem] = useState<string | null>(null);
@@ -173,12 +178,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 label: 'Profile',
                 icon: <User size={20} />,
                 href: '/dashboard/profile',
+                capability: 'profile:view',
             },
             {
                 id: 'documents',
                 label: 'Documents',
                 icon: <FolderOpen size={20} />,
                 href: '/dashboard/documents',
+                capability: 'documents:view',
             },
             { id: 'transactions', label: 'TRANSACTIONS', category: 'category' } as MenuItem,
             {
@@ -186,12 +193,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 label: 'Requests',
                 icon: <Send size={20} />,
                 href: '/dashboard/requests',
+                capability: 'requests:view',
             },
             {
                 id: 'reporting-obligations',
                 label: 'Reporting Obligations',
                 icon: <BarChart3 size={20} />,
                 href: '/dashboard/reporting-obligations',
+                capability: 'reports:view',
             },
             { id: 'settings-support', label: 'Settings & Support', category: 'category' } as MenuItem,
             {
@@ -199,6 +208,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 label: 'Settings',
                 icon: <Settings size={20} />,
                 href: '/dashboard/settings',
+                capability: 'settings:view',
             },
             {
                 id: 'support',
@@ -220,7 +230,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 href: 'https://docs.example.com/help',
             },
         );
-        return items;
+        // Drop items the user's role does not cover, then headings left without items
+        const permitted = items.filter((item) => !item.capability || can(item.capability));
+        return permitted.filter(
+            (item, index) =>
+                item.category !== 'category' ||
+                (index + 1 < permitted.length && permitted[index + 1].category !== 'category'),
+        );
     };
 
     const activeCompany = companies.find((c) => c.isActive) || companies[0];
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { DEFAULT_CURRENCY, parseAmount } from '../../utils/fieldFormats';
+/**
+ * Amount input with the currency shown in front. The value is a plain
+ * decimal string; thousands separators are shown while not editing.
+ */
+interface CurrencyFieldProps {
+    id: string;
+    value: string | number;
+    onChange: (value: string) => void;
+    onBlur?: () => void;
+    disabled?: boolean;
+    hasError?: boolean;
+    currency?: string; // ISO code
+    placeholder?: string;
+}
+const groupDigits = (amount: string) => {
+    const [whole, fraction] = amount.split('.');
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    return fraction === undefined ? grouped : `${grouped}.${fraction}`;
+};
+export const CurrencyField: React.FC<CurrencyFieldProps> = ({
+    id,
+    value,
+    onChange,
+    onBlur,
+    disabled = false,
+    hasError = false,
+    currency = DEFAULT_CURRENCY,
+    placeholder,
+}) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const amount = value === undefined || value === null ? '' : String(value);
+    return (
+        <div className="flex">
+            <span
+                className={`inline-flex items-center px-3 border border-r-0 rounded-l-md bg-gray-50 text-sm text-gray-600 ${hasError ? 'border-red-300' : 'border-gray-300'}`}
+            >
+                {currency}
+            </span>
+            <input
+                type="text"
+                inputMode="decimal"
+                id={id}
+                name={id}
+                value={isEditing ? amount : groupDigits(amount)}
+                onChange={(e) => onChange(parseAmount(e.target.value))}
+                onFocus={() => setIsEditing(true)}
+                onBlur={() => {
+                    setIsEditing(false);
+                    onBlur?.();
+                }}
+                disabled={disabled}
+                placeholder={placeholder || '0'}
+                className={`flex-1 min-w-0 px-4 py-3 border rounded-r-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
+            />
+        </div>
+    );
+};
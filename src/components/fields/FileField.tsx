@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { FileTextIcon, UploadIcon, XIcon } from 'lucide-react';
+import { uploadFileInChunks, UploadRejectedError } from '../../services/AzureBlobService';
+import { createDocument } from '../../services/DataverseService';
+import { useAuth } from '../Header/context/AuthContext';
+import { UploadedFile } from '../../types/formData';
+/**
+ * File input that uploads straight into the Document Wallet. The value is
+ * the created wallet document; removing it only detaches it from the form.
+ */
+interface FileFieldProps {
+    id: string;
+    label: string; // Name of the wallet document
+    value: UploadedFile | null;
+    onChange: (value: UploadedFile | null) => void;
+    disabled?: boolean;
+    hasError?: boolean;
+    category?: string; // Document Wallet category
+    accept?: string;
+}
+// Get file type from extension
+const getFileType = (filename: string) => {
+    const ext = filename.split('.').pop()!.toLowerCase();
+    if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) return 'image';
+    if (['pdf'].includes(ext)) return 'pdf';
+    if (['xls', 'xlsx', 'csv'].includes(ext)) return 'spreadsheet';
+    if (['ppt', 'pptx'].includes(ext)) return 'presentation';
+    if (['doc', 'docx', 'txt'].includes(ext)) return 'document';
+    return 'file';
+};
+// Format file size
+const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+export const FileField: React.FC<FileFieldProps> = ({
+    id,
+    label,
+    value,
+    onChange,
+    disabled = false,
+    hasError = false,
+    category = 'Other',
+    accept,
+}) => {
+    const { user } = useAuth();
+    // Upload progress in percent while uploading
+    const [progress, setProgress] = useState<number | null>(null);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+    const handleUpload = async (file: File) => {
+        setProgress(0);
+        setUploadError(null);
+        try {
+            const fileUrl = await uploadFileInChunks(file, {
+                onProgress: (percent) => setProgress(Math.min(percent, 99)),
+            });
+            const created = await createDocument({
+                name: label,
+                category,
+                description: `Uploaded during onboarding (${file.name})`,
+                tags: [],
+                isConfidential: false,
+                fileType: getFileType(file.name),
+                fileSize: formatFileSize(file.size),
+                uploadDate: new Date().toISOString().split('T')[0],
+                uploadedBy: user?.name || user?.email || 'Unknown user',
+                status: 'Active',
+                fileUrl,
+            });
+            onChange({ documentId: created.id!, fileName: file.name });
+        } catch (error) {
+            console.error('Error uploading onboarding document:', error);
+            setUploadError(
+                error instanceof UploadRejectedError
+                    ? `Upload rejected: ${error.message}`
+                    : 'Upload failed. Please try again.'
+            );
+        } finally {
+            setProgress(null);
+        }
+    };
+    const isUploading = progress !== null;
+    return (
+        <div>
+            <input
+                ref={fileInput}
+                type="file"
+                id={id}
+                name={id}
+                accept={accept}
+                className="hidden"
+                disabled={disabled || isUploading}
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleUpload(file);
+                }}
+            />
+            {value?.documentId ? (
+                <div className="flex items-center justify-between px-4 py-3 border border-gray-300 rounded-md bg-gray-50">
+                    <span className="flex items-center text-sm text-gray-800 min-w-0">
+                        <FileTextIcon size={16} className="mr-2 text-blue-600 flex-shrink-0" />
+                        <span className="truncate">{value.fileName}</span>
+                        <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">Saved to Document Wallet</span>
+                    </span>
+                    {!disabled && (
+                        <span className="flex items-center ml-3 space-x-3">
+                            <button
+                                type="button"
+                                onClick={() => fileInput.current?.click()}
+                                disabled={isUploading}
+                                className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                            >
+                                Replace
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onChange(null)}
+                                disabled={isUploading}
+                                className="text-gray-400 hover:text-gray-600"
+                                aria-label="Detach file (it stays in your Document Wallet)"
+                            >
+                                <XIcon size={16} />
+                            </button>
+                        </span>
+                    )}
+                </div>
+            ) : (
+                <button
+                    type="button"
+                    onClick={() => fileInput.current?.click()}
+                    disabled={disabled || isUploading}
+                    className={`w-full flex items-center justify-center px-4 py-3 border-2 border-dashed rounded-md text-sm text-gray-600 hover:border-blue-400 hover:text-blue-600 disabled:bg-gray-100 disabled:text-gray-400 ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
+                >
+                    <UploadIcon size={16} className="mr-2" />
+                    {isUploading ? `Uploading... ${progress}%` : 'Choose a file to upload'}
+                </button>
+            )}
+            {isUploading && value?.documentId && (
+                <p className="text-xs text-gray-500 mt-1">Uploading replacement... {progress}%</p>
+            )}
+            {uploadError && <p className="text-sm text-red-500 mt-1">{uploadError}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckIcon, SearchIcon, XIcon } from 'lucide-react';
+/**
+ * Searchable multi-select. Chosen options show as removable chips above a
+ * search box that filters the remaining options.
+ */
+interface MultiSelectFieldProps {
+    id: string;
+    value: string[]; // Chosen option values
+    options: Array<{ value: string; label: string }>;
+    onChange: (value: string[]) => void;
+    onBlur?: () => void;
+    disabled?: boolean;
+    hasError?: boolean;
+    maxItems?: number;
+    placeholder?: string;
+}
+export const MultiSelectField: React.FC<MultiSelectFieldProps> = ({
+    id,
+    value,
+    options,
+    onChange,
+    onBlur,
+    disabled = false,
+    hasError = false,
+    maxItems,
+    placeholder,
+}) => {
+    const [query, setQuery] = useState('');
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const selected = Array.isArray(value) ? value : [];
+    const isFull = maxItems !== undefined && selected.length >= maxItems;
+    // Close the list when clicking outside, which counts as leaving the field
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+                onBlur?.();
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen, onBlur]);
+    const choices = options.filter(
+        (option) => option.value !== '' && option.label.toLowerCase().includes(query.trim().toLowerCase())
+    );
+    const toggle = (optionValue: string) => {
+        if (selected.includes(optionValue)) {
+            onChange(selected.filter((entry) => entry !== optionValue));
+        } else if (!isFull) {
+            onChange([...selected, optionValue]);
+        }
+    };
+    const labelOf = (optionValue: string) =>
+        options.find((option) => option.value === optionValue)?.label || optionValue;
+    return (
+        <div ref={containerRef} className="relative">
+            <div
+                className={`w-full px-3 py-2 border rounded-md shadow-sm ${disabled ? 'bg-gray-100' : 'bg-white'} ${hasError ? 'border-red-300 bg-red-50' : 'border-gray-300'}`}
+            >
+                {selected.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                        {selected.map((entry) => (
+                            <span
+                                key={entry}
+                                className="inline-flex items-center px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full"
+                            >
+                                {labelOf(entry)}
+                                {!disabled && (
+                                    <button
+                                        type="button"
+                                        onClick={() => toggle(entry)}
+                                        className="ml-1 text-blue-600 hover:text-blue-800"
+                                        aria-label={`Remove ${labelOf(entry)}`}
+                                    >
+                                        <XIcon size={12} />
+                                    </button>
+                                )}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div className="flex items-center">
+                    <SearchIcon size={16} className="text-gray-400 mr-2 flex-shrink-0" />
+                    <input
+                        type="text"
+                        id={id}
+                        name={id}
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setIsOpen(true);
+                        }}
+                        onFocus={() => setIsOpen(true)}
+                        disabled={disabled}
+                        placeholder={isFull ? `Up to ${maxItems} can be chosen` : placeholder || 'Search options'}
+                        className="flex-1 min-w-0 py-1 text-sm bg-transparent focus:outline-none"
+                        role="combobox"
+                        aria-expanded={isOpen}
+                        aria-controls={`${id}-options`}
+                    />
+                </div>
+            </div>
+            {isOpen && !disabled && (
+                <ul
+                    id={`${id}-options`}
+                    role="listbox"
+                    aria-multiselectable="true"
+                    className="absolute z-10 mt-1 w-full max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg"
+                >
+                    {choices.length === 0 ? (
+                        <li className="px-4 py-2 text-sm text-gray-500">No matching options</li>
+                    ) : (
+                        choices.map((option) => {
+                            const isSelected = selected.includes(option.value);
+                            return (
+                                <li
+                                    key={option.value}
+                                    role="option"
+                                    aria-selected={isSelected}
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => toggle(option.value)}
+                                    className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer ${isSelected ? 'bg-blue-50 text-blue-800' : isFull ? 'text-gray-400 cursor-not-allowed' : 'text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    {option.label}
+                                    {isSelected && <CheckIcon size={14} className="text-blue-600" />}
+                                </li>
+                            );
+                        })
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { COUNTRIES, DEFAULT_PHONE_COUNTRY, getCountry, splitPhone, toE164 } from '../../utils/fieldFormats';
+/**
+ * Phone number input with a country code picker. The value is kept in
+ * E.164 (e.g. +971501234567) whatever the user types.
+ */
+interface PhoneFieldProps {
+    id: string;
+    value: string; // E.164, or '' when empty
+    onChange: (value: string) => void;
+    onBlur?: () => void;
+    disabled?: boolean;
+    hasError?: boolean;
+    defaultCountry?: string; // ISO code preselected while the value is empty
+}
+export const PhoneField: React.FC<PhoneFieldProps> = ({
+    id,
+    value,
+    onChange,
+    onBlur,
+    disabled = false,
+    hasError = false,
+    defaultCountry = DEFAULT_PHONE_COUNTRY,
+}) => {
+    const [country, setCountry] = useState(() => splitPhone(value).country?.code || defaultCountry);
+    // The number as typed, so a leading 0 or spaces survive while typing
+    const [national, setNational] = useState(() => splitPhone(value, country).national);
+    // The last value sent through onChange; any other value was set from outside
+    const emittedRef = useRef(value);
+    // Follow values set from outside, e.g. a restored draft
+    useEffect(() => {
+        if (value === emittedRef.current) return;
+        emittedRef.current = value;
+        const parsed = splitPhone(value, country);
+        if (parsed.country) setCountry(parsed.country.code);
+        setNational(parsed.national);
+    }, [value, country]);
+    const emit = (next: string) => {
+        emittedRef.current = next;
+        onChange(next);
+    };
+    const handleCountryChange = (code: string) => {
+        setCountry(code);
+        emit(toE164(getCountry(code).dialCode, national));
+    };
+    const handleNumberChange = (text: string) => {
+        setNational(text);
+        emit(toE164(getCountry(country).dialCode, text));
+    };
+    const borderClass = hasError ? 'border-red-300 bg-red-50' : 'border-gray-300';
+    return (
+        <div className="flex">
+            <select
+                aria-label="Country code"
+                value={country}
+                onChange={(e) => handleCountryChange(e.target.value)}
+                onBlur={onBlur}
+                disabled={disabled}
+                className={`px-2 py-3 border border-r-0 rounded-l-md bg-gray-50 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500 ${borderClass}`}
+            >
+                {COUNTRIES.map((option) => (
+                    <option key={option.code} value={option.code}>
+                        {option.code} +{option.dialCode}
+                    </option>
+                ))}
+            </select>
+            <input
+                type="tel"
+                id={id}
+                name={id}
+                inputMode="tel"
+                autoComplete="tel-national"
+                value={national}
+                onChange={(e) => handleNumberChange(e.target.value)}
+                onBlur={onBlur}
+                disabled={disabled}
+                placeholder="50 123 4567"
+                className={`flex-1 min-w-0 px-4 py-3 border rounded-r-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-500 ${borderClass}`}
+            />
+        </div>
+    );
+};
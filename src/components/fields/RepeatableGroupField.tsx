@@ -0,0 +1,84 @@
+import React from 'react';
+import { PlusIcon, TrashIcon } from 'lucide-react';
+import { FormField } from '../../types/formData';
+/**
+ * A list of entries that share the same fields, e.g. founders with their
+ * name, nationality and ownership. The fields of an entry are drawn by the
+ * caller, so they get the same rendering as any other field.
+ */
+type Item = Record<string, any>;
+interface RepeatableGroupFieldProps {
+    field: FormField; // The repeatable field, with its itemFields
+    value: Item[];
+    onChange: (value: Item[]) => void;
+    disabled?: boolean;
+    renderItemField: (itemField: FormField, item: Item, onItemChange: (fieldName: string, value: any) => void) => React.ReactNode;
+}
+export const RepeatableGroupField: React.FC<RepeatableGroupFieldProps> = ({
+    field,
+    value,
+    onChange,
+    disabled = false,
+    renderItemField,
+}) => {
+    // An empty group shows one blank entry to start from
+    const items: Item[] = Array.isArray(value) && value.length > 0 ? value : [{}];
+    const itemLabel = field.itemLabel || 'Entry';
+    const canAdd = !disabled && (field.maxItems === undefined || items.length < field.maxItems);
+    const canRemove = !disabled && items.length > Math.max(field.minItems ?? 0, 1);
+    const updateItem = (index: number, fieldName: string, itemValue: any) =>
+        onChange(items.map((item, i) => (i === index ? { ...item, [fieldName]: itemValue } : item)));
+    const total = field.maxTotal
+        ? items.reduce((sum, item) => sum + (Number(item[field.maxTotal!.field]) || 0), 0)
+        : 0;
+    const totalLabel = field.itemFields?.find((itemField) => itemField.fieldName === field.maxTotal?.field)?.label;
+    return (
+        <div className="space-y-4">
+            {items.map((item, index) => (
+                <div key={index} className="border border-gray-200 rounded-md p-4 bg-gray-50">
+                    <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-sm font-medium text-gray-700">
+                            {itemLabel} {index + 1}
+                        </h4>
+                        {canRemove && (
+                            <button
+                                type="button"
+                                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                                className="flex items-center text-sm text-red-600 hover:text-red-800"
+                            >
+                                <TrashIcon size={14} className="mr-1" />
+                                Remove
+                            </button>
+                        )}
+                    </div>
+                    {(field.itemFields || []).map((itemField) => (
+                        <React.Fragment key={itemField.id}>
+                            {renderItemField(itemField, item, (fieldName, itemValue) =>
+                                updateItem(index, fieldName, itemValue)
+                            )}
+                        </React.Fragment>
+                    ))}
+                </div>
+            ))}
+            <div className="flex items-center justify-between">
+                {canAdd ? (
+                    <button
+                        type="button"
+                        onClick={() => onChange([...items, {}])}
+                        className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                        <PlusIcon size={16} className="mr-1" />
+                        Add {itemLabel.toLowerCase()}
+                    </button>
+                ) : (
+                    <span />
+                )}
+                {field.maxTotal && (
+                    <span className={`text-sm ${total > field.maxTotal.max ? 'text-red-600' : 'text-gray-500'}`}>
+                        Total {totalLabel?.toLowerCase() || field.maxTotal.field}: {total} of {field.maxTotal.max}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { PlusIcon, SearchXIcon } from 'lucide-react';
+import { Can } from '../Can';
 interface EmptyStateProps {
     onRequestNewService: () => void;
     hasFilters: boolean;
@@ -53,16 +54,18 @@ export function EmptyState({
                     <p className="mt-1 text-sm text-gray-500">
                         Get started by creating your first service request.
                     </p>
-                    <div className="mt-6">
-                        <button
-                            onClick={onRequestNewService}
-                            type="button"
-                            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                        >
-                            <PlusIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
-                            Request New Service
-                        </button>
-                    </div>
+                    <Can capability="requests:submit">
+                        <div className="mt-6">
+                            <button
+                                onClick={onRequestNewService}
+                                type="button"
+                                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                            >
+                                <PlusIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+                                Request New Service
+                            </button>
+                        </div>
+                    </Can>
                 </>
             )}
         </div>
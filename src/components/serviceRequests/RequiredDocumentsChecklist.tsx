@@ -0,0 +1,180 @@
+import { useRef, useState } from 'react';
+import { AlertTriangleIcon, CheckCircleIcon, FileTextIcon, UploadIcon, XCircleIcon } from 'lucide-react';
+import { uploadFileInChunks, UploadRejectedError } from '../../services/AzureBlobService';
+import { createDocument, DocumentRecord } from '../../services/DataverseService';
+import { ChecklistItem, ChecklistStatus } from '../../utils/requiredDocuments';
+import { useAuth } from '../Header/context/AuthContext';
+const STATUS_STYLES: Record<ChecklistStatus, { label: string; className: string }> = {
+    matched: { label: 'In wallet', className: 'bg-green-100 text-green-800' },
+    expired: { label: 'Expired', className: 'bg-red-100 text-red-800' },
+    missing: { label: 'Missing', className: 'bg-yellow-100 text-yellow-800' },
+};
+// Get file type from extension
+const getFileType = (filename: string) => {
+    const ext = filename.split('.').pop()!.toLowerCase();
+    if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) return 'image';
+    if (['pdf'].includes(ext)) return 'pdf';
+    if (['xls', 'xlsx', 'csv'].includes(ext)) return 'spreadsheet';
+    if (['ppt', 'pptx'].includes(ext)) return 'presentation';
+    if (['doc', 'docx', 'txt'].includes(ext)) return 'document';
+    return 'file';
+};
+// Format file size
+const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+export function RequiredDocumentsChecklist({
+    items,
+    disabled = false,
+    onSelect,
+    onUploaded,
+}: {
+    items: ChecklistItem<DocumentRecord>[];
+    disabled?: boolean;
+    onSelect: (requirementId: string, document: DocumentRecord | null) => void;
+    onUploaded: (requirementId: string, document: DocumentRecord) => void;
+}) {
+    const { user } = useAuth();
+    // Upload progress and errors per requirement
+    const [uploads, setUploads] = useState<Record<string, { progress: number; error?: string }>>({});
+    const fileInputs = useRef<Record<string, HTMLInputElement | null>>({});
+    const isUploading = (requirementId: string) =>
+        uploads[requirementId] !== undefined && !uploads[requirementId].error;
+    // Upload a file for a requirement straight into the wallet and attach it
+    const handleUpload = async (item: ChecklistItem<DocumentRecord>, file: File) => {
+        const { requirement } = item;
+        setUploads((prev) => ({ ...prev, [requirement.id]: { progress: 0 } }));
+        try {
+            const fileUrl = await uploadFileInChunks(file, {
+                onProgress: (percent) =>
+                    setUploads((prev) => ({ ...prev, [requirement.id]: { progress: Math.min(percent, 99) } })),
+            });
+            const created = await createDocument({
+                name: requirement.label,
+                category: requirement.category || 'Other',
+                description: `Uploaded for a service request (${file.name})`,
+                tags: requirement.keywords,
+                isConfidential: false,
+                fileType: getFileType(file.name),
+                fileSize: formatFileSize(file.size),
+                uploadDate: new Date().toISOString().split('T')[0],
+                uploadedBy: user?.name || user?.email || 'Unknown user',
+                status: 'Active',
+                fileUrl,
+            });
+            setUploads((prev) => {
+                const next = { ...prev };
+                delete next[requirement.id];
+                return next;
+            });
+            onUploaded(requirement.id, created);
+        } catch (error) {
+            console.error('Error uploading required document:', error);
+            setUploads((prev) => ({
+                ...prev,
+                [requirement.id]: {
+                    progress: 0,
+                    error: error instanceof UploadRejectedError
+                        ? `Upload rejected: ${error.message}`
+                        : 'Upload failed. Please try again.',
+                },
+            }));
+        }
+    };
+    return (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {items.map((item) => {
+                const { requirement, document, candidates, status } = item;
+                const upload = uploads[requirement.id];
+                const style = STATUS_STYLES[status];
+                return (
+                    <li key={requirement.id} className="p-3">
+                        <div className="flex items-start justify-between gap-3">
+                            <div className="flex items-start min-w-0">
+                                {status === 'matched' ? (
+                                    <CheckCircleIcon size={18} className="text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                                ) : status === 'expired' ? (
+                                    <XCircleIcon size={18} className="text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+                                ) : (
+                                    <AlertTriangleIcon size={18} className="text-yellow-500 mr-2 mt-0.5 flex-shrink-0" />
+                                )}
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900">
+                                        {requirement.label}
+                                        {requirement.optional && (
+                                            <span className="ml-1 text-xs font-normal text-gray-500">(optional)</span>
+                                        )}
+                                    </p>
+                                    {document && (
+                                        <p className="text-xs text-gray-500 flex items-center mt-0.5 truncate">
+                                            <FileTextIcon size={12} className="mr-1 flex-shrink-0" />
+                                            {document.name}
+                                            {document.expiryDate && ` · expires ${new Date(document.expiryDate).toLocaleDateString()}`}
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                            <span className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${style.className}`}>
+                                {style.label}
+                            </span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mt-2 ml-6">
+                            {candidates.length > 0 && (
+                                <select
+                                    className="text-xs border border-gray-300 rounded-md px-2 py-1 max-w-[16rem]"
+                                    value={document?.id || ''}
+                                    onChange={(e) =>
+                                        onSelect(
+                                            requirement.id,
+                                            candidates.find((candidate) => candidate.id === e.target.value) || null,
+                                        )
+                                    }
+                                    disabled={disabled || isUploading(requirement.id)}
+                                >
+                                    <option value="">Don't attach</option>
+                                    {candidates.map((candidate) => (
+                                        <option key={candidate.id} value={candidate.id}>
+                                            {candidate.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            {status !== 'matched' && (
+                                <>
+                                    <input
+                                        ref={(input) => {
+                                            fileInputs.current[requirement.id] = input;
+                                        }}
+                                        type="file"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) handleUpload(item, file);
+                                        }}
+                                    />
+                                    <button
+                                        type="button"
+                                        className="flex items-center px-2 py-1 text-xs font-medium text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+                                        onClick={() => fileInputs.current[requirement.id]?.click()}
+                                        disabled={disabled || isUploading(requirement.id)}
+                                    >
+                                        <UploadIcon size={12} className="mr-1" />
+                                        {isUploading(requirement.id)
+                                            ? `Uploading ${upload.progress}%`
+                                            : status === 'expired'
+                                            ? 'Upload current copy'
+                                            : 'Upload'}
+                                    </button>
+                                </>
+                            )}
+                            {upload?.error && <span className="text-xs text-red-600">{upload.error}</span>}
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
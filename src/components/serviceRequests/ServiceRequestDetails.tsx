@@ -357,6 +357,39 @@ export function ServiceRequestDetails({
                                         </div>
                                     )}
                                 </div>
+                                {/* Attached Documents */}
+                                {request.documents && request.documents.length > 0 && (
+                                    <div className="bg-white rounded-lg p-5 border border-gray-200">
+                                        <h3 className="text-lg font-medium text-gray-900 mb-4">
+                                            Required Documents
+                                        </h3>
+                                        <ul className="space-y-3">
+                                            {request.documents.map((doc) => (
+                                                <li key={doc.requirementId} className="flex items-start justify-between gap-3">
+                                                    <div className="flex items-start min-w-0">
+                                                        <FileTextIcon size={16} className="text-gray-400 mt-0.5 mr-2.5 flex-shrink-0" />
+                                                        <div className="min-w-0">
+                                                            <p className="text-sm font-medium">
+                                                                {doc.requirement}
+                                                                {doc.optional && (
+                                                                    <span className="ml-1 text-xs font-normal text-gray-500">(optional)</span>
+                                                                )}
+                                                            </p>
+                                                            <p className="text-xs text-gray-500 truncate">
+                                                                {doc.documentName || 'Not provided'}
+                                                            </p>
+                                                        </div>
+                                                    </div>
+                                                    <span
+                                                        className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${doc.status === 'matched' ? 'bg-green-100 text-green-800' : doc.status === 'expired' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}
+                                                    >
+                                                        {doc.status === 'matched' ? 'Attached' : doc.status === 'expired' ? 'Expired' : 'Missing'}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                                 {/* Requester Information */}
                                 <div className="bg-white rounded-lg p-5 border border-gray-200">
                                     <h3 className="text-lg font-medium text-gray-900 mb-4">
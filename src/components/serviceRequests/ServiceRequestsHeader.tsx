@@ -1,6 +1,7 @@
 import React from 'react';
 import { PlusIcon, MenuIcon, XIcon } from 'lucide-react';
 import { BurgerMenuButton } from '../Sidebar';
+import { Can } from '../Can';
 interface ServiceRequestsHeaderProps {
     onRequestNewService: () => void;
     setIsOpen: (value: boolean) => void;
@@ -26,15 +27,17 @@ export function ServiceRequestsHeader({
             </div>
 
             {/* Mobile: Icon-only button, Desktop: Full button with text */}
-            <button
-                onClick={onRequestNewService}
-                className="inline-flex items-center px-3 py-2 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                aria-label="Request new service"
-            >
-                <PlusIcon className="w-4 h-4 sm:mr-2" />
-                <span className="hidden sm:inline">Request New Service</span>
-                <span className="inline sm:hidden">New Request</span>
-            </button>
+            <Can capability="requests:submit">
+                <button
+                    onClick={onRequestNewService}
+                    className="inline-flex items-center px-3 py-2 sm:px-4 sm:py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                    aria-label="Request new service"
+                >
+                    <PlusIcon className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Request New Service</span>
+                    <span className="inline sm:hidden">New Request</span>
+                </button>
+            </Can>
         </div >
     );
 }
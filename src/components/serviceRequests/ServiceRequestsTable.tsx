@@ -9,6 +9,7 @@ import {
 import { ServiceRequestDetails } from './ServiceRequestDetails';
 import { ServiceRequest } from '../../types';
 import { StatusBadge } from './StatusBadge';
+import { usePermission } from '../../hooks/usePermission';
 interface ServiceRequestsTableProps {
     requests: ServiceRequest[];
     sortConfig: {
@@ -25,6 +26,8 @@ export function ServiceRequestsTable({
     const [page, setPage] = useState(1);
     const [rowsPerPage, setRowsPerPage] = useState(10);
     const [actionMenuOpen, setActionMenuOpen] = useState<string | null>(null);
+    const canSubmit = usePermission('requests:submit');
+    const canCancelRequests = usePermission('requests:cancel');
     const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(
         null,
     );
@@ -103,7 +106,7 @@ export function ServiceRequestsTable({
         return request.status === 'draft';
     };
     const canCancel = (request: ServiceRequest) => {
-        return request.status === 'draft' || request.status === 'under-review';
+        return canCancelRequests && (request.status === 'draft' || request.status === 'under-review');
     };
     return (
         <div>
@@ -222,7 +225,7 @@ export function ServiceRequestsTable({
                                                     >
                                                         View Details
                                                     </button>
-                                                    {request.status === 'draft' && (
+                                                    {canSubmit && request.status === 'draft' && (
                                                         <button
                                                             onClick={() => handleAction('edit', request)}
                                                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -231,7 +234,7 @@ export function ServiceRequestsTable({
                                                             Edit Request
                                                         </button>
                                                     )}
-                                                    {request.status === 'rejected' && (
+                                                    {canSubmit && request.status === 'rejected' && (
                                                         <button
                                                             onClick={() => handleAction('resubmit', request)}
                                                             className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -240,7 +243,7 @@ export function ServiceRequestsTable({
                                                             Resubmit
                                                         </button>
                                                     )}
-                                                    {request.status === 'draft' && (
+                                                    {canCancelRequests && request.status === 'draft' && (
                                                         <button
                                                             onClick={() => handleAction('delete', request)}
                                                             className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100"
@@ -316,7 +319,7 @@ export function ServiceRequestsTable({
                                                 >
                                                     View Details
                                                 </button>
-                                                {request.status === 'draft' && (
+                                                {canSubmit && request.status === 'draft' && (
                                                     <button
                                                         onClick={() => handleAction('edit', request)}
                                                         className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -325,7 +328,7 @@ export function ServiceRequestsTable({
                                                         Edit Request
                                                     </button>
                                                 )}
-                                                {request.status === 'rejected' && (
+                                                {canSubmit && request.status === 'rejected' && (
                                                     <button
                                                         onClick={() => handleAction('resubmit', request)}
                                                         className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -334,7 +337,7 @@ export function ServiceRequestsTable({
                                                         Resubmit
                                                     </button>
                                                 )}
-                                                {request.status === 'draft' && (
+                                                {canCancelRequests && request.status === 'draft' && (
                                                     <button
                                                         onClick={() => handleAction('delete', request)}
                                                         className="block w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-100"
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react';
+import { XIcon } from 'lucide-react';
+import { createServiceRequest, DocumentRecord, getAllDocuments } from '../../services/DataverseService';
+import { ServiceRequest } from '../../types';
+import {
+    ChecklistItem,
+    matchRequiredDocuments,
+    parseRequiredDocuments,
+    summarizeChecklist,
+    toChecklistItem,
+} from '../../utils/requiredDocuments';
+import { useAuth } from '../Header/context/AuthContext';
+import { RequiredDocumentsChecklist } from './RequiredDocumentsChecklist';
+import { usePermission } from '../../hooks/usePermission';
+export function StartServiceRequestModal({
+    service,
+    onClose,
+    onSubmitted,
+}: {
+    service: { id: string; title: string; category?: string; provider?: { name?: string }; requiredDocuments?: unknown };
+    onClose: () => void;
+    onSubmitted?: (request: ServiceRequest) => void;
+}) {
+    const { user } = useAuth();
+    const canSubmit = usePermission('requests:submit');
+    const requirements = useMemo(() => parseRequiredDocuments(service.requiredDocuments), [service.requiredDocuments]);
+    const [items, setItems] = useState<ChecklistItem<DocumentRecord>[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [notes, setNotes] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitted, setSubmitted] = useState<ServiceRequest | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Match the product's required documents against the wallet
+    useEffect(() => {
+        let cancelled = false;
+        const loadDocuments = async () => {
+            try {
+                setIsLoading(true);
+                const documents = await getAllDocuments();
+                if (!cancelled) setItems(matchRequiredDocuments(requirements, documents));
+            } catch (error) {
+                console.error('Error loading wallet documents:', error);
+                if (!cancelled) {
+                    setItems(matchRequiredDocuments(requirements, []));
+                    setError('Could not load your document wallet; upload the documents below instead.');
+                }
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        loadDocuments();
+        return () => {
+            cancelled = true;
+        };
+    }, [requirements]);
+    const summary = summarizeChecklist(items);
+    // Attach a different wallet document (or none) to a requirement
+    const handleSelect = (requirementId: string, document: DocumentRecord | null) => {
+        setItems((prev) =>
+            prev.map((item) =>
+                item.requirement.id === requirementId
+                    ? toChecklistItem(item.requirement, document, item.candidates)
+                    : item,
+            ),
+        );
+    };
+    // A file uploaded inline becomes the attached document for its requirement
+    const handleUploaded = (requirementId: string, document: DocumentRecord) => {
+        setItems((prev) =>
+            prev.map((item) =>
+                item.requirement.id === requirementId
+                    ? toChecklistItem(item.requirement, document, [document, ...item.candidates])
+                    : item,
+            ),
+        );
+    };
+    // Create the service request with the checklist attached
+    const handleSubmit = async () => {
+        if (!user || !canSubmit) return;
+        try {
+            setIsSubmitting(true);
+            setError(null);
+            const created = await createServiceRequest({
+                serviceId: service.id,
+                serviceName: service.title,
+                category: service.category || 'General',
+                serviceProvider: service.provider?.name,
+                description: notes.trim() || undefined,
+                status: 'under-review',
+                submittedDate: new Date().toISOString(),
+                requestedBy: { id: user.id, name: user.name, email: user.email, department: '' },
+                approvers: [],
+                documents: items.map(({ requirement, document, status }) => ({
+                    requirementId: requirement.id,
+                    requirement: requirement.label,
+                    status,
+                    optional: requirement.optional || undefined,
+                    documentId: document?.id,
+                    documentName: document?.name,
+                    fileUrl: document?.fileUrl,
+                    expiryDate: document?.expiryDate || undefined,
+                })),
+            });
+            setSubmitted(created);
+            onSubmitted?.(created);
+        } catch (error) {
+            console.error('Error creating service request:', error);
+            setError('Failed to submit the request. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200">
+                    <h2 className="text-lg font-semibold text-gray-800 truncate">Request: {service.title}</h2>
+                    <button className="text-gray-500 hover:text-gray-700" onClick={onClose}>
+                        <XIcon size={20} />
+                    </button>
+                </div>
+                {submitted ? (
+                    <div className="p-6 text-center">
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">Request submitted</h3>
+                        <p className="text-sm text-gray-600 mb-4">
+                            {submitted.documents?.filter((doc) => doc.documentId).length || 0} document(s) were
+                            attached. You can follow the request under Service Requests in your dashboard.
+                        </p>
+                        <button
+                            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                            onClick={onClose}
+                        >
+                            Done
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex-1 overflow-y-auto p-4">
+                            {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+                            <h3 className="text-sm font-medium text-gray-700 mb-1">Required documents</h3>
+                            {isLoading ? (
+                                <p className="text-sm text-gray-500 py-6 text-center">Checking your document wallet...</p>
+                            ) : items.length === 0 ? (
+                                <p className="text-sm text-gray-500 mb-4">This service does not list any required documents.</p>
+                            ) : (
+                                <>
+                                    <p className="text-xs text-gray-500 mb-3">
+                                        {summary.matched} of {items.length} found in your wallet
+                                        {summary.expired > 0 && ` · ${summary.expired} expired`}
+                                        {summary.missing > 0 && ` · ${summary.missing} missing`}
+                                    </p>
+                                    <RequiredDocumentsChecklist
+                                        items={items}
+                                        disabled={isSubmitting}
+                                        onSelect={handleSelect}
+                                        onUploaded={handleUploaded}
+                                    />
+                                </>
+                            )}
+                            <label className="block mt-4">
+                                <span className="block text-sm font-medium text-gray-700 mb-1">Notes for the provider</span>
+                                <textarea
+                                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                                    rows={3}
+                                    value={notes}
+                                    onChange={(e) => setNotes(e.target.value)}
+                                />
+                            </label>
+                        </div>
+                        <div className="flex items-center justify-between gap-3 p-4 border-t border-gray-200">
+                            <p className="text-xs text-gray-500">
+                                {!canSubmit
+                                    ? 'Your role does not allow submitting service requests.'
+                                    : summary.complete
+                                    ? 'All required documents are attached.'
+                                    : 'Missing or expired documents can be provided later.'}
+                            </p>
+                            <div className="flex gap-2">
+                                <button
+                                    className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                                    onClick={onClose}
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                                    onClick={handleSubmit}
+                                    disabled={isLoading || isSubmitting || !canSubmit}
+                                >
+                                    {isSubmitting ? 'Submitting...' : 'Submit request'}
+                                </button>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
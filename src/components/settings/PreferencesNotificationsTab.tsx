@@ -1,45 +1,13 @@
 import React, { useEffect, useState } from 'react';
 import { GlobeIcon, ClockIcon, MoonIcon, BellIcon } from 'lucide-react';
-
-type Preferences = {
-    language: string;
-    timezone: string;
-    darkMode: boolean;
-    notifications: {
-        complianceAlerts: boolean;
-        submissionDeadlines: boolean;
-        partnerMessages: boolean;
-    };
-};
-
-const STORAGE_KEY = 'settings.preferences.v1';
+import { loadPreferences, Preferences, savePreferences } from '../../utils/preferences';
 
 export default function PreferencesNotificationsTab() {
-    const [prefs, setPrefs] = useState<Preferences>(() => {
-        try {
-            const raw = localStorage.getItem(STORAGE_KEY);
-            if (raw) return JSON.parse(raw);
-        } catch (e) {
-            console.error(e);
-        }
-        return {
-            language: 'en',
-            timezone: 'gmt+4',
-            darkMode: false,
-            notifications: {
-                complianceAlerts: true,
-                submissionDeadlines: true,
-                partnerMessages: false
-            }
-        };
-    });
+    const [prefs, setPrefs] = useState<Preferences>(loadPreferences);
 
+    // Saving also tells the header to re-evaluate compliance reminders
     useEffect(() => {
-        try {
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
-        } catch (e) {
-            console.error(e);
-        }
+        savePreferences(prefs);
     }, [prefs]);
 
     useEffect(() => {
@@ -167,7 +135,7 @@ export default function PreferencesNotificationsTab() {
                                 <div className="flex justify-between items-center">
                                     <div>
                                         <h3 className="text-sm font-medium text-gray-900">Compliance Alerts</h3>
-                                        <p className="text-sm text-gray-500 mt-1">Get notified about important compliance deadlines and requirements</p>
+                                        <p className="text-sm text-gray-500 mt-1">Get notified about important compliance deadlines, requirements and expiring documents</p>
                                     </div>
                                     <div className="flex items-center">
                                         <label className="inline-flex relative items-center cursor-pointer" aria-label="Toggle compliance alerts">
@@ -222,9 +190,7 @@ export default function PreferencesNotificationsTab() {
                 </div>
             </section>
             <div className="flex justify-end">
-                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700" onClick={() => {
-                    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs)); } catch (e) { console.error(e); }
-                }}>Save preferences</button>
+                <button className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700" onClick={() => savePreferences(prefs)}>Save preferences</button>
             </div>
         </div>
     );
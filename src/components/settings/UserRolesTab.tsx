@@ -1,130 +1,126 @@
-import React, { useState } from 'react';
-import { PlusIcon, PencilIcon, TrashIcon, KeyIcon, ChevronDownIcon, ChevronUpIcon } from 'lucide-react';
-// Mock data for users
-const mockUsers = [{
-    id: 1,
-    name: 'Ahmed Al Mansoori',
-    email: 'ahmed@example.com',
-    role: 'Admin',
-    status: 'Active',
-    lastLogin: '2023-09-15 10:30 AM'
-}, {
-    id: 2,
-    name: 'Fatima Al Hashimi',
-    email: 'fatima@example.com',
-    role: 'Editor',
-    status: 'Active',
-    lastLogin: '2023-09-14 02:15 PM'
-}, {
-    id: 3,
-    name: 'Mohammed Al Qasimi',
-    email: 'mohammed@example.com',
-    role: 'Viewer',
-    status: 'Inactive',
-    lastLogin: '2023-08-30 09:45 AM'
-}, {
-    id: 4,
-    name: 'Aisha Al Zaabi',
-    email: 'aisha@example.com',
-    role: 'Admin',
-    status: 'Active',
-    lastLogin: '2023-09-15 08:20 AM'
-}, {
-    id: 5,
-    name: 'Omar Al Suwaidi',
-    email: 'omar@example.com',
-    role: 'Editor',
-    status: 'Active',
-    lastLogin: '2023-09-13 04:30 PM'
-}, {
-    id: 6,
-    name: 'Sara Al Farsi',
-    email: 'sara@example.com',
-    role: 'Advisor',
-    status: 'Active',
-    lastLogin: '2023-09-12 01:45 PM'
-}];
-// Mock data for roles
-const mockRoles = [{
-    id: 1,
-    name: 'Admin',
-    description: 'Full access to all features',
-    permissions: [{
-        name: 'User Management',
-        access: 'Full'
-    }, {
-        name: 'Content Management',
-        access: 'Full'
-    }, {
-        name: 'Settings',
-        access: 'Full'
-    }, {
-        name: 'Reports',
-        access: 'Full'
-    }]
-}, {
-    id: 2,
-    name: 'Editor',
-    description: 'Can edit content but cannot manage users',
-    permissions: [{
-        name: 'User Management',
-        access: 'View Only'
-    }, {
-        name: 'Content Management',
-        access: 'Full'
-    }, {
-        name: 'Settings',
-        access: 'View Only'
-    }, {
-        name: 'Reports',
-        access: 'Full'
-    }]
-}, {
-    id: 3,
-    name: 'Viewer',
-    description: 'View-only access to content',
-    permissions: [{
-        name: 'User Management',
-        access: 'None'
-    }, {
-        name: 'Content Management',
-        access: 'View Only'
-    }, {
-        name: 'Settings',
-        access: 'None'
-    }, {
-        name: 'Reports',
-        access: 'View Only'
-    }]
-}, {
-    id: 4,
-    name: 'Advisor',
-    description: 'Can provide advice and recommendations',
-    permissions: [{
-        name: 'User Management',
-        access: 'None'
-    }, {
-        name: 'Content Management',
-        access: 'View Only'
-    }, {
-        name: 'Settings',
-        access: 'None'
-    }, {
-        name: 'Reports',
-        access: 'Full'
-    }]
-}];
+import React, { useEffect, useMemo, useState } from 'react';
+import { PlusIcon, PencilIcon, TrashIcon, SendIcon, XCircleIcon, UserXIcon, UserCheckIcon, Loader2Icon } from 'lucide-react';
+import { useAuth } from '../Header/context/AuthContext';
+import { usePermissions } from '../Header/context/PermissionContext';
+import {
+    changeMemberRole,
+    deleteCustomRole,
+    getMemberState,
+    getRoleOptions,
+    inviteMember,
+    loadTeam,
+    MemberState,
+    resendInvite,
+    revokeInvite,
+    RoleOption,
+    saveCustomRole,
+    setMemberActive,
+    TeamError,
+    TeamMember,
+    TeamRole,
+} from '../../services/TeamService';
+import { Capability, CAPABILITIES, CAPABILITY_LABELS } from '../../utils/permissions';
+// Headings for the capability groups in the permission matrix
+const AREA_LABELS: Record<string, string> = {
+    documents: 'Documents',
+    profile: 'Business Profile',
+    requests: 'Service Requests',
+    reports: 'Reports',
+    settings: 'Settings',
+    users: 'Team',
+};
+const CAPABILITY_AREAS = Array.from(new Set(CAPABILITIES.map(capability => capability.split(':')[0])));
+const STATE_BADGES: Record<MemberState, { label: string; className: string }> = {
+    active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+    deactivated: { label: 'Deactivated', className: 'bg-red-100 text-red-800' },
+    pending: { label: 'Invitation pending', className: 'bg-yellow-100 text-yellow-800' },
+    expired: { label: 'Invitation expired', className: 'bg-gray-100 text-gray-700' },
+};
+const inputClassName = 'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+// Format a timestamp, or a placeholder when there is none
+const formatDateTime = (value: string, empty = 'Never') => value ? new Date(value).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short'
+}) : empty;
+const errorMessage = (error: unknown, fallback: string) => error instanceof TeamError ? error.message : fallback;
 export default function UserRolesTab() {
+    const { user } = useAuth();
+    const { reload: reloadPermissions } = usePermissions();
+    const [members, setMembers] = useState<TeamMember[]>([]);
+    const [customRoles, setCustomRoles] = useState<TeamRole[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
     const [showUserModal, setShowUserModal] = useState(false);
-    const [expandedRoleId, setExpandedRoleId] = useState<number | null>(null);
-    const toggleRoleExpand = (roleId: number) => {
-        if (expandedRoleId === roleId) {
-            setExpandedRoleId(null);
-        } else {
-            setExpandedRoleId(roleId);
+    // Null: closed; an object without id: creating
+    const [editingRole, setEditingRole] = useState<Partial<TeamRole> | null>(null);
+    const roleOptions = useMemo(() => getRoleOptions(customRoles), [customRoles]);
+    const currentUser = user ? { id: user.id, name: user.name, email: user.email } : null;
+    // Load members and custom roles
+    const refresh = async () => {
+        try {
+            const team = await loadTeam();
+            setMembers(team.members);
+            setCustomRoles(team.roles);
+            setLoadError(null);
+        } catch (error) {
+            console.error('Error loading team:', error);
+            setLoadError('The team could not be loaded. Please try again.');
+        } finally {
+            setIsLoading(false);
         }
     };
+    useEffect(() => {
+        refresh();
+    }, []);
+    // Run a team change, then reload; the signed-in user's own access may have changed too
+    const runAction = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        setActionError(null);
+        try {
+            await action();
+            await refresh();
+            reloadPermissions();
+        } catch (error) {
+            console.error('Error updating team:', error);
+            setActionError(errorMessage(error, 'The change could not be saved. Please try again.'));
+        } finally {
+            setBusyId(null);
+        }
+    };
+    const isSelf = (member: TeamMember) => !!user && (member.userId === user.id || member.email === user.email.toLowerCase());
+    // Toggle one capability of a custom role from the matrix
+    const toggleCapability = (role: TeamRole, capability: Capability) => {
+        const capabilities = role.capabilities.includes(capability)
+            ? role.capabilities.filter(entry => entry !== capability)
+            : [...role.capabilities, capability];
+        runAction(`role-${role.id}`, () => saveCustomRole({ ...role, capabilities }, members, customRoles));
+    };
+    if (isLoading) {
+        return <div className="flex items-center text-gray-500 py-8">
+            <Loader2Icon className="h-5 w-5 mr-2 animate-spin" />
+            Loading team...
+        </div>;
+    }
+    if (loadError) {
+        return <div className="text-sm text-red-600">
+            {loadError}{' '}
+            <button className="underline" onClick={() => {
+                setIsLoading(true);
+                refresh();
+            }}>
+                Retry
+            </button>
+        </div>;
+    }
     return <div className="space-y-6">
+        {actionError && <div className="flex justify-between items-start rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">
+            <span>{actionError}</span>
+            <button className="ml-4 text-red-500 hover:text-red-700" onClick={() => setActionError(null)}>
+                <XCircleIcon className="h-4 w-4" />
+            </button>
+        </div>}
         {/* User Management Section */}
         <section>
             <div className="flex justify-between items-center mb-4">
@@ -136,7 +132,7 @@ export default function UserRolesTab() {
                     Invite New User
                 </button>
             </div>
-            <div className="bg-white overflow-hidden border border-gray-200 rounded-md">
+            <div className="bg-white overflow-x-auto border border-gray-200 rounded-md">
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                         <tr>
@@ -161,38 +157,61 @@ export default function UserRolesTab() {
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                        {mockUsers.map(user => <tr key={user.id}>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                                <div className="text-sm font-medium text-gray-900">
-                                    {user.name}
-                                </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                                <div className="text-sm text-gray-500">{user.email}</div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                                <div className="text-sm text-gray-500">{user.role}</div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${user.status === 'Active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                                    {user.status}
-                                </span>
+                        {members.length === 0 && <tr>
+                            <td colSpan={6} className="px-6 py-4 text-sm text-gray-500">
+                                No team members yet. Invite someone to get started.
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                {user.lastLogin}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                                <button className="text-blue-600 hover:text-blue-900 mr-3">
-                                    <PencilIcon className="h-4 w-4" />
-                                </button>
-                                <button className="text-red-600 hover:text-red-900 mr-3">
-                                    <TrashIcon className="h-4 w-4" />
-                                </button>
-                                <button className="text-gray-600 hover:text-gray-900">
-                                    <KeyIcon className="h-4 w-4" />
-                                </button>
-                            </td>
-                        </tr>)}
+                        </tr>}
+                        {members.map(member => {
+                            const state = getMemberState(member);
+                            const isBusy = busyId === member.id;
+                            return <tr key={member.id}>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <div className="text-sm font-medium text-gray-900">
+                                        {member.name}
+                                        {isSelf(member) && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                                    </div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <div className="text-sm text-gray-500">{member.email}</div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <select className="text-sm text-gray-700 border border-gray-300 rounded-md py-1 px-2 disabled:bg-gray-50" value={member.role} disabled={isBusy || state === 'deactivated'} onChange={e => runAction(member.id!, () => changeMemberRole(member, e.target.value, members, customRoles))}>
+                                        {!roleOptions.some(role => role.name === member.role) && <option value={member.role}>
+                                            {member.role} (deleted)
+                                        </option>}
+                                        {roleOptions.map(role => <option key={role.name} value={role.name}>
+                                            {role.name}
+                                        </option>)}
+                                    </select>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATE_BADGES[state].className}`}>
+                                        {STATE_BADGES[state].label}
+                                    </span>
+                                    {member.status === 'invited' && <div className="text-xs text-gray-500 mt-1">
+                                        Sent {formatDateTime(member.inviteSentAt)}
+                                    </div>}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                    {formatDateTime(member.lastLogin)}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                    {isBusy ? <Loader2Icon className="h-4 w-4 inline animate-spin text-gray-500" /> : member.status === 'invited' ? <>
+                                        <button className="text-blue-600 hover:text-blue-900 mr-3" title="Resend invitation" onClick={() => runAction(member.id!, () => resendInvite(member))}>
+                                            <SendIcon className="h-4 w-4" />
+                                        </button>
+                                        <button className="text-red-600 hover:text-red-900" title="Revoke invitation" onClick={() => runAction(member.id!, () => revokeInvite(member))}>
+                                            <XCircleIcon className="h-4 w-4" />
+                                        </button>
+                                    </> : member.status === 'active' ? <button className="text-red-600 hover:text-red-900 disabled:opacity-40 disabled:cursor-not-allowed" title={isSelf(member) ? 'You cannot deactivate yourself' : 'Deactivate'} disabled={isSelf(member) || !currentUser} onClick={() => currentUser && runAction(member.id!, () => setMemberActive(member, false, currentUser, members, customRoles))}>
+                                        <UserXIcon className="h-4 w-4" />
+                                    </button> : <button className="text-green-600 hover:text-green-900" title="Reactivate" disabled={!currentUser} onClick={() => currentUser && runAction(member.id!, () => setMemberActive(member, true, currentUser, members, customRoles))}>
+                                        <UserCheckIcon className="h-4 w-4" />
+                                    </button>}
+                                </td>
+                            </tr>;
+                        })}
                     </tbody>
                 </table>
             </div>
@@ -200,43 +219,57 @@ export default function UserRolesTab() {
         {/* Roles & Permissions Section */}
         <section>
             <div className="flex justify-between items-center mb-4">
-                <h2 className="text-lg font-semibold text-gray-900">
-                    Roles & Permissions
-                </h2>
-                <button className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
+                <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                        Roles & Permissions
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        Built-in roles are fixed. Tick the boxes of a custom role to change what it allows.
+                    </p>
+                </div>
+                <button onClick={() => setEditingRole({ name: '', description: '', capabilities: [] })} className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
                     <PlusIcon className="h-4 w-4 mr-2" />
                     Create New Role
                 </button>
             </div>
-            <div className="space-y-3">
-                {mockRoles.map(role => <div key={role.id} className="border border-gray-200 rounded-md bg-white overflow-hidden">
-                    <div className="px-4 py-3 flex justify-between items-center cursor-pointer hover:bg-gray-50" onClick={() => toggleRoleExpand(role.id)}>
-                        <div>
-                            <h3 className="text-md font-medium text-gray-900">
-                                {role.name}
-                            </h3>
-                            <p className="text-sm text-gray-500">{role.description}</p>
-                        </div>
-                        <div>
-                            {expandedRoleId === role.id ? <ChevronUpIcon className="h-5 w-5 text-gray-500" /> : <ChevronDownIcon className="h-5 w-5 text-gray-500" />}
-                        </div>
-                    </div>
-                    {expandedRoleId === role.id && <div className="px-4 py-3 bg-gray-50 border-t border-gray-200">
-                        <h4 className="text-sm font-medium text-gray-700 mb-2">
-                            Permissions:
-                        </h4>
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                            {role.permissions.map((permission, index) => <div key={index} className="flex justify-between text-sm">
-                                <span className="text-gray-600">
-                                    {permission.name}:
-                                </span>
-                                <span className={`font-medium ${permission.access === 'Full' ? 'text-green-600' : permission.access === 'View Only' ? 'text-blue-600' : 'text-red-600'}`}>
-                                    {permission.access}
-                                </span>
-                            </div>)}
-                        </div>
-                    </div>}
-                </div>)}
+            <div className="bg-white overflow-x-auto border border-gray-200 rounded-md">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Permission
+                            </th>
+                            {roleOptions.map(role => <th key={role.name} scope="col" className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider align-top">
+                                <div title={role.description}>{role.name}</div>
+                                {role.custom && <div className="mt-1 flex justify-center gap-2 normal-case">
+                                    <button className="text-blue-600 hover:text-blue-900" title="Edit role" onClick={() => setEditingRole(role.custom!)}>
+                                        <PencilIcon className="h-3.5 w-3.5" />
+                                    </button>
+                                    <button className="text-red-600 hover:text-red-900" title="Delete role" disabled={busyId === `role-${role.custom.id}`} onClick={() => runAction(`role-${role.custom!.id}`, () => deleteCustomRole(role.custom!, members))}>
+                                        <TrashIcon className="h-3.5 w-3.5" />
+                                    </button>
+                                </div>}
+                            </th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {CAPABILITY_AREAS.map(area => <React.Fragment key={area}>
+                            <tr className="bg-gray-50">
+                                <td colSpan={roleOptions.length + 1} className="px-4 py-2 text-xs font-semibold text-gray-700">
+                                    {AREA_LABELS[area] || area}
+                                </td>
+                            </tr>
+                            {CAPABILITIES.filter(capability => capability.startsWith(`${area}:`)).map(capability => <tr key={capability}>
+                                <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+                                    {CAPABILITY_LABELS[capability]}
+                                </td>
+                                {roleOptions.map(role => <td key={role.name} className="px-4 py-2 text-center">
+                                    <input type="checkbox" className="h-4 w-4 text-blue-600 border-gray-300 rounded disabled:opacity-60" checked={role.capabilities.includes(capability)} disabled={!role.custom || busyId === `role-${role.custom.id}`} onChange={() => role.custom && toggleCapability(role.custom, capability)} aria-label={`${role.name}: ${CAPABILITY_LABELS[capability]}`} />
+                                </td>)}
+                            </tr>)}
+                        </React.Fragment>)}
+                    </tbody>
+                </table>
             </div>
         </section>
         {/* External Identities & SSO Section (Coming Soon) */}
@@ -256,48 +289,175 @@ export default function UserRolesTab() {
             </div>
         </section>
         {/* User Invite Modal */}
-        {showUserModal && <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
-                <div className="p-6">
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">
-                        Invite New User
-                    </h3>
-                    <form className="space-y-4">
-                        <div>
-                            <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                                Name
-                            </label>
-                            <input type="text" id="name" className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm" placeholder="Full Name" />
-                        </div>
-                        <div>
-                            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                                Email
-                            </label>
-                            <input type="email" id="email" className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm" placeholder="email@example.com" />
-                        </div>
-                        <div>
-                            <label htmlFor="role" className="block text-sm font-medium text-gray-700">
-                                Role
-                            </label>
-                            <select id="role" className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm">
-                                <option value="">Select a role</option>
-                                <option value="admin">Admin</option>
-                                <option value="editor">Editor</option>
-                                <option value="viewer">Viewer</option>
-                                <option value="advisor">Advisor</option>
-                            </select>
-                        </div>
-                    </form>
+        {showUserModal && <InviteUserModal roleOptions={roleOptions} onClose={() => setShowUserModal(false)} onInvite={async invite => {
+            if (!currentUser) throw new TeamError('Sign in to invite users.');
+            await inviteMember(invite, currentUser, members, customRoles);
+            setShowUserModal(false);
+            await refresh();
+        }} />}
+        {/* Custom Role Modal */}
+        {editingRole && <RoleModal role={editingRole} roleOptions={roleOptions} onClose={() => setEditingRole(null)} onSave={async role => {
+            await saveCustomRole(role, members, customRoles);
+            setEditingRole(null);
+            await refresh();
+            reloadPermissions();
+        }} />}
+    </div>;
+}
+function InviteUserModal({
+    roleOptions,
+    onInvite,
+    onClose
+}: {
+    roleOptions: RoleOption[];
+    onInvite: (invite: { name: string; email: string; role: string }) => Promise<void>;
+    onClose: () => void;
+}) {
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    // Send the invitation
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await onInvite({ name, email, role });
+        } catch (error) {
+            console.error('Error inviting user:', error);
+            setError(errorMessage(error, 'The invitation could not be sent. Please try again.'));
+            setIsSubmitting(false);
+        }
+    };
+    return <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <form className="bg-white rounded-lg shadow-xl max-w-md w-full" onSubmit={handleSubmit}>
+            <div className="p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    Invite New User
+                </h3>
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                            Name
+                        </label>
+                        <input type="text" id="name" className={inputClassName} placeholder="Full Name" value={name} onChange={e => setName(e.target.value)} />
+                    </div>
+                    <div>
+                        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                            Email
+                        </label>
+                        <input type="email" id="email" required className={inputClassName} placeholder="email@example.com" value={email} onChange={e => setEmail(e.target.value)} />
+                    </div>
+                    <div>
+                        <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                            Role
+                        </label>
+                        <select id="role" required className={inputClassName} value={role} onChange={e => setRole(e.target.value)}>
+                            <option value="">Select a role</option>
+                            {roleOptions.map(option => <option key={option.name} value={option.name}>
+                                {option.name}
+                            </option>)}
+                        </select>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        The invitation is valid for 14 days. They join the team when they first sign in with this email address.
+                    </p>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
                 </div>
-                <div className="px-6 py-3 bg-gray-50 flex justify-end space-x-3 rounded-b-lg">
-                    <button type="button" className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500" onClick={() => setShowUserModal(false)}>
-                        Cancel
-                    </button>
-                    <button type="button" className="px-4 py-2 bg-blue-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500" onClick={() => setShowUserModal(false)}>
-                        Send Invitation
-                    </button>
+            </div>
+            <div className="px-6 py-3 bg-gray-50 flex justify-end space-x-3 rounded-b-lg">
+                <button type="button" className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500" onClick={onClose}>
+                    Cancel
+                </button>
+                <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-blue-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50">
+                    {isSubmitting ? 'Sending...' : 'Send Invitation'}
+                </button>
+            </div>
+        </form>
+    </div>;
+}
+function RoleModal({
+    role,
+    roleOptions,
+    onSave,
+    onClose
+}: {
+    role: Partial<TeamRole>;
+    roleOptions: RoleOption[];
+    onSave: (role: { id?: string; name: string; description: string; capabilities: Capability[] }) => Promise<void>;
+    onClose: () => void;
+}) {
+    const [name, setName] = useState(role.name || '');
+    const [description, setDescription] = useState(role.description || '');
+    const [capabilities, setCapabilities] = useState<Capability[]>(role.capabilities || []);
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const isNew = !role.id;
+    // Save the role
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await onSave({ id: role.id, name, description, capabilities });
+        } catch (error) {
+            console.error('Error saving role:', error);
+            setError(errorMessage(error, 'The role could not be saved. Please try again.'));
+            setIsSubmitting(false);
+        }
+    };
+    return <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <form className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-full overflow-y-auto" onSubmit={handleSubmit}>
+            <div className="p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    {isNew ? 'Create New Role' : `Edit ${role.name}`}
+                </h3>
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="role-name" className="block text-sm font-medium text-gray-700">
+                            Name
+                        </label>
+                        <input type="text" id="role-name" required className={inputClassName} placeholder="e.g. Finance Manager" value={name} onChange={e => setName(e.target.value)} />
+                    </div>
+                    <div>
+                        <label htmlFor="role-description" className="block text-sm font-medium text-gray-700">
+                            Description
+                        </label>
+                        <input type="text" id="role-description" className={inputClassName} value={description} onChange={e => setDescription(e.target.value)} />
+                    </div>
+                    {isNew && <div>
+                        <label htmlFor="role-template" className="block text-sm font-medium text-gray-700">
+                            Start from
+                        </label>
+                        <select id="role-template" className={inputClassName} defaultValue="" onChange={e => setCapabilities(roleOptions.find(option => option.name === e.target.value)?.capabilities || [])}>
+                            <option value="">No permissions</option>
+                            {roleOptions.map(option => <option key={option.name} value={option.name}>
+                                {option.name}
+                            </option>)}
+                        </select>
+                    </div>}
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-700 mb-2">Permissions</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {CAPABILITIES.map(capability => <label key={capability} className="flex items-center text-sm text-gray-600">
+                                <input type="checkbox" className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded" checked={capabilities.includes(capability)} onChange={e => setCapabilities(e.target.checked ? [...capabilities, capability] : capabilities.filter(entry => entry !== capability))} />
+                                {CAPABILITY_LABELS[capability]}
+                            </label>)}
+                        </div>
+                    </fieldset>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
                 </div>
             </div>
-        </div>}
+            <div className="px-6 py-3 bg-gray-50 flex justify-end space-x-3 rounded-b-lg">
+                <button type="button" className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500" onClick={onClose}>
+                    Cancel
+                </button>
+                <button type="submit" disabled={isSubmitting} className="px-4 py-2 bg-blue-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50">
+                    {isSubmitting ? 'Saving...' : 'Save Role'}
+                </button>
+            </div>
+        </form>
     </div>;
-}
\ No newline at end of file
+}
@@ -1,48 +1,77 @@
 // hooks/useAutoSave.js
-import { useState, useEffect, useRef } from "react";
-
-export function useAutoSave(formData, currentStep, isEditingWelcome) {
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useAuth } from "../components/Header";
+import {
+  OnboardingProgress,
+  saveOnboardingProgress,
+} from "../services/onboardingService";
+
+export function useAutoSave(progress: OnboardingProgress, enabled: boolean) {
+  const { user } = useAuth();
   const [autoSaving, setAutoSaving] = useState(false);
   const [progressSaved, setProgressSaved] = useState(false);
   const [savingProgress, setSavingProgress] = useState(false);
 
-  const autoSaveTimeoutRef = useRef(null);
-  const lastSavedDataRef = useRef({});
-
-  const hasFormDataChanged = () => {
-    if (currentStep === 0 && !isEditingWelcome) return false;
-
-    const currentKeys = Object.keys(formData);
-    const savedKeys = Object.keys(lastSavedDataRef.current);
-
-    if (currentKeys.length !== savedKeys.length) return true;
+  const autoSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Serialized progress as last saved; null until the draft has loaded
+  const lastSavedRef = useRef<string | null>(null);
+  const snapshot = JSON.stringify(progress);
+  const hasFormData = Object.keys(progress.formData).length > 0;
 
-    return currentKeys.some(
-      (key) => formData[key] !== lastSavedDataRef.current[key]
-    );
-  };
+  // Saves run after renders, so they read the latest values from here
+  const latestRef = useRef({ progress, snapshot, user, enabled });
+  useEffect(() => {
+    latestRef.current = { progress, snapshot, user, enabled };
+  });
 
-  const autoSaveFormData = async () => {
-    if (!hasFormDataChanged()) return;
+  // One save in flight at a time; a save asked for meanwhile runs once it ends
+  const inFlightRef = useRef<Promise<void> | null>(null);
+  const queuedRef = useRef(false);
 
-    setAutoSaving(true);
-    try {
-      // In real app: await saveOnboardingProgress(formData);
-      await new Promise((resolve) => setTimeout(resolve, 500));
+  // What was restored (or pre-filled) counts as saved
+  useEffect(() => {
+    if (enabled && lastSavedRef.current === null) {
+      lastSavedRef.current = snapshot;
+    }
+  }, [enabled, snapshot]);
 
-      lastSavedDataRef.current = { ...formData };
-      setProgressSaved(true);
+  const hasProgressChanged = useCallback(() => {
+    const latest = latestRef.current;
+    return latest.enabled && !!latest.user && lastSavedRef.current !== null && latest.snapshot !== lastSavedRef.current;
+  }, []);
 
-      setTimeout(() => setProgressSaved(false), 3000);
-    } catch (error) {
-      console.error("Error auto-saving progress:", error);
-    } finally {
-      setAutoSaving(false);
+  const autoSaveFormData = useCallback(() => {
+    if (inFlightRef.current) {
+      queuedRef.current = true;
+      return inFlightRef.current;
     }
-  };
+    const run = async () => {
+      setAutoSaving(true);
+      try {
+        do {
+          queuedRef.current = false;
+          if (!hasProgressChanged()) break;
+          const { progress: latestProgress, snapshot: latestSnapshot, user: latestUser } = latestRef.current;
+          await saveOnboardingProgress(latestUser!.id, latestProgress);
+
+          lastSavedRef.current = latestSnapshot;
+          setProgressSaved(true);
+
+          setTimeout(() => setProgressSaved(false), 3000);
+        } while (queuedRef.current);
+      } catch (error) {
+        console.error("Error auto-saving progress:", error);
+      } finally {
+        inFlightRef.current = null;
+        setAutoSaving(false);
+      }
+    };
+    inFlightRef.current = run();
+    return inFlightRef.current;
+  }, [hasProgressChanged]);
 
   const saveProgress = async () => {
-    if (Object.keys(formData).length === 0) return;
+    if (!hasFormData) return;
 
     setSavingProgress(true);
     try {
@@ -54,12 +83,12 @@ export function useAutoSave(formData, currentStep, isEditingWelcome) {
 
   // Auto-save effect
   useEffect(() => {
-    if (Object.keys(formData).length > 0 && hasFormDataChanged()) {
+    if (hasFormData && hasProgressChanged()) {
       if (autoSaveTimeoutRef.current) {
         clearTimeout(autoSaveTimeoutRef.current);
       }
 
-      autoSaveTimeoutRef.current = setTimeout(autoSaveFormData, 2000) as any;
+      autoSaveTimeoutRef.current = setTimeout(autoSaveFormData, 2000);
     }
 
     return () => {
@@ -67,7 +96,7 @@ export function useAutoSave(formData, currentStep, isEditingWelcome) {
         clearTimeout(autoSaveTimeoutRef.current);
       }
     };
-  }, [formData]);
+  }, [snapshot, enabled, hasFormData, hasProgressChanged, autoSaveFormData]);
 
   return {
     autoSaving,
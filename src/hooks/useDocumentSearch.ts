@@ -0,0 +1,103 @@
+// hooks/useDocumentSearch.ts
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "../components/Header/context/AuthContext";
+import { useEntity } from "../components/Header/context/EntityContext";
+import { usePermissions } from "../components/Header/context/PermissionContext";
+import {
+  createDocumentSearch,
+  DocumentSearchClient,
+  IndexingProgress,
+  SearchHit,
+} from "../services/DocumentSearchService";
+
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Full-text search over wallet documents
+ * @param documents Documents to keep indexed
+ * @param query Search text; empty for no search
+ * @returns Hits by document id (null when there's no query or the index
+ * isn't available), whether a search is running, and text indexing progress
+ */
+export function useDocumentSearch(documents: any[], query: string) {
+  const { user } = useAuth();
+  const { activeEntity } = useEntity();
+  const { permissions } = usePermissions();
+  const userId = user?.id;
+  const entityId = activeEntity?.id;
+  const clientRef = useRef<DocumentSearchClient | null>(null);
+  const [ready, setReady] = useState(false);
+  const [hits, setHits] = useState<Map<string, SearchHit> | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [progress, setProgress] = useState<IndexingProgress | null>(null);
+  // Bumped when extracted text is added, so the current query runs again
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  // One worker per signed-in user and entity
+  useEffect(() => {
+    if (!userId || !entityId) return;
+    let client: DocumentSearchClient;
+    try {
+      client = createDocumentSearch(userId, entityId);
+    } catch (error) {
+      console.error("Document search is unavailable:", error);
+      return;
+    }
+    clientRef.current = client;
+    setReady(true);
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+      setReady(false);
+    };
+  }, [userId, entityId]);
+
+  // Keep the index in step with the wallet
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!ready || !client) return;
+    client
+      .sync(documents, permissions, (next) => {
+        setProgress(next);
+        setIndexVersion((version) => version + 1);
+      })
+      .catch((error) => {
+        if (error?.name !== "AbortError") console.error("Error indexing documents:", error);
+      });
+  }, [ready, documents, permissions]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!query.trim() || !ready || !client) {
+      setHits(null);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await client.search(query);
+        if (!cancelled) setHits(new Map(results.map((hit) => [hit.id, hit])));
+      } catch (error) {
+        if (!cancelled && (error as Error)?.name !== "AbortError") {
+          console.error("Error searching documents:", error);
+          setHits(null);
+        }
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, ready, indexVersion]);
+
+  return {
+    hits,
+    searching,
+    indexing: progress && progress.indexed < progress.total ? progress : null,
+  };
+}
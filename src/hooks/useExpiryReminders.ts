@@ -0,0 +1,147 @@
+// hooks/useExpiryReminders.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "../components/Header/context/AuthContext";
+import { useEntity } from "../components/Header/context/EntityContext";
+import { Notification } from "../components/Header/utils/mockNotifications";
+import { getActiveEntityId, getAllDocuments } from "../services/DataverseService";
+import {
+  acknowledgeReminder,
+  ExpiryReminder,
+  filterActiveReminders,
+  generateExpiryReminders,
+  getNextReminderChange,
+  getReminderState,
+  REMINDERS_CHANGE_EVENT,
+  ReminderState,
+  snoozeReminder,
+} from "../services/ExpiryReminderService";
+import {
+  loadPreferences,
+  PREFERENCES_CHANGE_EVENT,
+  PREFERENCES_STORAGE_KEY,
+} from "../utils/preferences";
+
+export const REMINDER_NOTIFICATION_PREFIX = "expiry-reminder:";
+
+// Longest wait between re-evaluations (timers can't span more than ~24 days anyway)
+const MAX_RECHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Message shown in the notification list for a reminder
+ */
+export function describeReminder(reminder: ExpiryReminder) {
+  if (reminder.daysLeft < 0) {
+    return `${reminder.documentName} has expired`;
+  }
+  if (reminder.daysLeft === 0) {
+    return `${reminder.documentName} expires today`;
+  }
+  return `${reminder.documentName} expires in ${reminder.daysLeft} ${reminder.daysLeft === 1 ? "day" : "days"}`;
+}
+
+/**
+ * Shapes a reminder like the header's other notifications
+ */
+export function reminderToNotification(reminder: ExpiryReminder): Notification {
+  return {
+    id: `${REMINDER_NOTIFICATION_PREFIX}${reminder.id}`,
+    type: reminder.severity === "critical" ? "critical" : "update",
+    message: describeReminder(reminder),
+    time: reminder.dueAt,
+    read: false,
+    actionUrl: "/dashboard/documents",
+    category: "Compliance",
+  };
+}
+
+export function useExpiryReminders() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const entityId = useEntity().activeEntity?.id;
+  const [documents, setDocuments] = useState<any[]>([]);
+  const [state, setState] = useState<ReminderState>({});
+  const [enabled, setEnabled] = useState(
+    () => loadPreferences().notifications.complianceAlerts
+  );
+  const [now, setNow] = useState(() => new Date());
+  const [loading, setLoading] = useState(true);
+
+  // Load the active entity's wallet documents; a load that finishes after a switch is dropped
+  const loadDocuments = useCallback(async () => {
+    const requestedEntityId = getActiveEntityId();
+    try {
+      const loaded = await getAllDocuments();
+      if (getActiveEntityId() === requestedEntityId) setDocuments(loaded);
+    } catch (error) {
+      console.error("Error loading documents for reminders:", error);
+    } finally {
+      if (getActiveEntityId() === requestedEntityId) setLoading(false);
+    }
+  }, []);
+
+  // Wait for the active entity, and start over when the user switches to another one
+  useEffect(() => {
+    if (!userId || !entityId) return;
+    setDocuments([]);
+    setLoading(true);
+    loadDocuments();
+    window.addEventListener("focus", loadDocuments);
+    return () => window.removeEventListener("focus", loadDocuments);
+  }, [userId, entityId, loadDocuments]);
+
+  // Follow preference and reminder-state changes from this and other tabs
+  useEffect(() => {
+    if (!userId) return;
+    const syncState = () => setState(getReminderState(userId));
+    const syncPreferences = () =>
+      setEnabled(loadPreferences().notifications.complianceAlerts);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PREFERENCES_STORAGE_KEY) syncPreferences();
+      else syncState();
+    };
+    syncState();
+    window.addEventListener(REMINDERS_CHANGE_EVENT, syncState);
+    window.addEventListener(PREFERENCES_CHANGE_EVENT, syncPreferences);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      window.removeEventListener(REMINDERS_CHANGE_EVENT, syncState);
+      window.removeEventListener(PREFERENCES_CHANGE_EVENT, syncPreferences);
+      window.removeEventListener("storage", handleStorage);
+    };
+  }, [userId]);
+
+  // Re-evaluate when the next stage is reached or a snooze ends
+  useEffect(() => {
+    const delay = getNextReminderChange(documents, state, now);
+    const timer = setTimeout(
+      () => setNow(new Date()),
+      Math.min(delay ?? MAX_RECHECK_MS, MAX_RECHECK_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [documents, state, now]);
+
+  const reminders = useMemo(
+    () =>
+      enabled && userId
+        ? filterActiveReminders(generateExpiryReminders(documents, now), state, now)
+        : [],
+    [documents, state, now, enabled, userId]
+  );
+
+  const acknowledge = (reminderId: string) => {
+    if (userId) setState(acknowledgeReminder(userId, reminderId));
+  };
+
+  const snooze = (reminderId: string, days: number) => {
+    if (userId) setState(snoozeReminder(userId, reminderId, days));
+  };
+
+  return {
+    reminders,
+    enabled,
+    loading: !!userId && loading,
+    acknowledge,
+    snooze,
+    refresh: loadDocuments,
+  };
+}
@@ -1,6 +1,29 @@
 // hooks/useOnboardingForm.js
-import { useState, useEffect, useRef } from "react";
-import { validateFormField } from "../utils/validation";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { asyncValidators, validateFormField } from "../utils/validation";
+import {
+  applyComputedDefaults,
+  getFieldState,
+  isEmptyValue,
+  isFieldVisible,
+} from "../utils/fieldRules";
+import { normalizeFieldValue } from "../utils/fieldFormats";
+import {
+  getFieldAliases,
+  getOnboardingFieldsByName,
+  getStepFields,
+} from "../utils/fieldSchema";
+import {
+  getOnboardingPrefill,
+  loadOnboardingProgress,
+  saveOnboardingData,
+} from "../services/onboardingService";
+import { useAuth } from "../components/Header";
+
+// Pause in typing before a server-side check runs
+const ASYNC_VALIDATION_DELAY = 500;
+
+const fieldDefinitions = getOnboardingFieldsByName();
 
 export function useOnboardingForm(steps, onComplete, isRevisit) {
   const [currentStep, setCurrentStep] = useState(0);
@@ -11,8 +34,39 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
   const [isEditingWelcome, setIsEditingWelcome] = useState(false);
   const [showStepsDropdown, setShowStepsDropdown] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  // Fields whose async validator is waiting or running
+  const [pendingValidations, setPendingValidations] = useState<Record<string, boolean>>({});
+  const { user, claims } = useAuth();
+  const userId = user?.id;
 
   const stepsDropdownRef: any = useRef(null);
+  const asyncChecksRef = useRef<
+    Record<
+      string,
+      {
+        value: string;
+        timer: ReturnType<typeof setTimeout>;
+        controller: AbortController;
+        done: Promise<void>; // Resolves once the check finishes or is cancelled
+        finish: () => void;
+      }
+    >
+  >({});
+  // Last settled async result per field, so an unchanged value is not checked again
+  const asyncResultsRef = useRef<Record<string, { value: string; error: string | null }>>({});
+
+  // Cancel async checks still in flight when the form goes away
+  useEffect(
+    () => () => {
+      Object.values(asyncChecksRef.current).forEach(({ timer, controller, finish }) => {
+        clearTimeout(timer);
+        controller.abort();
+        finish();
+      });
+    },
+    []
+  );
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -28,43 +82,123 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  // Load initial data
+  const getAllFields = useCallback(() => steps.flatMap((step) => getStepFields(step)), [steps]);
+
+  // Drafts saved before a field got its current name or type, e.g. DD/MM/YYYY
+  // dates or founders as free text, are brought into the field's format
+  const normalizeValues = useCallback(
+    (values) => {
+      const normalized = { ...values };
+      Object.entries(getFieldAliases()).forEach(([alias, fieldName]) => {
+        if (alias in normalized && !(fieldName in normalized)) {
+          normalized[fieldName] = normalized[alias];
+        }
+        delete normalized[alias];
+      });
+      getAllFields().forEach((field) => {
+        if (field.fieldName in normalized) {
+          normalized[field.fieldName] = normalizeFieldValue(field, normalized[field.fieldName]);
+        }
+      });
+      return normalized;
+    },
+    [getAllFields]
+  );
+
+  // Claims only seed a new draft, so a token refresh does not reload the form
+  const claimsRef = useRef(claims);
   useEffect(() => {
+    claimsRef.current = claims;
+  }, [claims]);
+
+  // Restore this user's draft for the entity, else pre-fill from the id token
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
     const loadData = async () => {
-      // Azure B2C claims (in real app, this would come from auth context)
-      const azureB2CClaims = {
-        tradeName: "FutureTech",
-        industry: "Information Technology",
-        companyStage: "growth",
-        contactName: "John Smith",
-        phone: "+971 50 123 4567",
-        email: "john.smith@futuretech.com",
-      };
-
-      // In real implementation, load from persistent storage
-      // For now, just use claims
-      setFormData(azureB2CClaims);
+      const prefill = getOnboardingPrefill(claimsRef.current);
+      try {
+        const progress = await loadOnboardingProgress(userId);
+        if (cancelled) return;
+        if (progress) {
+          setFormData(
+            applyComputedDefaults(
+              getAllFields(),
+              normalizeValues({ ...prefill, ...progress.formData }),
+              progress.touchedFields
+            )
+          );
+          setTouchedFields(progress.touchedFields);
+          setCurrentStep(Math.min(Math.max(progress.currentStep, 0), steps.length - 1));
+        } else {
+          setFormData(applyComputedDefaults(getAllFields(), prefill));
+        }
+        setDraftLoaded(true);
+      } catch (error) {
+        // Auto-save stays off so a draft that could not be read is not overwritten
+        console.error("Error loading onboarding progress:", error);
+        if (!cancelled) setFormData(prefill);
+      }
     };
 
     loadData();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, steps.length, getAllFields, normalizeValues]);
+
+  // Hidden fields are not validated; drop errors of fields a rule just hid
+  useEffect(() => {
+    setErrors((prev) => {
+      const hidden = Object.keys(prev).filter((fieldName) => {
+        const field = fieldDefinitions[fieldName];
+        return field && !isFieldVisible(field, formData);
+      });
+      if (hidden.length === 0) return prev;
+      const newErrors = { ...prev };
+      hidden.forEach((fieldName) => delete newErrors[fieldName]);
+      return newErrors;
+    });
+  }, [formData]);
 
   const handleInputChange = (fieldName, value) => {
-    setFormData((prev) => ({
-      ...prev,
-      [fieldName]: value,
-    }));
+    // Computed defaults follow their sources until the user edits them
+    setFormData((prev) =>
+      applyComputedDefaults(
+        getAllFields(),
+        { ...prev, [fieldName]: value },
+        { ...touchedFields, [fieldName]: true }
+      )
+    );
 
     setTouchedFields((prev) => ({
       ...prev,
       [fieldName]: true,
     }));
 
-    // Clear error if field becomes valid
+    const nextValues = { ...formData, [fieldName]: value };
+    const field = fieldDefinitions[fieldName];
+    // Clear error if field becomes valid; server checks start as the user types
     if (errors[fieldName]) {
-      validateField(fieldName, value);
+      validateField(fieldName, value, nextValues);
+    } else if (
+      field?.asyncValidator &&
+      validateFormField(field, value, nextValues).success
+    ) {
+      validateField(fieldName, value, nextValues);
     }
 
+    // Re-check answers whose cross-field rules refer to this field
+    getAllFields()
+      .filter(
+        (dependent: any) =>
+          touchedFields[dependent.fieldName] &&
+          dependent.rules?.some((rule) => rule.field === fieldName)
+      )
+      .forEach((dependent) =>
+        validateField(dependent.fieldName, nextValues[dependent.fieldName], nextValues)
+      );
+
     // Track edited fields for Welcome step
     if (currentStep === 0 && isEditingWelcome) {
       setEditedFields((prev) => ({
@@ -74,66 +208,110 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     }
   };
 
-  const validateField = (fieldName, value) => {
-    const field = findFieldDefinition(fieldName);
-    if (!field) return true;
-
-    const isValid = validateFormField(field, value);
-
+  const setFieldError = (fieldName, error: string | null) => {
     setErrors((prev) => {
+      if (!error && !(fieldName in prev)) return prev;
       const newErrors = { ...prev };
-      if (isValid.success) {
-        delete newErrors[fieldName];
+      if (error) {
+        newErrors[fieldName] = error;
       } else {
-        newErrors[fieldName] = isValid.error;
+        delete newErrors[fieldName];
       }
       return newErrors;
     });
+  };
 
-    return isValid.success;
+  const setPending = (fieldName, pending: boolean) => {
+    setPendingValidations((prev) => {
+      if (!!prev[fieldName] === pending) return prev;
+      const next = { ...prev };
+      if (pending) {
+        next[fieldName] = true;
+      } else {
+        delete next[fieldName];
+      }
+      return next;
+    });
   };
 
-  const findFieldDefinition = (fieldName) => {
-    // Search through all steps to find field definition
-    for (const step of steps) {
-      if (step.sections) {
-        for (const section of step.sections) {
-          const field = section.fields?.find((f) => f.fieldName === fieldName);
-          if (field) return field;
+  const cancelAsyncValidation = (fieldName) => {
+    const check = asyncChecksRef.current[fieldName];
+    if (check) {
+      clearTimeout(check.timer);
+      check.controller.abort();
+      check.finish();
+      delete asyncChecksRef.current[fieldName];
+    }
+    setPending(fieldName, false);
+  };
+
+  // Runs a field's async validator once typing pauses; a newer value cancels
+  // the older check. Returns the error for this value, or undefined while pending.
+  const scheduleAsyncValidation = (field, value) => {
+    const fieldName = field.fieldName;
+    const key = String(value).trim();
+    const settled = asyncResultsRef.current[fieldName];
+    if (settled?.value === key) {
+      cancelAsyncValidation(fieldName);
+      return settled.error;
+    }
+    if (asyncChecksRef.current[fieldName]?.value === key) return undefined;
+    cancelAsyncValidation(fieldName);
+
+    const controller = new AbortController();
+    let finish!: () => void;
+    const done = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    const timer = setTimeout(async () => {
+      try {
+        const error = await asyncValidators[field.asyncValidator](key, controller.signal);
+        if (controller.signal.aborted) return;
+        asyncResultsRef.current[fieldName] = { value: key, error };
+        setFieldError(fieldName, error);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // An unreachable lookup does not hold up onboarding
+        console.warn(`Could not check ${field.label}:`, error);
+        asyncResultsRef.current[fieldName] = { value: key, error: null };
+      } finally {
+        if (asyncChecksRef.current[fieldName]?.controller === controller) {
+          delete asyncChecksRef.current[fieldName];
+          setPending(fieldName, false);
         }
-      } else if (step.fields) {
-        const field = step.fields.find((f) => f.fieldName === fieldName);
-        if (field) return field;
+        finish();
       }
-    }
+    }, ASYNC_VALIDATION_DELAY);
+    asyncChecksRef.current[fieldName] = { value: key, timer, controller, done, finish };
+    setPending(fieldName, true);
+    return undefined;
+  };
 
-    // Handle welcome step fields
-    if (currentStep === 0) {
-      const welcomeFields = getWelcomeFields();
-      return welcomeFields.find((f) => f.fieldName === fieldName);
+  // False while an async check of the value is pending, so callers wait for it
+  const validateField = (fieldName, value, values = formData) => {
+    const field = fieldDefinitions[fieldName];
+    if (!field) return true;
+
+    const isValid = validateFormField(field, value, values);
+    const needsAsyncCheck =
+      isValid.success &&
+      field.asyncValidator &&
+      asyncValidators[field.asyncValidator] &&
+      String(value ?? "").trim() !== "" &&
+      isFieldVisible(field, values);
+
+    if (!needsAsyncCheck) {
+      cancelAsyncValidation(fieldName);
+      setFieldError(fieldName, isValid.success ? null : isValid.error);
+      return isValid.success;
     }
 
-    return null;
+    const asyncError = scheduleAsyncValidation(field, value);
+    setFieldError(fieldName, asyncError ?? null);
+    return asyncError === null;
   };
 
-  const getWelcomeFields = () => [
-    {
-      fieldName: "tradeName",
-      label: "Company Name",
-      required: true,
-      minLength: 2,
-    },
-    { fieldName: "industry", label: "Industry", required: true },
-    {
-      fieldName: "contactName",
-      label: "Contact Name",
-      required: true,
-      minLength: 3,
-      pattern: "^[a-zA-Z\\s.-]+$",
-    },
-    { fieldName: "email", label: "Email", required: true, type: "email" },
-    { fieldName: "phone", label: "Phone", required: true, type: "tel" },
-  ];
+  const getWelcomeFields = () => getStepFields(steps[0]);
 
   const validateCurrentStep = () => {
     if (currentStep === 0 && !isEditingWelcome) return true;
@@ -159,24 +337,9 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     return isValid;
   };
 
-  const getStepFields = (step) => {
-    const fields: any = [];
-    if (step.sections) {
-      step.sections.forEach((section) => {
-        if (section.fields) fields.push(...section.fields);
-      });
-    } else if (step.fields) {
-      fields.push(...step.fields);
-    }
-    return fields;
-  };
-
   const handleSubmit = async () => {
     // Validate all fields
-    const allFields: any = [];
-    steps.forEach((step) => {
-      allFields.push(...getStepFields(step));
-    });
+    const allFields: any = getAllFields();
 
     const allTouchedFields = {};
     allFields.forEach((field) => {
@@ -184,47 +347,58 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     });
     setTouchedFields(allTouchedFields);
 
-    // Validate required fields
-    const requiredFields = allFields.filter((field) => field.required);
-    let isValid = true;
-
-    requiredFields.forEach((field) => {
-      const fieldIsValid = validateField(
-        field.fieldName,
-        formData[field.fieldName]
-      );
-      if (!fieldIsValid) isValid = false;
-    });
+    // Validate every visible field, not only required ones; hidden fields are not validated
+    const visibleFields = allFields.filter((field) => isFieldVisible(field, formData));
+    const findInvalidFields = () =>
+      visibleFields
+        .filter((field) => !validateField(field.fieldName, formData[field.fieldName]))
+        .map((field) => field.fieldName);
+
+    setLoading(true);
+    try {
+      // Server checks still pending count as failed; wait for them, after
+      // which validating again returns their settled result
+      let invalidFields = findInvalidFields();
+      let pendingChecks = Object.values(asyncChecksRef.current).map((check) => check.done);
+      while (pendingChecks.length > 0) {
+        await Promise.all(pendingChecks);
+        invalidFields = findInvalidFields();
+        pendingChecks = Object.values(asyncChecksRef.current).map((check) => check.done);
+      }
 
-    if (isValid) {
-      setLoading(true);
-      try {
-        // Save to backend (commented out for this example)
-        // await saveOnboardingData(formData);
+      if (invalidFields.length > 0) {
+        // Navigate to first step with errors
+        const errorStep = findFirstStepWithErrors(invalidFields);
+        if (errorStep !== -1) {
+          setCurrentStep(errorStep);
+          // Welcome answers only show their errors while being edited
+          if (errorStep === 0) setIsEditingWelcome(true);
+        }
+        return;
+      }
 
-        // Simulate API call
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+      // Saves the profile and marks the active entity as onboarded
+      await saveOnboardingData(formData, user?.id);
 
-        onComplete();
-      } catch (error) {
-        console.error("Error saving onboarding data:", error);
-      } finally {
-        setLoading(false);
-      }
-    } else {
-      // Navigate to first step with errors
-      const errorStep = findFirstStepWithErrors();
-      if (errorStep !== -1) {
-        setCurrentStep(errorStep);
-      }
+      onComplete();
+    } catch (error) {
+      console.error("Error saving onboarding data:", error);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const findFirstStepWithErrors = () => {
+  // Errors set during this render are not in `errors` yet, so the fields
+  // that just failed are passed in
+  const findFirstStepWithErrors = (invalidFields: string[]) => {
     for (let i = 0; i < steps.length; i++) {
       const step = steps[i];
       const fields = getStepFields(step);
-      if (fields.some((field) => errors[field.fieldName])) {
+      if (
+        fields.some(
+          (field) => errors[field.fieldName] || invalidFields.includes(field.fieldName)
+        )
+      ) {
         return i;
       }
     }
@@ -235,7 +409,11 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     setIsEditingWelcome(!isEditingWelcome);
   };
 
+  const isValidating = Object.keys(pendingValidations).length > 0;
+
   const handleJumpToStep = (stepIndex) => {
+    // Wait for server checks of the current answers before leaving the step
+    if (isValidating) return;
     if (stepIndex !== currentStep) {
       setCurrentStep(stepIndex);
       window.scrollTo(0, 0);
@@ -250,9 +428,8 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     const fields = getStepFields(step);
 
     return fields.every((field) => {
-      if (!field.required) return true;
-      const value = formData[field.fieldName];
-      return value && (typeof value !== "string" || value.trim() !== "");
+      if (!getFieldState(field, formData).required) return true;
+      return !isEmptyValue(formData[field.fieldName]);
     });
   };
 
@@ -265,6 +442,8 @@ export function useOnboardingForm(steps, onComplete, isRevisit) {
     isEditingWelcome,
     showStepsDropdown,
     loading,
+    draftLoaded,
+    isValidating,
     stepsDropdownRef,
     setCurrentStep,
     setShowStepsDropdown,
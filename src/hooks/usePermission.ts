@@ -0,0 +1,13 @@
+// hooks/usePermission.ts
+import { usePermissions } from "../components/Header/context/PermissionContext";
+import type { Capability } from "../utils/permissions";
+
+/**
+ * Whether the signed-in user may perform an action
+ * @param capability One capability, or several that are all required
+ * @returns False while permissions are loading or the user is signed out
+ */
+export const usePermission = (capability: Capability | Capability[]) => {
+  const { can } = usePermissions();
+  return can(capability);
+};
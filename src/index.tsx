@@ -3,6 +3,7 @@ import { AppRouter } from "./AppRouter";
 import { createRoot } from "react-dom/client";
 import { MsalProvider } from "@azure/msal-react";
 import { msalInstance } from "./services/auth/msal";
+import { recordTeamLogin, teamUserFromAccount } from "./services/TeamService";
 import { ApolloClient, HttpLink, InMemoryCache } from "@apollo/client";
 import { ApolloProvider } from "@apollo/client/react";
 
@@ -23,6 +24,10 @@ if (container) {
     .then((result) => {
       if (result?.account) {
         msalInstance.setActiveAccount(result.account);
+        // Returning from a sign-in redirect; this happens before AuthProvider listens for events
+        recordTeamLogin(teamUserFromAccount(result.account)).catch((error) =>
+          console.warn("Could not record sign-in:", error)
+        );
       } else {
         const accounts = msalInstance.getAllAccounts();
         if (accounts.length === 1) {
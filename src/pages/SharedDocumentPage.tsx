@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { DownloadIcon, FileIcon, LockIcon } from 'lucide-react';
+import {
+    getSharedDocument,
+    resolveSharedDocument,
+    ShareLinkError,
+    SharedDocumentInfo,
+} from '../services/ShareLinkService';
+
+// Public landing page for share links (/share/:token); no sign-in needed
+const SharedDocumentPage: React.FC = () => {
+    const { token = '' } = useParams();
+    const [info, setInfo] = useState<SharedDocumentInfo | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [password, setPassword] = useState('');
+    const [isDownloading, setIsDownloading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    useEffect(() => {
+        let cancelled = false;
+        getSharedDocument(token)
+            .then((data) => {
+                if (!cancelled) setInfo(data);
+            })
+            .catch((e) => {
+                if (!cancelled) setError(e instanceof ShareLinkError && e.status === 404 ? 'This link does not exist.' : e.message);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [token]);
+    // Each download resolves the link again, so every access is counted and logged
+    const handleDownload = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            setIsDownloading(true);
+            setError(null);
+            const url = await resolveSharedDocument(token, password || undefined);
+            window.location.href = url;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Download failed. Please try again.');
+            // Expired, revoked, used-up or locked links cannot be retried
+            if (err instanceof ShareLinkError && err.status === 410 && info) {
+                setInfo({ ...info, status: 'expired' });
+            }
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+    const isAvailable = info?.status === 'active';
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+            <div className="max-w-md w-full bg-white rounded-lg shadow p-6">
+                {isLoading ? (
+                    <p className="text-center text-gray-500">Loading shared document...</p>
+                ) : !info ? (
+                    <>
+                        <h1 className="text-xl font-semibold text-gray-900 mb-2">Link unavailable</h1>
+                        <p className="text-gray-600">{error}</p>
+                    </>
+                ) : (
+                    <form onSubmit={handleDownload}>
+                        <div className="flex items-center mb-4">
+                            <FileIcon size={28} className="text-blue-600 flex-shrink-0" />
+                            <div className="ml-3 min-w-0">
+                                <h1 className="text-lg font-semibold text-gray-900 truncate">{info.fileName}</h1>
+                                <p className="text-xs text-gray-500">
+                                    Shared link · expires {new Date(info.expiresAt).toLocaleString()}
+                                </p>
+                            </div>
+                        </div>
+                        {!isAvailable ? (
+                            <p className="text-sm text-gray-600">
+                                {error || 'This link is no longer available. Ask the sender for a new one.'}
+                            </p>
+                        ) : (
+                            <>
+                                {info.requiresPassword && (
+                                    <label className="block mb-4">
+                                        <span className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                                            <LockIcon size={14} className="mr-1" /> Password
+                                        </span>
+                                        <input
+                                            type="password"
+                                            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            autoFocus
+                                            required
+                                        />
+                                    </label>
+                                )}
+                                {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+                                <button
+                                    type="submit"
+                                    className="w-full flex items-center justify-center px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                                    disabled={isDownloading}
+                                >
+                                    <DownloadIcon size={16} className="mr-2" />
+                                    {isDownloading ? 'Preparing download...' : 'Download'}
+                                </button>
+                            </>
+                        )}
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SharedDocumentPage;
@@ -1,55 +1,38 @@
 import { Grid3X3, CheckCircle, Users, FileText, BarChart3, Settings, HelpCircle, ChevronDown, Lock } from 'lucide-react';
 import { useState } from 'react';
-import { redirect, useLocation, useNavigate } from 'react-router-dom';
 import { Sidebar } from '../../components/Sidebar';
-import { Header } from '../../components/Header';
+import { Header, useEntity, usePermissions } from '../../components/Header';
+import { AddEntityModal } from '../../components/Header/components/AddEntityModal';
 import { Footer } from '../../components/Footer';
 
-const DashboardLayout = ({ children, onboardingComplete, setOnboardingComplete, isOpen, setIsOpen, isLoggedIn, setIsLoggedIn }: {
+const DashboardLayout = ({ children, onboardingComplete, isOpen, setIsOpen, isLoggedIn, setIsLoggedIn }: {
     children: React.ReactNode;
     onboardingComplete: boolean;
-    setOnboardingComplete: (onboardingComplete: boolean) => void;
     isOpen: boolean;
     setIsOpen: (isOpen: boolean) => void;
     isLoggedIn: boolean;
     setIsLoggedIn: (isLoggedIn: boolean) => void;
 }) => {
-    const navigate = useNavigate();
     const [sidebarOpen] = useState(true);
     const [activeSection, setActiveSection] = useState('dashboard');
-    const [activeCompany, setActiveCompany] = useState('1');
+    const [showAddEntity, setShowAddEntity] = useState(false);
+    const { entities, activeEntity, switchEntity } = useEntity();
+    const { permissions } = usePermissions();
 
-    const companies = [
-        {
-            id: '1',
-            name: 'FutureTech LLC',
-            role: 'Owner',
-            isActive: activeCompany === '1',
-            badge: 'Primary',
-        },
-        {
-            id: '2',
-            name: 'StartupCo Inc',
-            role: 'Admin',
-            isActive: activeCompany === '2',
-            badge: 'Secondary',
-        },
-        {
-            id: '3',
-            name: 'Enterprise Solutions',
-            role: 'Member',
-            isActive: activeCompany === '3',
-        },
-    ];
+    const companies = entities.map((entity) => ({
+        id: entity.id,
+        name: entity.name,
+        role: permissions?.roles[0] || 'Member',
+        isActive: entity.id === activeEntity?.id,
+        badge: entity.isPrimary ? 'Primary' : !entity.onboardingCompletedAt ? 'Onboarding' : undefined,
+    }));
     const handleCompanyChange = (companyId: string) => {
-        setActiveCompany(companyId);
-        console.log('Company changed to:', companyId);
+        switchEntity(companyId);
+        setActiveSection('dashboard');
     };
+    // A new enterprise is a new entity that starts at onboarding
     const handleAddNewEnterprise = () => {
-        console.log('Add new enterprise clicked - trigger onboarding flow');
-        setOnboardingComplete(false);
-        navigate('/dashboard/onboarding');
-        setActiveSection('onboarding');
+        setShowAddEntity(true);
     };
 
     const sidebarTransform = sidebarOpen ? 'translate-x-0' : '-translate-x-full';
@@ -81,6 +64,7 @@ const DashboardLayout = ({ children, onboardingComplete, setOnboardingComplete,
                     <Footer isLoggedIn={isLoggedIn} />
                 </div>
             </div>
+            {showAddEntity && <AddEntityModal onClose={() => setShowAddEntity(false)} />}
         </div>
 
     );
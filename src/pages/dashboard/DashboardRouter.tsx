@@ -1,10 +1,9 @@
-import { useEffect, useState } from 'react';
+import { Fragment, ReactNode, useEffect, useState } from 'react';
 import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import DashboardLayout from './DashboardLayout';
 import { DocumentsPage } from './documents';
 import { Overview } from './overview';
 import { ServiceRequestsPage } from './serviceRequests';
-import { isOnboardingCompleted } from '../../services/DataverseService';
 import { OnboardingForm } from './onboarding/OnboardingForm';
 import { ReportsPage } from './reportingObligations/ReportsPage';
 import { AllReceivedReportsPage } from './reportingObligations/AllReceivedReportsPage';
@@ -14,45 +13,46 @@ import BusinessProfilePage from './businessProfile';
 import SupportPage from './support';
 import SettingsPage from './settings';
 import { ChatInterface } from '../../components/Chat/ChatInterface';
+import { Can } from '../../components/Can';
+import { useEntity } from '../../components/Header';
+import { Capability } from '../../utils/permissions';
+
+// Routes the user's role does not cover fall back to the overview
+const guard = (capability: Capability, element: ReactNode) => (
+    <Can capability={capability} fallback={<Navigate to="/dashboard/overview" replace />}>
+        {element}
+    </Can>
+);
 
 // Main Dashboard Router Component
 const DashboardRouter = () => {
-    const [onboardingComplete, setOnboardingComplete] = useState(false);
+    const { activeEntity, isLoading: isEntityLoading, error: entityError, reload: reloadEntities } = useEntity();
     const [isOpen, setIsOpen] = useState(true);
     const [isLoggedIn, setIsLoggedIn] = useState(true);
     const location = useLocation();
     const navigate = useNavigate();
+    // Onboarding is tracked per business entity
+    const onboardingComplete = !!activeEntity?.onboardingCompletedAt;
 
+    // Entities that have not finished onboarding start there; finished ones skip it
     useEffect(() => {
-        const checkOnboarding = async () => {
-            try {
-                const completed = await isOnboardingCompleted();
-                setOnboardingComplete(!!completed);
-                if (!completed) {
-                    if (!location.pathname.includes('/dashboard/onboarding')) {
-                        navigate('/dashboard/onboarding', { replace: true });
-                    }
-                }
-            } catch (error) {
-                console.error('Error checking onboarding status:', error);
-            } finally {
-                // no-op
-            }
-        };
-        checkOnboarding();
+        if (!activeEntity) return;
+        const onOnboarding = location.pathname.includes('/dashboard/onboarding');
+        if (!onboardingComplete && !onOnboarding) {
+            navigate({ pathname: '/dashboard/onboarding', search: location.search }, { replace: true });
+        } else if (onboardingComplete && onOnboarding) {
+            navigate({ pathname: '/dashboard/overview', search: location.search }, { replace: true });
+        }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [activeEntity?.id, onboardingComplete, location.pathname]);
 
-    // If onboarding is complete and user is on onboarding route, send to overview
-    useEffect(() => {
-        if (onboardingComplete && location.pathname.includes('/dashboard/onboarding')) {
-            navigate('/dashboard/overview', { replace: true });
+    const handleOnboardingComplete = async () => {
+        try {
+            await reloadEntities();
+        } catch (error) {
+            console.error('Error checking onboarding status:', error);
         }
-    }, [onboardingComplete, location.pathname, navigate]);
-
-    const handleOnboardingComplete = () => {
-        setOnboardingComplete(true);
-        navigate('/dashboard/overview', { replace: true });
+        navigate({ pathname: '/dashboard/overview', search: location.search }, { replace: true });
     };
 
     // useEffect(() => {
@@ -67,37 +67,45 @@ const DashboardRouter = () => {
     return (
         <DashboardLayout
             onboardingComplete={onboardingComplete}
-            setOnboardingComplete={setOnboardingComplete}
             isOpen={isOpen}
             setIsOpen={setIsOpen}
             isLoggedIn={isLoggedIn}
             setIsLoggedIn={setIsLoggedIn}
         >
+            {isEntityLoading || !activeEntity ? (
+                <div className="flex items-center justify-center py-24 text-gray-500">
+                    {entityError || 'Loading your business...'}
+                </div>
+            ) : (
+            // Remount every page when the entity changes so it loads that entity's data
+            <Fragment key={activeEntity.id}>
             <Routes>
                 <Route index element={<Navigate to={onboardingComplete ? "overview" : "onboarding"} replace />} />
                 <Route path="onboarding" element={<OnboardingForm onComplete={handleOnboardingComplete} isRevisit={onboardingComplete} />} />
                 <Route path="overview" element={<Overview />} />
-                <Route path="documents" element={<DocumentsPage
+                <Route path="documents" element={guard('documents:view', <DocumentsPage
                     isOpen={isOpen}
                     setIsOpen={setIsOpen}
                     isLoggedIn={isLoggedIn}
                     setIsLoggedIn={setIsLoggedIn}
-                />} />
-                <Route path="requests" element={<ServiceRequestsPage
+                />)} />
+                <Route path="requests" element={guard('requests:view', <ServiceRequestsPage
                     setIsOpen={setIsOpen}
                     isLoggedIn={isLoggedIn}
-                />} />
+                />)} />
                 <Route path="reporting" element={<Navigate to="reporting-obligations" replace />} />
-                <Route path="reporting-obligations" element={<ReportsPage />} />
-                <Route path="reporting-obligations/obligations" element={<AllUpcomingObligationsPage />} />
-                <Route path="reporting-obligations/submitted" element={<AllSubmittedReportsPage />} />
-                <Route path="reporting-obligations/received" element={<AllReceivedReportsPage />} />
-                <Route path="profile" element={<BusinessProfilePage />} />
-                <Route path="settings" element={<SettingsPage />} />
+                <Route path="reporting-obligations" element={guard('reports:view', <ReportsPage />)} />
+                <Route path="reporting-obligations/obligations" element={guard('reports:view', <AllUpcomingObligationsPage />)} />
+                <Route path="reporting-obligations/submitted" element={guard('reports:view', <AllSubmittedReportsPage />)} />
+                <Route path="reporting-obligations/received" element={guard('reports:view', <AllReceivedReportsPage />)} />
+                <Route path="profile" element={guard('profile:view', <BusinessProfilePage />)} />
+                <Route path="settings" element={guard('settings:view', <SettingsPage />)} />
                 <Route path="support" element={<SupportPage />} />
                 <Route path="chat-support" element={<ChatInterface />} />
                 <Route path="*" element={<Navigate to="overview" replace />} />
             </Routes>
+            </Fragment>
+            )}
         </DashboardLayout>
     );
 };
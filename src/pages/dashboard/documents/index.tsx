@@ -4,8 +4,9 @@ import { BellIcon, UploadIcon } from 'lucide-react';
 import { DocumentNotification } from '../../../components/DocumentWallet/DocumentNotification';
 import { DocumentUpload } from '../../../components/DocumentWallet/DocumentUpload';
 import { DocumentWallet } from '../../../components/DocumentWallet/DocumentWallet';
-import { mockDocumentData } from '../../../components/DocumentWallet/mockDocumentData';
+import { useExpiryReminders } from '../../../hooks/useExpiryReminders';
 import { BurgerMenuButton } from '../../../components/Sidebar';
+import { Can } from '../../../components/Can';
 
 export function DocumentsPage({
   isOpen,
@@ -21,20 +22,8 @@ export function DocumentsPage({
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
 
-  // Get expiring documents (within 30 days)
-  const getExpiringDocuments = () => {
-    if (!mockDocumentData) return [];
-    const today = new Date();
-    return mockDocumentData.filter((doc) => {
-      if (!doc.expiryDate) return false;
-      const expiry = new Date(doc.expiryDate);
-      const diffTime = expiry.getTime() - today.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-      return diffDays <= 30 && diffDays >= 0;
-    });
-  };
-
-  const expiringDocuments = getExpiringDocuments();
+  // Active expiry reminders (empty when compliance alerts are turned off)
+  const { reminders, acknowledge, snooze } = useExpiryReminders();
 
   return (
     <div className="space-y-0">
@@ -61,34 +50,38 @@ export function DocumentsPage({
                 className="p-2 text-gray-500 hover:text-blue-600 rounded-full hover:bg-gray-100 relative"
               >
                 <BellIcon size={20} />
-                {expiringDocuments.length > 0 && (
+                {reminders.length > 0 && (
                   <span className="absolute top-0 right-0 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                    {expiringDocuments.length}
+                    {reminders.length}
                   </span>
                 )}
               </button>
-              {showNotifications && expiringDocuments.length > 0 && (
+              {showNotifications && reminders.length > 0 && (
                 <DocumentNotification
-                  documents={expiringDocuments}
+                  reminders={reminders}
+                  onAcknowledge={acknowledge}
+                  onSnooze={snooze}
                   onClose={() => setShowNotifications(false)}
                 />
               )}
             </div>
 
             {/* Upload buttons (desktop + mobile) */}
-            <button
-              onClick={() => setIsUploadModalOpen(true)}
-              className="md:flex hidden items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
-            >
-              <UploadIcon size={16} className="mr-1" />
-              Upload Document
-            </button>
-            <button
-              onClick={() => setIsUploadModalOpen(true)}
-              className="flex md:hidden items-center justify-center p-2 text-blue-600 hover:text-blue-700 rounded-full hover:bg-blue-50"
-            >
-              <UploadIcon size={20} />
-            </button>
+            <Can capability="documents:upload">
+              <button
+                onClick={() => setIsUploadModalOpen(true)}
+                className="md:flex hidden items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
+              >
+                <UploadIcon size={16} className="mr-1" />
+                Upload Document
+              </button>
+              <button
+                onClick={() => setIsUploadModalOpen(true)}
+                className="flex md:hidden items-center justify-center p-2 text-blue-600 hover:text-blue-700 rounded-full hover:bg-blue-50"
+              >
+                <UploadIcon size={20} />
+              </button>
+            </Can>
           </div>
         </div>
       </div>
@@ -101,8 +94,7 @@ export function DocumentsPage({
         <DocumentUpload
           onClose={() => setIsUploadModalOpen(false)}
           onUpload={(newDoc) => {
-            // Handle document upload logic here
-            setIsUploadModalOpen(false);
+            // Handle document upload logic here; the modal stays open until the whole batch is done
           }}
           categories={[
             'Licensing',
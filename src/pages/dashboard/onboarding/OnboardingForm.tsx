@@ -21,6 +21,8 @@ export function OnboardingForm({ onComplete, isRevisit = false }) {
         isEditingWelcome,
         showStepsDropdown,
         loading,
+        draftLoaded,
+        isValidating,
         setCurrentStep,
         setShowStepsDropdown,
         setIsEditingWelcome,
@@ -36,8 +38,9 @@ export function OnboardingForm({ onComplete, isRevisit = false }) {
     const {
         autoSaving,
         progressSaved,
+        savingProgress,
         saveProgress,
-    } = useAutoSave(formData, currentStep, isEditingWelcome);
+    } = useAutoSave({ formData, currentStep, touchedFields }, draftLoaded && !loading); // paused while submitting
 
     const handleNext = async () => {
         if (validateCurrentStep()) {
@@ -61,7 +64,6 @@ export function OnboardingForm({ onComplete, isRevisit = false }) {
             onComplete();
         } else {
             await submitForm();
-            localStorage.setItem("onboardingComplete", "true")
         }
     };
 
@@ -147,7 +149,8 @@ export function OnboardingForm({ onComplete, isRevisit = false }) {
                         onNext={handleNext}
                         onSaveProgress={saveProgress}
                         onSubmit={handleSubmit}
-                        savingProgress={false} // This should come from useAutoSave hook
+                        savingProgress={savingProgress}
+                        validating={isValidating}
                     />
                 </div>
             </div>
@@ -2,17 +2,21 @@ import React, { useEffect, useState } from 'react';
 import { Header } from '../Header';
 import { Sidebar } from '../AppSidebar';
 import { ServiceRequestsFilters } from '../ServiceRequestsFilters';
-import { mockReportData } from './mockReportsData';
+import { getReportData } from './mockReportsData';
+import { useEntity } from '../../../components/Header';
+import { ExportDocumentsModal } from '../../../components/DocumentWallet/ExportDocumentsModal';
 import {
     HomeIcon,
     ChevronRightIcon,
     EyeIcon,
     DownloadIcon,
+    ArchiveIcon,
     FileTextIcon,
     ChevronLeftIcon,
     ChevronRightIcon as ChevronRightPaginationIcon,
 } from 'lucide-react';
 export function AllDocumentsPage() {
+    const { activeEntity } = useEntity();
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState(null);
     const [documents, setDocuments] = useState([]);
@@ -25,6 +29,7 @@ export function AllDocumentsPage() {
     const [categoryFilter, setCategoryFilter] = useState('all');
     const [sidebarOpen, setSidebarOpen] = useState(false);
     const [currentPage, setCurrentPage] = useState(1);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
     const documentsPerPage = 10;
     // Fetch data
     useEffect(() => {
@@ -34,8 +39,9 @@ export function AllDocumentsPage() {
                 setError(null);
                 // Simulate GraphQL API call
                 await new Promise((resolve) => setTimeout(resolve, 800));
-                setDocuments(mockReportData.reportDocuments);
-                setFilteredDocuments(mockReportData.reportDocuments);
+                const { reportDocuments } = getReportData(activeEntity);
+                setDocuments(reportDocuments);
+                setFilteredDocuments(reportDocuments);
                 setIsLoading(false);
             } catch (err) {
                 console.error('Error fetching documents:', err);
@@ -44,7 +50,7 @@ export function AllDocumentsPage() {
             }
         };
         fetchData();
-    }, []);
+    }, [activeEntity]);
     // Filter documents
     useEffect(() => {
         let filtered = documents;
@@ -217,11 +223,21 @@ export function AllDocumentsPage() {
                         </div>
                         {/* Data Table Card */}
                         <div className="bg-white rounded-2xl shadow-sm overflow-hidden">
-                            <div className="border-b border-gray-200 p-6">
-                                <h2 className="text-lg font-bold text-gray-900">Documents</h2>
-                                <p className="text-sm text-gray-600">
-                                    Your report-related documents and files
-                                </p>
+                            <div className="border-b border-gray-200 p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                <div>
+                                    <h2 className="text-lg font-bold text-gray-900">Documents</h2>
+                                    <p className="text-sm text-gray-600">
+                                        Your report-related documents and files
+                                    </p>
+                                </div>
+                                <button
+                                    className="flex items-center px-4 py-2 text-sm font-medium text-blue-600 border border-blue-300 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                                    onClick={() => setIsExportModalOpen(true)}
+                                    disabled={filteredDocuments.length === 0}
+                                >
+                                    <ArchiveIcon size={16} className="mr-2" />
+                                    Export ZIP
+                                </button>
                             </div>
                             <div className="p-6">
                                 {currentDocuments.length === 0 ? (
@@ -369,6 +385,15 @@ export function AllDocumentsPage() {
                     </div>
                 </div>
             </div>
+            {isExportModalOpen && (
+                <ExportDocumentsModal
+                    documents={filteredDocuments}
+                    scopeLabel={`the ${filteredDocuments.length} document(s) matching your filters`}
+                    allowVersions={false}
+                    fileName={`report-documents-${new Date().toISOString().split('T')[0]}.zip`}
+                    onClose={() => setIsExportModalOpen(false)}
+                />
+            )}
         </div>
     );
 }
@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { mockReportData } from './mockReportsData';
+import { getReportData } from './mockReportsData';
+import { useEntity } from '../../../components/Header';
 import { HomeIcon, ChevronRightIcon, EyeIcon, DownloadIcon, ArchiveIcon, ChevronLeftIcon, ChevronRightIcon as ChevronRightPaginationIcon } from 'lucide-react';
 import { ServiceRequestsFilters } from '../../../components/ServiceRequestsFilters';
 export function AllReceivedReportsPage() {
+    const { activeEntity } = useEntity();
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState(null);
     const [reports, setReports] = useState([]);
@@ -24,8 +26,9 @@ export function AllReceivedReportsPage() {
                 setError(null);
                 // Simulate GraphQL API call
                 await new Promise(resolve => setTimeout(resolve, 800));
-                setReports(mockReportData.receivedReports);
-                setFilteredReports(mockReportData.receivedReports);
+                const { receivedReports } = getReportData(activeEntity);
+                setReports(receivedReports);
+                setFilteredReports(receivedReports);
                 setIsLoading(false);
             } catch (err) {
                 console.error('Error fetching received reports:', err);
@@ -34,7 +37,7 @@ export function AllReceivedReportsPage() {
             }
         };
         fetchData();
-    }, []);
+    }, [activeEntity]);
     // Filter reports
     useEffect(() => {
         let filtered = reports;
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { mockReportData } from './mockReportsData';
+import { getReportData } from './mockReportsData';
+import { useEntity } from '../../../components/Header';
 import {
     HomeIcon,
     ChevronRightIcon,
@@ -13,6 +14,7 @@ import {
 } from 'lucide-react';
 import { ServiceRequestsFilters } from '../../../components/ServiceRequestsFilters';
 export function AllSubmittedReportsPage() {
+    const { activeEntity } = useEntity();
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState(null);
     const [reports, setReports] = useState([]);
@@ -34,8 +36,9 @@ export function AllSubmittedReportsPage() {
                 setError(null);
                 // Simulate GraphQL API call
                 await new Promise((resolve) => setTimeout(resolve, 800));
-                setReports(mockReportData.submittedReports);
-                setFilteredReports(mockReportData.submittedReports);
+                const { submittedReports } = getReportData(activeEntity);
+                setReports(submittedReports);
+                setFilteredReports(submittedReports);
                 setIsLoading(false);
             } catch (err) {
                 console.error('Error fetching submitted reports:', err);
@@ -44,7 +47,7 @@ export function AllSubmittedReportsPage() {
             }
         };
         fetchData();
-    }, []);
+    }, [activeEntity]);
     // Filter reports
     useEffect(() => {
         let filtered = reports;
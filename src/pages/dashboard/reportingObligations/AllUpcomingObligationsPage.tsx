@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { mockReportData } from './mockReportsData';
+import { getReportData } from './mockReportsData';
+import { useEntity } from '../../../components/Header';
 import {
     HomeIcon,
     ChevronRightIcon,
@@ -13,6 +14,7 @@ import {
 } from 'lucide-react';
 import { ServiceRequestsFilters } from '../../../components/ServiceRequestsFilters';
 export function AllUpcomingObligationsPage() {
+    const { activeEntity } = useEntity();
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState(null);
     const [obligations, setObligations] = useState([]);
@@ -34,8 +36,9 @@ export function AllUpcomingObligationsPage() {
                 setError(null);
                 // Simulate GraphQL API call
                 await new Promise((resolve) => setTimeout(resolve, 800));
-                setObligations(mockReportData.upcomingObligations);
-                setFilteredObligations(mockReportData.upcomingObligations);
+                const { upcomingObligations } = getReportData(activeEntity);
+                setObligations(upcomingObligations);
+                setFilteredObligations(upcomingObligations);
                 setIsLoading(false);
             } catch (err) {
                 console.error('Error fetching obligations:', err);
@@ -44,7 +47,7 @@ export function AllUpcomingObligationsPage() {
             }
         };
         fetchData();
-    }, []);
+    }, [activeEntity]);
     // Filter obligations
     useEffect(() => {
         let filtered = obligations;
@@ -4,10 +4,12 @@ import { UpcomingObligations } from './UpcomingObligations';
 import { SubmittedReports } from './SubmittedReports';
 import { ReceivedReports } from './ReceivedReports';
 import { DocumentWalletPanel } from './DocumentWalletPanel';
-import { mockReportData } from './mockReportsData';
+import { getReportData } from './mockReportsData';
+import { useEntity } from '../../../components/Header';
 import { HomeIcon, ChevronRightIcon, FilterIcon } from 'lucide-react';
 import { ServiceRequestsFilters } from '../../../components/ServiceRequestsFilters';
 export function ReportsPage() {
+    const { activeEntity } = useEntity();
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState(null);
     const [reportData, setReportData] = useState(null);
@@ -27,7 +29,7 @@ export function ReportsPage() {
                 setError(null);
                 // Simulate API call with delay
                 await new Promise((resolve) => setTimeout(resolve, 1200));
-                setReportData(mockReportData);
+                setReportData(getReportData(activeEntity));
                 setIsLoading(false);
             } catch (err) {
                 console.error('Error fetching report data:', err);
@@ -36,7 +38,7 @@ export function ReportsPage() {
             }
         };
         fetchData();
-    }, []);
+    }, [activeEntity]);
     // Breadcrumbs component
 
     // Filter controls
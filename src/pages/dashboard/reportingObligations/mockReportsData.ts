@@ -216,3 +216,19 @@ export const mockReportData = {
     },
   ],
 };
+/**
+ * Reporting data for a business entity. The demo data describes the
+ * account's first entity; entities added later start without reports.
+ * @param entity The active entity, or null before one is chosen
+ * @returns The entity's report data
+ */
+export const getReportData = (entity: { isPrimary: boolean } | null): typeof mockReportData =>
+  !entity || entity.isPrimary
+    ? mockReportData
+    : {
+        summaryData: { totalReports: 0, completed: 0, pending: 0, overdue: 0, complianceRate: 100 },
+        upcomingObligations: [],
+        submittedReports: [],
+        receivedReports: [],
+        reportDocuments: [],
+      };
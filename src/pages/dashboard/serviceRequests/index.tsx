@@ -5,6 +5,7 @@ import { ServiceRequestsFilters } from '../../../components/serviceRequests/Serv
 import { ServiceRequestsHeader } from '../../../components/serviceRequests/ServiceRequestsHeader';
 import { ServiceRequest, ServiceRequestStatus, DateRangeFilter } from '../../../types';
 import { ServiceRequestsTable } from '../../../components/serviceRequests/ServiceRequestsTable';
+import { getServiceRequests } from '../../../services/DataverseService';
 
 export function ServiceRequestsPage({ isLoggedIn, setIsOpen }: { isLoggedIn: boolean; setIsOpen: (value: boolean) => void; }) {
     const [requests, setRequests] = useState<ServiceRequest[]>([]);
@@ -31,14 +32,14 @@ export function ServiceRequestsPage({ isLoggedIn, setIsOpen }: { isLoggedIn: boo
         const fetchRequests = async () => {
             try {
                 setIsLoading(true);
-                // Simulate API call with timeout
-                setTimeout(() => {
-                    setRequests(mockServiceRequests);
-                    setFilteredRequests(mockServiceRequests);
-                    setIsLoading(false);
-                }, 1000);
+                // Requests started from the marketplace, followed by the demo requests
+                const saved = await getServiceRequests();
+                setRequests([...saved, ...mockServiceRequests]);
+                setFilteredRequests([...saved, ...mockServiceRequests]);
             } catch (error) {
+                console.error('Error fetching service requests:', error);
                 setError('Failed to load service requests');
+            } finally {
                 setIsLoading(false);
             }
         };
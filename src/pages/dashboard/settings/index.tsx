@@ -7,6 +7,7 @@ import IntegrationsBillingTab from '../../../components/settings/IntegrationsBil
 import PreferencesNotificationsTab from '../../../components/settings/PreferencesNotificationsTab';
 import SecurityComplianceTab from '../../../components/settings/SecurityComplianceTab';
 import UserRolesTab from '../../../components/settings/UserRolesTab';
+import { Can } from '../../../components/Can';
 
 export default function SettingsPage() {
     const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -41,10 +42,16 @@ export default function SettingsPage() {
         },
         comingSoon: true
     }];
+    // Only users who manage the team see its members and roles
+    const usersAndRoles = <Can capability="users:manage" fallback={<p className="text-sm text-gray-500">
+        Only administrators can manage users and roles.
+    </p>}>
+        <UserRolesTab />
+    </Can>;
     const renderTabContent = () => {
         switch (activeTabIndex) {
             case 0:
-                return <UserRolesTab />;
+                return usersAndRoles;
             case 1:
                 return <SecurityComplianceTab />;
             case 2:
@@ -52,7 +59,7 @@ export default function SettingsPage() {
             case 3:
                 return <IntegrationsBillingTab />;
             default:
-                return <UserRolesTab />;
+                return usersAndRoles;
         }
     };
     return <AuthProvider>
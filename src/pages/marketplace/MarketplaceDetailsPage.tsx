@@ -24,7 +24,7 @@ import {
   TrendingUp,
   BookOpen,
 } from "lucide-react";
-import { Header } from "../../components/Header";
+import { Header, useAuth } from "../../components/Header";
 import { Footer } from "../../components/Footer";
 import { getMarketplaceConfig } from "../../utils/marketplaceConfiguration";
 import {
@@ -39,6 +39,8 @@ import {
 } from "../../utils/fallbackData";
 import { useQuery } from "@apollo/client/react";
 import GETPRODUCT from "../../utils/queries";
+import { splitRequiredDocuments } from "../../utils/requiredDocuments";
+import { StartServiceRequestModal } from "../../components/serviceRequests/StartServiceRequestModal";
 interface MarketplaceDetailsPageProps {
   marketplaceType: "courses" | "financial" | "non-financial";
   bookmarkedItems?: string[];
@@ -55,6 +57,7 @@ const MarketplaceDetailsPage: React.FC<MarketplaceDetailsPageProps> = ({
     itemId: string;
   }>();
   const navigate = useNavigate();
+  const { user, login } = useAuth();
   const [searchParams] = useSearchParams();
   const shouldTakeAction = searchParams.get("action") === "true";
   const config = getMarketplaceConfig(marketplaceType);
@@ -70,6 +73,7 @@ const MarketplaceDetailsPage: React.FC<MarketplaceDetailsPageProps> = ({
   const [isFloatingCardVisible, setIsFloatingCardVisible] = useState(true);
   const [showStickyBottomCTA, setShowStickyBottomCTA] = useState(false);
   const [headerHeight, setHeaderHeight] = useState(80);
+  const [isRequestModalOpen, setIsRequestModalOpen] = useState(false);
   const [redirectTimer, setRedirectTimer] = useState<NodeJS.Timeout | null>(
     null
   );
@@ -107,9 +111,8 @@ const MarketplaceDetailsPage: React.FC<MarketplaceDetailsPageProps> = ({
         : cf.TermsOfService
         ? [cf.TermsOfService]
         : [],
-      requiredDocuments: Array.isArray(cf.RequiredDocuments)
-        ? cf.RequiredDocuments
-        : [],
+      // Either a list or one text block; normalised to one entry per document
+      requiredDocuments: splitRequiredDocuments(cf.RequiredDocuments),
       keyTerms: Array.isArray(cf.TermsOfService)
         ? cf.TermsOfService.join(", ")
         : cf.TermsOfService,
@@ -421,6 +424,15 @@ const MarketplaceDetailsPage: React.FC<MarketplaceDetailsPageProps> = ({
       onAddToComparison(item);
     }
   };
+  // Starting a service opens the required-documents checklist; courses keep their own flow
+  const handleStartService = () => {
+    if (!item || marketplaceType === "courses") return;
+    if (!user) {
+      login();
+      return;
+    }
+    setIsRequestModalOpen(true);
+  };
   const retryFetch = () => {
     setError(null);
     // Re-fetch by triggering the useEffect
@@ -1184,6 +1196,7 @@ const MarketplaceDetailsPage: React.FC<MarketplaceDetailsPageProps> = ({
         </div>
         <button
           id="action-section"
+          onClick={handleStartService}
           className="w-full px-4 py-3 text-white font-bold rounded-md bg-gradient-to-r from-teal-500 via-blue-500 to-purple-600 hover:from-teal-600 hover:via-blue-600 hover:to-purple-700 transition-colors shadow-md mb-3"
         >
           {primaryAction}
@@ -1543,12 +1556,20 @@ const MarketplaceDetailsPage: React.FC<MarketplaceDetailsPageProps> = ({
                   {item.duration || item.serviceType || ""}
                 </div>
               </div>
-              <button className="flex-1 px-4 py-3 text-white font-bold rounded-md bg-gradient-to-r from-teal-500 via-blue-500 to-purple-600 hover:from-teal-600 hover:via-blue-600 hover:to-purple-700 transition-colors shadow-md">
+              <button
+                onClick={handleStartService}
+                className="flex-1 px-4 py-3 text-white font-bold rounded-md bg-gradient-to-r from-teal-500 via-blue-500 to-purple-600 hover:from-teal-600 hover:via-blue-600 hover:to-purple-700 transition-colors shadow-md">
                 {primaryAction}
               </button>
             </div>
           </div>
         )}
+        {isRequestModalOpen && (
+          <StartServiceRequestModal
+            service={item}
+            onClose={() => setIsRequestModalOpen(false)}
+          />
+        )}
       </main>
       <Footer isLoggedIn={false} />
     </div>
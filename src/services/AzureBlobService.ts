@@ -1,89 +1,385 @@
-// Mock implementation of Azure Blob Storage service
-// Original implementation used @azure/storage-blob which is not available
 /**
  * Service for interacting with Azure Blob Storage
- * Note: This is a client-side implementation that would typically require server-side proxy
- * for secure SAS token generation in production environments.
+ * Storage keys never reach the browser: SAS URLs are issued per request by the
+ * api/storage/* serverless functions, scoped to one blob and a short expiry.
+ * Uploads are recorded against the active business entity, so the rest of the
+ * team can open them (see api/_lib/documentAccess.ts).
  */
-// Configuration values - in a real implementation, these would come from environment variables
-const STORAGE_ACCOUNT_NAME = "your-storage-account";
-const CONTAINER_NAME = "documents";
+import { getApiAuthHeaders } from "./auth/msal";
+import { getActiveEntityId } from "./DataverseService";
+
+const SAS_API_URL = "/api/storage/sas/sas";
+const UPLOAD_API_URL = "/api/storage/upload/upload";
+
+export interface UploadSasResult {
+  url: string;
+  /** Server-generated, collision-free blob name */
+  blobName: string;
+  expiresOn: string;
+  /** Headers that must accompany the PUT (blob type and content type) */
+  headers: Record<string, string>;
+}
+
+export interface DownloadSasOptions {
+  /** File name offered to the browser via the Content-Disposition override */
+  fileName?: string;
+  /** "inline" opens in the browser (viewer), "attachment" forces a download */
+  disposition?: "inline" | "attachment";
+  expiryMinutes?: number;
+}
+
+const requestSas = async (body: Record<string, unknown>) => {
+  const response = await fetch(SAS_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: "" }));
+    throw new Error(`Failed to get SAS URL: ${error || response.statusText}`);
+  }
+  return response.json();
+};
 
 /**
- * Generates a SAS URL for uploading a blob (Demo implementation)
- * In production, this should be done server-side to keep storage keys secure
- * @param blobName The name of the blob
+ * Gets a create-only SAS URL for uploading a new blob
+ * @param fileName The original file name (the blob name is generated server-side)
  * @param contentType The content type of the blob
- * @param expiryMinutes How long the SAS URL should be valid for (in minutes)
- * @returns The SAS URL for uploading
+ * @param expiryMinutes How long the SAS URL should be valid for (in minutes, max 60)
+ * @param upload Declared size and upload route, checked against the route's size limit
+ * @returns The SAS URL, blob name and headers to send with the upload
  */
 export const generateUploadSasUrl = async (
-  blobName: string,
+  fileName: string,
   contentType: string,
-  expiryMinutes: number = 15
-): Promise<string> => {
-  // For demo purposes, return a placeholder URL
-  console.log("Generating upload SAS URL for:", blobName, contentType);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  return `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${blobName}?sv=demo&sig=demo`;
-};
+  expiryMinutes = 15,
+  upload: { size?: number; route?: UploadRoute } = {}
+): Promise<UploadSasResult> =>
+  requestSas({ permission: "create", fileName, contentType, expiryMinutes, ...upload });
 
 /**
- * Generates a SAS URL for downloading a blob (Demo implementation)
+ * Gets a read-only SAS URL for a blob. Request a fresh one each time a file is opened;
+ * they expire within minutes.
  * @param blobName The name of the blob
- * @param expiryMinutes How long the SAS URL should be valid for (in minutes)
+ * @param options File name, inline/attachment disposition and expiry
  * @returns The SAS URL for downloading
  */
 export const generateDownloadSasUrl = async (
   blobName: string,
-  expiryMinutes: number = 60
+  options: DownloadSasOptions = {}
 ): Promise<string> => {
-  // For demo purposes, return a placeholder URL
-  console.log("Generating download SAS URL for:", blobName);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  return `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${blobName}?sv=demo&sig=demo`;
+  const { url } = await requestSas({
+    permission: "read",
+    blobName,
+    fileName: options.fileName,
+    disposition: options.disposition || "attachment",
+    expiryMinutes: options.expiryMinutes || 10,
+  });
+  return url;
 };
 
 /**
- * Uploads a file directly to Azure Blob Storage (Demo implementation)
- * In production, this would use actual Azure SDK or server-side proxy
+ * Uploads a file directly to Azure Blob Storage with a create-only SAS URL
+ * Suited to small files; use uploadFileInChunks for large or resumable uploads
  * @param file The file to upload
- * @param blobName The name to give the blob (if not provided, will use the file name)
- * @returns The URL of the uploaded blob
+ * @param route Which size limit and blob prefix applies
+ * @returns The URL of the verified blob (without a SAS token)
  */
 export const uploadFileToBlobStorage = async (
   file: File,
-  blobName?: string
+  route: UploadRoute = "documents"
 ): Promise<string> => {
-  // Use the file name if blobName is not provided
-  const finalBlobName = blobName || `${Date.now()}-${file.name}`;
-  console.log(
-    "Uploading file to blob storage:",
-    finalBlobName,
-    file.size,
-    "bytes"
+  const contentType = file.type || "application/octet-stream";
+  const { url, blobName, headers } = await generateUploadSasUrl(
+    file.name,
+    contentType,
+    15,
+    { size: file.size, route }
+  );
+  const response = await fetch(url, { method: "PUT", headers, body: file });
+  if (!response.ok) {
+    throw new Error(`Failed to upload file: ${response.statusText}`);
+  }
+  // The blob stays unreadable until the server has sniffed and scanned it
+  const verifyResponse = await fetch(`${UPLOAD_API_URL}?action=verify`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({
+      blobName,
+      fileName: file.name,
+      contentType,
+      route,
+      entityId: getActiveEntityId() ?? undefined,
+    }),
+  });
+  if (!verifyResponse.ok) {
+    throw await toUploadError(verifyResponse, "Failed to verify upload");
+  }
+  const { url: verifiedUrl } = await verifyResponse.json();
+  return verifiedUrl;
+};
+
+const UPLOAD_SESSION_PREFIX = "chunkedUpload:";
+
+/** Server-side upload limits; the server enforces them, these only pick the route */
+export type UploadRoute = "documents" | "profile" | "chat";
+
+/**
+ * The server refused the file itself (too large, disallowed content, failed the malware scan).
+ * Retrying or resuming will not help, so the message is safe to show to the user.
+ */
+export class UploadRejectedError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+// 4xx responses other than timeouts/throttling mean the file or request is unacceptable
+const isRejection = (status: number) =>
+  status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+const toUploadError = async (response: Response, failureMessage: string) => {
+  const { error } = await response.json().catch(() => ({ error: "" }));
+  const message = error || response.statusText;
+  return isRejection(response.status)
+    ? new UploadRejectedError(message, response.status)
+    : new Error(`${failureMessage}: ${message}`);
+};
+
+export interface ChunkedUploadOptions {
+  /** Which size limit and blob prefix applies; defaults to "documents" */
+  route?: UploadRoute;
+  /** Called with the overall percentage (0-100) as bytes reach the server */
+  onProgress?: (percent: number) => void;
+  /** Retries per chunk before the upload is abandoned (it can still be resumed later) */
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+}
+
+// Sessions are keyed by file identity so picking the same file again resumes it
+const getUploadSessionKey = (file: File) =>
+  `${UPLOAD_SESSION_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const readUploadSession = (file: File): UploadSession | null => {
+  const stored = localStorage.getItem(getUploadSessionKey(file));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+const startUploadSession = async (
+  file: File,
+  route: UploadRoute
+): Promise<UploadSession> => {
+  const response = await fetch(`${UPLOAD_API_URL}?action=init`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({
+      fileName: file.name,
+      contentType: file.type,
+      size: file.size,
+      route,
+      entityId: getActiveEntityId() ?? undefined,
+    }),
+  });
+  if (!response.ok) {
+    throw await toUploadError(response, "Failed to start upload");
+  }
+  const { uploadId, chunkSize } = await response.json();
+  const session = { uploadId, chunkSize };
+  localStorage.setItem(getUploadSessionKey(file), JSON.stringify(session));
+  return session;
+};
+
+const getStagedBlocks = async (uploadId: string): Promise<Set<number>> => {
+  const response = await fetch(
+    `${UPLOAD_API_URL}?uploadId=${encodeURIComponent(uploadId)}`,
+    { headers: await getApiAuthHeaders() }
   );
-  // Simulate upload delay based on file size
-  const uploadDelay = Math.min(2000, Math.max(500, file.size / 1000));
-  await new Promise((resolve) => setTimeout(resolve, uploadDelay));
-  // Return a demo URL
-  const demoUrl = `https://${STORAGE_ACCOUNT_NAME}.blob.core.windows.net/${CONTAINER_NAME}/${finalBlobName}`;
-  console.log("File uploaded successfully to:", demoUrl);
-  return demoUrl;
+  if (!response.ok) {
+    throw new Error(`Failed to get upload status: ${response.statusText}`);
+  }
+  const { stagedBlocks } = await response.json();
+  return new Set<number>(stagedBlocks || []);
+};
+
+// XHR rather than fetch, because fetch does not report upload progress
+const putChunk = (
+  uploadId: string,
+  blockIndex: number,
+  chunk: Blob,
+  authHeaders: Record<string, string>,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(
+      "PUT",
+      `${UPLOAD_API_URL}?uploadId=${encodeURIComponent(uploadId)}&blockIndex=${blockIndex}`
+    );
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    Object.entries(authHeaders).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () =>
+      xhr.status >= 200 && xhr.status < 300
+        ? resolve()
+        : reject(
+            isRejection(xhr.status)
+              ? new UploadRejectedError(`Chunk ${blockIndex} was rejected`, xhr.status)
+              : new Error(`Chunk ${blockIndex} failed: ${xhr.status}`)
+          );
+    xhr.onerror = () => reject(new Error(`Chunk ${blockIndex} failed: network error`));
+    xhr.onabort = () => reject(new DOMException("Upload aborted", "AbortError"));
+    // One signal spans every chunk of the upload, so each chunk detaches its listener when done
+    const abort = () => xhr.abort();
+    signal?.addEventListener("abort", abort, { once: true });
+    xhr.onloadend = () => signal?.removeEventListener("abort", abort);
+    xhr.send(chunk);
+  });
+
+/**
+ * Uploads a file through the resumable block upload endpoint
+ * Chunks already staged on the server (from an earlier, interrupted attempt) are skipped
+ * @param file The file to upload
+ * @param options Upload route, progress callback, retry count and abort signal
+ * @returns The URL of the committed blob
+ */
+export const uploadFileInChunks = async (
+  file: File,
+  options: ChunkedUploadOptions = {}
+): Promise<string> => {
+  const { route = "documents", onProgress, maxRetries = 3, signal } = options;
+  let session = readUploadSession(file);
+  let stagedBlocks = new Set<number>();
+  if (session) {
+    try {
+      stagedBlocks = await getStagedBlocks(session.uploadId);
+    } catch {
+      session = null;
+    }
+  }
+  if (!session) {
+    session = await startUploadSession(file, route);
+  }
+  const { uploadId, chunkSize } = session;
+  const blockCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const chunkLength = (index: number) =>
+    Math.min(chunkSize, file.size - index * chunkSize);
+  let uploadedBytes = 0;
+  stagedBlocks.forEach((index) => {
+    if (index < blockCount) uploadedBytes += chunkLength(index);
+  });
+  const reportProgress = (inFlight: number) =>
+    onProgress?.(
+      file.size ? Math.round(((uploadedBytes + inFlight) / file.size) * 100) : 100
+    );
+  reportProgress(0);
+
+  for (let index = 0; index < blockCount; index++) {
+    if (stagedBlocks.has(index)) continue;
+    // Staged chunks stay on the server, so a cancelled upload can be resumed later
+    if (signal?.aborted) throw new DOMException("Upload aborted", "AbortError");
+    const chunk = file.slice(index * chunkSize, index * chunkSize + chunkSize);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // Re-read each attempt so a token refreshed during a long upload is used
+        const authHeaders = await getApiAuthHeaders();
+        await putChunk(uploadId, index, chunk, authHeaders, reportProgress, signal);
+        break;
+      } catch (error) {
+        if (error instanceof UploadRejectedError) {
+          localStorage.removeItem(getUploadSessionKey(file));
+          throw error;
+        }
+        if (signal?.aborted || attempt >= maxRetries) throw error;
+        // Back off before retrying the same chunk
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+      }
+    }
+    uploadedBytes += chunk.size;
+    reportProgress(0);
+  }
+
+  const response = await fetch(`${UPLOAD_API_URL}?action=commit`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({
+      uploadId,
+      blockCount,
+      contentType: file.type || "application/octet-stream",
+    }),
+  });
+  if (!response.ok) {
+    const error = await toUploadError(response, "Failed to commit upload");
+    // A rejected file is deleted or quarantined server-side, so there is nothing left to resume
+    if (error instanceof UploadRejectedError) {
+      localStorage.removeItem(getUploadSessionKey(file));
+    }
+    throw error;
+  }
+  const { url } = await response.json();
+  localStorage.removeItem(getUploadSessionKey(file));
+  return url;
+};
+
+const postStorageAction = async (
+  url: string,
+  blobName: string,
+  failureMessage: string
+) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({ blobName }),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: "" }));
+    throw new Error(`${failureMessage}: ${error || response.statusText}`);
+  }
+  return response.json();
 };
 
+export interface DeletedBlobInfo {
+  blobName: string;
+  deletedAt: string;
+  /** After this date the blob is purged and can no longer be restored */
+  purgeAfter: string;
+}
+
 /**
- * Deletes a blob from Azure Blob Storage (Demo implementation)
+ * Soft-deletes a blob; it can be restored until its retention window ends
  * @param blobName The name of the blob to delete
- * @returns A promise that resolves when the blob is deleted
+ * @returns When the blob was deleted and when it will be purged
  */
-export const deleteBlob = async (blobName: string): Promise<void> => {
-  console.log("Deleting blob from storage:", blobName);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  console.log("Blob deleted successfully:", blobName);
+export const deleteBlob = async (blobName: string): Promise<DeletedBlobInfo> =>
+  postStorageAction("/api/storage/delete/delete", blobName, "Failed to delete blob");
+
+/**
+ * Restores a soft-deleted blob to its original name
+ * @param blobName The original name of the blob
+ */
+export const restoreBlob = async (blobName: string): Promise<void> => {
+  await postStorageAction("/api/storage/restore/restore", blobName, "Failed to restore blob");
+};
+
+/**
+ * Permanently removes a soft-deleted blob before its retention window ends
+ * @param blobName The original name of the blob
+ */
+export const purgeBlob = async (blobName: string): Promise<void> => {
+  await postStorageAction("/api/storage/purge/purge", blobName, "Failed to purge blob");
 };
 
 /**
@@ -125,7 +421,7 @@ export const getBlobProperties = async (blobName: string) => {
 export const getBlobNameFromUrl = (blobUrl: string): string => {
   // Remove any SAS token
   const urlWithoutSas = blobUrl.split("?")[0];
-  // Extract the blob name from the URL
-  const parts = urlWithoutSas.split("/");
-  return parts[parts.length - 1];
+  // The path is /<container>/<blob name>; blob names may contain "/" prefixes
+  const pathParts = urlWithoutSas.replace(/^https?:\/\/[^/]+\//, "").split("/");
+  return pathParts.slice(1).map(decodeURIComponent).join("/");
 };
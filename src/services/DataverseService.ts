@@ -1,20 +1,75 @@
 /**
  * Service for interacting with Microsoft Dataverse Web API
+ *
+ * Documents are read and written through a typed OData client
+ * (services/dataverse). The HTTP transport is injectable: when no Dataverse
+ * environment is configured (VITE_DATAVERSE_URL) the service runs against an
+ * in-memory OData stand-in seeded with the demo documents.
+ *
+ * A user may manage several business entities, each one business profile
+ * row. Profile, documents and service requests are scoped to the active
+ * entity (setActiveEntityId), which EntityProvider keeps in step with the URL.
  */
-// Configuration values - in a real implementation, these would come from environment variables
-// For demo purposes, we'll use placeholder values
-const DATAVERSE_API_URL = "https://your-org.api.crm.dynamics.com/api/data/v9.2";
-const DOCUMENT_ENTITY_NAME = "cr123_document"; // Replace with your actual entity name
-// Get the authentication token (this would be handled by your auth provider)
+import { InteractionRequiredAuthError } from "@azure/msal-browser";
+import { msalInstance } from "./auth/msal";
+import {
+  ConcurrencyConflictError,
+  createDataverseClient,
+  DataverseClient,
+  odataString,
+} from "./dataverse/client";
+import {
+  columnOf,
+  defineFieldMap,
+  FieldMap,
+  fromDataverseRecord,
+  selectColumns,
+  toDataverseRecord,
+} from "./dataverse/fieldMap";
+import { createInMemoryODataTransport } from "./dataverse/inMemoryTransport";
+import { TeamMember, teamMemberFieldMap, TeamRole, teamRoleFieldMap } from "./dataverse/teamTables";
+import { fetchTransport, ODataTransport } from "./dataverse/transport";
+import { mockDocumentData } from "../components/DocumentWallet/mockDocumentData";
+import { ServiceRequest } from "../types";
+import { getFieldState } from "../utils/fieldRules";
+import { getDataverseColumn } from "../utils/fieldSchema";
+
+export type { TeamMember, TeamRole };
+
+const env = (import.meta as any).env as Record<string, string | undefined>;
+// Organisation URL, e.g. https://your-org.crm.dynamics.com
+const DATAVERSE_URL = (env.VITE_DATAVERSE_URL || "").replace(/\/+$/, "");
+const DATAVERSE_API_VERSION = env.VITE_DATAVERSE_API_VERSION || "v9.2";
+const DATAVERSE_API_URL = DATAVERSE_URL
+  ? `${DATAVERSE_URL}/api/data/${DATAVERSE_API_VERSION}`
+  : "https://dataverse.local/api/data/v9.2";
+const DATAVERSE_SCOPES = [`${DATAVERSE_URL}/user_impersonation`];
+// Get an access token for the Dataverse resource from MSAL
 const getAuthToken = async () => {
-  // In a real implementation, this would get a token from your auth provider
-  // For example, using MSAL.js, Azure AD, etc.
-  return "dummy-token";
+  if (!DATAVERSE_URL) return "in-memory";
+  const account =
+    msalInstance.getActiveAccount() || msalInstance.getAllAccounts()[0];
+  if (!account) {
+    throw new Error("Sign in to access Dataverse");
+  }
+  try {
+    const result = await msalInstance.acquireTokenSilent({
+      account,
+      scopes: DATAVERSE_SCOPES,
+    });
+    return result.accessToken;
+  } catch (error) {
+    if (error instanceof InteractionRequiredAuthError) {
+      // Consent or MFA is needed; redirecting ends this request
+      await msalInstance.acquireTokenRedirect({ account, scopes: DATAVERSE_SCOPES });
+    }
+    throw error;
+  }
 };
 /**
  * Interface for document metadata
  */
-interface DocumentMetadata {
+export interface DocumentMetadata {
   id?: string;
   name: string;
   category: string;
@@ -30,342 +85,1043 @@ interface DocumentMetadata {
   fileUrl: string;
   versionNumber?: number;
   previousVersionId?: string;
+  /** Business entity the document belongs to */
+  entityId?: string;
+}
+/**
+ * Document as read back from Dataverse, with the row version used for
+ * optimistic concurrency
+ */
+export type DocumentRecord = DocumentMetadata & { etag?: string };
+/**
+ * Column mapping for the cr123_document table
+ */
+export const documentFieldMap = defineFieldMap<DocumentMetadata>({
+  entitySet: "cr123_documents",
+  primaryKey: "cr123_documentid",
+  fields: {
+    id: { column: "cr123_documentid", readOnly: true },
+    name: { column: "cr123_name" },
+    category: { column: "cr123_category" },
+    description: { column: "cr123_description" },
+    expiryDate: { column: "cr123_expirydate" },
+    tags: {
+      column: "cr123_tags",
+      toDataverse: (tags) => (tags || []).join(","),
+      fromDataverse: (value) => (value ? String(value).split(",") : []),
+    },
+    isConfidential: { column: "cr123_isconfidential" },
+    fileType: { column: "cr123_filetype" },
+    fileSize: { column: "cr123_filesize" },
+    uploadDate: { column: "cr123_uploaddate" },
+    uploadedBy: { column: "cr123_uploadedby" },
+    status: { column: "cr123_status" },
+    fileUrl: { column: "cr123_fileurl" },
+    versionNumber: { column: "cr123_versionnumber" },
+    previousVersionId: { column: "cr123_previousversionid" },
+    entityId: { column: "cr123_entityid" },
+  },
+});
+const DOCUMENT_COLUMNS = selectColumns(documentFieldMap);
+/**
+ * Immutable record of one uploaded file for a document. Versions of a
+ * document form a chain through previousVersionId; the document row mirrors
+ * the newest one.
+ */
+export interface DocumentVersion {
+  id?: string;
+  documentId: string;
+  versionNumber: number;
+  fileUrl: string;
+  fileType: string;
+  fileSize: string;
+  uploadDate: string;
+  uploadedBy: string;
+  notes?: string;
+  previousVersionId?: string;
+  restoredFromVersionId?: string;
+}
+/**
+ * Column mapping for the cr123_documentversion table
+ */
+export const documentVersionFieldMap = defineFieldMap<DocumentVersion>({
+  entitySet: "cr123_documentversions",
+  primaryKey: "cr123_documentversionid",
+  fields: {
+    id: { column: "cr123_documentversionid", readOnly: true },
+    documentId: { column: "cr123_documentid" },
+    versionNumber: { column: "cr123_versionnumber" },
+    fileUrl: { column: "cr123_fileurl" },
+    fileType: { column: "cr123_filetype" },
+    fileSize: { column: "cr123_filesize" },
+    uploadDate: { column: "cr123_uploaddate" },
+    uploadedBy: { column: "cr123_uploadedby" },
+    notes: { column: "cr123_notes" },
+    previousVersionId: { column: "cr123_previousversionid" },
+    restoredFromVersionId: { column: "cr123_restoredfromversionid" },
+  },
+});
+/**
+ * A single field change on the business profile
+ */
+export interface ProfileAuditEntry {
+  id?: string;
+  profileId: string;
+  section: string;
+  fieldName: string;
+  oldValue: string;
+  newValue: string;
+  changedById: string;
+  changedByName: string;
+  changedByEmail: string;
+  changedAt: string;
+}
+/**
+ * Column mapping for the cr123_profileauditentry table
+ */
+export const profileAuditFieldMap = defineFieldMap<ProfileAuditEntry>({
+  entitySet: "cr123_profileauditentries",
+  primaryKey: "cr123_profileauditentryid",
+  fields: {
+    id: { column: "cr123_profileauditentryid", readOnly: true },
+    profileId: { column: "cr123_profileid" },
+    section: { column: "cr123_section" },
+    fieldName: { column: "cr123_fieldname" },
+    oldValue: { column: "cr123_oldvalue" },
+    newValue: { column: "cr123_newvalue" },
+    changedById: { column: "cr123_changedbyid" },
+    changedByName: { column: "cr123_changedbyname" },
+    changedByEmail: { column: "cr123_changedbyemail" },
+    changedAt: { column: "cr123_changedat" },
+  },
+});
+/**
+ * Column mapping for the cr123_servicerequest table. The requester, approvers
+ * and the required-documents checklist are stored as JSON in multiline text
+ * columns.
+ */
+export const serviceRequestFieldMap = defineFieldMap<ServiceRequest>({
+  entitySet: "cr123_servicerequests",
+  primaryKey: "cr123_servicerequestid",
+  fields: {
+    id: { column: "cr123_servicerequestid", readOnly: true },
+    entityId: { column: "cr123_entityid" },
+    serviceId: { column: "cr123_serviceid" },
+    serviceName: { column: "cr123_name" },
+    category: { column: "cr123_category" },
+    status: { column: "cr123_status" },
+    submittedDate: { column: "cr123_submitteddate" },
+    sla: { column: "cr123_sla" },
+    serviceProvider: { column: "cr123_serviceprovider" },
+    description: { column: "cr123_description" },
+    requestedBy: {
+      column: "cr123_requestedby",
+      toDataverse: (requestedBy) => JSON.stringify(requestedBy),
+      fromDataverse: (value) => (value ? JSON.parse(value) : null),
+    },
+    approvers: {
+      column: "cr123_approvers",
+      toDataverse: (approvers) => JSON.stringify(approvers || []),
+      fromDataverse: (value) => (value ? JSON.parse(value) : []),
+    },
+    documents: {
+      column: "cr123_documents",
+      toDataverse: (documents) => JSON.stringify(documents || []),
+      fromDataverse: (value) => (value ? JSON.parse(value) : []),
+    },
+  },
+});
+/**
+ * Onboarding answers saved before submission; one row per user and entity
+ */
+export interface OnboardingDraft {
+  id?: string;
+  /** MSAL local account id */
+  userId: string;
+  entityId: string;
+  formData: Record<string, any>;
+  currentStep: number;
+  touchedFields: Record<string, boolean>;
+  updatedAt: string;
 }
+// Form values and touched fields are stored as JSON
+const jsonColumn = (column: string) => ({
+  column,
+  toDataverse: (value: unknown) => JSON.stringify(value ?? {}),
+  fromDataverse: (value: any) => (value ? JSON.parse(value) : {}),
+});
+export const onboardingDraftFieldMap = defineFieldMap<OnboardingDraft>({
+  entitySet: "cr123_onboardingdrafts",
+  primaryKey: "cr123_onboardingdraftid",
+  fields: {
+    id: { column: "cr123_onboardingdraftid", readOnly: true },
+    userId: { column: "cr123_userid" },
+    entityId: { column: "cr123_entityid" },
+    formData: jsonColumn("cr123_formdata"),
+    currentStep: { column: "cr123_currentstep" },
+    touchedFields: jsonColumn("cr123_touchedfields"),
+    updatedAt: { column: "cr123_updatedat" },
+  },
+});
+/**
+ * A licensed business the user manages; one business profile row
+ */
+export interface BusinessEntity {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** Empty until onboarding has been submitted for this entity */
+  onboardingCompletedAt: string;
+  /** The account's first entity, which owns the demo data */
+  isPrimary: boolean;
+}
+/**
+ * Column mapping for the cr123_businessprofile table. Sections are stored as
+ * a JSON document in a single multiline text column.
+ */
+const profileFieldMap = defineFieldMap<{
+  id?: string;
+  name: string;
+  data: any;
+  createdAt?: string;
+  onboardingCompletedAt?: string;
+  /** Copied from the profile data so uniqueness can be checked with $filter */
+  registrationNumber?: string;
+}>({
+  entitySet: "cr123_businessprofiles",
+  primaryKey: "cr123_businessprofileid",
+  fields: {
+    id: { column: "cr123_businessprofileid", readOnly: true },
+    name: { column: "cr123_name" },
+    data: {
+      column: "cr123_profiledata",
+      toDataverse: (data) => JSON.stringify(data),
+      fromDataverse: (value) => (value ? JSON.parse(value) : null),
+    },
+    createdAt: { column: "cr123_createdat" },
+    onboardingCompletedAt: { column: "cr123_onboardingcompletedat" },
+    registrationNumber: { column: getDataverseColumn("registrationNumber")! },
+  },
+});
+// Version rows for the demo documents: their listed earlier versions plus the current file
+const demoVersionRecords = () =>
+  mockDocumentData.flatMap((doc: any) => {
+    const files = [
+      ...(doc.versions || []).map((version, index) => ({ ...version, versionNumber: index + 1 })),
+      { ...doc, versionNumber: (doc.versions || []).length + 1, notes: "Current version" },
+    ];
+    return files.map((file) => ({
+      ...toDataverseRecord(documentVersionFieldMap, {
+        documentId: doc.id,
+        versionNumber: file.versionNumber,
+        fileUrl: file.fileUrl,
+        fileType: file.fileType || doc.fileType,
+        fileSize: file.fileSize || doc.fileSize,
+        uploadDate: file.uploadDate,
+        uploadedBy: file.uploadedBy,
+        notes: file.notes,
+        previousVersionId:
+          file.versionNumber > 1 ? `${doc.id}-v${file.versionNumber - 1}` : undefined,
+      }),
+      [documentVersionFieldMap.primaryKey]: `${doc.id}-v${file.versionNumber}`,
+    }));
+  });
+// Stand-in used when no Dataverse environment is configured
+const createDemoTransport = () =>
+  createInMemoryODataTransport({
+    primaryKeys: {
+      [documentFieldMap.entitySet]: documentFieldMap.primaryKey,
+      [documentVersionFieldMap.entitySet]: documentVersionFieldMap.primaryKey,
+      [profileFieldMap.entitySet]: profileFieldMap.primaryKey,
+      [profileAuditFieldMap.entitySet]: profileAuditFieldMap.primaryKey,
+      [serviceRequestFieldMap.entitySet]: serviceRequestFieldMap.primaryKey,
+      [teamMemberFieldMap.entitySet]: teamMemberFieldMap.primaryKey,
+      [teamRoleFieldMap.entitySet]: teamRoleFieldMap.primaryKey,
+      [onboardingDraftFieldMap.entitySet]: onboardingDraftFieldMap.primaryKey,
+    },
+    persist: {
+      storage: localStorage,
+      key: "dataverseDemoStore",
+      entitySets: [
+        documentFieldMap.entitySet,
+        documentVersionFieldMap.entitySet,
+        profileFieldMap.entitySet,
+        profileAuditFieldMap.entitySet,
+        serviceRequestFieldMap.entitySet,
+        teamMemberFieldMap.entitySet,
+        teamRoleFieldMap.entitySet,
+        onboardingDraftFieldMap.entitySet,
+      ],
+    },
+    seed: {
+      [documentFieldMap.entitySet]: mockDocumentData.map((doc: any) => ({
+        ...toDataverseRecord(documentFieldMap, {
+          ...doc,
+          expiryDate: doc.expiryDate ?? undefined,
+          versionNumber: (doc.versions || []).length + 1,
+          previousVersionId: doc.versions?.length ? `${doc.id}-v${doc.versions.length}` : undefined,
+        }),
+        [documentFieldMap.primaryKey]: doc.id,
+      })),
+      [documentVersionFieldMap.entitySet]: demoVersionRecords(),
+    },
+  });
+let transport: ODataTransport = DATAVERSE_URL ? fetchTransport : createDemoTransport();
+let client: DataverseClient | null = null;
+const getClient = () => {
+  if (!client) {
+    client = createDataverseClient({
+      baseUrl: DATAVERSE_API_URL,
+      getToken: getAuthToken,
+      transport,
+    });
+  }
+  return client;
+};
 /**
- * Creates a new document record in Dataverse
+ * Replaces the HTTP transport used for Dataverse calls (e.g. an in-memory
+ * OData stand-in in tests)
+ * @param nextTransport The transport to use from now on
+ */
+export const setDataverseTransport = (nextTransport: ODataTransport) => {
+  transport = nextTransport;
+  client = null;
+};
+// Entity the profile, documents and service requests are read from and written to
+let activeEntityId: string | null = null;
+/**
+ * Sets the business entity later calls are scoped to
+ * @param entityId The entity ID, or null before one is chosen
+ */
+export const setActiveEntityId = (entityId: string | null) => {
+  if (entityId === activeEntityId) return;
+  activeEntityId = entityId;
+  dataCache = null;
+};
+/**
+ * The business entity calls are currently scoped to
+ * @returns The entity ID, or null before one is chosen
+ */
+export const getActiveEntityId = () => activeEntityId;
+// $filter clause restricting a table to the active entity; none before one is chosen
+const entityFilter = <T extends { entityId?: string }>(map: FieldMap<T>) =>
+  activeEntityId ? `${columnOf(map, "entityId")} eq ${odataString(activeEntityId)}` : undefined;
+const toDocument = (record: Record<string, any>): DocumentRecord => ({
+  ...fromDataverseRecord(documentFieldMap, record),
+  etag: record["@odata.etag"],
+});
+const toVersion = (record: Record<string, any>) =>
+  fromDataverseRecord(documentVersionFieldMap, record);
+/**
+ * Creates a new document record in Dataverse, along with its first version
  * @param documentMetadata The document metadata
+ * @param options.notes Notes stored on the first version
  * @returns The created document record
  */
-export const createDocument = async (documentMetadata: DocumentMetadata) => {
-  // For demo purposes, we'll simulate the API call
-  console.log("Creating document in Dataverse:", documentMetadata);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-  // Return the document with an ID
-  return {
+export const createDocument = async (
+  documentMetadata: DocumentMetadata,
+  options: { notes?: string } = {}
+) => {
+  const client = getClient();
+  const record = toDataverseRecord(documentFieldMap, {
+    description: "",
+    entityId: activeEntityId ?? undefined,
     ...documentMetadata,
-    id: Date.now().toString(),
-  };
-  /* Real implementation would be:
-  const token = await getAuthToken()
-  // Format the data for Dataverse
-  const dataverseRecord = {
-    cr123_name: documentMetadata.name,
-    cr123_category: documentMetadata.category,
-    cr123_description: documentMetadata.description || '',
-    cr123_expirydate: documentMetadata.expiryDate,
-    cr123_tags: documentMetadata.tags?.join(',') || '',
-    cr123_isconfidential: documentMetadata.isConfidential,
-    cr123_filetype: documentMetadata.fileType,
-    cr123_filesize: documentMetadata.fileSize,
-    cr123_uploaddate: documentMetadata.uploadDate,
-    cr123_uploadedby: documentMetadata.uploadedBy,
-    cr123_status: documentMetadata.status,
-    cr123_fileurl: documentMetadata.fileUrl,
-    cr123_versionnumber: documentMetadata.versionNumber || 1,
-    cr123_previousversionid: documentMetadata.previousVersionId,
-  }
-  // Make the API call to create the record
-  const response = await fetch(
-    `${DATAVERSE_API_URL}/${DOCUMENT_ENTITY_NAME}s`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-        Prefer: 'return=representation',
-      },
-      body: JSON.stringify(dataverseRecord),
-    },
-  )
-  if (!response.ok) {
-    throw new Error(`Failed to create document: ${response.statusText}`)
-  }
-  return await response.json()
-  */
+    versionNumber: 1,
+    previousVersionId: undefined,
+  });
+  const created = toDocument(await client.create(documentFieldMap.entitySet, record));
+  await client.create(
+    documentVersionFieldMap.entitySet,
+    toDataverseRecord(documentVersionFieldMap, {
+      documentId: created.id!,
+      versionNumber: 1,
+      fileUrl: created.fileUrl,
+      fileType: created.fileType,
+      fileSize: created.fileSize,
+      uploadDate: created.uploadDate,
+      uploadedBy: created.uploadedBy,
+      notes: options.notes || "Initial upload",
+    })
+  );
+  return created;
 };
 /**
- * Gets all documents from Dataverse
+ * Gets the active entity's documents from Dataverse
  * @returns An array of document records
  */
 export const getAllDocuments = async () => {
-  // For demo purposes, we'll return empty array
-  console.log("Getting all documents from Dataverse");
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  return [];
-  /* Real implementation would be:
-  const token = await getAuthToken()
-  // Make the API call to get all documents
-  const response = await fetch(
-    `${DATAVERSE_API_URL}/${DOCUMENT_ENTITY_NAME}s?$select=cr123_documentid,cr123_name,cr123_category,cr123_description,cr123_expirydate,cr123_tags,cr123_isconfidential,cr123_filetype,cr123_filesize,cr123_uploaddate,cr123_uploadedby,cr123_status,cr123_fileurl,cr123_versionnumber,cr123_previousversionid`,
-    {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-    },
-  )
-  if (!response.ok) {
-    throw new Error(`Failed to get documents: ${response.statusText}`)
-  }
-  const data = await response.json()
-  // Transform the data to match our interface
-  return data.value.map((record: any) => ({
-    id: record.cr123_documentid,
-    name: record.cr123_name,
-    category: record.cr123_category,
-    description: record.cr123_description,
-    expiryDate: record.cr123_expirydate,
-    tags: record.cr123_tags?.split(',') || [],
-    isConfidential: record.cr123_isconfidential,
-    fileType: record.cr123_filetype,
-    fileSize: record.cr123_filesize,
-    uploadDate: record.cr123_uploaddate,
-    uploadedBy: record.cr123_uploadedby,
-    status: record.cr123_status,
-    fileUrl: record.cr123_fileurl,
-    versionNumber: record.cr123_versionnumber,
-    previousVersionId: record.cr123_previousversionid,
-  }))
-  */
+  const records = await getClient().list(documentFieldMap.entitySet, {
+    select: DOCUMENT_COLUMNS,
+    filter: entityFilter(documentFieldMap),
+    orderBy: `${columnOf(documentFieldMap, "uploadDate")} desc`,
+    pageSize: 500,
+  });
+  return records.map(toDocument);
 };
 /**
  * Gets a document by ID from Dataverse
  * @param id The document ID
- * @returns The document record
+ * @returns The document record, or null if it does not exist
  */
 export const getDocumentById = async (id: string) => {
-  // For demo purposes, we'll return null
-  console.log("Getting document by ID from Dataverse:", id);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  return null;
-  /* Real implementation would be:
-  const token = await getAuthToken()
-  // Make the API call to get the document
-  const response = await fetch(
-    `${DATAVERSE_API_URL}/${DOCUMENT_ENTITY_NAME}s(${id})`,
-    {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-    },
-  )
-  if (!response.ok) {
-    throw new Error(`Failed to get document: ${response.statusText}`)
-  }
-  const record = await response.json()
-  // Transform the data to match our interface
-  return {
-    id: record.cr123_documentid,
-    name: record.cr123_name,
-    category: record.cr123_category,
-    description: record.cr123_description,
-    expiryDate: record.cr123_expirydate,
-    tags: record.cr123_tags?.split(',') || [],
-    isConfidential: record.cr123_isconfidential,
-    fileType: record.cr123_filetype,
-    fileSize: record.cr123_filesize,
-    uploadDate: record.cr123_uploaddate,
-    uploadedBy: record.cr123_uploadedby,
-    status: record.cr123_status,
-    fileUrl: record.cr123_fileurl,
-    versionNumber: record.cr123_versionnumber,
-    previousVersionId: record.cr123_previousversionid,
-  }
-  */
+  const record = await getClient().get(documentFieldMap.entitySet, id, {
+    select: DOCUMENT_COLUMNS,
+  });
+  return record ? toDocument(record) : null;
 };
 /**
  * Updates a document in Dataverse
  * @param id The document ID
  * @param documentMetadata The updated document metadata
+ * @param options.etag Row version the caller last read; when given, the
+ *   update fails with ConcurrencyConflictError if the row has changed since
  * @returns The updated document record
  */
 export const updateDocument = async (
   id: string,
-  documentMetadata: Partial<DocumentMetadata>
+  documentMetadata: Partial<DocumentMetadata>,
+  options: { etag?: string } = {}
 ) => {
-  // For demo purposes, we'll simulate the update
-  console.log("Updating document in Dataverse:", id, documentMetadata);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-  // Return the updated metadata
-  return documentMetadata;
-  /* Real implementation would be:
-  const token = await getAuthToken()
-  // Format the data for Dataverse
-  const dataverseRecord: any = {}
-  if (documentMetadata.name) dataverseRecord.cr123_name = documentMetadata.name
-  if (documentMetadata.category)
-    dataverseRecord.cr123_category = documentMetadata.category
-  if (documentMetadata.description !== undefined)
-    dataverseRecord.cr123_description = documentMetadata.description
-  if (documentMetadata.expiryDate !== undefined)
-    dataverseRecord.cr123_expirydate = documentMetadata.expiryDate
-  if (documentMetadata.tags)
-    dataverseRecord.cr123_tags = documentMetadata.tags.join(',')
-  if (documentMetadata.isConfidential !== undefined)
-    dataverseRecord.cr123_isconfidential = documentMetadata.isConfidential
-  if (documentMetadata.fileType)
-    dataverseRecord.cr123_filetype = documentMetadata.fileType
-  if (documentMetadata.fileSize)
-    dataverseRecord.cr123_filesize = documentMetadata.fileSize
-  if (documentMetadata.uploadDate)
-    dataverseRecord.cr123_uploaddate = documentMetadata.uploadDate
-  if (documentMetadata.uploadedBy)
-    dataverseRecord.cr123_uploadedby = documentMetadata.uploadedBy
-  if (documentMetadata.status)
-    dataverseRecord.cr123_status = documentMetadata.status
-  if (documentMetadata.fileUrl)
-    dataverseRecord.cr123_fileurl = documentMetadata.fileUrl
-  if (documentMetadata.versionNumber)
-    dataverseRecord.cr123_versionnumber = documentMetadata.versionNumber
-  if (documentMetadata.previousVersionId)
-    dataverseRecord.cr123_previousversionid = documentMetadata.previousVersionId
-  // Make the API call to update the record
-  const response = await fetch(
-    `${DATAVERSE_API_URL}/${DOCUMENT_ENTITY_NAME}s(${id})`,
-    {
-      method: 'PATCH',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify(dataverseRecord),
-    },
-  )
-  if (!response.ok) {
-    throw new Error(`Failed to update document: ${response.statusText}`)
+  try {
+    const updated = await getClient().update(
+      documentFieldMap.entitySet,
+      id,
+      toDataverseRecord(documentFieldMap, documentMetadata),
+      options.etag
+    );
+    return toDocument(updated);
+  } catch (error) {
+    if (error instanceof ConcurrencyConflictError) {
+      const current = await getDocumentById(id);
+      throw new ConcurrencyConflictError<DocumentRecord>(
+        "This document was changed by someone else since you opened it.",
+        { response: error.response, current: current ?? undefined, currentEtag: current?.etag }
+      );
+    }
+    throw error;
   }
-  // Dataverse PATCH doesn't return the updated entity, so we need to get it
-  return await getDocumentById(id)
-  */
 };
 /**
- * Deletes a document from Dataverse
+ * Deletes a document and its version records from Dataverse. The versions
+ * go first, so a delete that fails part-way leaves the document in place to
+ * retry rather than versions nothing points to.
  * @param id The document ID
  */
 export const deleteDocument = async (id: string) => {
-  // For demo purposes, we'll simulate the deletion
-  console.log("Deleting document from Dataverse:", id);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-  /* Real implementation would be:
-  const token = await getAuthToken()
-  // Make the API call to delete the record
-  const response = await fetch(
-    `${DATAVERSE_API_URL}/${DOCUMENT_ENTITY_NAME}s(${id})`,
-    {
-      method: 'DELETE',
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    },
-  )
-  if (!response.ok) {
-    throw new Error(`Failed to delete document: ${response.statusText}`)
+  const client = getClient();
+  const versions = await getDocumentVersions(id);
+  for (const version of versions) {
+    await client.remove(documentVersionFieldMap.entitySet, version.id!);
   }
-  */
+  await client.remove(documentFieldMap.entitySet, id);
 };
 /**
- * Gets all versions of a document
+ * Re-creates a deleted document and its version history with the original
+ * ids (used to undo a delete while the blobs are still restorable)
+ * @param document The deleted document
+ * @param versions Its version records as read before the delete
+ * @returns The restored document record
+ */
+export const restoreDeletedDocument = async (
+  document: DocumentRecord,
+  versions: DocumentVersion[]
+) => {
+  const client = getClient();
+  const created = await client.create(documentFieldMap.entitySet, {
+    ...toDataverseRecord(documentFieldMap, document),
+    [documentFieldMap.primaryKey]: document.id,
+  });
+  for (const version of versions) {
+    await client.create(documentVersionFieldMap.entitySet, {
+      ...toDataverseRecord(documentVersionFieldMap, version),
+      [documentVersionFieldMap.primaryKey]: version.id,
+    });
+  }
+  return toDocument(created);
+};
+/**
+ * Gets all versions of a document, newest first
  * @param documentId The document ID
- * @returns An array of document versions
+ * @returns An array of document versions; the first is the current one
  */
 export const getDocumentVersions = async (documentId: string) => {
-  // For demo purposes, we'll return empty array
-  console.log("Getting document versions from Dataverse:", documentId);
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  return [];
-  /* Real implementation would be:
-  const token = await getAuthToken()
-  // Make the API call to get all versions of the document
-  const response = await fetch(
-    `${DATAVERSE_API_URL}/${DOCUMENT_ENTITY_NAME}s?$filter=cr123_previousversionid eq '${documentId}'&$select=cr123_documentid,cr123_name,cr123_category,cr123_description,cr123_expirydate,cr123_tags,cr123_isconfidential,cr123_filetype,cr123_filesize,cr123_uploaddate,cr123_uploadedby,cr123_status,cr123_fileurl,cr123_versionnumber,cr123_previousversionid`,
+  const records = await getClient().list(documentVersionFieldMap.entitySet, {
+    select: selectColumns(documentVersionFieldMap),
+    filter: `${columnOf(documentVersionFieldMap, "documentId")} eq ${odataString(documentId)}`,
+    orderBy: `${columnOf(documentVersionFieldMap, "versionNumber")} desc`,
+  });
+  return records.map(toVersion);
+};
+/**
+ * Makes a new file the current version of a document. The previous versions
+ * and their blobs are left untouched.
+ * @param document The document as last read (its etag guards the update)
+ * @param file The new file's URL, type, size and uploader
+ * @param options.notes Version notes
+ * @param options.restoredFromVersionId Set when re-instating an earlier version
+ * @returns The updated document and the new version record
+ */
+export const addDocumentVersion = async (
+  document: DocumentRecord,
+  file: Pick<DocumentVersion, "fileUrl" | "fileType" | "fileSize" | "uploadedBy">,
+  options: { notes?: string; restoredFromVersionId?: string } = {}
+) => {
+  const client = getClient();
+  const [latest] = await getDocumentVersions(document.id!);
+  const versionNumber = Math.max(document.versionNumber || 1, latest?.versionNumber || 0) + 1;
+  const uploadDate = new Date().toISOString().split("T")[0];
+  const version = toVersion(
+    await client.create(
+      documentVersionFieldMap.entitySet,
+      toDataverseRecord(documentVersionFieldMap, {
+        ...file,
+        documentId: document.id!,
+        versionNumber,
+        uploadDate,
+        notes: options.notes,
+        previousVersionId: latest?.id,
+        restoredFromVersionId: options.restoredFromVersionId,
+      })
+    )
+  );
+  try {
+    const updated = await updateDocument(
+      document.id!,
+      { ...file, uploadDate, versionNumber, previousVersionId: latest?.id },
+      { etag: document.etag }
+    );
+    return { document: updated, version };
+  } catch (error) {
+    // The document never pointed at this version; don't leave it in the history
+    await client.remove(documentVersionFieldMap.entitySet, version.id!);
+    throw error;
+  }
+};
+/**
+ * Re-instates an earlier version as the current one by adding a new version
+ * that points at the same blob
+ * @param document The document as last read
+ * @param version The version to restore
+ * @param uploadedBy Who is restoring it
+ * @returns The updated document and the new version record
+ */
+export const restoreDocumentVersion = (
+  document: DocumentRecord,
+  version: DocumentVersion,
+  uploadedBy: string
+) =>
+  addDocumentVersion(
+    document,
     {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
+      fileUrl: version.fileUrl,
+      fileType: version.fileType,
+      fileSize: version.fileSize,
+      uploadedBy,
     },
-  )
-  if (!response.ok) {
-    throw new Error(`Failed to get document versions: ${response.statusText}`)
-  }
-  const data = await response.json()
-  // Transform the data to match our interface
-  return data.value.map((record: any) => ({
-    id: record.cr123_documentid,
-    name: record.cr123_name,
-    category: record.cr123_category,
-    description: record.cr123_description,
-    expiryDate: record.cr123_expirydate,
-    tags: record.cr123_tags?.split(',') || [],
-    isConfidential: record.cr123_isconfidential,
-    fileType: record.cr123_filetype,
-    fileSize: record.cr123_filesize,
-    uploadDate: record.cr123_uploaddate,
-    uploadedBy: record.cr123_uploadedby,
-    status: record.cr123_status,
-    fileUrl: record.cr123_fileurl,
-    versionNumber: record.cr123_versionnumber,
-    previousVersionId: record.cr123_previousversionid,
-  }))
-  */
+    {
+      notes: `Restored from version ${version.versionNumber}`,
+      restoredFromVersionId: version.id,
+    }
+  );
+/**
+ * Creates a service request, with the documents attached for the product's
+ * required documents
+ * @param request The request; the id is assigned by Dataverse
+ * @returns The created service request
+ */
+export const createServiceRequest = async (request: Omit<ServiceRequest, "id">) => {
+  const record = await getClient().create(
+    serviceRequestFieldMap.entitySet,
+    toDataverseRecord(serviceRequestFieldMap, { entityId: activeEntityId ?? undefined, ...request })
+  );
+  return fromDataverseRecord(serviceRequestFieldMap, record);
+};
+/**
+ * Gets the active entity's service requests from Dataverse, newest first
+ * @returns An array of service requests
+ */
+export const getServiceRequests = async () => {
+  const records = await getClient().list(serviceRequestFieldMap.entitySet, {
+    select: selectColumns(serviceRequestFieldMap),
+    filter: entityFilter(serviceRequestFieldMap),
+    orderBy: `${columnOf(serviceRequestFieldMap, "submittedDate")} desc`,
+    pageSize: 500,
+  });
+  return records.map((record) => fromDataverseRecord(serviceRequestFieldMap, record));
+};
+/**
+ * Gets the team: active and deactivated members and open invitations
+ * @returns Members ordered by name
+ */
+export const getTeamMembers = async () => {
+  const records = await getClient().list(teamMemberFieldMap.entitySet, {
+    select: selectColumns(teamMemberFieldMap),
+    orderBy: columnOf(teamMemberFieldMap, "name"),
+    pageSize: 500,
+  });
+  return records.map((record) => fromDataverseRecord(teamMemberFieldMap, record));
+};
+/**
+ * Adds a team member or invitation
+ * @param member The member; the id is assigned by Dataverse
+ * @returns The created member
+ */
+export const createTeamMember = async (member: Omit<TeamMember, "id">) => {
+  const record = await getClient().create(
+    teamMemberFieldMap.entitySet,
+    toDataverseRecord(teamMemberFieldMap, member)
+  );
+  return fromDataverseRecord(teamMemberFieldMap, record);
+};
+/**
+ * Updates a team member
+ * @param id The member ID
+ * @param changes The fields to change
+ * @returns The updated member
+ */
+export const updateTeamMember = async (id: string, changes: Partial<TeamMember>) => {
+  const record = await getClient().update(
+    teamMemberFieldMap.entitySet,
+    id,
+    toDataverseRecord(teamMemberFieldMap, changes)
+  );
+  return fromDataverseRecord(teamMemberFieldMap, record);
+};
+/**
+ * Deletes a team member (used to withdraw an invitation)
+ * @param id The member ID
+ */
+export const deleteTeamMember = async (id: string) => {
+  await getClient().remove(teamMemberFieldMap.entitySet, id);
+};
+/**
+ * Gets the custom roles
+ * @returns Roles ordered by name
+ */
+export const getTeamRoles = async () => {
+  const records = await getClient().list(teamRoleFieldMap.entitySet, {
+    select: selectColumns(teamRoleFieldMap),
+    orderBy: columnOf(teamRoleFieldMap, "name"),
+  });
+  return records.map((record) => fromDataverseRecord(teamRoleFieldMap, record));
+};
+/**
+ * Creates a custom role
+ * @param role The role; the id is assigned by Dataverse
+ * @returns The created role
+ */
+export const createTeamRole = async (role: Omit<TeamRole, "id">) => {
+  const record = await getClient().create(
+    teamRoleFieldMap.entitySet,
+    toDataverseRecord(teamRoleFieldMap, role)
+  );
+  return fromDataverseRecord(teamRoleFieldMap, record);
+};
+/**
+ * Updates a custom role
+ * @param id The role ID
+ * @param changes The fields to change
+ * @returns The updated role
+ */
+export const updateTeamRole = async (id: string, changes: Partial<TeamRole>) => {
+  const record = await getClient().update(
+    teamRoleFieldMap.entitySet,
+    id,
+    toDataverseRecord(teamRoleFieldMap, changes)
+  );
+  return fromDataverseRecord(teamRoleFieldMap, record);
+};
+/**
+ * Deletes a custom role
+ * @param id The role ID
+ */
+export const deleteTeamRole = async (id: string) => {
+  await getClient().remove(teamRoleFieldMap.entitySet, id);
 };
 
-// Mock implementation of Dataverse API service
-// In a real implementation, this would make actual API calls to Dataverse
-// Mock cache to simulate API data
-let dataCache = null;
-// Simulate API call to fetch business profile data
+/**
+ * Gets a user's saved onboarding answers for an entity
+ * @param userId The user's MSAL local account id
+ * @param entityId The business entity being onboarded
+ * @returns The draft, or null when nothing was saved yet
+ */
+export const getOnboardingDraft = async (userId: string, entityId: string) => {
+  const [record] = await getClient().list(onboardingDraftFieldMap.entitySet, {
+    select: selectColumns(onboardingDraftFieldMap),
+    filter: [
+      `${columnOf(onboardingDraftFieldMap, "userId")} eq ${odataString(userId)}`,
+      `${columnOf(onboardingDraftFieldMap, "entityId")} eq ${odataString(entityId)}`,
+    ].join(" and "),
+    top: 1,
+  });
+  return record ? fromDataverseRecord(onboardingDraftFieldMap, record) : null;
+};
+/**
+ * Saves onboarding answers, replacing the user's earlier draft for the entity
+ * @param draft The draft; with an id it updates that row
+ * @returns The saved draft
+ */
+export const saveOnboardingDraft = async (draft: OnboardingDraft) => {
+  const { id, ...values } = draft;
+  const existingId = id || (await getOnboardingDraft(draft.userId, draft.entityId))?.id;
+  const record = existingId
+    ? await getClient().update(
+        onboardingDraftFieldMap.entitySet,
+        existingId,
+        toDataverseRecord(onboardingDraftFieldMap, values)
+      )
+    : await getClient().create(
+        onboardingDraftFieldMap.entitySet,
+        toDataverseRecord(onboardingDraftFieldMap, values)
+      );
+  return fromDataverseRecord(onboardingDraftFieldMap, record);
+};
+/**
+ * Deletes an onboarding draft, e.g. once onboarding was submitted
+ * @param id The draft ID
+ */
+export const deleteOnboardingDraft = async (id: string) => {
+  await getClient().remove(onboardingDraftFieldMap.entitySet, id);
+};
+
+// Business profile data is one Dataverse row per entity; the active entity's
+// last read copy (including its etag) is the base the next save merges into
+let dataCache: any = null;
+const toProfile = (record: Record<string, any>) => {
+  const { id, data } = fromDataverseRecord(profileFieldMap, record);
+  return { ...data, id, etag: record["@odata.etag"] };
+};
+const ENTITY_COLUMNS = [
+  profileFieldMap.primaryKey,
+  columnOf(profileFieldMap, "name"),
+  columnOf(profileFieldMap, "createdAt"),
+  columnOf(profileFieldMap, "onboardingCompletedAt"),
+].join(",");
+const toEntity = (record: Record<string, any>, isPrimary: boolean): BusinessEntity => {
+  const { id, name, createdAt, onboardingCompletedAt } = fromDataverseRecord(profileFieldMap, record);
+  return {
+    id: id!,
+    name: name || "Unnamed business",
+    createdAt: createdAt || "",
+    onboardingCompletedAt: onboardingCompletedAt || "",
+    isPrimary,
+  };
+};
+// Onboarding state kept in the browser before it was stored per entity
+const wasOnboardedLocally = () => {
+  if (localStorage.getItem("onboardingComplete") === "true") return true;
+  try {
+    const stored = JSON.parse(localStorage.getItem("profileData") || "null");
+    return !!stored?.companyStage && Object.keys(stored?.sections?.basic?.fields || {}).length > 0;
+  } catch {
+    return false;
+  }
+};
+// Point rows written before entities existed at the entity that now owns them
+const adoptUnscopedRows = async <T extends { entityId?: string }>(map: FieldMap<T>, entityId: string) => {
+  const client = getClient();
+  const column = columnOf(map, "entityId");
+  const rows = await client.list(map.entitySet, {
+    select: map.primaryKey,
+    filter: `${column} eq null`,
+    pageSize: 500,
+  });
+  for (const row of rows) {
+    await client.update(map.entitySet, row[map.primaryKey], { [column]: entityId });
+  }
+};
+// Documents, requests and the onboarding flag from before multi-entity support
+// belong to the account's first entity; moved over once per session
+let legacyDataAdoption: Promise<void> | null = null;
+const adoptLegacyData = async (primary: BusinessEntity) => {
+  await adoptUnscopedRows(documentFieldMap, primary.id);
+  await adoptUnscopedRows(serviceRequestFieldMap, primary.id);
+  if (!primary.onboardingCompletedAt && wasOnboardedLocally()) {
+    primary.onboardingCompletedAt = new Date().toISOString();
+    await getClient().update(
+      profileFieldMap.entitySet,
+      primary.id,
+      toDataverseRecord(profileFieldMap, { onboardingCompletedAt: primary.onboardingCompletedAt })
+    );
+  }
+  localStorage.removeItem("onboardingComplete");
+};
+/**
+ * Gets the business entities the user manages, oldest first. On the first
+ * visit the demo profile becomes the first entity.
+ * @returns The entities; never empty
+ */
+export const getBusinessEntities = async () => {
+  const client = getClient();
+  let records = await client.list(profileFieldMap.entitySet, {
+    select: ENTITY_COLUMNS,
+    orderBy: columnOf(profileFieldMap, "createdAt"),
+  });
+  if (records.length === 0) {
+    // First visit: start from the demo profile (or what was saved locally before)
+    const initial = generateMockDataverseResponse();
+    records = [
+      await client.create(
+        profileFieldMap.entitySet,
+        toDataverseRecord(profileFieldMap, {
+          name: initial.name,
+          data: initial,
+          createdAt: new Date().toISOString(),
+        })
+      ),
+    ];
+  }
+  const entities = records.map((record, index) => toEntity(record, index === 0));
+  if (!legacyDataAdoption) {
+    legacyDataAdoption = adoptLegacyData(entities[0]).catch((error) => {
+      legacyDataAdoption = null;
+      throw error;
+    });
+  }
+  await legacyDataAdoption;
+  return entities;
+};
+// Registration numbers compare case-insensitively and without surrounding spaces
+const normalizeRegistrationNumber = (registrationNumber?: string) =>
+  registrationNumber?.trim().toUpperCase() || undefined;
+/**
+ * Whether another business profile already uses a registration number
+ * @param registrationNumber The number to look up
+ * @param exceptEntityId The entity being edited, which may keep its own number
+ * @returns True when a different entity has it
+ */
+export const isRegistrationNumberTaken = async (
+  registrationNumber: string,
+  exceptEntityId: string | null = activeEntityId
+) => {
+  const normalized = normalizeRegistrationNumber(registrationNumber);
+  if (!normalized) return false;
+  const records = await getClient().list(profileFieldMap.entitySet, {
+    select: profileFieldMap.primaryKey,
+    filter: `${columnOf(profileFieldMap, "registrationNumber")} eq ${odataString(normalized)}`,
+    top: 2,
+  });
+  return records.some((record) => record[profileFieldMap.primaryKey] !== exceptEntityId);
+};
+/**
+ * Adds a business entity with an empty profile; it starts with onboarding
+ * @param name The entity's trade name
+ * @returns The new entity
+ */
+export const createBusinessEntity = async (name: string) => {
+  const record = await getClient().create(
+    profileFieldMap.entitySet,
+    toDataverseRecord(profileFieldMap, {
+      name,
+      data: { name, companyStage: "startup", sections: {} },
+      createdAt: new Date().toISOString(),
+    })
+  );
+  return toEntity(record, false);
+};
+/**
+ * Records that onboarding was submitted for an entity
+ * @param entityId The entity; defaults to the active one
+ */
+export const setOnboardingCompleted = async (entityId = activeEntityId) => {
+  if (!entityId) throw new Error("No business entity selected");
+  await getClient().update(
+    profileFieldMap.entitySet,
+    entityId,
+    toDataverseRecord(profileFieldMap, { onboardingCompletedAt: new Date().toISOString() })
+  );
+};
+const loadProfile = async () => {
+  const entityId = activeEntityId || (await getBusinessEntities())[0].id;
+  const record = await getClient().get(profileFieldMap.entitySet, entityId);
+  if (!record) throw new Error("This business entity no longer exists");
+  return toProfile(record);
+};
+// Fetch the active entity's business profile from Dataverse
 export const fetchBusinessProfileData = async () => {
-  // Simulate API latency
-  await new Promise((resolve) => setTimeout(resolve, 300));
-  // If we have cached data, return it
-  if (dataCache) {
-    return dataCache;
+  dataCache = await loadProfile();
+  return dataCache;
+};
+/**
+ * User recorded against audit entries (the AuthContext user)
+ */
+export interface AuditUser {
+  id: string;
+  name: string;
+  email: string;
+}
+// Top-level profile properties that are audited under the "company" section
+const AUDITED_PROFILE_PROPERTIES = ["name", "companyType", "companySize", "companyStage"];
+const auditValue = (value: unknown) =>
+  value === undefined || value === null
+    ? ""
+    : typeof value === "string"
+    ? value
+    : JSON.stringify(value);
+// Fall back to the signed-in MSAL account when the caller has no AuthContext
+const getCurrentAuditUser = (): AuditUser => {
+  const account =
+    msalInstance.getActiveAccount() || msalInstance.getAllAccounts()[0];
+  return {
+    id: account?.localAccountId || "",
+    name: account?.name || "Unknown user",
+    email: account?.username || "",
+  };
+};
+/**
+ * Lists the field-level differences between two profile versions
+ * @param before The profile before the save
+ * @param after The profile after the save
+ * @returns Changed fields with their old and new values
+ */
+const diffProfile = (before, after) => {
+  const changes: Pick<ProfileAuditEntry, "section" | "fieldName" | "oldValue" | "newValue">[] = [];
+  AUDITED_PROFILE_PROPERTIES.forEach((property) => {
+    const oldValue = auditValue(before?.[property]);
+    const newValue = auditValue(after?.[property]);
+    if (oldValue !== newValue) {
+      changes.push({ section: "company", fieldName: property, oldValue, newValue });
+    }
+  });
+  const sectionIds = new Set([
+    ...Object.keys(before?.sections || {}),
+    ...Object.keys(after?.sections || {}),
+  ]);
+  sectionIds.forEach((section) => {
+    const oldFields = before?.sections?.[section]?.fields || {};
+    const newFields = after?.sections?.[section]?.fields || {};
+    new Set([...Object.keys(oldFields), ...Object.keys(newFields)]).forEach((fieldName) => {
+      const oldValue = auditValue(oldFields[fieldName]);
+      const newValue = auditValue(newFields[fieldName]);
+      if (oldValue !== newValue) {
+        changes.push({ section, fieldName, oldValue, newValue });
+      }
+    });
+  });
+  return changes;
+};
+/**
+ * Gets audit entries for the business profile, newest first
+ * @param filter Optional section and field to narrow the history to
+ * @returns The matching audit entries
+ */
+export const getProfileAuditEntries = async (
+  filter: { section?: string; fieldName?: string } = {}
+) => {
+  const profile = dataCache || (await fetchBusinessProfileData());
+  const clauses = [
+    `${columnOf(profileAuditFieldMap, "profileId")} eq ${odataString(profile.id)}`,
+  ];
+  if (filter.section) {
+    clauses.push(`${columnOf(profileAuditFieldMap, "section")} eq ${odataString(filter.section)}`);
+  }
+  if (filter.fieldName) {
+    clauses.push(`${columnOf(profileAuditFieldMap, "fieldName")} eq ${odataString(filter.fieldName)}`);
+  }
+  const records = await getClient().list(profileAuditFieldMap.entitySet, {
+    select: selectColumns(profileAuditFieldMap),
+    filter: clauses.join(" and "),
+    orderBy: `${columnOf(profileAuditFieldMap, "changedAt")} desc`,
+    pageSize: 500,
+  });
+  return records.map((record) => fromDataverseRecord(profileAuditFieldMap, record));
+};
+// Audit rows that could not be written yet, retried until they are
+const pendingAuditEntries: Record<string, unknown>[] = [];
+const AUDIT_RETRY_MS = 30_000;
+let auditRetryTimer: ReturnType<typeof setTimeout> | null = null;
+// Write the queued audit rows. Rows that fail go back on the queue on their
+// own, so a partial failure never writes the others twice.
+const flushProfileAudit = async () => {
+  const batch = pendingAuditEntries.splice(0);
+  const results = await Promise.allSettled(
+    batch.map((entry) => getClient().create(profileAuditFieldMap.entitySet, entry))
+  );
+  const failed = batch.filter((_, index) => results[index].status === "rejected");
+  if (failed.length === 0) return;
+  console.error(
+    `Error recording ${failed.length} profile audit entries; retrying:`,
+    results.find((result) => result.status === "rejected")
+  );
+  pendingAuditEntries.unshift(...failed);
+  if (!auditRetryTimer) {
+    auditRetryTimer = setTimeout(() => {
+      auditRetryTimer = null;
+      flushProfileAudit();
+    }, AUDIT_RETRY_MS);
   }
-  // Otherwise, simulate API response with mock data
-  // In a real implementation, this would be:
-  // const response = await fetch('https://your-dataverse-api-endpoint/business-profiles/current');
-  // const data = await response.json();
-  // For now, we'll use the mock data structure but format it as if it came from Dataverse
-  const mockData = generateMockDataverseResponse();
-  dataCache = mockData;
-  return mockData;
-};
-// Save profile data to Dataverse
-export const saveProfileData = async (profileData) => {
-  // Simulate API latency
-  await new Promise((resolve) => setTimeout(resolve, 800));
-  // In a real implementation, this would be:
-  // const response = await fetch('https://your-dataverse-api-endpoint/business-profiles/current', {
-  //   method: 'PUT',
-  //   headers: {
-  //     'Content-Type': 'application/json',
-  //   },
-  //   body: JSON.stringify(profileData),
-  // });
-  // const data = await response.json();
-  // For now, we'll just update our cache
-  dataCache = {
-    ...dataCache,
+};
+// Queue one audit row per changed field. The profile is already saved, so a
+// failed write is retried in the background rather than reported as a failed
+// save; rows still queued when the page is closed are lost.
+const recordProfileChanges = async (before, after, user: AuditUser) => {
+  const changedAt = new Date().toISOString();
+  pendingAuditEntries.push(
+    ...diffProfile(before, after).map((change) =>
+      toDataverseRecord(profileAuditFieldMap, {
+        ...change,
+        profileId: after.id,
+        changedById: user.id,
+        changedByName: user.name,
+        changedByEmail: user.email,
+        changedAt,
+      })
+    )
+  );
+  await flushProfileAudit();
+};
+/**
+ * Save profile data to Dataverse
+ *
+ * The payload is merged into the last fetched profile (sections are merged by
+ * key) and written with If-Match. If someone else saved in the meantime a
+ * ConcurrencyConflictError is thrown carrying the current server profile;
+ * the cache is moved to that copy so a retry with its etag merges onto it.
+ * Every changed field is recorded as a ProfileAuditEntry.
+ * @param profileData Top-level fields and/or whole sections to write
+ * @param options.etag Row version to match; defaults to the cached profile's
+ * @param options.user Who made the change; defaults to the signed-in account
+ * @returns The saved profile
+ */
+export const saveProfileData = async (
+  profileData,
+  options: { etag?: string; user?: AuditUser | null } = {}
+) => {
+  const base = dataCache || (await fetchBusinessProfileData());
+  const { id, etag, ...merged } = {
+    ...base,
     ...profileData,
     // Merge sections rather than replacing them
     sections: {
-      ...(dataCache?.sections || {}),
+      ...(base?.sections || {}),
       ...profileData.sections,
     },
   };
-  // Store in localStorage for persistence across page reloads
-  localStorage.setItem("profileData", JSON.stringify(dataCache));
+  let updated;
+  try {
+    updated = await getClient().update(
+      profileFieldMap.entitySet,
+      base.id,
+      toDataverseRecord(profileFieldMap, {
+        name: merged.name,
+        data: merged,
+        registrationNumber: normalizeRegistrationNumber(merged.sections?.basic?.fields?.registrationNumber),
+      }),
+      options.etag || etag || "*"
+    );
+  } catch (error) {
+    if (error instanceof ConcurrencyConflictError) {
+      const current = await fetchBusinessProfileData();
+      throw new ConcurrencyConflictError(
+        "The business profile was changed by someone else since you opened it.",
+        { response: error.response, current, currentEtag: current.etag }
+      );
+    }
+    throw error;
+  }
+  dataCache = toProfile(updated);
+  await recordProfileChanges(base, dataCache, options.user || getCurrentAuditUser());
   return dataCache;
 };
 // Calculate completion percentage for a section based on field values
@@ -391,12 +1147,15 @@ export const calculateSectionCompletion = (sectionData) => {
   });
   return Math.round((completedFields / totalFields) * 100);
 };
-// Calculate mandatory fields completion for a section based on company stage
+// Calculate mandatory fields completion for a section based on company stage.
+// Field rules are evaluated against `values` (the whole profile, see
+// getProfileValues); fields they hide are not counted.
 export const calculateMandatoryCompletion = (
   sectionData,
   sectionId,
   companyStage,
-  config
+  config,
+  values: Record<string, any> = { companyStage, ...sectionData?.fields }
 ) => {
   if (!sectionData || !sectionData.fields || !config) {
     return { completed: 0, total: 0, percentage: 0 };
@@ -407,7 +1166,8 @@ export const calculateMandatoryCompletion = (
   let completedMandatory = 0;
   sectionConfig.groups.forEach((group) => {
     group.fields.forEach((field) => {
-      if (field.mandatory && field.mandatory.includes(companyStage)) {
+      const stageMandatory = !!(field.mandatory && field.mandatory.includes(companyStage));
+      if (getFieldState(field, values, stageMandatory).required) {
         mandatoryFields++;
         if (
           sectionData.fields[field.fieldName] &&
@@ -427,45 +1187,15 @@ export const calculateMandatoryCompletion = (
         : 100,
   };
 };
-// Check if onboarding has been completed
-export const isOnboardingCompleted = () => {
-  // Check localStorage first
-  const onboardingStatus = localStorage.getItem("onboardingComplete");
-  if (onboardingStatus === "true") {
-    return true;
-  }
-  // Check if we have profile data in the cache
-  if (dataCache) {
-    // Check if mandatory fields are filled
-    const { companyStage, sections } = dataCache;
-    if (!companyStage || !sections) {
-      return false;
-    }
-    // For simplicity, we'll consider onboarding complete if basic section exists
-    return (
-      sections.basic && Object.keys(sections.basic.fields || {}).length > 0
-    );
-  }
-  // Check localStorage for profile data
-  const storedData = localStorage.getItem("profileData");
-  if (storedData) {
-    try {
-      const parsedData = JSON.parse(storedData);
-      dataCache = parsedData; // Update cache
-      // Same check as above
-      const { companyStage, sections } = parsedData;
-      if (!companyStage || !sections) {
-        return false;
-      }
-      return (
-        sections.basic && Object.keys(sections.basic.fields || {}).length > 0
-      );
-    } catch (error) {
-      console.error("Error parsing stored profile data:", error);
-      return false;
-    }
-  }
-  return false;
+/**
+ * Whether onboarding has been submitted for an entity
+ * @param entityId The entity; defaults to the active one, or the first
+ * @returns True once setOnboardingCompleted has been called for it
+ */
+export const isOnboardingCompleted = async (entityId = activeEntityId) => {
+  const entities = await getBusinessEntities();
+  const entity = entityId ? entities.find((candidate) => candidate.id === entityId) : entities[0];
+  return !!entity?.onboardingCompletedAt;
 };
 // Generate mock data structure that simulates Dataverse API response
 function generateMockDataverseResponse() {
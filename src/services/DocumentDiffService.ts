@@ -0,0 +1,83 @@
+/**
+ * Compares two stored document versions. Files are fetched through
+ * short-lived read SAS URLs and processed in a Web Worker.
+ */
+import {
+  generateDownloadSasUrl,
+  getBlobNameFromUrl,
+} from "./AzureBlobService";
+import type {
+  DocumentDiffMessage,
+  DocumentDiffStage,
+} from "../workers/documentDiff.worker";
+import type { DocumentDiff } from "../utils/textDiff";
+
+export type { DocumentDiffStage };
+
+export interface CompareOptions {
+  onProgress?: (stage: DocumentDiffStage) => void;
+  signal?: AbortSignal;
+}
+
+let nextRequestId = 1;
+
+/**
+ * Extracts and diffs the text of two stored files
+ * @param baseFileUrl Blob URL of the older version
+ * @param targetFileUrl Blob URL of the newer version
+ * @param options Progress callback and abort signal (aborting stops the worker)
+ * @returns Diff rows and a change summary
+ */
+export const compareDocumentFiles = async (
+  baseFileUrl: string,
+  targetFileUrl: string,
+  options: CompareOptions = {}
+): Promise<DocumentDiff> => {
+  const sign = async (fileUrl: string) => {
+    const blobName = getBlobNameFromUrl(fileUrl);
+    return {
+      url: await generateDownloadSasUrl(blobName, { disposition: "inline", expiryMinutes: 5 }),
+      fileName: blobName,
+    };
+  };
+  const [base, target] = await Promise.all([sign(baseFileUrl), sign(targetFileUrl)]);
+  if (options.signal?.aborted) {
+    throw new DOMException("Aborted", "AbortError");
+  }
+
+  const worker = new Worker(new URL("../workers/documentDiff.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const id = nextRequestId++;
+
+  return new Promise<DocumentDiff>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<DocumentDiffMessage>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+      if (message.type === "progress") {
+        options.onProgress?.(message.stage);
+      } else if (message.type === "result") {
+        finish();
+        resolve(message.diff);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Document comparison failed"));
+    };
+    worker.postMessage({ id, base, target });
+  });
+};
@@ -0,0 +1,353 @@
+/**
+ * Exports wallet documents as a ZIP built in the browser. Files are fetched
+ * one at a time through short-lived read SAS URLs and streamed into the
+ * archive chunk by chunk, so only one network chunk is held in memory at a
+ * time. Where the File System Access API exists the archive is written
+ * straight to disk; elsewhere it is assembled as a Blob, which browsers can
+ * page out of memory.
+ *
+ * The archive ends with manifest.json and manifest.csv listing every file
+ * with its metadata, version number, expiry and SHA-256 checksum. Files that
+ * could not be fetched are listed with an error instead of failing the export.
+ *
+ * Files are stored uncompressed: most documents are PDFs, images or Office
+ * files that are already compressed. fflate does not write ZIP64, so an
+ * archive is limited to 4 GB and 65,535 files.
+ */
+import { Zip, ZipPassThrough, strToU8 } from "fflate";
+import { generateDownloadSasUrl, getBlobNameFromUrl } from "./AzureBlobService";
+import { DocumentMetadata, getDocumentVersions } from "./DataverseService";
+import { createSha256 } from "../utils/sha256";
+import { CsvColumn, toCsv } from "../utils/csv";
+
+/** Document fields used by the export; wallet and report documents both fit */
+export type ExportableDocument = Pick<DocumentMetadata, "name" | "category" | "fileUrl"> &
+  Partial<Omit<DocumentMetadata, "name" | "category" | "fileUrl">>;
+
+export interface ExportManifestEntry {
+  /** Path inside the archive; null when the file could not be fetched */
+  path: string | null;
+  documentId: string;
+  name: string;
+  category: string;
+  description: string;
+  tags: string[];
+  versionNumber: number | null;
+  isCurrentVersion: boolean;
+  uploadDate: string;
+  uploadedBy: string;
+  expiryDate: string | null;
+  status: string;
+  fileType: string;
+  sizeBytes: number | null;
+  sha256: string | null;
+  error: string | null;
+}
+
+export interface ExportManifest {
+  exportedAt: string;
+  documentCount: number;
+  includeVersions: boolean;
+  files: ExportManifestEntry[];
+}
+
+export interface ExportProgress {
+  /** Documents finished so far (all of their versions included) */
+  completedDocuments: number;
+  totalDocuments: number;
+  /** Name of the file being added, if any */
+  currentFile: string | null;
+  bytesWritten: number;
+}
+
+export interface ExportOptions {
+  /** Also add every earlier version under versions/ */
+  includeVersions?: boolean;
+  /** Name of the downloaded archive */
+  fileName?: string;
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExportResult {
+  manifest: ExportManifest;
+  /** Files that could not be added */
+  failedCount: number;
+  bytesWritten: number;
+}
+
+interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+// Blob parts are merged into one Blob past this size so the browser can page them to disk
+const BLOB_FLUSH_BYTES = 32 * 1024 * 1024;
+
+const MANIFEST_COLUMNS: CsvColumn<ExportManifestEntry>[] = [
+  { header: "Path", value: (entry) => entry.path },
+  { header: "Document ID", value: (entry) => entry.documentId },
+  { header: "Name", value: (entry) => entry.name },
+  { header: "Category", value: (entry) => entry.category },
+  { header: "Version", value: (entry) => entry.versionNumber },
+  { header: "Current Version", value: (entry) => (entry.isCurrentVersion ? "Yes" : "No") },
+  { header: "Upload Date", value: (entry) => entry.uploadDate },
+  { header: "Uploaded By", value: (entry) => entry.uploadedBy },
+  { header: "Expiry Date", value: (entry) => entry.expiryDate },
+  { header: "Status", value: (entry) => entry.status },
+  { header: "File Type", value: (entry) => entry.fileType },
+  { header: "Size (bytes)", value: (entry) => entry.sizeBytes },
+  { header: "SHA-256", value: (entry) => entry.sha256 },
+  { header: "Tags", value: (entry) => entry.tags.join("; ") },
+  { header: "Description", value: (entry) => entry.description },
+  { header: "Error", value: (entry) => entry.error },
+];
+
+const abortError = () => new DOMException("Aborted", "AbortError");
+
+// Characters Windows and macOS reject in file names, plus control characters
+const sanitizeSegment = (segment: string) =>
+  segment.replace(/[\\/:*?"<>|\p{Cc}]+/gu, "_").replace(/^[.\s]+|[.\s]+$/g, "").slice(0, 120) ||
+  "document";
+
+const getExtension = (fileName: string) => fileName.match(/\.[A-Za-z0-9]{1,8}$/)?.[0] || "";
+
+/**
+ * Opens a save-file stream when the File System Access API is available,
+ * otherwise collects the archive into a Blob and downloads it at the end.
+ * Must be called before any other await so the file picker still counts as
+ * user-initiated.
+ */
+const openSink = async (fileName: string): Promise<ZipSink> => {
+  const picker = (window as any).showSaveFilePicker as
+    | ((options: unknown) => Promise<{ createWritable: () => Promise<any> }>)
+    | undefined;
+  if (picker) {
+    const handle = await picker({
+      suggestedName: fileName,
+      types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+    });
+    const writable = await handle.createWritable();
+    return {
+      write: (chunk) => writable.write(chunk),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  let blobs: Blob[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  const flush = () => {
+    blobs = [new Blob([...blobs, ...(pending as BlobPart[])], { type: "application/zip" })];
+    pending = [];
+    pendingBytes = 0;
+  };
+  return {
+    write: async (chunk) => {
+      pending.push(chunk);
+      pendingBytes += chunk.length;
+      if (pendingBytes >= BLOB_FLUSH_BYTES) flush();
+    },
+    close: async () => {
+      flush();
+      const url = URL.createObjectURL(blobs[0]);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      // Give the download a moment to start before releasing the Blob
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    },
+    abort: async () => {
+      blobs = [];
+      pending = [];
+    },
+  };
+};
+
+/**
+ * Streams the documents (and optionally their earlier versions) into a ZIP
+ * @param documents The documents to export, e.g. the selected or filtered rows
+ * @param options Versions, archive name, progress callback and abort signal
+ * @returns The manifest written into the archive and a failure count
+ */
+export const exportDocumentsZip = async (
+  documents: ExportableDocument[],
+  options: ExportOptions = {}
+): Promise<ExportResult> => {
+  const { includeVersions = false, signal, onProgress } = options;
+  const fileName = options.fileName || `documents-${new Date().toISOString().split("T")[0]}.zip`;
+  const sink = await openSink(fileName);
+
+  let bytesWritten = 0;
+  let writeError: unknown = null;
+  let writes = Promise.resolve();
+  let finished: (() => void) | undefined;
+  const done = new Promise<void>((resolve) => (finished = resolve));
+  // fflate emits synchronously; writes are chained and awaited between chunks for backpressure
+  const zip = new Zip((err, chunk, final) => {
+    if (err) {
+      writeError = err;
+      return;
+    }
+    bytesWritten += chunk.length;
+    writes = writes.then(() => sink.write(chunk)).catch((error) => {
+      writeError = error;
+    });
+    if (final) writes.then(() => finished?.());
+  });
+  const drain = async () => {
+    await writes;
+    if (writeError) throw writeError;
+    if (signal?.aborted) throw abortError();
+  };
+
+  const usedPaths = new Set<string>();
+  const uniquePath = (path: string) => {
+    const extension = getExtension(path);
+    const base = path.slice(0, path.length - extension.length);
+    let candidate = path;
+    for (let n = 2; usedPaths.has(candidate.toLowerCase()); n++) candidate = `${base} (${n})${extension}`;
+    usedPaths.add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  // Fetches one stored file and streams it into the archive while hashing it
+  const addFile = async (path: string, fileUrl: string, modified: string | undefined) => {
+    const blobName = getBlobNameFromUrl(fileUrl);
+    const url = await generateDownloadSasUrl(blobName, { disposition: "attachment", expiryMinutes: 5 });
+    const response = await fetch(url, { signal });
+    if (!response.ok || !response.body) throw new Error(`Download failed (${response.status})`);
+
+    const entry = new ZipPassThrough(uniquePath(path));
+    const mtime = modified ? new Date(modified) : null;
+    // ZIP timestamps cannot predate 1980
+    if (mtime && mtime.getFullYear() >= 1980) entry.mtime = mtime;
+    zip.add(entry);
+    const hash = createSha256();
+    const reader = response.body.getReader();
+    let size = 0;
+    try {
+      for (;;) {
+        const { done: ended, value } = await reader.read();
+        if (ended) break;
+        hash.update(value);
+        size += value.length;
+        entry.push(value);
+        await drain();
+      }
+      entry.push(new Uint8Array(0), true);
+      return { path: entry.filename, size, sha256: hash.digestHex() };
+    } catch (error) {
+      reader.cancel().catch(() => undefined);
+      // Close the entry so the archive stays readable; the manifest marks it incomplete
+      entry.push(new Uint8Array(0), true);
+      throw Object.assign(error instanceof Error ? error : new Error(String(error)), { partialPath: entry.filename });
+    }
+  };
+
+  const files: ExportManifestEntry[] = [];
+  const report = (completedDocuments: number, currentFile: string | null) =>
+    onProgress?.({ completedDocuments, totalDocuments: documents.length, currentFile, bytesWritten });
+
+  try {
+    for (const [index, doc] of documents.entries()) {
+      const folder = sanitizeSegment(doc.category || "Uncategorized");
+      const extension = getExtension(doc.name) ? "" : getExtension(getBlobNameFromUrl(doc.fileUrl));
+      const baseName = sanitizeSegment(doc.name);
+      const base: Omit<ExportManifestEntry, "path" | "sizeBytes" | "sha256" | "error"> = {
+        documentId: doc.id || "",
+        name: doc.name,
+        category: doc.category,
+        description: doc.description || "",
+        tags: doc.tags || [],
+        versionNumber: doc.versionNumber ?? null,
+        isCurrentVersion: true,
+        uploadDate: doc.uploadDate || "",
+        uploadedBy: doc.uploadedBy || "",
+        expiryDate: doc.expiryDate || null,
+        status: doc.status || "",
+        fileType: doc.fileType || "",
+      };
+
+      // Adds one file and records it in the manifest, whether or not it succeeded
+      const exportFile = async (
+        path: string,
+        fileUrl: string,
+        entry: Omit<ExportManifestEntry, "path" | "sizeBytes" | "sha256" | "error">
+      ) => {
+        report(index, path);
+        try {
+          const added = await addFile(path, fileUrl, entry.uploadDate);
+          files.push({ ...entry, path: added.path, sizeBytes: added.size, sha256: added.sha256, error: null });
+        } catch (error: any) {
+          if (signal?.aborted || error === writeError) throw error;
+          console.error(`Error exporting ${path}:`, error);
+          files.push({
+            ...entry,
+            path: error?.partialPath || null,
+            sizeBytes: null,
+            sha256: null,
+            error: error?.partialPath ? `Incomplete: ${error.message}` : error?.message || "Download failed",
+          });
+        }
+      };
+
+      await exportFile(`${folder}/${baseName}${extension}`, doc.fileUrl, base);
+
+      if (includeVersions && doc.id) {
+        let versions: Awaited<ReturnType<typeof getDocumentVersions>> = [];
+        try {
+          versions = await getDocumentVersions(doc.id);
+        } catch (error) {
+          console.error(`Error loading versions of ${doc.name}:`, error);
+        }
+        for (const version of versions) {
+          if (version.fileUrl === doc.fileUrl) continue;
+          await exportFile(
+            `versions/${folder}/${baseName}/v${version.versionNumber}${getExtension(getBlobNameFromUrl(version.fileUrl)) || extension}`,
+            version.fileUrl,
+            {
+              ...base,
+              versionNumber: version.versionNumber,
+              isCurrentVersion: false,
+              uploadDate: version.uploadDate,
+              uploadedBy: version.uploadedBy,
+              fileType: version.fileType,
+              description: version.notes || base.description,
+            }
+          );
+        }
+      }
+    }
+
+    const manifest: ExportManifest = {
+      exportedAt: new Date().toISOString(),
+      documentCount: documents.length,
+      includeVersions,
+      files,
+    };
+    for (const [name, content] of [
+      ["manifest.json", JSON.stringify(manifest, null, 2)],
+      ["manifest.csv", "\uFEFF" + toCsv(files, MANIFEST_COLUMNS)],
+    ]) {
+      const entry = new ZipPassThrough(uniquePath(name));
+      zip.add(entry);
+      entry.push(strToU8(content), true);
+    }
+    zip.end();
+    await done;
+    await drain();
+    await sink.close();
+    report(documents.length, null);
+    return { manifest, failedCount: files.filter((file) => file.error).length, bytesWritten };
+  } catch (error) {
+    zip.terminate();
+    await sink.abort().catch(() => undefined);
+    throw signal?.aborted ? abortError() : error;
+  }
+};
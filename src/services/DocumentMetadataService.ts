@@ -0,0 +1,172 @@
+/**
+ * Suggests metadata for files being uploaded to the wallet and syncs
+ * extracted identifiers into the business profile.
+ *
+ * Text is extracted in a Web Worker from the local File, before upload.
+ */
+import { profileConfig } from "../utils/config";
+import { getTextExtractableType } from "../utils/documentText";
+import type { ExtractedMetadata, MetadataSuggestion } from "../utils/documentMetadata";
+import type { DocumentMetadataMessage } from "../workers/documentMetadata.worker";
+import { ConcurrencyConflictError } from "./dataverse/client";
+import {
+  AuditUser,
+  fetchBusinessProfileData,
+  saveProfileData,
+} from "./DataverseService";
+
+export type { ExtractedMetadata, MetadataSuggestion };
+
+// Larger files are skipped; their text rarely fits the rules and parsing is slow
+export const MAX_EXTRACTION_FILE_SIZE = 25 * 1024 * 1024;
+
+/** Which extracted value feeds which profile field */
+const PROFILE_FIELD_SOURCES: {
+  fieldName: string;
+  key: keyof Pick<ExtractedMetadata, "trn" | "licenseNumber" | "expiryDate">;
+  /** Only offered for documents suggested as this category */
+  category?: string;
+}[] = [
+  { fieldName: "vatRegistrationNumber", key: "trn" },
+  { fieldName: "commercialLicenseNumber", key: "licenseNumber" },
+  { fieldName: "licenseExpiry", key: "expiryDate", category: "Licensing" },
+];
+
+export interface ProfileSyncCandidate {
+  sectionId: string;
+  fieldName: string;
+  label: string;
+  value: string;
+  confidence: number;
+  /** What the profile holds now ("" when empty) */
+  currentValue: string;
+}
+
+let nextRequestId = 1;
+
+/**
+ * Whether a file's text can be read for suggestions
+ * @param file The file to check
+ * @returns True for supported types under the size limit
+ */
+export const canExtractMetadata = (file: File): boolean =>
+  file.size <= MAX_EXTRACTION_FILE_SIZE && getTextExtractableType(file.name) !== null;
+
+/**
+ * Reads a local file in a Web Worker and suggests metadata for it
+ * @param file The file picked for upload
+ * @param options Categories to choose from and an abort signal
+ * @returns Suggestions, empty when the file type isn't supported
+ */
+export const extractFileMetadata = async (
+  file: File,
+  options: { categories?: string[]; signal?: AbortSignal } = {}
+): Promise<ExtractedMetadata> => {
+  if (!canExtractMetadata(file)) return {};
+  if (options.signal?.aborted) {
+    throw new DOMException("Aborted", "AbortError");
+  }
+
+  const worker = new Worker(new URL("../workers/documentMetadata.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const id = nextRequestId++;
+
+  return new Promise<ExtractedMetadata>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<DocumentMetadataMessage>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+      finish();
+      if (message.type === "result") resolve(message.metadata);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Metadata extraction failed"));
+    };
+    worker.postMessage({ id, file, categories: options.categories });
+  });
+};
+
+const findProfileField = (fieldName: string) => {
+  for (const tab of profileConfig.tabs) {
+    for (const group of tab.groups) {
+      const field = group.fields.find((f) => f.fieldName === fieldName);
+      if (field) return { sectionId: tab.id, label: field.label };
+    }
+  }
+  return null;
+};
+
+/**
+ * Lists extracted values that could fill or update business profile fields
+ * @param metadata Suggestions for one document
+ * @param profile The current business profile
+ * @returns Candidates whose value differs from what the profile holds
+ */
+export const getProfileSyncCandidates = (
+  metadata: ExtractedMetadata,
+  profile: any
+): ProfileSyncCandidate[] =>
+  PROFILE_FIELD_SOURCES.flatMap(({ fieldName, key, category }) => {
+    const suggestion = metadata[key];
+    if (!suggestion) return [];
+    if (category && metadata.category?.value !== category) return [];
+    const field = findProfileField(fieldName);
+    if (!field) return [];
+    const currentValue = profile?.sections?.[field.sectionId]?.fields?.[fieldName] || "";
+    if (String(currentValue).trim() === suggestion.value) return [];
+    return [
+      {
+        ...field,
+        fieldName,
+        value: suggestion.value,
+        confidence: suggestion.confidence,
+        currentValue: String(currentValue),
+      },
+    ];
+  });
+
+const mergeFields = (profile: any, values: ProfileSyncCandidate[]) => {
+  const sections: Record<string, any> = {};
+  values.forEach(({ sectionId, fieldName, value }) => {
+    const section = sections[sectionId] ||
+      profile?.sections?.[sectionId] || { fields: {}, status: {} };
+    sections[sectionId] = {
+      ...section,
+      fields: { ...section.fields, [fieldName]: value },
+    };
+  });
+  return { sections };
+};
+
+/**
+ * Writes accepted values into the business profile. If someone else saved
+ * the profile meanwhile, the values are re-applied once onto their copy.
+ * @param values Candidates the user chose to sync
+ * @param user Who made the change, for the audit log
+ * @returns The saved profile
+ */
+export const syncExtractedProfileFields = async (
+  values: ProfileSyncCandidate[],
+  user?: AuditUser | null
+) => {
+  const profile = await fetchBusinessProfileData();
+  try {
+    return await saveProfileData(mergeFields(profile, values), { etag: profile.etag, user });
+  } catch (error) {
+    if (!(error instanceof ConcurrencyConflictError)) throw error;
+    const current = error.current as any;
+    return saveProfileData(mergeFields(current, values), { etag: error.currentEtag, user });
+  }
+};
@@ -0,0 +1,165 @@
+/**
+ * Full-text search over the Document Wallet.
+ *
+ * A long-lived Web Worker keeps the index (persisted in IndexedDB per user
+ * and business entity) and extracts file text. This side decides what may be
+ * indexed: the text of confidential documents is only indexed for users who
+ * can open them, and only files the user can get a read SAS for are
+ * downloaded.
+ */
+import { generateDownloadSasUrl, getBlobNameFromUrl } from "./AzureBlobService";
+import type { DocumentMetadata } from "./DataverseService";
+import { getTextExtractableType } from "../utils/documentText";
+import { hasCapability, Permissions } from "../utils/permissions";
+import type { HighlightSegment, SearchHit } from "../utils/searchIndex";
+import type {
+  DocumentSearchMessage,
+  DocumentSearchRequest,
+  SearchableDocument,
+} from "../workers/documentSearch.worker";
+
+export type { HighlightSegment, SearchHit };
+
+export interface IndexingProgress {
+  indexed: number;
+  total: number;
+}
+
+// Requests without their id; the client assigns one
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+type Request = WithoutId<DocumentSearchRequest>;
+
+/**
+ * Whether a user may read a confidential document. Mirrors the API, which
+ * issues read SAS URLs for the entity's documents to anyone with
+ * documents:view (see api/_lib/documentAccess.ts)
+ * @param document The document
+ * @param permissions The signed-in user's permissions
+ * @returns True when the document is not confidential or the user may view documents
+ */
+export const canReadConfidential = (
+  document: Pick<DocumentMetadata, "isConfidential">,
+  permissions: Permissions | null
+): boolean => !document.isConfidential || hasCapability(permissions, "documents:view");
+
+const toSearchable = (document: any, permissions: Permissions | null): SearchableDocument => {
+  const extractable = !!document.fileUrl && getTextExtractableType(document.fileUrl) !== null;
+  return {
+    id: document.id,
+    name: document.name || "",
+    category: document.category || "",
+    tags: document.tags || [],
+    description: document.description || "",
+    contentKey: extractable && canReadConfidential(document, permissions) ? document.fileUrl : null,
+  };
+};
+
+export interface DocumentSearchClient {
+  /**
+   * Indexes the given documents: metadata straight away, file text in the
+   * background (one file at a time) for those the permissions allow
+   */
+  sync: (
+    documents: any[],
+    permissions: Permissions | null,
+    onProgress?: (progress: IndexingProgress) => void
+  ) => Promise<void>;
+  search: (query: string) => Promise<SearchHit[]>;
+  dispose: () => void;
+}
+
+/**
+ * Starts the search worker and opens a user's index of one entity's documents
+ * @param userId The signed-in user's id
+ * @param entityId The business entity; each user and entity gets a separate stored index
+ * @returns Client for syncing and querying the index
+ */
+export const createDocumentSearch = (userId: string, entityId: string): DocumentSearchClient => {
+  const worker = new Worker(new URL("../workers/documentSearch.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const pending = new Map<number, { resolve: (message: DocumentSearchMessage) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 1;
+  let disposed = false;
+  // Bumped on every sync so an older sync stops extracting
+  let syncGeneration = 0;
+  // Files that couldn't be read this session; not retried until reload
+  const failedKeys = new Set<string>();
+
+  worker.onmessage = (event: MessageEvent<DocumentSearchMessage>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === "error") request.reject(new Error(message.message));
+    else request.resolve(message);
+  };
+  worker.onerror = (event) => {
+    const error = new Error(event.message || "Document search failed");
+    pending.forEach((request) => request.reject(error));
+    pending.clear();
+  };
+
+  const send = <T extends DocumentSearchMessage["type"]>(request: Request) =>
+    new Promise<Extract<DocumentSearchMessage, { type: T }>>((resolve, reject) => {
+      if (disposed) {
+        reject(new DOMException("Aborted", "AbortError"));
+        return;
+      }
+      const id = nextRequestId++;
+      pending.set(id, { resolve: resolve as (message: DocumentSearchMessage) => void, reject });
+      worker.postMessage({ ...request, id });
+    });
+
+  const opened = send<"opened">({ type: "open", storeKey: `${userId}:${entityId}` });
+
+  const sync: DocumentSearchClient["sync"] = async (documents, permissions, onProgress) => {
+    const generation = ++syncGeneration;
+    await opened;
+    const { needsContent } = await send<"synced">({
+      type: "sync",
+      documents: documents.map((document) => toSearchable(document, permissions)),
+    });
+    const byId = new Map(documents.map((document) => [document.id, document]));
+    const queue = needsContent
+      .map((id) => byId.get(id))
+      .filter((document) => !failedKeys.has(document.fileUrl));
+    const total = queue.length;
+    for (let i = 0; i < total; i++) {
+      if (disposed || generation !== syncGeneration) return;
+      onProgress?.({ indexed: i, total });
+      const document = queue[i];
+      try {
+        const blobName = getBlobNameFromUrl(document.fileUrl);
+        const url = await generateDownloadSasUrl(blobName, { disposition: "inline", expiryMinutes: 5 });
+        await send<"indexed">({
+          type: "content",
+          documentId: document.id,
+          contentKey: document.fileUrl,
+          url,
+          fileName: blobName,
+        });
+      } catch (error) {
+        // Files the user can't read (or that fail to parse) stay searchable by metadata
+        failedKeys.add(document.fileUrl);
+        console.warn(`Could not index the text of "${document.name}":`, error);
+      }
+    }
+    if (!disposed && generation === syncGeneration) onProgress?.({ indexed: total, total });
+  };
+
+  const search = async (query: string) => {
+    await opened;
+    const { hits } = await send<"results">({ type: "search", query });
+    return hits;
+  };
+
+  const dispose = () => {
+    disposed = true;
+    worker.terminate();
+    pending.forEach((request) => request.reject(new DOMException("Aborted", "AbortError")));
+    pending.clear();
+  };
+
+  return { sync, search, dispose };
+};
@@ -0,0 +1,266 @@
+/**
+ * Document expiry reminders.
+ *
+ * Reminders are derived from each document's expiryDate and the lead times
+ * configured for its category (e.g. 90, 30 and 7 days before expiry for
+ * Licensing). Only the latest stage a document has reached is reported, so a
+ * licence 20 days from expiry yields the 30-day reminder, not the 90-day one.
+ * Acknowledge and snooze state is stored per user and keyed by stage, so
+ * dismissing the 30-day reminder doesn't hide the 7-day one, and renewing a
+ * document (new expiry date) starts a fresh set of reminders.
+ */
+
+/** Days before expiry at which reminders are raised, per document category */
+export const DEFAULT_REMINDER_LEAD_TIMES: Record<string, number[]> = {
+  Licensing: [90, 30, 7],
+  Legal: [60, 30, 7],
+  Certifications: [60, 30, 7],
+  Compliance: [60, 30, 7],
+  Insurance: [60, 30, 7],
+  Tax: [30, 14, 7],
+  Facilities: [30, 7],
+  HR: [30, 7],
+};
+
+/** Lead times for categories without their own entry */
+export const FALLBACK_REMINDER_LEAD_TIMES = [30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STATE_STORAGE_PREFIX = "documentReminders.v1";
+
+/** Dispatched on window when a reminder is acknowledged or snoozed in this tab */
+export const REMINDERS_CHANGE_EVENT = "documentreminderschange";
+
+export interface ReminderDocument {
+  id: string;
+  name: string;
+  category: string;
+  expiryDate?: string;
+}
+
+export interface ExpiryReminder {
+  /** Stable per document, expiry date and stage */
+  id: string;
+  documentId: string;
+  documentName: string;
+  category: string;
+  expiryDate: string;
+  /** The lead time this reminder belongs to; 0 once the document has expired */
+  leadDays: number;
+  /** Negative when the document has already expired */
+  daysLeft: number;
+  /** When the reminder became due (expiry date minus the lead time) */
+  dueAt: string;
+  severity: "critical" | "warning";
+}
+
+export type ReminderStatus =
+  | { status: "acknowledged"; at: string }
+  | { status: "snoozed"; until: string; at: string };
+
+export type ReminderState = Record<string, ReminderStatus>;
+
+/**
+ * Whole days from `now` until a date, rounded up like the wallet's badges
+ * @param date ISO date string
+ * @param now Reference time
+ * @returns Days left (negative once past)
+ */
+export const getDaysUntil = (date: string, now: Date = new Date()): number =>
+  Math.ceil((new Date(date).getTime() - now.getTime()) / DAY_MS);
+
+/**
+ * Lead times for a category, largest first
+ * @param category Document category
+ * @param leadTimes Per-category configuration
+ * @returns Lead times in days
+ */
+export const getLeadTimes = (
+  category: string,
+  leadTimes: Record<string, number[]> = DEFAULT_REMINDER_LEAD_TIMES
+): number[] =>
+  [...(leadTimes[category] || FALLBACK_REMINDER_LEAD_TIMES)].sort((a, b) => b - a);
+
+/**
+ * Works out the reminder a document is due, if any
+ * @param document Document with category and expiry date
+ * @param now Reference time
+ * @param leadTimes Per-category configuration
+ * @returns The reminder for the latest stage reached, or null
+ */
+export const getExpiryReminder = (
+  document: ReminderDocument,
+  now: Date = new Date(),
+  leadTimes: Record<string, number[]> = DEFAULT_REMINDER_LEAD_TIMES
+): ExpiryReminder | null => {
+  if (!document.expiryDate || Number.isNaN(Date.parse(document.expiryDate))) return null;
+  const daysLeft = getDaysUntil(document.expiryDate, now);
+  const stages = getLeadTimes(document.category, leadTimes);
+
+  let leadDays: number;
+  if (daysLeft < 0) {
+    leadDays = 0;
+  } else {
+    const reached = stages.filter((lead) => daysLeft <= lead);
+    if (reached.length === 0) return null;
+    leadDays = reached[reached.length - 1];
+  }
+
+  const expiry = new Date(document.expiryDate);
+  const smallestLead = stages[stages.length - 1] ?? 0;
+  return {
+    id: `${document.id}:${document.expiryDate}:${leadDays}`,
+    documentId: document.id,
+    documentName: document.name,
+    category: document.category,
+    expiryDate: document.expiryDate,
+    leadDays,
+    daysLeft,
+    dueAt: new Date(expiry.getTime() - leadDays * DAY_MS).toISOString(),
+    severity: daysLeft <= smallestLead ? "critical" : "warning",
+  };
+};
+
+/**
+ * Whether a document is inside its first reminder window but not yet expired
+ * @param document Document with category and expiry date
+ * @param now Reference time
+ * @param leadTimes Per-category configuration
+ * @returns True when the document is expiring soon
+ */
+export const isExpiringSoon = (
+  document: ReminderDocument,
+  now: Date = new Date(),
+  leadTimes: Record<string, number[]> = DEFAULT_REMINDER_LEAD_TIMES
+): boolean => {
+  const reminder = getExpiryReminder(document, now, leadTimes);
+  return reminder !== null && reminder.daysLeft >= 0;
+};
+
+/**
+ * Generates the due reminder for every document, soonest expiry first
+ * @param documents Documents to check
+ * @param now Reference time
+ * @param leadTimes Per-category configuration
+ * @returns Reminders, including ones the user has dismissed
+ */
+export const generateExpiryReminders = (
+  documents: ReminderDocument[],
+  now: Date = new Date(),
+  leadTimes: Record<string, number[]> = DEFAULT_REMINDER_LEAD_TIMES
+): ExpiryReminder[] =>
+  documents
+    .map((document) => getExpiryReminder(document, now, leadTimes))
+    .filter((reminder): reminder is ExpiryReminder => reminder !== null)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+const stateKey = (userId: string) => `${STATE_STORAGE_PREFIX}:${userId}`;
+
+/**
+ * Reads a user's acknowledge/snooze state
+ * @param userId The signed-in user's id
+ * @returns State keyed by reminder id
+ */
+export const getReminderState = (userId: string): ReminderState => {
+  try {
+    const raw = localStorage.getItem(stateKey(userId));
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error("Error reading reminder state:", error);
+    return {};
+  }
+};
+
+const setReminderStatus = (
+  userId: string,
+  reminderId: string,
+  status: ReminderStatus
+): ReminderState => {
+  const state = { ...getReminderState(userId), [reminderId]: status };
+  localStorage.setItem(stateKey(userId), JSON.stringify(state));
+  window.dispatchEvent(new Event(REMINDERS_CHANGE_EVENT));
+  return state;
+};
+
+/**
+ * Dismisses a reminder for good (later stages still fire)
+ * @param userId The signed-in user's id
+ * @param reminderId Reminder to dismiss
+ * @returns The updated state
+ */
+export const acknowledgeReminder = (userId: string, reminderId: string): ReminderState =>
+  setReminderStatus(userId, reminderId, {
+    status: "acknowledged",
+    at: new Date().toISOString(),
+  });
+
+/**
+ * Hides a reminder until a later time
+ * @param userId The signed-in user's id
+ * @param reminderId Reminder to snooze
+ * @param days How long to snooze for
+ * @returns The updated state
+ */
+export const snoozeReminder = (
+  userId: string,
+  reminderId: string,
+  days: number
+): ReminderState => {
+  const now = new Date();
+  return setReminderStatus(userId, reminderId, {
+    status: "snoozed",
+    until: new Date(now.getTime() + days * DAY_MS).toISOString(),
+    at: now.toISOString(),
+  });
+};
+
+/**
+ * Drops reminders the user has acknowledged or snoozed past `now`
+ * @param reminders Generated reminders
+ * @param state The user's reminder state
+ * @param now Reference time
+ * @returns Reminders to show
+ */
+export const filterActiveReminders = (
+  reminders: ExpiryReminder[],
+  state: ReminderState,
+  now: Date = new Date()
+): ExpiryReminder[] =>
+  reminders.filter((reminder) => {
+    const entry = state[reminder.id];
+    if (!entry) return true;
+    if (entry.status === "acknowledged") return false;
+    return new Date(entry.until).getTime() <= now.getTime();
+  });
+
+/**
+ * Earliest future time at which the set of active reminders can change
+ * (a snooze ending or a document reaching its next stage)
+ * @param documents Documents being tracked
+ * @param state The user's reminder state
+ * @param now Reference time
+ * @param leadTimes Per-category configuration
+ * @returns Milliseconds until the next change, or null if nothing is scheduled
+ */
+export const getNextReminderChange = (
+  documents: ReminderDocument[],
+  state: ReminderState,
+  now: Date = new Date(),
+  leadTimes: Record<string, number[]> = DEFAULT_REMINDER_LEAD_TIMES
+): number | null => {
+  const times: number[] = [];
+  Object.values(state).forEach((entry) => {
+    if (entry.status === "snoozed") times.push(new Date(entry.until).getTime());
+  });
+  documents.forEach((document) => {
+    if (!document.expiryDate) return;
+    const expiry = new Date(document.expiryDate).getTime();
+    // A stage is reached once daysLeft drops to its lead time; "expired" a day after expiry
+    getLeadTimes(document.category, leadTimes).forEach((lead) => {
+      times.push(expiry - lead * DAY_MS);
+    });
+    times.push(expiry + DAY_MS);
+  });
+  const upcoming = times.filter((time) => time > now.getTime());
+  return upcoming.length ? Math.min(...upcoming) - now.getTime() : null;
+};
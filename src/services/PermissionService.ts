@@ -0,0 +1,61 @@
+/**
+ * Loads the signed-in user's roles and capabilities. Role claims in the id
+ * token are used when present, then the user's team membership (see
+ * TeamService); api/profile/permissions only decides when the team cannot be
+ * read.
+ *
+ * The API resolves permissions in the same order with the same rules (see
+ * api/_lib/permissions.ts), so the portal only hides what the API would refuse.
+ */
+import { getApiAuthHeaders } from "./auth/msal";
+import { getTeamPermissions, TeamUser } from "./TeamService";
+import {
+  Permissions,
+  permissionsFromClaims,
+  resolvePermissions,
+} from "../utils/permissions";
+
+const PERMISSIONS_API_URL = "/api/profile/permissions/permissions";
+
+/**
+ * Fetches permissions from the profile endpoint
+ * @returns The user's roles and capabilities
+ */
+export const fetchPermissions = async (): Promise<Permissions> => {
+  const response = await fetch(PERMISSIONS_API_URL, {
+    headers: await getApiAuthHeaders(),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: "" }));
+    throw new Error(`Failed to load permissions: ${error || response.statusText}`);
+  }
+  const { roles, capabilities } = await response.json();
+  return resolvePermissions(roles || [], capabilities || []);
+};
+
+/**
+ * Resolves permissions from token claims, then team membership, falling back
+ * to the profile endpoint when the team cannot be read. When none is
+ * available the user is read-only.
+ * @param claims The id token claims of the active account
+ * @param user The signed-in user, to look up their team membership
+ * @returns The user's roles and capabilities
+ */
+export const loadPermissions = async (
+  claims: Record<string, unknown> | null | undefined,
+  user?: TeamUser | null
+): Promise<Permissions> => {
+  const fromClaims = permissionsFromClaims(claims);
+  if (fromClaims) return fromClaims;
+  try {
+    if (user) return await getTeamPermissions(user);
+  } catch (error) {
+    console.warn("Could not load team membership:", error);
+  }
+  try {
+    return await fetchPermissions();
+  } catch (error) {
+    console.warn("Could not load permissions; continuing read-only:", error);
+    return resolvePermissions(["Viewer"]);
+  }
+};
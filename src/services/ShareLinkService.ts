@@ -0,0 +1,155 @@
+/**
+ * Service for share links: expiring, optionally password-protected links that
+ * let someone without an account download one document.
+ * Links are managed through api/storage/share (by the uploader, or by the team
+ * for entity documents) and resolved through api/storage/shared, which logs
+ * every attempt and issues a SAS URL that anyone holding it can reuse for its
+ * few minutes of life.
+ */
+import { getApiAuthHeaders } from "./auth/msal";
+
+const SHARE_API_URL = "/api/storage/share/share";
+const SHARED_API_URL = "/api/storage/shared/shared";
+
+export type ShareLinkStatus = "active" | "expired" | "revoked" | "exhausted" | "locked";
+
+export interface ShareAccess {
+  at: string;
+  ip: string;
+  userAgent: string;
+  outcome: "download" | "denied";
+  /** Why access was denied, e.g. "invalid password" */
+  reason?: string;
+}
+
+export interface ShareLink {
+  /** Also the token in the public link */
+  id: string;
+  blobName: string;
+  fileName: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Null means unlimited downloads until expiry */
+  maxDownloads: number | null;
+  downloadCount: number;
+  hasPassword: boolean;
+  revokedAt: string | null;
+  status: ShareLinkStatus;
+  accessLog: ShareAccess[];
+}
+
+export interface CreateShareLinkOptions {
+  /** File name offered to the recipient's browser */
+  fileName?: string;
+  expiresAt: Date;
+  password?: string;
+  maxDownloads?: number | null;
+}
+
+export interface SharedDocumentInfo {
+  fileName: string;
+  expiresAt: string;
+  requiresPassword: boolean;
+  status: ShareLinkStatus;
+}
+
+// Error from the public endpoint, keeping the HTTP status so the page can tell a wrong password apart
+export class ShareLinkError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+const readJson = async (response: Response, failureMessage: string) => {
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: "" }));
+    throw new ShareLinkError(response.status, error || `${failureMessage}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Builds the public URL for a share link
+ * @param id The share link id
+ * @returns An absolute URL on the current origin
+ */
+export const getShareLinkUrl = (id: string): string =>
+  `${window.location.origin}/share/${encodeURIComponent(id)}`;
+
+/**
+ * Creates a share link for a document blob the current user owns
+ * @param blobName The name of the blob to share
+ * @param options Expiry, optional password and download limit
+ * @returns The new link
+ */
+export const createShareLink = async (
+  blobName: string,
+  options: CreateShareLinkOptions
+): Promise<ShareLink> => {
+  const response = await fetch(SHARE_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({
+      blobName,
+      fileName: options.fileName,
+      expiresAt: options.expiresAt.toISOString(),
+      password: options.password || undefined,
+      maxDownloads: options.maxDownloads ?? null,
+    }),
+  });
+  return readJson(response, "Failed to create share link");
+};
+
+/**
+ * Lists the current user's share links for a blob, with their access logs
+ * @param blobName The name of the shared blob
+ * @returns Links, newest first
+ */
+export const listShareLinks = async (blobName: string): Promise<ShareLink[]> => {
+  const response = await fetch(`${SHARE_API_URL}?blobName=${encodeURIComponent(blobName)}`, {
+    headers: await getApiAuthHeaders(),
+  });
+  const { shares } = await readJson(response, "Failed to load share links");
+  return shares;
+};
+
+/**
+ * Revokes a share link; it stops resolving immediately
+ * @param id The share link id
+ * @returns The revoked link
+ */
+export const revokeShareLink = async (id: string): Promise<ShareLink> => {
+  const response = await fetch(`${SHARE_API_URL}?action=revoke`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({ id }),
+  });
+  return readJson(response, "Failed to revoke share link");
+};
+
+/**
+ * Looks up a share link without using a download (no sign-in needed)
+ * @param token The token from the link
+ * @returns File name, expiry, whether a password is needed and the link status
+ */
+export const getSharedDocument = async (token: string): Promise<SharedDocumentInfo> => {
+  const response = await fetch(`${SHARED_API_URL}?token=${encodeURIComponent(token)}`);
+  return readJson(response, "Failed to open share link");
+};
+
+/**
+ * Resolves a share link to a download URL; counts as one download
+ * @param token The token from the link
+ * @param password The link password, if it has one
+ * @returns A SAS URL valid for a couple of minutes
+ */
+export const resolveSharedDocument = async (token: string, password?: string): Promise<string> => {
+  const response = await fetch(SHARED_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, password }),
+  });
+  const { url } = await readJson(response, "Failed to download shared document");
+  return url;
+};
@@ -0,0 +1,386 @@
+/**
+ * Team management for the business account: invitations, member status and
+ * roles, and custom roles built from the capability list.
+ *
+ * Members and custom roles live in Dataverse (the in-memory OData stand-in
+ * when no environment is configured). An invitation is a member row in the
+ * "invited" state; the invitee joins the team the first time they sign in
+ * with the invited email address, and every sign-in updates lastLogin.
+ */
+import { AccountInfo } from "@azure/msal-browser";
+import {
+  createTeamMember,
+  createTeamRole,
+  deleteTeamMember,
+  deleteTeamRole,
+  getTeamMembers,
+  getTeamRoles,
+  TeamMember,
+  TeamRole,
+  updateTeamMember,
+  updateTeamRole,
+} from "./DataverseService";
+import {
+  Capability,
+  CAPABILITIES,
+  getRoleCapabilities,
+  membershipPermissions,
+  Permissions,
+  ROLE_CAPABILITIES,
+  ROLE_DESCRIPTIONS,
+  RoleName,
+  toRoleName,
+} from "../utils/permissions";
+
+export type { TeamMember, TeamRole };
+
+const INVITE_VALID_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** The signed-in user, as provided by AuthContext */
+export interface TeamUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/** A role that can be assigned to members */
+export interface RoleOption {
+  name: string;
+  description: string;
+  capabilities: Capability[];
+  /** The stored role; unset for built-in roles */
+  custom?: TeamRole;
+}
+
+export type MemberState = "active" | "deactivated" | "pending" | "expired";
+
+// A team change the rules do not allow; the message is shown to the user as is
+export class TeamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TeamError";
+  }
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const inviteExpiry = (from: Date) => new Date(from.getTime() + INVITE_VALID_DAYS * DAY_MS).toISOString();
+
+/**
+ * Lists the built-in roles followed by the custom ones
+ * @param customRoles Roles from getTeamRoles
+ * @returns Every assignable role
+ */
+export const getRoleOptions = (customRoles: TeamRole[]): RoleOption[] => [
+  ...(Object.keys(ROLE_CAPABILITIES) as RoleName[]).map((name) => ({
+    name,
+    description: ROLE_DESCRIPTIONS[name],
+    capabilities: ROLE_CAPABILITIES[name],
+  })),
+  ...customRoles.map((role) => ({
+    name: role.name,
+    description: role.description,
+    capabilities: role.capabilities,
+    custom: role,
+  })),
+];
+
+/**
+ * Where a member stands, telling expired invitations apart from pending ones
+ * @param member The member
+ * @param now Reference time
+ * @returns The member's state
+ */
+export const getMemberState = (member: TeamMember, now: Date = new Date()): MemberState => {
+  if (member.status !== "invited") return member.status;
+  return member.inviteExpiresAt && new Date(member.inviteExpiresAt) < now ? "expired" : "pending";
+};
+
+// Someone active must be left who can manage the team
+const assertManagerRemains = (members: TeamMember[], customRoles: TeamRole[]) => {
+  const managers = members.filter(
+    (member) =>
+      member.status === "active" && getRoleCapabilities(member.role, customRoles).includes("users:manage")
+  );
+  if (managers.length === 0) {
+    throw new TeamError("At least one active member must be able to manage users and roles.");
+  }
+};
+
+const withChange = (members: TeamMember[], changed: TeamMember, next: Partial<TeamMember>) =>
+  members.map((member) => (member.id === changed.id ? { ...member, ...next } : member));
+
+const assertRoleExists = (role: string, customRoles: TeamRole[]) => {
+  if (!toRoleName(role) && !customRoles.some((custom) => custom.name === role)) {
+    throw new TeamError(`The role "${role}" does not exist.`);
+  }
+};
+
+/**
+ * Loads the team and the custom roles
+ * @returns Members and custom roles
+ */
+export const loadTeam = async () => {
+  const [members, roles] = await Promise.all([getTeamMembers(), getTeamRoles()]);
+  return { members, roles };
+};
+
+/**
+ * Invites someone to the team
+ * @param invite Name, email and role of the invitee
+ * @param invitedBy The signed-in user sending the invitation
+ * @param members The current team, to reject duplicates
+ * @param customRoles Roles from getTeamRoles
+ * @returns The invitation
+ */
+export const inviteMember = async (
+  invite: { name: string; email: string; role: string },
+  invitedBy: TeamUser,
+  members: TeamMember[],
+  customRoles: TeamRole[]
+) => {
+  const email = normalizeEmail(invite.email);
+  if (!EMAIL_PATTERN.test(email)) throw new TeamError("Enter a valid email address.");
+  assertRoleExists(invite.role, customRoles);
+  const existing = members.find((member) => normalizeEmail(member.email) === email);
+  if (existing) {
+    throw new TeamError(
+      existing.status === "invited"
+        ? `${email} has already been invited. Resend the invitation instead.`
+        : `${email} is already a member of the team.`
+    );
+  }
+  const now = new Date();
+  return createTeamMember({
+    userId: "",
+    name: invite.name.trim() || email,
+    email,
+    role: invite.role,
+    status: "invited",
+    invitedBy: invitedBy.name || invitedBy.email,
+    invitedAt: now.toISOString(),
+    inviteSentAt: now.toISOString(),
+    inviteExpiresAt: inviteExpiry(now),
+    joinedAt: "",
+    lastLogin: "",
+  });
+};
+
+/**
+ * Sends an invitation again and restarts its validity period
+ * @param member The invited member
+ * @returns The updated invitation
+ */
+export const resendInvite = async (member: TeamMember) => {
+  if (member.status !== "invited") throw new TeamError(`${member.email} has already joined.`);
+  const now = new Date();
+  return updateTeamMember(member.id!, {
+    inviteSentAt: now.toISOString(),
+    inviteExpiresAt: inviteExpiry(now),
+  });
+};
+
+/**
+ * Withdraws an invitation that has not been accepted yet
+ * @param member The invited member
+ */
+export const revokeInvite = async (member: TeamMember) => {
+  if (member.status !== "invited") {
+    throw new TeamError(`${member.email} has already joined; deactivate them instead.`);
+  }
+  await deleteTeamMember(member.id!);
+};
+
+/**
+ * Deactivates or reactivates a member. Deactivated members keep their record
+ * but lose every capability.
+ * @param member The member
+ * @param active True to reactivate
+ * @param actor The signed-in user, who cannot deactivate themselves
+ * @param members The current team
+ * @param customRoles Roles from getTeamRoles
+ * @returns The updated member
+ */
+export const setMemberActive = async (
+  member: TeamMember,
+  active: boolean,
+  actor: TeamUser,
+  members: TeamMember[],
+  customRoles: TeamRole[]
+) => {
+  if (member.status === "invited") throw new TeamError("Pending invitations can only be revoked.");
+  if (!active && member.userId && member.userId === actor.id) {
+    throw new TeamError("You cannot deactivate your own account.");
+  }
+  const status = active ? "active" : "deactivated";
+  assertManagerRemains(withChange(members, member, { status }), customRoles);
+  return updateTeamMember(member.id!, { status });
+};
+
+/**
+ * Assigns a different role to a member or invitation
+ * @param member The member
+ * @param role Built-in or custom role name
+ * @param members The current team
+ * @param customRoles Roles from getTeamRoles
+ * @returns The updated member
+ */
+export const changeMemberRole = async (
+  member: TeamMember,
+  role: string,
+  members: TeamMember[],
+  customRoles: TeamRole[]
+) => {
+  assertRoleExists(role, customRoles);
+  assertManagerRemains(withChange(members, member, { role }), customRoles);
+  return updateTeamMember(member.id!, { role });
+};
+
+/**
+ * Creates or updates a custom role. Renaming a role moves its members along.
+ * @param role The role; without an id a new one is created
+ * @param members The current team
+ * @param customRoles Roles from getTeamRoles
+ * @returns The saved role
+ */
+export const saveCustomRole = async (
+  role: { id?: string; name: string; description: string; capabilities: Capability[] },
+  members: TeamMember[],
+  customRoles: TeamRole[]
+) => {
+  const name = role.name.trim();
+  if (!name) throw new TeamError("Enter a role name.");
+  if (toRoleName(name)) throw new TeamError(`"${name}" is a built-in role.`);
+  if (customRoles.some((custom) => custom.id !== role.id && custom.name.toLowerCase() === name.toLowerCase())) {
+    throw new TeamError(`A role named "${name}" already exists.`);
+  }
+  const values = {
+    name,
+    description: role.description.trim(),
+    capabilities: CAPABILITIES.filter((capability) => role.capabilities.includes(capability)),
+    updatedAt: new Date().toISOString(),
+  };
+  if (!role.id) return createTeamRole(values);
+
+  const previous = customRoles.find((custom) => custom.id === role.id);
+  if (previous) {
+    const assigned = members.filter((member) => member.role === previous.name);
+    assertManagerRemains(
+      members.map((member) => (member.role === previous.name ? { ...member, role: name } : member)),
+      customRoles.map((custom) => (custom.id === role.id ? { ...custom, ...values } : custom))
+    );
+    if (previous.name !== name) {
+      for (const member of assigned) {
+        await updateTeamMember(member.id!, { role: name });
+      }
+    }
+  }
+  return updateTeamRole(role.id, values);
+};
+
+/**
+ * Deletes a custom role nobody holds
+ * @param role The role
+ * @param members The current team
+ */
+export const deleteCustomRole = async (role: TeamRole, members: TeamMember[]) => {
+  const holders = members.filter((member) => member.role === role.name).length;
+  if (holders > 0) {
+    throw new TeamError(`"${role.name}" is assigned to ${holders} member(s). Give them another role first.`);
+  }
+  await deleteTeamRole(role.id!);
+};
+
+// Joins in flight per user, so a login event and a permission check do not both create a member
+const pendingJoins = new Map<string, Promise<TeamMember | null>>();
+
+const findOrJoin = async (user: TeamUser): Promise<TeamMember | null> => {
+  const members = await getTeamMembers();
+  const email = normalizeEmail(user.email);
+  const member =
+    members.find((candidate) => candidate.userId && candidate.userId === user.id) ||
+    members.find((candidate) => email && normalizeEmail(candidate.email) === email);
+  const now = new Date();
+  if (!member) {
+    // The account owner registered the business; they start the team as its administrator
+    if (members.length > 0) return null;
+    return createTeamMember({
+      userId: user.id,
+      name: user.name || email,
+      email,
+      role: "Admin",
+      status: "active",
+      invitedBy: "",
+      invitedAt: "",
+      inviteSentAt: "",
+      inviteExpiresAt: "",
+      joinedAt: now.toISOString(),
+      lastLogin: "",
+    });
+  }
+  if (member.status === "invited") {
+    if (getMemberState(member, now) === "expired") return null;
+    return updateTeamMember(member.id!, {
+      userId: user.id,
+      name: user.name || member.name,
+      status: "active",
+      joinedAt: now.toISOString(),
+    });
+  }
+  if (!member.userId) return updateTeamMember(member.id!, { userId: user.id });
+  return member;
+};
+
+/**
+ * Finds the signed-in user's membership, accepting a pending invitation for
+ * their email address
+ * @param user The signed-in user
+ * @returns The membership, or null when the user is not on the team
+ */
+export const joinTeam = (user: TeamUser) => {
+  let pending = pendingJoins.get(user.id);
+  if (!pending) {
+    pending = findOrJoin(user).finally(() => pendingJoins.delete(user.id));
+    pendingJoins.set(user.id, pending);
+  }
+  return pending;
+};
+
+/**
+ * Reads the team user from an MSAL account, preferring real email claims the
+ * way AuthContext does
+ * @param account The signed-in account
+ * @returns The user
+ */
+export const teamUserFromAccount = (account: AccountInfo): TeamUser => {
+  const claims = (account.idTokenClaims || {}) as Record<string, any>;
+  return {
+    id: account.localAccountId,
+    name: account.name || claims.name || "",
+    email: claims.emails?.[0] || claims.email || claims.preferred_username || account.username || "",
+  };
+};
+
+/**
+ * Records a sign-in as the member's lastLogin
+ * @param user The user who signed in
+ */
+export const recordTeamLogin = async (user: TeamUser) => {
+  const member = await joinTeam(user);
+  if (member?.status !== "active") return;
+  await updateTeamMember(member.id!, { lastLogin: new Date().toISOString() });
+};
+
+/**
+ * Permissions from the user's team membership. Users who are not on the team,
+ * whose invitation expired or who were deactivated get no capabilities.
+ * @param user The signed-in user
+ * @returns The permissions
+ */
+export const getTeamPermissions = async (user: TeamUser): Promise<Permissions> => {
+  const member = await joinTeam(user);
+  const customRoles = member && !toRoleName(member.role) ? await getTeamRoles() : [];
+  return membershipPermissions(member, customRoles);
+};
@@ -131,3 +131,22 @@ export const signupRequest = {
   scopes: Array.from(new Set([...(API_SCOPES.length ? API_SCOPES : []), ...DEFAULT_OIDC_SCOPES, ...GRAPH_SCOPES])),
   authority: AUTHORITY_SIGNUP,
 };
+
+/**
+ * Authorization header for the portal's own serverless functions (api/*).
+ * Sends the id token, whose audience is this app; returns no header when signed out.
+ */
+export const getApiAuthHeaders = async (): Promise<Record<string, string>> => {
+  const account = msalInstance.getActiveAccount() || msalInstance.getAllAccounts()[0];
+  if (!account) return {};
+  try {
+    const result = await msalInstance.acquireTokenSilent({
+      account,
+      scopes: [...DEFAULT_OIDC_SCOPES],
+    });
+    return result.idToken ? { Authorization: `Bearer ${result.idToken}` } : {};
+  } catch (error) {
+    console.warn("Could not acquire token for API call:", error);
+    return {};
+  }
+};
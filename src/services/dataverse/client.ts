@@ -0,0 +1,363 @@
+/**
+ * Minimal typed client for the Dataverse Web API (OData v4).
+ *
+ * Handles auth headers, query building, @odata.nextLink paging and retries
+ * with backoff on throttling (429) and transient server errors (5xx). Only
+ * requests that are safe to repeat are retried after a 5xx or network error;
+ * a POST or an unconditional PATCH may already have been applied.
+ * Rows are returned as raw column-keyed records; mapping to app models is
+ * done with a field map (see fieldMap.ts).
+ */
+import {
+  fetchTransport,
+  ODataMethod,
+  ODataResponse,
+  ODataTransport,
+} from "./transport";
+
+export interface DataverseClientOptions {
+  /** Web API root, e.g. https://org.crm.dynamics.com/api/data/v9.2 */
+  baseUrl: string;
+  /** Returns a bearer token for the Dataverse resource */
+  getToken: () => Promise<string>;
+  transport?: ODataTransport;
+  /** Retries after the first attempt for 429/5xx responses (default 4); see canRetry */
+  maxRetries?: number;
+  /** Base delay for exponential backoff when no Retry-After is sent (default 500ms) */
+  retryDelayMs?: number;
+}
+
+export interface QueryOptions {
+  select?: string;
+  filter?: string;
+  orderBy?: string;
+  /** Total number of rows to return */
+  top?: number;
+  /** Rows per page requested through Prefer: odata.maxpagesize */
+  pageSize?: number;
+  signal?: AbortSignal;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+export type DataverseRecord = Record<string, any>;
+
+/**
+ * Error raised for non-success responses from the Web API
+ */
+export class DataverseError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public response?: ODataResponse
+  ) {
+    super(message);
+    this.name = "DataverseError";
+  }
+}
+
+/**
+ * Raised when a conditional write (If-Match) fails because the row changed
+ * since it was read. Services attach the current server copy so the UI can
+ * offer a merge.
+ */
+export class ConcurrencyConflictError<T = DataverseRecord> extends DataverseError {
+  current?: T;
+  currentEtag?: string;
+
+  constructor(
+    message: string,
+    options: { response?: ODataResponse; current?: T; currentEtag?: string } = {}
+  ) {
+    super(message, 412, "ConcurrencyConflict", options.response);
+    this.name = "ConcurrencyConflictError";
+    this.current = options.current;
+    this.currentEtag = options.currentEtag;
+  }
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Quotes a value for use inside $filter
+ * @param value The string value
+ * @returns The value wrapped in single quotes with quotes escaped
+ */
+export const odataString = (value: string): string =>
+  `'${String(value).replace(/'/g, "''")}'`;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Reads Retry-After (seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Whether a failed attempt may be sent again. GET and DELETE are idempotent,
+ * and so is a PATCH conditional on a concrete ETag; anything else is only
+ * retried when the server turned it away with 429 before processing it.
+ * @param method HTTP method
+ * @param headers Request headers, for If-Match
+ * @param status Response status, or undefined when the request failed in transit
+ */
+const canRetry = (
+  method: ODataMethod,
+  headers: Record<string, string>,
+  status?: number
+): boolean => {
+  if (method === "GET" || method === "DELETE") return true;
+  const ifMatch = headers["If-Match"];
+  if (method === "PATCH" && ifMatch && ifMatch !== "*") return true;
+  return status === 429;
+};
+
+const buildQuery = (options: QueryOptions): string => {
+  const params: string[] = [];
+  if (options.select) params.push(`$select=${options.select}`);
+  if (options.filter) params.push(`$filter=${encodeURIComponent(options.filter)}`);
+  if (options.orderBy) params.push(`$orderby=${encodeURIComponent(options.orderBy)}`);
+  if (options.top !== undefined) params.push(`$top=${options.top}`);
+  return params.length ? `?${params.join("&")}` : "";
+};
+
+/**
+ * Creates a Dataverse client
+ * @param options Base URL, token provider and optional transport
+ * @returns Client with list/get/create/update/remove helpers
+ */
+export const createDataverseClient = (options: DataverseClientOptions) => {
+  const transport = options.transport || fetchTransport;
+  const maxRetries = options.maxRetries ?? 4;
+  const retryDelayMs = options.retryDelayMs ?? 500;
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  const resolveUrl = (path: string) =>
+    /^https?:\/\//i.test(path) ? path : `${baseUrl}/${path.replace(/^\/+/, "")}`;
+
+  /**
+   * Sends a request, retrying throttled and transient failures
+   * @param method HTTP method
+   * @param path Path relative to the Web API root, or an absolute URL (nextLink)
+   * @param requestOptions Extra headers, JSON body and abort signal
+   * @returns The response for any 2xx status
+   */
+  const request = async (
+    method: ODataMethod,
+    path: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<ODataResponse> => {
+    const url = resolveUrl(path);
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await options.getToken();
+      const headers: Record<string, string> = {
+        Accept: "application/json",
+        "OData-MaxVersion": "4.0",
+        "OData-Version": "4.0",
+        Authorization: `Bearer ${token}`,
+        ...(requestOptions.body !== undefined
+          ? { "Content-Type": "application/json; charset=utf-8" }
+          : {}),
+        ...requestOptions.headers,
+      };
+
+      let response: ODataResponse;
+      try {
+        response = await transport({
+          method,
+          url,
+          headers,
+          body: requestOptions.body,
+          signal: requestOptions.signal,
+        });
+      } catch (error: any) {
+        // Network failures are retried like 503s; aborts are not
+        if (
+          error?.name === "AbortError" ||
+          attempt >= maxRetries ||
+          !canRetry(method, headers)
+        ) {
+          throw error;
+        }
+        await sleep(retryDelayMs * 2 ** attempt, requestOptions.signal);
+        continue;
+      }
+
+      if (response.status >= 200 && response.status < 300) {
+        return response;
+      }
+
+      if (
+        RETRYABLE_STATUS.has(response.status) &&
+        attempt < maxRetries &&
+        canRetry(method, headers, response.status)
+      ) {
+        const retryAfter = parseRetryAfter(response.headers["retry-after"]);
+        const backoff = retryDelayMs * 2 ** attempt + Math.random() * retryDelayMs;
+        await sleep(
+          Math.min(retryAfter ?? backoff, MAX_RETRY_DELAY_MS),
+          requestOptions.signal
+        );
+        continue;
+      }
+
+      const error = response.body?.error;
+      if (response.status === 412 && headers["If-Match"]) {
+        throw new ConcurrencyConflictError(
+          error?.message || "The record was changed by someone else",
+          { response }
+        );
+      }
+      throw new DataverseError(
+        error?.message || `Dataverse request failed with status ${response.status}`,
+        response.status,
+        error?.code,
+        response
+      );
+    }
+  };
+
+  /**
+   * Lists rows, following @odata.nextLink until exhausted or `top` is reached
+   * @param entitySet Entity set name
+   * @param query $select/$filter/$orderby/$top and page size
+   * @returns All matching rows
+   */
+  const list = async (
+    entitySet: string,
+    query: QueryOptions = {}
+  ): Promise<DataverseRecord[]> => {
+    const headers: Record<string, string> = {};
+    if (query.pageSize) headers.Prefer = `odata.maxpagesize=${query.pageSize}`;
+
+    const rows: DataverseRecord[] = [];
+    let next: string | undefined = `${entitySet}${buildQuery(query)}`;
+    while (next) {
+      const response = await request("GET", next, {
+        headers,
+        signal: query.signal,
+      });
+      rows.push(...(response.body?.value || []));
+      if (query.top !== undefined && rows.length >= query.top) {
+        return rows.slice(0, query.top);
+      }
+      next = response.body?.["@odata.nextLink"];
+    }
+    return rows;
+  };
+
+  /**
+   * Retrieves a single row by primary key
+   * @param entitySet Entity set name
+   * @param id Row id (GUID)
+   * @param query Optional $select
+   * @returns The row, or null when it does not exist
+   */
+  const get = async (
+    entitySet: string,
+    id: string,
+    query: Pick<QueryOptions, "select" | "signal"> = {}
+  ): Promise<DataverseRecord | null> => {
+    try {
+      const response = await request(
+        "GET",
+        `${entitySet}(${id})${buildQuery({ select: query.select })}`,
+        { signal: query.signal }
+      );
+      return response.body;
+    } catch (error) {
+      if (error instanceof DataverseError && error.status === 404) return null;
+      throw error;
+    }
+  };
+
+  /**
+   * Creates a row
+   * @param entitySet Entity set name
+   * @param record Column-keyed values
+   * @returns The created row as returned by the server
+   */
+  const create = async (
+    entitySet: string,
+    record: DataverseRecord
+  ): Promise<DataverseRecord> => {
+    const response = await request("POST", entitySet, {
+      body: record,
+      headers: { Prefer: "return=representation" },
+    });
+    return response.body;
+  };
+
+  /**
+   * Updates an existing row. Sends If-Match so a PATCH never upserts a
+   * deleted row back into existence; pass an ETag to make it conditional.
+   * @param entitySet Entity set name
+   * @param id Row id
+   * @param record Column-keyed values to change
+   * @param etag Optional @odata.etag for optimistic concurrency
+   * @returns The updated row
+   * @throws DataverseError with status 404 when the row does not exist
+   */
+  const update = async (
+    entitySet: string,
+    id: string,
+    record: DataverseRecord,
+    etag = "*"
+  ): Promise<DataverseRecord> => {
+    try {
+      const response = await request("PATCH", `${entitySet}(${id})`, {
+        body: record,
+        headers: { Prefer: "return=representation", "If-Match": etag },
+      });
+      return response.body;
+    } catch (error) {
+      // If-Match: * matches any version, so a failed precondition means the row is gone
+      if (etag === "*" && error instanceof ConcurrencyConflictError) {
+        throw new DataverseError(
+          `${entitySet} with id ${id} does not exist`,
+          404,
+          "NotFound",
+          error.response
+        );
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Deletes a row
+   * @param entitySet Entity set name
+   * @param id Row id
+   */
+  const remove = async (entitySet: string, id: string): Promise<void> => {
+    await request("DELETE", `${entitySet}(${id})`);
+  };
+
+  return { request, list, get, create, update, remove };
+};
+
+export type DataverseClient = ReturnType<typeof createDataverseClient>;
@@ -0,0 +1,95 @@
+/**
+ * Declarative mapping between app-side models and Dataverse table columns.
+ *
+ * A field map lists every property once, with its column name and optional
+ * converters. The same map drives $select, record creation, partial updates
+ * and reading rows back, so a column is never spelled in more than one place.
+ */
+
+export interface FieldMapping<T, K extends keyof T = keyof T> {
+  /** Logical column name, e.g. cr123_name */
+  column: string;
+  /** Never sent on create/update (primary keys, system columns) */
+  readOnly?: boolean;
+  toDataverse?: (value: T[K]) => unknown;
+  fromDataverse?: (value: any) => T[K];
+}
+
+export interface FieldMap<T> {
+  /** Entity set name used in the URL, e.g. cr123_documents */
+  entitySet: string;
+  /** Primary key column, e.g. cr123_documentid */
+  primaryKey: string;
+  fields: { [K in keyof T]-?: FieldMapping<T, K> };
+}
+
+/**
+ * Identity helper that gives field maps full type checking
+ * @param map The field map definition
+ * @returns The same map
+ */
+export const defineFieldMap = <T>(map: FieldMap<T>): FieldMap<T> => map;
+
+/**
+ * Column list for $select
+ * @param map The field map
+ * @returns Comma-separated column names
+ */
+export const selectColumns = <T>(map: FieldMap<T>): string =>
+  Object.values<FieldMapping<T, any>>(map.fields)
+    .map((field) => field.column)
+    .join(",");
+
+/**
+ * Converts app-side values into a Dataverse record. Properties that are
+ * undefined are left out, so the result is safe to use as a PATCH body.
+ * @param map The field map
+ * @param values Full or partial model
+ * @returns Record keyed by column name
+ */
+export const toDataverseRecord = <T>(
+  map: FieldMap<T>,
+  values: Partial<T>
+): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  (Object.keys(map.fields) as (keyof T)[]).forEach((key) => {
+    const field = map.fields[key] as FieldMapping<T, typeof key>;
+    const value = values[key];
+    if (field.readOnly || value === undefined) return;
+    record[field.column] = field.toDataverse
+      ? field.toDataverse(value as T[typeof key])
+      : value;
+  });
+  return record;
+};
+
+/**
+ * Converts a Dataverse row into the app-side model
+ * @param map The field map
+ * @param record Row as returned by the Web API
+ * @returns The model
+ */
+export const fromDataverseRecord = <T>(
+  map: FieldMap<T>,
+  record: Record<string, any>
+): T => {
+  const result = {} as T;
+  (Object.keys(map.fields) as (keyof T)[]).forEach((key) => {
+    const field = map.fields[key] as FieldMapping<T, typeof key>;
+    const raw = record[field.column];
+    const value = field.fromDataverse
+      ? field.fromDataverse(raw)
+      : (raw ?? undefined);
+    if (value !== undefined) result[key] = value;
+  });
+  return result;
+};
+
+/**
+ * Column name for a model property, for use in $filter / $orderby
+ * @param map The field map
+ * @param key Model property
+ * @returns The column name
+ */
+export const columnOf = <T>(map: FieldMap<T>, key: keyof T): string =>
+  map.fields[key].column;
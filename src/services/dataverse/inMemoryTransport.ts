@@ -0,0 +1,277 @@
+/**
+ * In-memory OData stand-in for the Dataverse Web API.
+ *
+ * Implements the subset of the protocol the client uses: collection GET with
+ * $select, $filter (eq/ne joined by and), $orderby, $top and server-driven
+ * paging via @odata.nextLink; single-row GET; POST; PATCH honouring If-Match;
+ * DELETE. Rows carry an incrementing @odata.etag like the real service.
+ * Used when no Dataverse environment is configured and in tests.
+ *
+ * Entity sets listed in `persist` are written to Web Storage and re-read on
+ * every request, so separate tabs see (and conflict with) each other's edits.
+ */
+import { ODataRequest, ODataResponse, ODataTransport } from "./transport";
+
+type Row = Record<string, any>;
+
+export interface InMemoryTransportOptions {
+  /** Initial rows per entity set */
+  seed?: Record<string, Row[]>;
+  /** Primary key column per entity set; defaults to <singular>id */
+  primaryKeys?: Record<string, string>;
+  /** Page size when the request does not send odata.maxpagesize */
+  defaultPageSize?: number;
+  /** Keep some entity sets in Web Storage instead of memory only */
+  persist?: {
+    storage: Pick<Storage, "getItem" | "setItem">;
+    key: string;
+    entitySets: string[];
+  };
+}
+
+export type InMemoryTransport = ODataTransport & {
+  tables: Map<string, Map<string, Row>>;
+};
+
+const json = (status: number, body: any = null, headers: Record<string, string> = {}): ODataResponse => ({
+  status,
+  headers: { "content-type": "application/json", ...headers },
+  body,
+});
+
+const errorResponse = (status: number, code: string, message: string) =>
+  json(status, { error: { code, message } });
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+
+const parseLiteral = (raw: string): any => {
+  if (raw.startsWith("'") && raw.endsWith("'")) {
+    return raw.slice(1, -1).replace(/''/g, "'");
+  }
+  if (raw === "null") return null;
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  const number = Number(raw);
+  return Number.isNaN(number) ? raw : number;
+};
+
+/**
+ * Compiles a $filter expression into a predicate. Only `column eq|ne value`
+ * clauses joined by `and` are understood; anything else is rejected.
+ */
+const compileFilter = (filter: string): ((row: Row) => boolean) => {
+  const clauses = filter.split(/\s+and\s+(?=(?:[^']*'[^']*')*[^']*$)/i);
+  const tests = clauses.map((clause) => {
+    const match = clause.trim().match(/^(\w+)\s+(eq|ne)\s+(.+)$/i);
+    if (!match) throw new Error(`Unsupported $filter clause: ${clause}`);
+    const [, column, operator, literal] = match;
+    const expected = parseLiteral(literal.trim());
+    return (row: Row) => {
+      const equal = (row[column] ?? null) === expected;
+      return operator.toLowerCase() === "eq" ? equal : !equal;
+    };
+  });
+  return (row) => tests.every((test) => test(row));
+};
+
+const compareBy = (orderBy: string) => {
+  const keys = orderBy.split(",").map((part) => {
+    const [column, direction] = part.trim().split(/\s+/);
+    return { column, sign: direction?.toLowerCase() === "desc" ? -1 : 1 };
+  });
+  return (a: Row, b: Row) => {
+    for (const { column, sign } of keys) {
+      if (a[column] === b[column]) continue;
+      if (a[column] === undefined || a[column] === null) return -sign;
+      if (b[column] === undefined || b[column] === null) return sign;
+      return a[column] < b[column] ? -sign : sign;
+    }
+    return 0;
+  };
+};
+
+const project = (row: Row, select: string | null): Row => {
+  if (!select) return { ...row };
+  const result: Row = { "@odata.etag": row["@odata.etag"] };
+  select.split(",").forEach((column) => {
+    result[column] = row[column] ?? null;
+  });
+  return result;
+};
+
+/**
+ * Creates an in-memory transport
+ * @param options Seed rows, key columns and paging defaults
+ * @returns A transport with its backing tables exposed for inspection
+ */
+export const createInMemoryODataTransport = (
+  options: InMemoryTransportOptions = {}
+): InMemoryTransport => {
+  const tables = new Map<string, Map<string, Row>>();
+  const defaultPageSize = options.defaultPageSize ?? 5000;
+  let etagCounter = 0;
+
+  const keyOf = (entitySet: string) =>
+    options.primaryKeys?.[entitySet] || `${entitySet.replace(/s$/, "")}id`;
+
+  const tableFor = (entitySet: string) => {
+    let table = tables.get(entitySet);
+    if (!table) {
+      table = new Map();
+      tables.set(entitySet, table);
+    }
+    return table;
+  };
+
+  const stamp = (row: Row): Row => ({
+    ...row,
+    "@odata.etag": `W/"${++etagCounter}"`,
+  });
+
+  const { persist } = options;
+
+  // Returns the entity sets that were found in storage
+  const load = (): string[] => {
+    if (!persist) return [];
+    const stored = persist.storage.getItem(persist.key);
+    if (!stored) return [];
+    try {
+      const parsed = JSON.parse(stored);
+      etagCounter = Math.max(etagCounter, parsed.etagCounter || 0);
+      return persist.entitySets.filter((entitySet) => {
+        const rows: Row[] | undefined = parsed.tables?.[entitySet];
+        if (!rows) return false;
+        tables.set(
+          entitySet,
+          new Map(rows.map((row) => [row[keyOf(entitySet)], row]))
+        );
+        return true;
+      });
+    } catch (error) {
+      console.error("Error reading in-memory Dataverse store:", error);
+      return [];
+    }
+  };
+
+  const save = () => {
+    if (!persist) return;
+    const stored: Row = { etagCounter, tables: {} };
+    persist.entitySets.forEach((entitySet) => {
+      stored.tables[entitySet] = Array.from(tableFor(entitySet).values());
+    });
+    persist.storage.setItem(persist.key, JSON.stringify(stored));
+  };
+
+  const restored = load();
+  Object.entries(options.seed || {}).forEach(([entitySet, rows]) => {
+    // Persisted tables keep their stored rows instead of the seed
+    if (restored.includes(entitySet)) return;
+    const key = keyOf(entitySet);
+    const table = tableFor(entitySet);
+    rows.forEach((row) => {
+      const id = row[key] || newId();
+      table.set(id, stamp({ ...row, [key]: id }));
+    });
+  });
+
+  const handle = (request: ODataRequest): ODataResponse => {
+    const url = new URL(request.url);
+    const path = decodeURIComponent(url.pathname.split("/").pop() || "");
+    const match = path.match(/^(\w+)(?:\(([^)]+)\))?$/);
+    if (!match) return errorResponse(404, "0x80060888", `Resource not found: ${path}`);
+
+    const [, entitySet, rawId] = match;
+    const id = rawId?.replace(/^'|'$/g, "");
+    const table = tableFor(entitySet);
+    const key = keyOf(entitySet);
+    const params = url.searchParams;
+
+    if (request.method === "GET" && !id) {
+      let rows = Array.from(table.values());
+      try {
+        const filter = params.get("$filter");
+        if (filter) rows = rows.filter(compileFilter(filter));
+      } catch (error: any) {
+        return errorResponse(400, "0x80060888", error.message);
+      }
+      const orderBy = params.get("$orderby");
+      if (orderBy) rows.sort(compareBy(orderBy));
+      const top = params.get("$top");
+      if (top !== null) rows = rows.slice(0, Number(top));
+
+      const preferred = request.headers.Prefer?.match(/odata\.maxpagesize=(\d+)/);
+      const pageSize = preferred ? Number(preferred[1]) : defaultPageSize;
+      const skip = Number(params.get("$skiptoken") || 0);
+      const page = rows.slice(skip, skip + pageSize);
+
+      const body: Row = {
+        value: page.map((row) => project(row, params.get("$select"))),
+      };
+      if (skip + pageSize < rows.length) {
+        const nextUrl = new URL(url.toString());
+        nextUrl.searchParams.set("$skiptoken", String(skip + pageSize));
+        body["@odata.nextLink"] = nextUrl.toString();
+      }
+      return json(200, body);
+    }
+
+    if (request.method === "POST" && !id) {
+      const newRowId = (request.body as Row)?.[key] || newId();
+      if (table.has(newRowId)) {
+        return errorResponse(412, "0x80040237", "A record with matching key values already exists.");
+      }
+      const row = stamp({ ...(request.body as Row), [key]: newRowId });
+      table.set(newRowId, row);
+      return json(201, { ...row }, { "odata-entityid": `${url.origin}${url.pathname}(${newRowId})` });
+    }
+
+    if (!id) return errorResponse(405, "0x80060888", "Method not allowed");
+
+    const existing = table.get(id);
+    const ifMatch = request.headers["If-Match"];
+
+    if (request.method === "GET") {
+      if (!existing) return errorResponse(404, "0x80040217", `${entitySet} With Id = ${id} Does Not Exist`);
+      return json(200, project(existing, params.get("$select")), { etag: existing["@odata.etag"] });
+    }
+
+    if (request.method === "PATCH") {
+      if (!existing) {
+        if (ifMatch) return errorResponse(404, "0x80040217", `${entitySet} With Id = ${id} Does Not Exist`);
+        const row = stamp({ ...(request.body as Row), [key]: id });
+        table.set(id, row);
+        return json(201, { ...row });
+      }
+      if (ifMatch && ifMatch !== "*" && ifMatch !== existing["@odata.etag"]) {
+        return errorResponse(412, "0x80060882", "The version of the existing record doesn't match the RowVersion property provided.");
+      }
+      const row = stamp({ ...existing, ...(request.body as Row), [key]: id });
+      table.set(id, row);
+      return json(200, { ...row }, { etag: row["@odata.etag"] });
+    }
+
+    if (request.method === "DELETE") {
+      if (!existing) return errorResponse(404, "0x80040217", `${entitySet} With Id = ${id} Does Not Exist`);
+      table.delete(id);
+      return json(204);
+    }
+
+    return errorResponse(405, "0x80060888", "Method not allowed");
+  };
+
+  const transport = async (request: ODataRequest) => {
+    if (request.signal?.aborted) {
+      throw new DOMException("Aborted", "AbortError");
+    }
+    load();
+    // Clone so callers can't mutate stored rows through the response
+    const response = handle({ ...request, body: request.body && JSON.parse(JSON.stringify(request.body)) });
+    if (request.method !== "GET" && response.status < 300) save();
+    return { ...response, body: response.body && JSON.parse(JSON.stringify(response.body)) };
+  };
+
+  return Object.assign(transport, { tables });
+};
@@ -0,0 +1,82 @@
+/**
+ * The team tables: members (with their invitations) and custom roles.
+ *
+ * Kept apart from DataverseService, which depends on the browser, because the
+ * api/ functions read the same rows to resolve a caller's permissions.
+ */
+import { defineFieldMap } from "./fieldMap";
+import { Capability } from "../../utils/permissions";
+
+/**
+ * A person with access to the business account. Invitations are members in
+ * the "invited" state until the invitee first signs in.
+ */
+export interface TeamMember {
+  id?: string;
+  /** Identity provider object id; empty until the invitation is accepted */
+  userId: string;
+  name: string;
+  email: string;
+  /** Built-in role name or the name of a custom role */
+  role: string;
+  status: "invited" | "active" | "deactivated";
+  invitedBy: string;
+  invitedAt: string;
+  /** When the invitation email was last (re)sent */
+  inviteSentAt: string;
+  inviteExpiresAt: string;
+  joinedAt: string;
+  /** Last sign-in, recorded from MSAL login events */
+  lastLogin: string;
+}
+/**
+ * Column mapping for the cr123_teammember table. Sending invitation emails is
+ * left to a Dataverse flow triggered when cr123_invitesentat changes.
+ */
+export const teamMemberFieldMap = defineFieldMap<TeamMember>({
+  entitySet: "cr123_teammembers",
+  primaryKey: "cr123_teammemberid",
+  fields: {
+    id: { column: "cr123_teammemberid", readOnly: true },
+    userId: { column: "cr123_userid" },
+    name: { column: "cr123_name" },
+    email: { column: "cr123_email" },
+    role: { column: "cr123_role" },
+    status: { column: "cr123_status" },
+    invitedBy: { column: "cr123_invitedby" },
+    invitedAt: { column: "cr123_invitedat" },
+    inviteSentAt: { column: "cr123_invitesentat" },
+    inviteExpiresAt: { column: "cr123_inviteexpiresat" },
+    joinedAt: { column: "cr123_joinedat" },
+    lastLogin: { column: "cr123_lastlogin" },
+  },
+});
+/**
+ * A role defined by the business on top of the built-in ones
+ */
+export interface TeamRole {
+  id?: string;
+  name: string;
+  description: string;
+  capabilities: Capability[];
+  updatedAt: string;
+}
+/**
+ * Column mapping for the cr123_teamrole table. Capabilities are stored as a
+ * comma-separated list.
+ */
+export const teamRoleFieldMap = defineFieldMap<TeamRole>({
+  entitySet: "cr123_teamroles",
+  primaryKey: "cr123_teamroleid",
+  fields: {
+    id: { column: "cr123_teamroleid", readOnly: true },
+    name: { column: "cr123_name" },
+    description: { column: "cr123_description" },
+    capabilities: {
+      column: "cr123_capabilities",
+      toDataverse: (capabilities) => (capabilities || []).join(","),
+      fromDataverse: (value) => (value ? value.split(",") : []),
+    },
+    updatedAt: { column: "cr123_updatedat" },
+  },
+});
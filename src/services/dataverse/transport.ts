@@ -0,0 +1,60 @@
+/**
+ * HTTP transport used by the Dataverse client.
+ *
+ * The client never calls fetch directly; it hands a plain request object to a
+ * transport. Production uses fetchTransport, tests and local development can
+ * pass an in-memory OData stand-in (see inMemoryTransport.ts) instead.
+ */
+
+export type ODataMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+export interface ODataRequest {
+  method: ODataMethod;
+  /** Absolute URL including the query string */
+  url: string;
+  headers: Record<string, string>;
+  /** JSON body, serialised by the transport */
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+export interface ODataResponse {
+  status: number;
+  /** Header names are lower-cased */
+  headers: Record<string, string>;
+  /** Parsed JSON body, or null for empty responses (e.g. 204) */
+  body: any;
+}
+
+export type ODataTransport = (request: ODataRequest) => Promise<ODataResponse>;
+
+/**
+ * Transport backed by window.fetch
+ * @param request The request to send
+ * @returns The status, lower-cased headers and parsed JSON body
+ */
+export const fetchTransport: ODataTransport = async (request) => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    signal: request.signal,
+  });
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key.toLowerCase()] = value;
+  });
+
+  const text = await response.text();
+  let body: any = null;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = { error: { message: text } };
+    }
+  }
+
+  return { status: response.status, headers, body };
+};
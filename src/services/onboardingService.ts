@@ -1,57 +1,128 @@
-import { saveProfileData } from "./DataverseService";
-// Check if user has completed onboarding
+import {
+  deleteOnboardingDraft,
+  getActiveEntityId,
+  getOnboardingDraft,
+  isOnboardingCompleted,
+  isRegistrationNumberTaken,
+  saveOnboardingDraft,
+  saveProfileData,
+  setOnboardingCompleted,
+} from "./DataverseService";
+import { getApiAuthHeaders } from "./auth/msal";
+import { normalizePhone } from "../utils/fieldFormats";
+import { toProfileSections } from "../utils/fieldSchema";
+
+const env = (import.meta as any).env as Record<string, string | undefined>;
+// Registry lookup answering GET ?registrationNumber=… with { available }; without
+// it numbers are checked against the business profiles in Dataverse
+const REGISTRATION_LOOKUP_URL = env.VITE_REGISTRATION_LOOKUP_URL || "";
+// Check if the active business entity has completed onboarding
 export const checkOnboardingStatus = async () => {
-  // In a real implementation, this would check against a Dataverse API
-  // For now, we'll check localStorage to simulate persistence
-  const onboardingStatus = localStorage.getItem("onboardingComplete");
-  if (onboardingStatus === "true") {
-    return true;
-  }
   try {
-    // Simulate API call to check if profile data exists
-    // In a real implementation, this would check if mandatory fields are filled
-    const response = await fetch("/api/onboarding/status");
-    const data = await response.json();
-    return data.isComplete;
+    return await isOnboardingCompleted();
   } catch (error) {
     console.error("Error checking onboarding status:", error);
     // Default to false if there's an error
     return false;
   }
 };
-// Save onboarding progress (intermediate state)
-export const saveOnboardingProgress = async (formData) => {
+/**
+ * Answers, step and touched fields kept between onboarding sessions
+ */
+export interface OnboardingProgress {
+  formData: Record<string, any>;
+  currentStep: number;
+  touchedFields: Record<string, boolean>;
+}
+// Drafts belong to the entity being onboarded
+const requireActiveEntity = () => {
+  const entityId = getActiveEntityId();
+  if (!entityId) throw new Error("No business entity selected");
+  return entityId;
+};
+/**
+ * Loads the user's saved onboarding progress for the active entity
+ * @param userId The user's MSAL local account id
+ * @returns The progress, or null when onboarding has not been started
+ */
+export const loadOnboardingProgress = async (userId: string): Promise<OnboardingProgress | null> => {
+  const draft = await getOnboardingDraft(userId, requireActiveEntity());
+  if (!draft) return null;
+  return {
+    formData: draft.formData,
+    currentStep: draft.currentStep || 0,
+    touchedFields: draft.touchedFields,
+  };
+};
+// Save onboarding progress (intermediate state) as the user's draft for the active entity
+export const saveOnboardingProgress = async (userId: string, progress: OnboardingProgress) => {
   try {
-    // In a real implementation, this would save to Dataverse or another backend
-    // For now, we'll use localStorage to simulate persistence
-    localStorage.setItem("onboardingProgress", JSON.stringify(formData));
-    // Also save the partial data to Dataverse for incremental saving
-    // Only send the fields that have values
-    const partialData = {};
-    Object.keys(formData).forEach((key) => {
-      if (formData[key] && formData[key].toString().trim() !== "") {
-        partialData[key] = formData[key];
-      }
+    await saveOnboardingDraft({
+      userId,
+      entityId: requireActiveEntity(),
+      ...progress,
+      updatedAt: new Date().toISOString(),
     });
-    if (Object.keys(partialData).length > 0) {
-      // Transform the partial data into the structured format expected by Dataverse
-      const structuredData =
-        transformPartialFormDataToDataverseFormat(partialData);
-      // Save the partial data using the existing dataverseService
-      // In a real implementation, this would use a different endpoint or flag
-      // to indicate this is a partial save
-      await saveProfileData(structuredData); // true indicates partial save
-    }
-    // Simulate API latency
-    await new Promise((resolve) => setTimeout(resolve, 500));
     return true;
   } catch (error) {
     console.error("Error saving onboarding progress:", error);
     throw error;
   }
 };
-// Save onboarding data to Dataverse (final submission)
-export const saveOnboardingData = async (formData) => {
+/**
+ * Checks that no other business is registered under a number
+ * @param registrationNumber The number entered during onboarding
+ * @param signal Aborts the lookup when the user keeps typing
+ * @returns True when the number is free (or already the active entity's)
+ */
+export const isRegistrationNumberAvailable = async (registrationNumber: string, signal?: AbortSignal) => {
+  if (!REGISTRATION_LOOKUP_URL) {
+    return !(await isRegistrationNumberTaken(registrationNumber, getActiveEntityId()));
+  }
+  const query = new URLSearchParams({ registrationNumber: registrationNumber.trim() });
+  const entityId = getActiveEntityId();
+  if (entityId) query.set("entityId", entityId);
+  const response = await fetch(`${REGISTRATION_LOOKUP_URL}?${query}`, {
+    headers: await getApiAuthHeaders(),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Registration number lookup failed: ${response.statusText}`);
+  }
+  const { available } = await response.json();
+  return available !== false;
+};
+// Id token claims that pre-fill onboarding: B2C custom attributes first, then standard ones
+const CLAIM_PREFILL: Record<string, string[]> = {
+  tradeName: ["extension_CompanyName", "extension_TradeName", "company_name"],
+  industry: ["extension_Industry"],
+  companyStage: ["extension_CompanyStage"],
+  contactName: ["name"],
+  phone: ["extension_Phone", "phone_number", "mobilePhone"],
+  email: ["emails", "email"],
+};
+/**
+ * Initial onboarding answers from the signed-in user's id token
+ * @param claims Decoded id token claims
+ * @returns Form values for the claims present
+ */
+export const getOnboardingPrefill = (claims: Record<string, unknown> | null | undefined) => {
+  const prefill: Record<string, string> = {};
+  Object.entries(CLAIM_PREFILL).forEach(([fieldName, names]) => {
+    const value = names
+      .map((name) => claims?.[name])
+      .map((claim) => (Array.isArray(claim) ? claim[0] : claim))
+      .find((claim) => typeof claim === "string" && claim.trim() !== "");
+    if (value) prefill[fieldName] = String(value).trim();
+  });
+  if (prefill.phone) prefill.phone = normalizePhone(prefill.phone);
+  if (!prefill.contactName && claims?.given_name) {
+    prefill.contactName = [claims.given_name, claims.family_name].filter(Boolean).join(" ");
+  }
+  return prefill;
+};
+// Save onboarding data to Dataverse (final submission); the user's draft is then removed
+export const saveOnboardingData = async (formData, userId?: string) => {
   try {
     // Clean the form data - trim string values
     const cleanedData = {};
@@ -66,140 +137,22 @@ export const saveOnboardingData = async (formData) => {
     const structuredData = transformFormDataToDataverseFormat(cleanedData);
     // Save the data using the existing dataverseService
     await saveProfileData(structuredData);
-    // Mark onboarding as complete in localStorage
-    localStorage.setItem("onboardingComplete", "true");
+    // Mark onboarding as complete for the active entity
+    await setOnboardingCompleted();
+    if (userId) {
+      const draft = await getOnboardingDraft(userId, requireActiveEntity());
+      if (draft?.id) await deleteOnboardingDraft(draft.id);
+    }
     return true;
   } catch (error) {
     console.error("Error saving onboarding data:", error);
     throw error;
   }
 };
-// Helper function to transform partial form data into structured Dataverse format
-function transformPartialFormDataToDataverseFormat(partialData) {
-  // Create sections structure with the provided fields
-  // This is similar to the full transform but handles partial data
-  const sections = {};
-  // Basic section fields
-  const basicFields = [
-    "tradeName",
-    "industry",
-    "businessSize",
-    "registrationNumber",
-    "establishmentDate",
-    "businessPitch",
-    "problemStatement",
-    "employeeCount",
-    "founders",
-    "foundingYear",
-    "initialCapital",
-    "fundingNeeds",
-    "needsList",
-  ];
-  // Contact section fields
-  const contactFields = [
-    "contactName",
-    "email",
-    "phone",
-    "address",
-    "city",
-    "country",
-    "website",
-  ];
-  // Check if we have any basic section fields
-  const hasBasicFields = basicFields.some((field) => field in partialData);
-  if (hasBasicFields) {
-    sections.basic = {
-      fields: {},
-      status: {},
-    };
-    basicFields.forEach((field) => {
-      if (field in partialData) {
-        sections.basic.fields[field] = partialData[field];
-        sections.basic.status[field] = "completed";
-      }
-    });
-  }
-  // Check if we have any contact section fields
-  const hasContactFields = contactFields.some((field) => field in partialData);
-  if (hasContactFields) {
-    sections.contact = {
-      fields: {},
-      status: {},
-    };
-    contactFields.forEach((field) => {
-      if (field in partialData) {
-        sections.contact.fields[field] = partialData[field];
-        sections.contact.status[field] = "completed";
-      }
-    });
-  }
-  // Construct the partial profile data object
-  return {
-    id: partialData.id || generateTemporaryId(),
-    name: partialData.tradeName || "Company Name",
-    companyType: partialData.industry || "Industry",
-    companySize: partialData.businessSize || "Company Size",
-    companyStage: partialData.companyStage || "startup",
-    sections,
-  };
-}
 // Helper function to transform form data into structured Dataverse format
 function transformFormDataToDataverseFormat(formData) {
-  // Create sections structure with the provided fields
-  const sections = {
-    basic: {
-      fields: {
-        tradeName: formData.tradeName || "",
-        industry: formData.industry || "",
-        businessSize: formData.businessSize || "",
-        registrationNumber: formData.registrationNumber || "",
-        establishmentDate: formData.establishmentDate || "",
-        businessPitch: formData.businessPitch || "",
-        problemStatement: formData.problemStatement || "",
-        employeeCount: formData.employeeCount || "",
-        founders: formData.founders || "",
-        foundingYear: formData.foundingYear || "",
-        initialCapital: formData.initialCapital || "",
-        fundingNeeds: formData.fundingNeeds || "",
-        needsList: formData.needsList || "",
-      },
-      status: {
-        tradeName: "completed",
-        industry: "completed",
-        businessSize: "completed",
-        registrationNumber: "completed",
-        establishmentDate: "completed",
-        businessPitch: "completed",
-        problemStatement: "completed",
-        employeeCount: "completed",
-        founders: "completed",
-        foundingYear: "completed",
-        initialCapital: "completed",
-        fundingNeeds: formData.fundingNeeds ? "completed" : "editable",
-        needsList: "completed",
-      },
-    },
-    contact: {
-      fields: {
-        contactName: formData.contactName || "",
-        email: formData.email || "",
-        phone: formData.phone || "",
-        address: formData.address || "",
-        city: formData.city || "",
-        country: formData.country || "",
-        website: formData.website || "",
-      },
-      status: {
-        contactName: "completed",
-        email: "completed",
-        phone: "completed",
-        address: "completed",
-        city: "completed",
-        country: "completed",
-        website: formData.website ? "completed" : "editable",
-      },
-    },
-  };
+  // Answers go to the profile tabs the field schema places them on
+  const sections = toProfileSections(formData);
   // Construct the complete profile data object
   return {
     id: formData.id || generateTemporaryId(),
@@ -2,63 +2,60 @@
 import React from 'react';
 import { CheckIcon } from 'lucide-react';
 import { profileConfig } from '../utils/profileConfig';
+import { onboardingSteps } from '../config/onboardingSteps';
+import { isEmptyValue, isFieldVisible } from '../utils/fieldRules';
+import { formatFieldValue, formatRepeatableItem } from '../utils/fieldFormats';
+import { getOnboardingFieldsByName, getStepFields } from '../utils/fieldSchema';
+
+// Step field configs by name, for their visibility rules and value formats
+const fieldConfigs = getOnboardingFieldsByName();
 
 export function ReviewStep({ formData, isRevisit }) {
     const companyStageInfo = profileConfig.companyStages.find(
         stage => stage.id === formData.companyStage
     ) || profileConfig.companyStages[0];
 
-    const dataGroups = [
-        {
-            title: 'Company Information',
-            fields: [
-                { label: 'Company Name', value: formData.tradeName },
-                { label: 'Industry', value: formData.industry },
-                { label: 'Business Size', value: formData.businessSize },
-                { label: 'Registration Number', value: formData.registrationNumber },
-                { label: 'Establishment Date', value: formData.establishmentDate },
-                {
-                    label: 'Company Stage',
-                    value: companyStageInfo.label,
-                    badge: <span className={`ml-2 inline-block w-2 h-2 rounded-full ${companyStageInfo.color}`} />
-                },
-            ],
-        },
-        {
-            title: 'Business Profile',
-            fields: [
-                { label: 'Business Pitch', value: formData.businessPitch },
-                { label: 'Problem Statement', value: formData.problemStatement },
-            ],
-        },
-        {
-            title: 'Location & Contact',
-            fields: [
-                { label: 'Address', value: formData.address },
-                { label: 'City', value: formData.city },
-                { label: 'Country', value: formData.country },
-                { label: 'Website', value: formData.website },
-                { label: 'Phone', value: formData.phone },
-                { label: 'Email', value: formData.email },
-            ],
-        },
-        {
-            title: 'Operations',
-            fields: [
-                { label: 'Employee Count', value: formData.employeeCount },
-                { label: 'Founders', value: formData.founders },
-                { label: 'Founding Year', value: formData.foundingYear },
-            ],
-        },
-        {
-            title: 'Funding & Needs',
+    // Fields a rule hides are left out of the review
+    const isShown = (field: { fieldName?: string }) =>
+        !field.fieldName || !fieldConfigs[field.fieldName] || isFieldVisible(fieldConfigs[field.fieldName], formData);
+
+    // Values as shown to the user; a repeatable group lists its entries
+    const renderValue = (field: { fieldName?: string; value: any }) => {
+        const config = field.fieldName ? fieldConfigs[field.fieldName] : undefined;
+        if (config?.type === 'repeatable' && Array.isArray(field.value)) {
+            return (
+                <ul className="space-y-1">
+                    {field.value.map((item, index) => (
+                        <li key={index}>{formatRepeatableItem(config, item)}</li>
+                    ))}
+                </ul>
+            );
+        }
+        return config ? formatFieldValue(config, field.value) : field.value;
+    };
+
+    // One group per step, in step order; the company stage joins the welcome answers
+    const dataGroups = onboardingSteps
+        .map((step) => ({
+            title: step.reviewTitle || step.title,
             fields: [
-                { label: 'Initial Capital (USD)', value: formData.initialCapital },
-                { label: 'Funding Needs (USD)', value: formData.fundingNeeds },
-                { label: 'Business Needs', value: formData.needsList },
+                ...getStepFields(step).map((field) => ({
+                    fieldName: field.fieldName,
+                    label: field.label,
+                    value: formData[field.fieldName],
+                    badge: undefined as React.ReactNode,
+                })),
+                ...(step.type === 'welcome'
+                    ? [{
+                        fieldName: undefined,
+                        label: 'Company Stage',
+                        value: companyStageInfo.label,
+                        badge: <span className={`ml-2 inline-block w-2 h-2 rounded-full ${companyStageInfo.color}`} />,
+                    }]
+                    : []),
             ],
-        },
-    ];
+        }))
+        .filter((group) => group.fields.length > 0);
 
     return (
         <div className="space-y-8">
@@ -87,11 +84,11 @@ export function ReviewStep({ formData, isRevisit }) {
                         <div className="p-5">
                             <dl className="grid grid-cols-1 gap-4">
                                 {group.fields.map((field, fieldIndex) =>
-                                    field.value ? (
+                                    !isEmptyValue(field.value) && isShown(field) ? (
                                         <div key={fieldIndex} className="flex justify-between">
                                             <dt className="text-sm font-medium text-gray-500">{field.label}:</dt>
                                             <dd className="text-sm text-gray-800 text-right flex items-center justify-end max-w-xs">
-                                                <span className="break-words">{field.value}</span>
+                                                <span className="break-words">{renderValue(field)}</span>
                                                 {field.badge}
                                             </dd>
                                         </div>
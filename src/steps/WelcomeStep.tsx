@@ -1,6 +1,12 @@
 import React from 'react';
 import { BuildingIcon, PencilIcon, SaveIcon } from 'lucide-react';
 import { profileConfig } from '../utils/profileConfig';
+import { formatFieldValue } from '../utils/fieldFormats';
+import { PhoneField } from '../components/fields/PhoneField';
+import { onboardingSteps } from '../config/onboardingSteps';
+
+// Fields the field schema places on the welcome step
+const welcomeFields = onboardingSteps.find(step => step.id === 'welcome')?.fields || [];
 
 export function WelcomeStep({
     formData,
@@ -15,14 +21,6 @@ export function WelcomeStep({
         stage => stage.id === formData.companyStage
     ) || profileConfig.companyStages[0];
 
-    const welcomeFields = [
-        { id: 'tradeName', label: 'Company Name', fieldName: 'tradeName', required: true, minLength: 2 },
-        { id: 'industry', label: 'Industry', fieldName: 'industry', required: true },
-        { id: 'contactName', label: 'Contact Name', fieldName: 'contactName', required: true, minLength: 3, pattern: '^[a-zA-Z\\s.-]+$' },
-        { id: 'email', label: 'Email', fieldName: 'email', required: true, type: 'email' },
-        { id: 'phone', label: 'Phone', fieldName: 'phone', required: true, type: 'tel' },
-    ];
-
     return (
         <div className="space-y-8">
             <div className="flex justify-center">
@@ -72,13 +70,22 @@ export function WelcomeStep({
                                     {field.label}
                                     {field.required && <span className="ml-1 text-red-500">*</span>}
                                 </label>
-                                <input
-                                    type={field.type || 'text'}
-                                    value={formData[field.fieldName] || ''}
-                                    onChange={e => onInputChange(field.fieldName, e.target.value)}
-                                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${errors[field.fieldName] ? 'border-red-300' : 'border-gray-300'
-                                        }`}
-                                />
+                                {field.type === 'phone' ? (
+                                    <PhoneField
+                                        id={field.fieldName}
+                                        value={formData[field.fieldName] || ''}
+                                        onChange={value => onInputChange(field.fieldName, value)}
+                                        hasError={!!errors[field.fieldName]}
+                                    />
+                                ) : (
+                                    <input
+                                        type={field.type || 'text'}
+                                        value={formData[field.fieldName] || ''}
+                                        onChange={e => onInputChange(field.fieldName, e.target.value)}
+                                        className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${errors[field.fieldName] ? 'border-red-300' : 'border-gray-300'
+                                            }`}
+                                    />
+                                )}
                                 {errors[field.fieldName] && (
                                     <div className="text-red-500 text-sm mt-1">
                                         {errors[field.fieldName]}
@@ -106,12 +113,8 @@ export function WelcomeStep({
                 ) : (
                     <div className="space-y-4">
                         {[
-                            { key: 'tradeName', label: 'Company Name' },
-                            { key: 'industry', label: 'Industry' },
-                            { key: 'companyStage', label: 'Company Stage', special: 'stage' },
-                            { key: 'contactName', label: 'Contact Name' },
-                            { key: 'email', label: 'Email' },
-                            { key: 'phone', label: 'Phone' },
+                            ...welcomeFields.map(field => ({ key: field.fieldName, label: field.label, field, special: '' })),
+                            { key: 'companyStage', label: 'Company Stage', field: undefined, special: 'stage' },
                         ].map(item => (
                             <div key={item.key} className="flex justify-between">
                                 <span className="text-sm font-medium text-gray-500">{item.label}:</span>
@@ -123,7 +126,7 @@ export function WelcomeStep({
                                                 <span className={`ml-2 inline-block w-2 h-2 rounded-full ${companyStageInfo.color}`} />
                                             </>
                                         ) : (
-                                            formData[item.key] || 'Not provided'
+                                            formatFieldValue(item.field, formData[item.key]) || 'Not provided'
                                         )}
                                     </span>
                                     {editedFields[item.key] && (
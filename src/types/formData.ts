@@ -6,6 +6,39 @@
  *
  * @module onboarding-form/types
  */
+/**
+ * FieldCondition Type
+ * A rule over other field values, e.g. { field: "entityType", equals: "Branch" }.
+ * Plain data so step and profile configs stay serializable.
+ */
+export type FieldCondition =
+  | { field: string; equals: unknown }
+  | { field: string; notEquals: unknown }
+  | { field: string; in: unknown[] }
+  | { field: string; notIn: unknown[] }
+  | { field: string; isEmpty: boolean }
+  | { field: string; greaterThan: number }
+  | { field: string; lessThan: number }
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition };
+/**
+ * FieldDefault Type
+ * Value filled in while the user has not edited the field: a constant
+ * (optionally only when a condition holds) or a copy of another field
+ */
+export type FieldDefault =
+  | { value: unknown; when?: FieldCondition }
+  | { copyFrom: string; transform?: "year" };
+/**
+ * CrossFieldRule Type
+ * A check of the field's value against the date or another answer; the
+ * other field being empty passes
+ */
+export type CrossFieldRule =
+  | { rule: "notInFuture"; message?: string }
+  | { rule: "notAfter"; field: string; message?: string } // Dates, or years against dates
+  | { rule: "sameDomainAs"; field: string; message?: string }; // Emails and website URLs
 /**
  * FormField Interface
  * Represents a single form field with its properties and validation rules
@@ -17,7 +50,7 @@ export interface FormField {
   required?: boolean; // Whether the field is required
   minLength?: number; // Minimum length for text fields
   maxLength?: number; // Maximum length for text fields
-  type?: string; // Field type (text, number, email, etc.)
+  type?: string; // Field type (text, number, email, date, phone, multiselect, currency, file, repeatable, etc.)
   pattern?: string; // Regex pattern for validation
   patternErrorMessage?: string; // Custom error message for pattern validation
   helpText?: string; // Help text displayed below the field
@@ -31,6 +64,29 @@ export interface FormField {
     value: string;
     label: string;
   }>;
+  visibleWhen?: FieldCondition; // Hidden (and not validated) unless this holds
+  requiredWhen?: FieldCondition; // Required when this holds, in addition to `required`
+  disabledWhen?: FieldCondition; // Read-only when this holds
+  defaultValue?: FieldDefault; // Computed value until the user edits the field
+  rules?: CrossFieldRule[]; // Checks involving other answers
+  asyncValidator?: string; // Name of a validator in asyncValidators, run once the other checks pass
+  defaultCountry?: string; // Phone fields: ISO code of the country preselected for the dialling code
+  currency?: string; // Currency fields: ISO code, AED when not set
+  minItems?: number; // Multi-select and repeatable fields: fewest choices or entries
+  maxItems?: number; // Multi-select and repeatable fields: most choices or entries
+  documentCategory?: string; // File fields: Document Wallet category of the upload
+  accept?: string; // File fields: accepted file types, as for <input accept>
+  itemFields?: FormField[]; // Repeatable fields: the fields of one entry
+  itemLabel?: string; // Repeatable fields: name of one entry, e.g. "Founder"
+  maxTotal?: { field: string; max: number }; // Repeatable fields: cap on the sum of an item field
+}
+/**
+ * UploadedFile Interface
+ * Value of a file field: the Document Wallet document holding the upload
+ */
+export interface UploadedFile {
+  documentId: string; // Id of the wallet document
+  fileName: string; // Name of the uploaded file
 }
 /**
  * Section Interface
@@ -63,22 +119,23 @@ export interface FormData {
   companyStage?: string;
   contactName?: string;
   email?: string;
-  phone?: string;
+  phone?: string; // E.164, e.g. +971501234567
   businessSize?: string;
   registrationNumber?: string;
-  establishmentDate?: string;
+  establishmentDate?: string; // ISO date, YYYY-MM-DD
   businessPitch?: string;
   problemStatement?: string;
-  address?: string;
+  addressLine1?: string;
   city?: string;
   country?: string;
   website?: string;
-  employeeCount?: number;
-  founders?: string;
+  numberOfEmployees?: number;
+  founders?: Array<{ name?: string; nationality?: string; ownership?: string }>;
   foundingYear?: number;
-  initialCapital?: number;
-  fundingNeeds?: number;
-  needsList?: string;
+  initialCapital?: number; // Amount in AED
+  fundingNeeds?: number; // Amount in AED
+  needsList?: string[];
+  tradeLicense?: UploadedFile;
 }
 /**
  * CompanyStageInfo Interface
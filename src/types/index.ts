@@ -3,6 +3,17 @@ export type ServiceRequestStatus =
   | "under-review"
   | "approved"
   | "rejected";
+// A wallet document attached to a service request for one of the product's required documents
+export interface ServiceRequestDocument {
+  requirementId: string;
+  requirement: string;
+  status: "matched" | "expired" | "missing";
+  optional?: boolean;
+  documentId?: string;
+  documentName?: string;
+  fileUrl?: string;
+  expiryDate?: string;
+}
 export interface ServiceRequest {
   id: string;
   serviceName: string;
@@ -26,6 +37,12 @@ export interface ServiceRequest {
     date?: string;
     comments?: string;
   }>;
+  /** Marketplace product the request was started from */
+  serviceId?: string;
+  /** Checklist built from the product's RequiredDocuments */
+  documents?: ServiceRequestDocument[];
+  /** Business entity the request was made for */
+  entityId?: string;
 }
 export interface DateRangeFilter {
   startDate: string | null;
@@ -0,0 +1,91 @@
+/**
+ * CSV helpers for client-side exports and previews
+ */
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+// Quote a cell when it contains a delimiter, quote or line break (RFC 4180)
+const escapeCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds CSV text from rows
+ * @param rows The rows to export
+ * @param columns Header and value accessor per column
+ * @returns CSV with a header line and CRLF line endings
+ */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string =>
+  [
+    columns.map((column) => escapeCell(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCell(column.value(row))).join(",")
+    ),
+  ].join("\r\n");
+
+/**
+ * Triggers a browser download of CSV text
+ * @param fileName Name for the downloaded file
+ * @param csv CSV content
+ */
+export const downloadCsv = (fileName: string, csv: string) => {
+  // Prefix a BOM so Excel opens UTF-8 (e.g. Arabic names) correctly
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parses CSV text (RFC 4180: quoted cells may contain commas, quotes and line breaks)
+ * @param text CSV content
+ * @param maxRows Stop after this many rows
+ * @returns Rows of cells
+ */
+export const parseCsv = (text: string, maxRows = Infinity): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  // Excel writes a BOM at the start of UTF-8 files
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length && rows.length < maxRows; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if ((cell || row.length > 0) && rows.length < maxRows) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
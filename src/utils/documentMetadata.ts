@@ -0,0 +1,273 @@
+/**
+ * Rule-based metadata extraction from document text: expiry and issue dates,
+ * UAE TRN (VAT) numbers, licence numbers, a suggested wallet category and tags.
+ *
+ * Every value carries a confidence between 0 and 1 and the text it came
+ * from, so the UI can show why it was suggested. Values found next to a
+ * label ("Expiry Date:", "TRN") score high; unlabelled guesses score low.
+ */
+
+export interface MetadataSuggestion<T = string> {
+  value: T;
+  /** 0..1; labelled matches score 0.8 and above */
+  confidence: number;
+  /** Text around the match */
+  source: string;
+}
+
+export interface ExtractedMetadata {
+  expiryDate?: MetadataSuggestion;
+  issueDate?: MetadataSuggestion;
+  /** UAE Tax Registration Number (15 digits) */
+  trn?: MetadataSuggestion;
+  licenseNumber?: MetadataSuggestion;
+  category?: MetadataSuggestion;
+  tags?: MetadataSuggestion<string[]>;
+}
+
+export const HIGH_CONFIDENCE = 0.8;
+export const MEDIUM_CONFIDENCE = 0.5;
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+const EXPIRY_LABEL = /(expiry|expiration|expires?|valid\s+(?:until|till|to|through|thru)|validity|renewal\s+due|date\s+of\s+expiry)/i;
+const ISSUE_LABEL = /(issue\s+date|date\s+of\s+issue|issued(?:\s+on)?|effective\s+(?:date|from)|valid\s+from|registration\s+date)/i;
+
+// How far back from a value a label may appear
+const LABEL_WINDOW = 48;
+
+interface FoundDate {
+  iso: string;
+  index: number;
+  text: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1950 || year > 2100) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31/02 and similar
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Finds dates in text. Numeric dates are read day-first (dd/mm/yyyy), as on
+ * UAE documents, unless they start with the year.
+ */
+const findDates = (text: string): FoundDate[] => {
+  const found: FoundDate[] = [];
+  const push = (iso: string | null, match: RegExpExecArray) => {
+    if (iso) found.push({ iso, index: match.index, text: match[0] });
+  };
+  const patterns: [RegExp, (m: RegExpExecArray) => string | null][] = [
+    // 2025-12-31, 2025/12/31
+    [/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g, (m) => toIsoDate(+m[1], +m[2], +m[3])],
+    // 31/12/2025, 31-12-2025, 31.12.2025
+    [/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/g, (m) => toIsoDate(+m[3], +m[2], +m[1])],
+    // 31 December 2025, 31-Dec-2025, 31st Dec 2025
+    [
+      /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?[\s-,]+(\d{4})\b/gi,
+      (m) => toIsoDate(+m[3], monthIndex(m[2]), +m[1]),
+    ],
+    // December 31, 2025
+    [
+      /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/gi,
+      (m) => toIsoDate(+m[3], monthIndex(m[1]), +m[2]),
+    ],
+  ];
+  patterns.forEach(([pattern, parse]) => {
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      push(parse(match), match);
+    }
+  });
+  return found.sort((a, b) => a.index - b.index);
+};
+
+const snippet = (text: string, index: number, length: number) =>
+  text
+    .slice(Math.max(0, index - LABEL_WINDOW), index + length)
+    .replace(/\s+/g, " ")
+    .trim();
+
+// The text on the same line (or just before) a value, where its label would be
+const labelBefore = (text: string, index: number) => {
+  const before = text.slice(Math.max(0, index - LABEL_WINDOW), index);
+  // Stop at the previous value so "Issue Date: x  Expiry Date: y" labels y correctly
+  const parts = before.split(/\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}|\n\s*\n/);
+  return parts[parts.length - 1];
+};
+
+const extractDates = (text: string, now: Date) => {
+  const dates = findDates(text);
+  let expiryDate: MetadataSuggestion | undefined;
+  let issueDate: MetadataSuggestion | undefined;
+
+  const labelled = (label: RegExp) =>
+    dates.find((date) => label.test(labelBefore(text, date.index)));
+
+  const expiry = labelled(EXPIRY_LABEL);
+  if (expiry) {
+    expiryDate = {
+      value: expiry.iso,
+      confidence: 0.9,
+      source: snippet(text, expiry.index, expiry.text.length),
+    };
+  }
+  const issue = labelled(ISSUE_LABEL);
+  if (issue) {
+    issueDate = {
+      value: issue.iso,
+      confidence: 0.85,
+      source: snippet(text, issue.index, issue.text.length),
+    };
+  }
+
+  if (!expiryDate && dates.length > 1) {
+    // No label: the latest future date is often the expiry, but only a guess
+    const today = now.toISOString().slice(0, 10);
+    const latest = [...dates]
+      .filter((date) => date.iso !== issueDate?.value)
+      .sort((a, b) => b.iso.localeCompare(a.iso))[0];
+    if (latest && latest.iso > today) {
+      expiryDate = {
+        value: latest.iso,
+        confidence: 0.4,
+        source: snippet(text, latest.index, latest.text.length),
+      };
+    }
+  }
+  return { expiryDate, issueDate };
+};
+
+const extractTrn = (text: string): MetadataSuggestion | undefined => {
+  // 15 digits, optionally grouped with spaces or dashes; UAE TRNs start with 100
+  const pattern = /\b(1\d{2}(?:[\s-]?\d){12})\b/g;
+  let best: MetadataSuggestion | undefined;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const value = match[1].replace(/[\s-]/g, "");
+    if (value.length !== 15) continue;
+    const label = /(TRN|tax\s+registration|VAT\s+(?:registration\s+)?(?:no|number|reg)|VAT\s+TRN)/i.test(
+      labelBefore(text, match.index)
+    );
+    const confidence = label ? 0.95 : value.startsWith("100") ? 0.6 : 0.3;
+    if (!best || confidence > best.confidence) {
+      best = { value, confidence, source: snippet(text, match.index, match[0].length) };
+    }
+  }
+  return best;
+};
+
+const extractLicenseNumber = (text: string): MetadataSuggestion | undefined => {
+  const match = text.match(
+    /(?:(?:trade|commercial|business|economic)\s+)?licen[cs]e\s*(?:no\.?|number|#|num\.?)\s*[:.-]?\s*([A-Z0-9][A-Z0-9/-]{3,24})/i
+  );
+  if (!match || !/\d/.test(match[1])) return undefined;
+  return {
+    value: match[1].replace(/[-/]+$/, ""),
+    confidence: 0.85,
+    source: snippet(text, match.index! + match[0].length - match[1].length, match[1].length),
+  };
+};
+
+/** Keywords per wallet category; each hit adds its weight */
+const CATEGORY_KEYWORDS: Record<string, { pattern: RegExp; weight: number; tag?: string }[]> = {
+  Licensing: [
+    { pattern: /trade\s+licen[cs]e/i, weight: 3, tag: "trade license" },
+    { pattern: /commercial\s+licen[cs]e/i, weight: 3, tag: "commercial license" },
+    { pattern: /licen[cs]e\s+(?:no|number)/i, weight: 2, tag: "license" },
+    { pattern: /department\s+of\s+economic\s+development|\bDED\b|\bADGM\b|registration\s+authority/i, weight: 1, tag: "registration" },
+  ],
+  Tax: [
+    { pattern: /tax\s+registration\s+certificate/i, weight: 4, tag: "vat" },
+    { pattern: /federal\s+tax\s+authority|\bFTA\b/i, weight: 2, tag: "fta" },
+    { pattern: /\bTRN\b|tax\s+registration\s+number/i, weight: 2, tag: "trn" },
+    { pattern: /\bVAT\b|value\s+added\s+tax/i, weight: 1, tag: "vat" },
+    { pattern: /corporate\s+tax/i, weight: 2, tag: "corporate tax" },
+  ],
+  Insurance: [
+    { pattern: /insurance\s+(?:policy|certificate)/i, weight: 3, tag: "insurance" },
+    { pattern: /policy\s+(?:no|number)|\binsured\b|premium/i, weight: 1, tag: "policy" },
+  ],
+  Legal: [
+    { pattern: /articles\s+of\s+association|memorandum\s+of\s+association/i, weight: 4, tag: "constitutional" },
+    { pattern: /power\s+of\s+attorney/i, weight: 3, tag: "poa" },
+    { pattern: /agreement|contract|hereinafter/i, weight: 1, tag: "agreement" },
+  ],
+  Certifications: [
+    { pattern: /\bISO\s*\d{4,5}/i, weight: 3, tag: "iso" },
+    { pattern: /certificate\s+of\s+(?:registration|conformity|compliance)|hereby\s+certif/i, weight: 2, tag: "certificate" },
+  ],
+  Compliance: [
+    { pattern: /anti-?money\s+laundering|\bAML\b|\bKYC\b/i, weight: 3, tag: "aml" },
+    { pattern: /audit(?:ed)?\s+(?:report|financial\s+statements)/i, weight: 2, tag: "audit" },
+  ],
+  HR: [
+    { pattern: /employment\s+(?:contract|agreement)|offer\s+letter/i, weight: 3, tag: "employment" },
+    { pattern: /\bvisa\b|emirates\s+id|labou?r\s+card|work\s+permit/i, weight: 2, tag: "visa" },
+  ],
+  Facilities: [
+    { pattern: /tenancy\s+contract|lease\s+agreement|\bEjari\b/i, weight: 3, tag: "lease" },
+    { pattern: /landlord|tenant|premises/i, weight: 1, tag: "premises" },
+  ],
+};
+
+const extractCategoryAndTags = (text: string, categories?: string[]) => {
+  const scores: { category: string; score: number; tags: string[]; source: string }[] = [];
+  Object.entries(CATEGORY_KEYWORDS).forEach(([category, keywords]) => {
+    if (categories && !categories.includes(category)) return;
+    let score = 0;
+    const tags: string[] = [];
+    let source = "";
+    keywords.forEach(({ pattern, weight, tag }) => {
+      const match = text.match(pattern);
+      if (!match) return;
+      score += weight;
+      if (tag && !tags.includes(tag)) tags.push(tag);
+      if (!source) source = snippet(text, match.index!, match[0].length);
+    });
+    if (score > 0) scores.push({ category, score, tags, source });
+  });
+  if (scores.length === 0) return {};
+  scores.sort((a, b) => b.score - a.score);
+  const [top, runnerUp] = scores;
+  // Confident when the evidence is strong and clearly ahead of the next category
+  const margin = runnerUp ? (top.score - runnerUp.score) / top.score : 1;
+  const confidence = Math.min(0.95, 0.3 + Math.min(top.score, 5) * 0.08 + margin * 0.25);
+  return {
+    category: { value: top.category, confidence, source: top.source },
+    tags: { value: top.tags, confidence, source: top.source },
+  };
+};
+
+/**
+ * Runs all extractors over document text
+ * @param text Plain text of the document
+ * @param options Wallet categories to choose from, and "now" for future-date checks
+ * @returns Suggestions for whatever could be found
+ */
+export const extractDocumentMetadata = (
+  text: string,
+  options: { categories?: string[]; now?: Date } = {}
+): ExtractedMetadata => {
+  const { expiryDate, issueDate } = extractDates(text, options.now || new Date());
+  const metadata: ExtractedMetadata = {
+    expiryDate,
+    issueDate,
+    trn: extractTrn(text),
+    licenseNumber: extractLicenseNumber(text),
+    ...extractCategoryAndTags(text, options.categories),
+  };
+  // Identifiers found are useful tags too
+  if (metadata.trn && metadata.tags && !metadata.tags.value.includes("trn")) {
+    metadata.tags = { ...metadata.tags, value: [...metadata.tags.value, "trn"] };
+  }
+  return metadata;
+};
@@ -0,0 +1,119 @@
+/**
+ * Plain-text extraction for wallet documents (PDF text layer, DOCX, TXT).
+ *
+ * Runs in the main thread or a Web Worker. PDF parsing needs pdf.js's worker
+ * handler: inside a Web Worker, import "pdfjs-dist/build/pdf.worker.mjs"
+ * first so pdf.js parses in the same thread instead of spawning another one.
+ */
+import { getDocument } from "pdfjs-dist";
+import { strFromU8, unzipSync } from "fflate";
+
+export type TextExtractableType = "pdf" | "docx" | "txt";
+
+const TEXT_EXTENSIONS: Record<string, TextExtractableType> = {
+  pdf: "pdf",
+  docx: "docx",
+  txt: "txt",
+  md: "txt",
+  csv: "txt",
+};
+
+/**
+ * Works out which extractor applies to a file
+ * @param fileName File name or blob URL (only the extension is used)
+ * @returns The extractable type, or null if text can't be extracted
+ */
+export const getTextExtractableType = (
+  fileName: string
+): TextExtractableType | null => {
+  const path = fileName.split(/[?#]/)[0];
+  const extension = path.includes(".") ? path.split(".").pop()!.toLowerCase() : "";
+  return TEXT_EXTENSIONS[extension] || null;
+};
+
+/**
+ * Extracts the text layer of a PDF, one line per text run ending in EOL
+ * @param data The PDF bytes
+ * @returns Text of all pages, separated by blank lines
+ */
+export const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let text = "";
+      content.items.forEach((item) => {
+        if (!("str" in item)) return;
+        text += item.str + (item.hasEOL ? "\n" : "");
+      });
+      pages.push(text.trim());
+      page.cleanup();
+    }
+    return pages.join("\n\n");
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+
+/**
+ * Extracts paragraph text from a DOCX (word/document.xml), one paragraph per line
+ * @param data The DOCX bytes
+ * @returns The document text
+ */
+export const extractDocxText = (data: ArrayBuffer): string => {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: (file) => file.name === "word/document.xml",
+  });
+  const documentXml = files["word/document.xml"];
+  if (!documentXml) {
+    throw new Error("Not a Word document: word/document.xml is missing");
+  }
+  const xml = strFromU8(documentXml);
+  return xml
+    .split(/<\/w:p>/)
+    .map((paragraph) =>
+      decodeXmlEntities(
+        paragraph
+          .replace(/<w:tab\/>/g, "\t")
+          .replace(/<w:br[^>]*\/>/g, "\n")
+          .replace(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<[^>]+>/g, (_, text) => text ?? "")
+      )
+    )
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .join("\n");
+};
+
+/**
+ * Extracts text from a supported file
+ * @param data File bytes
+ * @param fileName Used to pick the extractor
+ * @returns The extracted text
+ */
+export const extractText = async (
+  data: ArrayBuffer,
+  fileName: string
+): Promise<string> => {
+  switch (getTextExtractableType(fileName)) {
+    case "pdf":
+      return extractPdfText(data);
+    case "docx":
+      return extractDocxText(data);
+    case "txt":
+      return new TextDecoder().decode(data);
+    default:
+      throw new Error(`Text can't be extracted from ${fileName}`);
+  }
+};
@@ -0,0 +1,279 @@
+/**
+ * Value formats of the rich onboarding field types, and how they are shown.
+ *
+ * Values are stored in one canonical form whatever the user typed: dates as
+ * ISO dates (YYYY-MM-DD), phone numbers in E.164 (+971501234567), amounts as
+ * plain decimal strings, multi-selects as lists of option values and
+ * repeatable groups as lists of entries. The field components, validation,
+ * the review step and the profile all read those forms through here.
+ */
+
+import { FormField, UploadedFile } from "../types/formData";
+import { isEmptyValue } from "./fieldRules";
+
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  dialCode: string; // Without the "+"
+}
+
+/** Countries offered for dialling codes and nationalities; the GCC first */
+export const COUNTRIES: Country[] = [
+  { code: "AE", name: "United Arab Emirates", dialCode: "971" },
+  { code: "SA", name: "Saudi Arabia", dialCode: "966" },
+  { code: "QA", name: "Qatar", dialCode: "974" },
+  { code: "BH", name: "Bahrain", dialCode: "973" },
+  { code: "KW", name: "Kuwait", dialCode: "965" },
+  { code: "OM", name: "Oman", dialCode: "968" },
+  { code: "EG", name: "Egypt", dialCode: "20" },
+  { code: "JO", name: "Jordan", dialCode: "962" },
+  { code: "LB", name: "Lebanon", dialCode: "961" },
+  { code: "IN", name: "India", dialCode: "91" },
+  { code: "PK", name: "Pakistan", dialCode: "92" },
+  { code: "PH", name: "Philippines", dialCode: "63" },
+  { code: "CN", name: "China", dialCode: "86" },
+  { code: "GB", name: "United Kingdom", dialCode: "44" },
+  { code: "FR", name: "France", dialCode: "33" },
+  { code: "DE", name: "Germany", dialCode: "49" },
+  { code: "US", name: "United States", dialCode: "1" },
+  { code: "CA", name: "Canada", dialCode: "1" },
+];
+
+export const DEFAULT_PHONE_COUNTRY = "AE";
+export const DEFAULT_CURRENCY = "AED";
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+/**
+ * Looks up a country by ISO code
+ * @param code ISO 3166-1 alpha-2 code
+ * @returns The country, or the default phone country when unknown
+ */
+export const getCountry = (code: string | undefined) =>
+  COUNTRIES.find((country) => country.code === code) ||
+  COUNTRIES.find((country) => country.code === DEFAULT_PHONE_COUNTRY)!;
+
+/**
+ * Builds an E.164 number from a dialling code and a national number
+ * @param dialCode Country dialling code without "+"
+ * @param national Number as typed; a trunk prefix 0 is dropped
+ * @returns The E.164 number, or "" when no digits were typed
+ */
+export const toE164 = (dialCode: string, national: string) => {
+  const digits = national.replace(/\D/g, "").replace(/^0+/, "");
+  return digits ? `+${dialCode}${digits}` : "";
+};
+
+/**
+ * Normalises a phone number as written anywhere (a token claim, an older
+ * draft) to E.164
+ * @param value The number; one without "+" or "00" is taken as national
+ * @param defaultCountry ISO code of the country for national numbers
+ * @returns The E.164 number, or "" when there is none
+ */
+export const normalizePhone = (value: unknown, defaultCountry = DEFAULT_PHONE_COUNTRY) => {
+  const text = String(value ?? "").trim();
+  if (!text) return "";
+  if (text.startsWith("+")) return `+${text.slice(1).replace(/\D/g, "")}`;
+  if (text.startsWith("00")) return `+${text.slice(2).replace(/\D/g, "")}`;
+  return toE164(getCountry(defaultCountry).dialCode, text);
+};
+
+/**
+ * Whether a value is a plausible E.164 number
+ * @param value The value
+ * @returns True for "+" and 7 to 15 digits
+ */
+export const isE164 = (value: unknown) => typeof value === "string" && E164_PATTERN.test(value);
+
+/**
+ * Splits an E.164 number into its country and national number
+ * @param value The E.164 number
+ * @param preferredCountry Country to pick when several share the dialling code, e.g. US and CA
+ * @returns The country (undefined when no dialling code matches) and the national digits
+ */
+export const splitPhone = (value: string, preferredCountry?: string) => {
+  const digits = String(value || "").replace(/\D/g, "");
+  const matches = COUNTRIES.filter((country) => digits.startsWith(country.dialCode)).sort(
+    (a, b) => b.dialCode.length - a.dialCode.length
+  );
+  const country =
+    matches.find((match) => match.code === preferredCountry && match.dialCode === matches[0].dialCode) ||
+    matches[0];
+  return { country, national: country ? digits.slice(country.dialCode.length) : digits };
+};
+
+/**
+ * Formats an E.164 number for display
+ * @param value The E.164 number
+ * @returns e.g. "+971 501234567"
+ */
+export const formatPhone = (value: string) => {
+  const { country, national } = splitPhone(value);
+  return country ? `+${country.dialCode} ${national}` : value;
+};
+
+/**
+ * Whether a value is an existing calendar date in ISO form
+ * @param value The value
+ * @returns True for e.g. "2020-02-29", false for "2021-02-29"
+ */
+export const isIsoDate = (value: unknown) => {
+  const match = typeof value === "string" && value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  return date.getUTCFullYear() === +match[1] && date.getUTCMonth() === +match[2] - 1 && date.getUTCDate() === +match[3];
+};
+
+/**
+ * Converts a date as stored by older drafts (DD/MM/YYYY) or as a timestamp to an ISO date
+ * @param value The date
+ * @returns The ISO date; text that is not a date is returned unchanged for validation to report
+ */
+export const toIsoDate = (value: unknown) => {
+  const text = String(value ?? "").trim();
+  const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) return text.slice(0, 10);
+  return text;
+};
+
+/**
+ * Today's date in the user's time zone
+ * @returns The ISO date
+ */
+export const todayIsoDate = () => {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("-");
+};
+
+/**
+ * Formats an ISO date for display
+ * @param value The ISO date
+ * @returns e.g. "5 March 2020"; other values unchanged
+ */
+export const formatDate = (value: string) =>
+  isIsoDate(value)
+    ? new Date(`${value}T00:00:00Z`).toLocaleDateString("en-GB", {
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+        timeZone: "UTC",
+      })
+    : value;
+
+/**
+ * Reduces a typed amount to a plain decimal string
+ * @param value The amount, possibly with grouping separators or a currency
+ * @returns e.g. "1250000.50"
+ */
+export const parseAmount = (value: unknown) => {
+  const [whole, ...fraction] = String(value ?? "")
+    .replace(/[^\d.]/g, "")
+    .split(".");
+  return fraction.length ? `${whole}.${fraction.join("")}` : whole;
+};
+
+/**
+ * Formats an amount of money
+ * @param value The amount
+ * @param currency ISO currency code
+ * @returns e.g. "AED 1,250,000.00"; values that are not numbers unchanged
+ */
+export const formatCurrency = (value: unknown, currency = DEFAULT_CURRENCY) => {
+  const amount = Number(value);
+  if (isEmptyValue(value) || Number.isNaN(amount)) return String(value ?? "");
+  return new Intl.NumberFormat("en-AE", { style: "currency", currency }).format(amount);
+};
+
+const optionLabel = (field: FormField, value: unknown) =>
+  field.options?.find((option) => option.value === value)?.label ?? String(value);
+
+/**
+ * Formats one entry of a repeatable group
+ * @param field The repeatable field
+ * @param item The entry
+ * @returns e.g. "Jane Doe · United Arab Emirates · 60%"
+ */
+export const formatRepeatableItem = (field: FormField, item: Record<string, unknown>) =>
+  (field.itemFields || [])
+    .filter((itemField) => !isEmptyValue(item?.[itemField.fieldName]))
+    .map((itemField) => {
+      const text = formatFieldValue(itemField, item[itemField.fieldName]);
+      return field.maxTotal?.field === itemField.fieldName ? `${text}%` : text;
+    })
+    .join(" · ");
+
+/**
+ * Formats a stored value for display, e.g. on the review step
+ * @param field The field config
+ * @param value The stored value
+ * @returns The text to show; entries of a repeatable group are separated by "; "
+ */
+export const formatFieldValue = (field: FormField | undefined, value: unknown): string => {
+  if (isEmptyValue(value)) return "";
+  switch (field?.type) {
+    case "date":
+      return formatDate(String(value));
+    case "phone":
+      return formatPhone(String(value));
+    case "currency":
+      return formatCurrency(value, field.currency);
+    case "select":
+      return optionLabel(field, value);
+    case "multiselect":
+      return Array.isArray(value) ? value.map((entry) => optionLabel(field, entry)).join(", ") : String(value);
+    case "file":
+      return (value as UploadedFile).fileName || "";
+    case "repeatable":
+      return Array.isArray(value) ? value.map((item) => formatRepeatableItem(field, item)).join("; ") : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Brings a value saved before the field had its current type (e.g. a
+ * DD/MM/YYYY date or a comma separated list of founders) into the field's format
+ * @param field The field config
+ * @param value The saved value
+ * @returns The value in the field's format
+ */
+export const normalizeFieldValue = (field: FormField, value: unknown) => {
+  if (isEmptyValue(value)) return value;
+  switch (field.type) {
+    case "date":
+      return toIsoDate(value);
+    case "phone":
+      return normalizePhone(value, field.defaultCountry);
+    case "currency":
+      return parseAmount(value);
+    case "multiselect": {
+      if (Array.isArray(value)) return value;
+      // Free text: keep the options it names
+      const names = String(value)
+        .split(/[,;\n]/)
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean);
+      return (field.options || [])
+        .filter((option) =>
+          names.some((name) => name === option.value.toLowerCase() || name === option.label.toLowerCase())
+        )
+        .map((option) => option.value);
+    }
+    case "repeatable": {
+      if (Array.isArray(value)) return value;
+      // Free text lists names only
+      const nameField = field.itemFields?.[0]?.fieldName || "name";
+      return String(value)
+        .split(/[,;\n]/)
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((name) => ({ [nameField]: name }));
+    }
+    default:
+      return value;
+  }
+};
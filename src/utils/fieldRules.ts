@@ -0,0 +1,146 @@
+/**
+ * Conditional field rules: `visibleWhen`, `requiredWhen`, `disabledWhen` and
+ * computed `defaultValue`s on onboarding steps and profile tabs.
+ *
+ * The onboarding form, its review step, field validation and the profile's
+ * completion figures all evaluate rules here, so a field is hidden, required
+ * or read-only in the same cases everywhere. A hidden field is never
+ * required and does not count towards completion.
+ */
+
+import { FieldCondition, FieldDefault } from "../types/formData";
+
+/** The rule properties a step or profile field may carry */
+export interface ConditionalField {
+  fieldName: string;
+  required?: boolean;
+  visibleWhen?: FieldCondition;
+  requiredWhen?: FieldCondition;
+  disabledWhen?: FieldCondition;
+  defaultValue?: FieldDefault;
+}
+
+export interface FieldState {
+  visible: boolean;
+  required: boolean;
+  disabled: boolean;
+}
+
+type FieldValues = Record<string, any>;
+
+/** Whether a value counts as unanswered: blank text or an empty list */
+export const isEmptyValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+// Inputs hold strings, so "5" matches 5
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (!isEmptyValue(a) && !isEmptyValue(b) && String(a) === String(b));
+
+/**
+ * Evaluates a condition against the current values
+ * @param condition The rule; a missing rule holds
+ * @param values Form or profile values by field name
+ * @returns Whether the condition holds
+ */
+export const evaluateCondition = (condition: FieldCondition | undefined, values: FieldValues): boolean => {
+  if (!condition) return true;
+  if ("all" in condition) return condition.all.every((entry) => evaluateCondition(entry, values));
+  if ("any" in condition) return condition.any.some((entry) => evaluateCondition(entry, values));
+  if ("not" in condition) return !evaluateCondition(condition.not, values);
+  const value = values[condition.field];
+  if ("equals" in condition) return sameValue(value, condition.equals);
+  if ("notEquals" in condition) return !sameValue(value, condition.notEquals);
+  if ("in" in condition) return condition.in.some((option) => sameValue(value, option));
+  if ("notIn" in condition) return !condition.notIn.some((option) => sameValue(value, option));
+  if ("isEmpty" in condition) return isEmptyValue(value) === condition.isEmpty;
+  const number = Number(value);
+  if (isEmptyValue(value) || Number.isNaN(number)) return false;
+  if ("greaterThan" in condition) return number > condition.greaterThan;
+  return number < condition.lessThan;
+};
+
+/**
+ * Whether a field is shown for the current values
+ * @param field The field config
+ * @param values Form or profile values by field name
+ * @returns False when its `visibleWhen` rule does not hold
+ */
+export const isFieldVisible = (field: ConditionalField, values: FieldValues) =>
+  evaluateCondition(field.visibleWhen, values);
+
+/**
+ * Resolves all rules of a field
+ * @param field The field config
+ * @param values Form or profile values by field name
+ * @param baseRequired Required regardless of `requiredWhen`; profile fields pass their stage rule
+ * @returns Visibility, required and disabled state
+ */
+export const getFieldState = (
+  field: ConditionalField,
+  values: FieldValues,
+  baseRequired = !!field.required
+): FieldState => {
+  const visible = isFieldVisible(field, values);
+  return {
+    visible,
+    required: visible && (baseRequired || (!!field.requiredWhen && evaluateCondition(field.requiredWhen, values))),
+    disabled: !!field.disabledWhen && evaluateCondition(field.disabledWhen, values),
+  };
+};
+
+const yearOf = (value: unknown) => String(value).match(/\b(\d{4})\b/)?.[1];
+
+/**
+ * Computes a field's default value
+ * @param field The field config
+ * @param values Form or profile values by field name
+ * @returns The default, or undefined when there is none yet
+ */
+export const computeDefault = (field: ConditionalField, values: FieldValues) => {
+  const rule = field.defaultValue;
+  if (!rule) return undefined;
+  if ("copyFrom" in rule) {
+    const source = values[rule.copyFrom];
+    if (isEmptyValue(source)) return undefined;
+    return rule.transform === "year" ? yearOf(source) : source;
+  }
+  return evaluateCondition(rule.when, values) ? rule.value : undefined;
+};
+
+/**
+ * Fills computed defaults into fields the user has not edited, in config
+ * order so a default may build on an earlier one
+ * @param fields The field configs
+ * @param values Current values
+ * @param edited Fields the user has edited, which keep their value
+ * @returns The values; the same object when nothing changed
+ */
+export const applyComputedDefaults = (
+  fields: ConditionalField[],
+  values: FieldValues,
+  edited: Record<string, boolean> = {}
+) => {
+  let next = values;
+  fields.forEach((field) => {
+    if (!field.defaultValue || edited[field.fieldName]) return;
+    const value = computeDefault(field, next);
+    if (value === undefined || sameValue(value, next[field.fieldName])) return;
+    next = { ...next, [field.fieldName]: value };
+  });
+  return next;
+};
+
+/**
+ * Values profile rules are evaluated against: every section's fields plus
+ * the company stage, since a rule may refer to a field on another tab
+ * @param profileData Business profile with `sections`
+ * @returns Values by field name
+ */
+export const getProfileValues = (profileData: any): FieldValues =>
+  Object.assign(
+    { companyStage: profileData?.companyStage },
+    ...Object.values<any>(profileData?.sections || {}).map((section) => section?.fields || {})
+  );
@@ -0,0 +1,211 @@
+/**
+ * The business field schema (config/fieldSchema.json) and what is generated
+ * from it: the onboarding steps, the business profile tabs and the profile
+ * sections onboarding answers are saved to in Dataverse.
+ *
+ * Each field is defined once, with its validation and rules, where it sits
+ * in onboarding (`onboarding`: step, section and an optional label for the
+ * form), on which profile tabs and groups it appears (`profile`), the company
+ * stages that make it mandatory on the profile (`mandatory`) and, when it is
+ * copied to a column of its own, its Dataverse column (`dataverse`). Fields
+ * appear within a section or group in schema order.
+ *
+ * Profile values are stored per tab in the profile's JSON document, so a
+ * field placed on two tabs keeps a value on each.
+ */
+
+import { ReactNode } from "react";
+import schema from "../config/fieldSchema.json";
+import { FormField, Section, Step } from "../types/formData";
+import { COUNTRIES, formatFieldValue } from "./fieldFormats";
+
+export interface OnboardingPlacement {
+  step: string;
+  section?: string; // Omitted on steps without sections, e.g. the welcome step
+  label?: string; // Label on the form, when it differs from the profile's
+}
+
+export interface ProfilePlacement {
+  tab: string;
+  group: string;
+}
+
+export interface SchemaField extends Omit<FormField, "id" | "itemFields"> {
+  aliases?: string[]; // Former names, under which older drafts hold the value
+  optionsFrom?: keyof typeof OPTION_SOURCES; // Options appended from a shared list
+  itemFields?: SchemaField[];
+  mandatory?: string[]; // Company stages for which the profile requires the field
+  onboarding?: OnboardingPlacement;
+  profile?: ProfilePlacement[];
+  dataverse?: { column: string };
+}
+
+export interface FieldSchema {
+  steps: Array<{
+    id: string;
+    title: string;
+    type: string;
+    reviewTitle?: string; // Heading of the step's answers on the review step
+    sections?: Array<{ title: string; description?: string }>;
+  }>;
+  tabs: Array<{ id: string; title: string; groups: string[] }>;
+  fields: SchemaField[];
+}
+
+export interface OnboardingStep extends Step {
+  type: string;
+  reviewTitle?: string;
+}
+
+export type ProfileField = Pick<
+  SchemaField,
+  "fieldName" | "label" | "visibleWhen" | "requiredWhen" | "disabledWhen" | "defaultValue"
+> & { id: string; mandatory: string[] };
+
+export interface ProfileTab {
+  id: string;
+  title: string;
+  groups: Array<{ groupName: string; fields: ProfileField[] }>;
+}
+
+export const fieldSchema = schema as unknown as FieldSchema;
+
+const OPTION_SOURCES = {
+  countries: () => COUNTRIES.map((country) => ({ value: country.code, label: country.name })),
+};
+
+// Keys that place a field rather than describe its input
+const PLACEMENT_KEYS = ["aliases", "optionsFrom", "mandatory", "onboarding", "profile", "dataverse"];
+
+/**
+ * The form field of a schema field, as the onboarding form uses it
+ * @param field The schema field
+ * @returns The field with an id, shared options resolved and placement keys dropped
+ */
+const toFormField = (field: SchemaField): FormField => {
+  const formField = Object.fromEntries(
+    Object.entries(field).filter(([key]) => !PLACEMENT_KEYS.includes(key))
+  ) as unknown as FormField;
+  return {
+    ...formField,
+    id: field.fieldName,
+    label: field.onboarding?.label || field.label,
+    ...(field.optionsFrom && {
+      options: [...(field.options || []), ...OPTION_SOURCES[field.optionsFrom]()],
+    }),
+    ...(field.itemFields && { itemFields: field.itemFields.map(toFormField) }),
+  };
+};
+
+const isPlacedOn = (field: SchemaField, stepId: string, section?: string) =>
+  field.onboarding?.step === stepId && field.onboarding.section === section;
+
+/**
+ * Generates the onboarding steps
+ * @param icons Step icons by step id
+ * @returns The steps with their sections and fields
+ */
+export const buildOnboardingSteps = (icons: Record<string, ReactNode> = {}): OnboardingStep[] =>
+  fieldSchema.steps.map(({ sections, ...step }) => {
+    const fields = fieldSchema.fields.filter((field) => isPlacedOn(field, step.id)).map(toFormField);
+    return {
+      ...step,
+      icon: icons[step.id],
+      ...(sections && {
+        sections: sections.map(
+          (section): Section => ({
+            ...section,
+            fields: fieldSchema.fields
+              .filter((field) => isPlacedOn(field, step.id, section.title))
+              .map(toFormField),
+          })
+        ),
+      }),
+      ...(fields.length > 0 && { fields }),
+    };
+  });
+
+/**
+ * All fields of a step, those of its sections included
+ * @param step The onboarding step
+ * @returns The fields in order
+ */
+export const getStepFields = (step: Step): FormField[] => [
+  ...(step.fields || []),
+  ...(step.sections || []).flatMap((section) => section.fields),
+];
+
+/**
+ * All onboarding fields by name
+ * @returns Form fields by field name
+ */
+export const getOnboardingFieldsByName = (): Record<string, FormField> =>
+  Object.fromEntries(
+    fieldSchema.fields.filter((field) => field.onboarding).map((field) => [field.fieldName, toFormField(field)])
+  );
+
+/**
+ * Generates the business profile tabs
+ * @returns The tabs with their groups and fields
+ */
+export const buildProfileTabs = (): ProfileTab[] =>
+  fieldSchema.tabs.map((tab) => ({
+    id: tab.id,
+    title: tab.title,
+    groups: tab.groups.map((groupName) => ({
+      groupName,
+      fields: fieldSchema.fields
+        .filter((field) => field.profile?.some((place) => place.tab === tab.id && place.group === groupName))
+        .map((field) => ({
+          id: field.fieldName,
+          label: field.label,
+          fieldName: field.fieldName,
+          mandatory: field.mandatory || [],
+          ...(field.visibleWhen && { visibleWhen: field.visibleWhen }),
+          ...(field.requiredWhen && { requiredWhen: field.requiredWhen }),
+          ...(field.disabledWhen && { disabledWhen: field.disabledWhen }),
+          ...(field.defaultValue && { defaultValue: field.defaultValue }),
+        })),
+    })),
+  }));
+
+/**
+ * Former field names still found in older drafts
+ * @returns Current field name by former name
+ */
+export const getFieldAliases = (): Record<string, string> =>
+  Object.fromEntries(
+    fieldSchema.fields.flatMap((field) => (field.aliases || []).map((alias) => [alias, field.fieldName]))
+  );
+
+/**
+ * The Dataverse column a field is copied to
+ * @param fieldName The field name
+ * @returns The column, or undefined when the field only lives in the profile document
+ */
+export const getDataverseColumn = (fieldName: string) =>
+  fieldSchema.fields.find((field) => field.fieldName === fieldName)?.dataverse?.column;
+
+/**
+ * Profile sections holding onboarding answers, for saving to Dataverse. Each
+ * answer goes to every profile tab the field is placed on; profile fields
+ * hold text, so lists, groups and files are written out as the review step
+ * shows them.
+ * @param values Onboarding answers by field name
+ * @returns Sections by tab id, with field values and their status
+ */
+export const toProfileSections = (values: Record<string, any>) => {
+  const sections: Record<string, { fields: Record<string, string>; status: Record<string, string> }> = {};
+  fieldSchema.fields.forEach((field) => {
+    if (!field.onboarding || !field.profile) return;
+    const value = values[field.fieldName];
+    const text =
+      typeof value === "object" && value !== null ? formatFieldValue(toFormField(field), value) : String(value ?? "");
+    field.profile.forEach(({ tab }) => {
+      sections[tab] = sections[tab] || { fields: {}, status: {} };
+      sections[tab].fields[field.fieldName] = text;
+      sections[tab].status[field.fieldName] = text ? "completed" : "editable";
+    });
+  });
+  return sections;
+};
@@ -0,0 +1,219 @@
+/**
+ * Readers for previewing Office files in the browser: XLSX sheets as cell
+ * grids and DOCX bodies as HTML. Both unzip the package with fflate and
+ * parse its XML with DOMParser, so they run on the main thread.
+ *
+ * Only text and basic formatting are kept; images, charts and formulas are
+ * not rendered. All document text is escaped in the generated HTML.
+ */
+import { strFromU8, unzipSync } from "fflate";
+
+export interface SheetPreview {
+  name: string;
+  rows: string[][];
+  /** True when rows beyond the limit were left out */
+  truncated: boolean;
+}
+
+const parseXml = (files: Record<string, Uint8Array>, path: string): Document | null => {
+  const file = files[path];
+  return file ? new DOMParser().parseFromString(strFromU8(file), "application/xml") : null;
+};
+
+// Elements by local name, ignoring namespace prefixes (w:p, x:row...)
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS("*", localName));
+
+const children = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter((child) => child.localName === localName);
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+/**
+ * Reads the sheets of an XLSX workbook
+ * @param data The .xlsx bytes
+ * @param maxRows Rows kept per sheet
+ * @returns Each sheet's name and cell text
+ */
+export const readXlsxSheets = (data: ArrayBuffer, maxRows = 500): SheetPreview[] => {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: (file) => file.name.startsWith("xl/") && (file.name.endsWith(".xml") || file.name.endsWith(".rels")),
+  });
+  const workbook = parseXml(files, "xl/workbook.xml");
+  if (!workbook) throw new Error("Not an Excel workbook");
+
+  const relationships = new Map<string, string>();
+  const rels = parseXml(files, "xl/_rels/workbook.xml.rels");
+  if (rels) {
+    elements(rels, "Relationship").forEach((rel) => {
+      const target = rel.getAttribute("Target") || "";
+      relationships.set(
+        rel.getAttribute("Id") || "",
+        target.startsWith("/") ? target.slice(1) : `xl/${target}`
+      );
+    });
+  }
+
+  const sharedStrings: string[] = [];
+  const shared = parseXml(files, "xl/sharedStrings.xml");
+  if (shared) {
+    elements(shared, "si").forEach((item) => {
+      sharedStrings.push(elements(item, "t").map((t) => t.textContent || "").join(""));
+    });
+  }
+
+  return elements(workbook, "sheet").map((sheet, position) => {
+    const relationId =
+      sheet.getAttribute("r:id") ||
+      sheet.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id") ||
+      "";
+    const path = relationships.get(relationId) || `xl/worksheets/sheet${position + 1}.xml`;
+    const xml = parseXml(files, path);
+    const rows: string[][] = [];
+    let truncated = false;
+    if (xml) {
+      const rowElements = elements(xml, "row");
+      truncated = rowElements.length > maxRows;
+      rowElements.slice(0, maxRows).forEach((row, rowPosition) => {
+        // Rows can be sparse; keep them aligned with their row numbers where possible
+        const rowNumber = Number(row.getAttribute("r")) || rowPosition + 1;
+        const cells: string[] = [];
+        children(row, "c").forEach((cell, cellPosition) => {
+          const reference = cell.getAttribute("r");
+          const column = reference ? columnIndex(reference) : cellPosition;
+          const type = cell.getAttribute("t");
+          const value = children(cell, "v")[0]?.textContent ?? "";
+          let text: string;
+          if (type === "s") text = sharedStrings[Number(value)] ?? "";
+          else if (type === "inlineStr") text = elements(cell, "t").map((t) => t.textContent || "").join("");
+          else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+          else text = value;
+          cells[column] = text;
+        });
+        while (rows.length < rowNumber - 1 && rows.length < maxRows) rows.push([]);
+        if (rows.length < maxRows) rows.push(Array.from(cells, (cell) => cell ?? ""));
+      });
+    }
+    return { name: sheet.getAttribute("name") || `Sheet ${position + 1}`, rows, truncated };
+  });
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const HEADING_STYLES: Record<string, string> = {
+  title: "h1",
+  heading1: "h1",
+  heading2: "h2",
+  heading3: "h3",
+  heading4: "h4",
+  heading5: "h5",
+  heading6: "h6",
+};
+
+const isOn = (element: Element | undefined) => {
+  if (!element) return false;
+  const value = element.getAttribute("w:val");
+  return value === null || !["0", "false", "none"].includes(value);
+};
+
+const renderRun = (run: Element) => {
+  let html = "";
+  Array.from(run.children).forEach((child) => {
+    if (child.localName === "t") html += escapeHtml(child.textContent || "");
+    else if (child.localName === "tab") html += "&emsp;";
+    else if (child.localName === "br" || child.localName === "cr") html += "<br>";
+    else if (child.localName === "drawing" || child.localName === "pict") html += '<span class="docx-image">[image]</span>';
+  });
+  if (!html) return "";
+  const properties = children(run, "rPr")[0];
+  if (properties) {
+    if (isOn(children(properties, "b")[0])) html = `<strong>${html}</strong>`;
+    if (isOn(children(properties, "i")[0])) html = `<em>${html}</em>`;
+    if (isOn(children(properties, "u")[0])) html = `<u>${html}</u>`;
+    if (isOn(children(properties, "strike")[0])) html = `<s>${html}</s>`;
+  }
+  return html;
+};
+
+// Runs directly in the paragraph and inside hyperlinks, insertions and fields
+const renderInline = (parent: Element): string =>
+  Array.from(parent.children)
+    .map((child) => {
+      if (child.localName === "r") return renderRun(child);
+      if (["hyperlink", "ins", "smartTag", "fldSimple", "sdtContent", "sdt"].includes(child.localName)) {
+        return renderInline(child);
+      }
+      return "";
+    })
+    .join("");
+
+const renderTable = (table: Element): string => {
+  const rows = children(table, "tr").map((row) => {
+    const cells = children(row, "tc").map((cell) => {
+      const content = children(cell, "p")
+        .map((paragraph) => renderInline(paragraph))
+        .filter(Boolean)
+        .join("<br>");
+      return `<td>${content}</td>`;
+    });
+    return `<tr>${cells.join("")}</tr>`;
+  });
+  return `<table>${rows.join("")}</table>`;
+};
+
+/**
+ * Converts a DOCX body to simple HTML (headings, paragraphs, lists, tables,
+ * bold/italic/underline)
+ * @param data The .docx bytes
+ * @returns HTML with all document text escaped
+ */
+export const docxToHtml = (data: ArrayBuffer): string => {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: (file) => file.name === "word/document.xml",
+  });
+  const xml = parseXml(files, "word/document.xml");
+  const body = xml ? elements(xml, "body")[0] : undefined;
+  if (!body) throw new Error("Not a Word document");
+
+  const html: string[] = [];
+  let inList = false;
+  const closeList = () => {
+    if (inList) html.push("</ul>");
+    inList = false;
+  };
+  Array.from(body.children).forEach((block) => {
+    if (block.localName === "tbl") {
+      closeList();
+      html.push(renderTable(block));
+      return;
+    }
+    if (block.localName !== "p") return;
+    const properties = children(block, "pPr")[0];
+    const style = (properties && children(properties, "pStyle")[0]?.getAttribute("w:val")) || "";
+    const isListItem = !!properties && (children(properties, "numPr").length > 0 || /^listparagraph$/i.test(style));
+    const content = renderInline(block);
+    if (isListItem) {
+      if (!inList) html.push("<ul>");
+      inList = true;
+      html.push(`<li>${content}</li>`);
+      return;
+    }
+    closeList();
+    const tag = HEADING_STYLES[style.toLowerCase()] || "p";
+    // Keep empty paragraphs as spacing, like Word does
+    html.push(`<${tag}>${content || "<br>"}</${tag}>`);
+  });
+  closeList();
+  return html.join("\n");
+};
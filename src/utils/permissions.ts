@@ -0,0 +1,172 @@
+/**
+ * Roles and the capabilities they grant. Shared by the portal (to show or
+ * hide actions) and the api/ functions (to enforce them), so this module
+ * must stay free of browser and Node specifics.
+ *
+ * Permissions come from the id token when the identity provider issues them:
+ * a `capabilities` (or `permissions`) claim is used as is, otherwise roles
+ * from `roles` / `extension_Role` are expanded through ROLE_CAPABILITIES.
+ */
+
+export const CAPABILITIES = [
+  "documents:view",
+  "documents:upload",
+  "documents:share",
+  "documents:delete",
+  "profile:view",
+  "profile:edit",
+  "requests:view",
+  "requests:submit",
+  "requests:cancel",
+  "reports:view",
+  "settings:view",
+  "users:manage",
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+/** Display names for the permission matrix */
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  "documents:view": "View documents",
+  "documents:upload": "Upload and replace documents",
+  "documents:share": "Share documents",
+  "documents:delete": "Delete documents",
+  "profile:view": "View business profile",
+  "profile:edit": "Edit business profile",
+  "requests:view": "View service requests",
+  "requests:submit": "Submit service requests",
+  "requests:cancel": "Cancel service requests",
+  "reports:view": "View reports",
+  "settings:view": "View settings",
+  "users:manage": "Manage users and roles",
+};
+
+export type RoleName = "Admin" | "Editor" | "Viewer" | "Advisor";
+
+export const ROLE_CAPABILITIES: Record<RoleName, Capability[]> = {
+  Admin: [...CAPABILITIES],
+  Editor: [
+    "documents:view",
+    "documents:upload",
+    "documents:share",
+    "documents:delete",
+    "profile:view",
+    "profile:edit",
+    "requests:view",
+    "requests:submit",
+    "requests:cancel",
+    "reports:view",
+    "settings:view",
+  ],
+  Viewer: ["documents:view", "profile:view", "requests:view", "reports:view", "settings:view"],
+  Advisor: ["documents:view", "documents:share", "profile:view", "requests:view", "reports:view", "settings:view"],
+};
+
+export const ROLE_DESCRIPTIONS: Record<RoleName, string> = {
+  Admin: "Full access to all features",
+  Editor: "Can edit content but cannot manage users",
+  Viewer: "View-only access to content",
+  Advisor: "Can view content and share documents with advisors",
+};
+
+/**
+ * Role of a signed-in user the identity provider says nothing about: the
+ * least-privileged one. Administrators get their role from token claims or
+ * their team membership.
+ */
+export const DEFAULT_ROLE: RoleName = "Viewer";
+
+export interface Permissions {
+  roles: string[];
+  capabilities: Capability[];
+}
+
+const isCapability = (value: string): value is Capability =>
+  (CAPABILITIES as readonly string[]).includes(value);
+
+// Claims may be an array or a space/comma separated string
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,]+/) : [])
+    .map((entry) => String(entry).trim())
+    .filter(Boolean);
+
+/**
+ * Matches a role name case-insensitively
+ * @param role Role as written in a claim or record, e.g. "admin"
+ * @returns The known role, or null
+ */
+export const toRoleName = (role: string): RoleName | null =>
+  (Object.keys(ROLE_CAPABILITIES) as RoleName[]).find((name) => name.toLowerCase() === role.trim().toLowerCase()) ||
+  null;
+
+/**
+ * Expands roles into capabilities; unknown roles grant nothing
+ * @param roles Role names
+ * @param extra Capabilities granted directly
+ * @returns The roles with their combined capabilities
+ */
+export const resolvePermissions = (roles: string[], extra: string[] = []): Permissions => {
+  const capabilities = new Set<Capability>(extra.filter(isCapability));
+  roles.forEach((role) => {
+    const name = toRoleName(role);
+    if (name) ROLE_CAPABILITIES[name].forEach((capability) => capabilities.add(capability));
+  });
+  return { roles, capabilities: CAPABILITIES.filter((capability) => capabilities.has(capability)) };
+};
+
+/** A custom role as stored with the team: a name and the capabilities it grants */
+export interface CustomRole {
+  name: string;
+  capabilities: string[];
+}
+
+/**
+ * Capabilities granted by a role
+ * @param role Built-in or custom role name
+ * @param customRoles The team's custom roles
+ * @returns The capabilities; none when the role no longer exists
+ */
+export const getRoleCapabilities = (role: string, customRoles: CustomRole[]): Capability[] => {
+  const builtIn = toRoleName(role);
+  if (builtIn) return ROLE_CAPABILITIES[builtIn];
+  return (customRoles.find((custom) => custom.name === role)?.capabilities || []).filter(isCapability);
+};
+
+/**
+ * Permissions from team membership. The portal (TeamService) and the api/
+ * functions both resolve team roles through this, so they agree on what a
+ * member may do. Only active members get their role's capabilities.
+ * @param member The member's role and status, or null when not on the team
+ * @param customRoles The team's custom roles
+ * @returns The permissions
+ */
+export const membershipPermissions = (
+  member: { role: string; status: string } | null | undefined,
+  customRoles: CustomRole[]
+): Permissions => {
+  if (member?.status !== "active") return resolvePermissions([]);
+  return resolvePermissions([member.role], getRoleCapabilities(member.role, customRoles));
+};
+
+/**
+ * Reads permissions from id token claims
+ * @param claims Decoded token claims
+ * @returns The permissions, or null when the token carries no role information
+ */
+export const permissionsFromClaims = (claims: Record<string, unknown> | null | undefined): Permissions | null => {
+  if (!claims) return null;
+  const roles = [...toList(claims.roles), ...toList(claims.extension_Role), ...toList(claims.extension_Roles)];
+  const capabilities = [...toList(claims.capabilities), ...toList(claims.permissions)];
+  if (roles.length === 0 && capabilities.length === 0) return null;
+  return resolvePermissions(roles, capabilities);
+};
+
+/**
+ * Whether permissions include a capability
+ * @param permissions The user's permissions
+ * @param capability One capability, or several that are all required
+ * @returns True when every capability is granted
+ */
+export const hasCapability = (permissions: Permissions | null, capability: Capability | Capability[]) =>
+  !!permissions &&
+  (Array.isArray(capability) ? capability : [capability]).every((entry) => permissions.capabilities.includes(entry));
@@ -0,0 +1,63 @@
+/**
+ * User preferences from Settings > Preferences & Notifications, kept in
+ * localStorage. Listen for PREFERENCES_CHANGE_EVENT to pick up edits made in
+ * the settings tab without a reload.
+ */
+export type Preferences = {
+  language: string;
+  timezone: string;
+  darkMode: boolean;
+  notifications: {
+    complianceAlerts: boolean;
+    submissionDeadlines: boolean;
+    partnerMessages: boolean;
+  };
+};
+
+export const PREFERENCES_STORAGE_KEY = "settings.preferences.v1";
+export const PREFERENCES_CHANGE_EVENT = "preferenceschange";
+
+export const defaultPreferences: Preferences = {
+  language: "en",
+  timezone: "gmt+4",
+  darkMode: false,
+  notifications: {
+    complianceAlerts: true,
+    submissionDeadlines: true,
+    partnerMessages: false,
+  },
+};
+
+/**
+ * Reads stored preferences, filling in defaults for anything missing
+ * @returns The current preferences
+ */
+export const loadPreferences = (): Preferences => {
+  try {
+    const raw = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw);
+      return {
+        ...defaultPreferences,
+        ...stored,
+        notifications: { ...defaultPreferences.notifications, ...stored.notifications },
+      };
+    }
+  } catch (e) {
+    console.error(e);
+  }
+  return defaultPreferences;
+};
+
+/**
+ * Stores preferences and notifies listeners in this tab
+ * @param prefs The preferences to store
+ */
+export const savePreferences = (prefs: Preferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(prefs));
+    window.dispatchEvent(new Event(PREFERENCES_CHANGE_EVENT));
+  } catch (e) {
+    console.error(e);
+  }
+};
@@ -0,0 +1,241 @@
+/**
+ * Turns a marketplace product's `customFields.RequiredDocuments` into a
+ * checklist and matches each requirement against documents already in the
+ * wallet, by category, tags and name.
+ *
+ * Matching is heuristic: a requirement is satisfied by the best-scoring
+ * document that shares at least one keyword with it. The user can pick a
+ * different candidate or upload a new file for any item.
+ */
+
+export interface RequiredDocument {
+  /** Stable id derived from the label */
+  id: string;
+  label: string;
+  /** Wallet category the requirement most likely belongs to */
+  category: string | null;
+  keywords: string[];
+  /** Marked "(optional)" in the product listing */
+  optional: boolean;
+}
+
+/** The wallet fields used for matching */
+export interface ChecklistDocument {
+  id?: string;
+  name: string;
+  category: string;
+  tags?: string[];
+  expiryDate?: string | null;
+  status?: string;
+  uploadDate?: string;
+  fileUrl?: string;
+}
+
+export type ChecklistStatus = "matched" | "expired" | "missing";
+
+export interface ChecklistItem<T extends ChecklistDocument = ChecklistDocument> {
+  requirement: RequiredDocument;
+  status: ChecklistStatus;
+  /** The document attached for this requirement */
+  document: T | null;
+  /** Every wallet document that could satisfy the requirement, best first */
+  candidates: T[];
+}
+
+// Requirement wording -> wallet category; checked in order, so specific patterns come first
+const REQUIREMENT_CATEGORIES: { pattern: RegExp; category: string }[] = [
+  { pattern: /\btax\b|\bvat\b|\btrn\b|\bfta\b/i, category: "Tax" },
+  { pattern: /insurance/i, category: "Insurance" },
+  { pattern: /\biso\b|certification|accreditation|award/i, category: "Certifications" },
+  { pattern: /\baml\b|\bkyc\b|compliance|data\s+protection|audit/i, category: "Compliance" },
+  { pattern: /lease|tenancy|ejari|premises/i, category: "Facilities" },
+  { pattern: /employee|labou?r|payroll|\bwps\b|handbook/i, category: "HR" },
+  { pattern: /licen[cs]e|commercial\s+registr|registration\s+certificate|incorporation\s+certificate/i, category: "Licensing" },
+  { pattern: /articles|memorandum|power\s+of\s+attorney|resolution|agreement|contract|legal/i, category: "Legal" },
+];
+
+// Words that say nothing about which document is meant
+const STOP_WORDS = new Set([
+  "a", "an", "and", "any", "by", "copy", "copies", "current", "document", "documents", "for", "from",
+  "if", "in", "last", "latest", "of", "on", "or", "optional", "original", "the", "to", "valid",
+  "with", "year", "years", "applicable", "required", "certified", "signed", "company", "business",
+]);
+
+const MIN_MATCH_SCORE = 3;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/licence/g, "license")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Crude singular form so "statements" matches "statement"
+const stem = (word: string) => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+
+const toKeywords = (text: string) =>
+  Array.from(
+    new Set(
+      normalize(text)
+        .split(" ")
+        .filter((word) => word && !STOP_WORDS.has(word) && !/^\d{1,2}$/.test(word))
+        .map(stem)
+    )
+  );
+
+const slugify = (text: string) => normalize(text).replace(/ /g, "-") || "document";
+
+/**
+ * Guesses the wallet category a requirement belongs to
+ * @param label Requirement text, e.g. "Valid Trade License"
+ * @returns A category name, or null when nothing fits
+ */
+export const inferRequirementCategory = (label: string): string | null =>
+  REQUIREMENT_CATEGORIES.find(({ pattern }) => pattern.test(label))?.category ?? null;
+
+/**
+ * Splits a product's RequiredDocuments custom field into one entry per
+ * document. Accepts a list of strings or one text block; line breaks,
+ * semicolons, bullets and numbering are handled.
+ * @param value The raw custom field value
+ * @returns The entries as written, including any "(optional)" marker
+ */
+export const splitRequiredDocuments = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((entry) => typeof entry === "string")
+    .flatMap((entry: string) => entry.split(/\r?\n|;|•/))
+    .map((entry) =>
+      entry
+        .replace(/^\s*(?:[-*]|\d+[.)])\s*/, "")
+        .replace(/[.,:]+\s*$/, "")
+        .trim()
+    )
+    .filter(Boolean);
+
+/**
+ * Parses a product's RequiredDocuments custom field into requirements
+ * @param value The raw custom field value (see splitRequiredDocuments)
+ * @returns Requirements in listing order, without duplicates
+ */
+export const parseRequiredDocuments = (value: unknown): RequiredDocument[] => {
+  const seen = new Set<string>();
+  const requirements: RequiredDocument[] = [];
+  splitRequiredDocuments(value).forEach((entry) => {
+    const optional = /\(\s*optional\s*\)|\bif\s+applicable\b/i.test(entry);
+    const label = entry.replace(/\(\s*optional\s*\)/i, "").trim();
+    if (!label) return;
+    const id = slugify(label);
+    if (seen.has(id)) return;
+    seen.add(id);
+    requirements.push({
+      id,
+      label,
+      category: inferRequirementCategory(label),
+      keywords: toKeywords(label),
+      optional,
+    });
+  });
+  return requirements;
+};
+
+/**
+ * Whether a wallet document has expired
+ * @param document The document
+ * @param now Reference time
+ * @returns True when its expiry date has passed or it is marked Expired
+ */
+export const isDocumentExpired = (document: ChecklistDocument, now: Date = new Date()) => {
+  if (document.status === "Expired") return true;
+  if (!document.expiryDate) return false;
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return new Date(document.expiryDate) < today;
+};
+
+/**
+ * Scores how well a document fits a requirement
+ * @param requirement The requirement
+ * @param document The wallet document
+ * @returns 0 when they share no keyword, higher is better
+ */
+export const scoreDocumentMatch = (requirement: RequiredDocument, document: ChecklistDocument): number => {
+  const nameWords = new Set(toKeywords(document.name.replace(/\.[a-z0-9]+$/i, "")));
+  const tagWords = new Set((document.tags || []).flatMap(toKeywords));
+  let score = 0;
+  let hits = 0;
+  requirement.keywords.forEach((keyword) => {
+    if (tagWords.has(keyword)) score += 2;
+    if (nameWords.has(keyword)) score += 1.5;
+    if (tagWords.has(keyword) || nameWords.has(keyword)) hits += 1;
+  });
+  if (hits === 0) return 0;
+  if (requirement.category) score += requirement.category === document.category ? 3 : -2;
+  // The whole requirement appearing in the file name is a strong signal
+  if (normalize(document.name).includes(normalize(requirement.label))) score += 3;
+  // Prefer documents that cover most of the requirement's words
+  score += (hits / requirement.keywords.length) * 2;
+  return score;
+};
+
+/**
+ * Builds a checklist item for one requirement with a chosen document
+ * @param requirement The requirement
+ * @param document The attached document, or null
+ * @param candidates Documents the user can choose from
+ * @param now Reference time for expiry
+ * @returns The item with its status
+ */
+export const toChecklistItem = <T extends ChecklistDocument>(
+  requirement: RequiredDocument,
+  document: T | null,
+  candidates: T[],
+  now: Date = new Date()
+): ChecklistItem<T> => ({
+  requirement,
+  document,
+  candidates,
+  status: !document ? "missing" : isDocumentExpired(document, now) ? "expired" : "matched",
+});
+
+/**
+ * Matches requirements against wallet documents. Valid documents win over
+ * expired ones, then the best score, then the most recent upload.
+ * @param requirements Parsed requirements
+ * @param documents Wallet documents
+ * @param now Reference time for expiry
+ * @returns One checklist item per requirement
+ */
+export const matchRequiredDocuments = <T extends ChecklistDocument>(
+  requirements: RequiredDocument[],
+  documents: T[],
+  now: Date = new Date()
+): ChecklistItem<T>[] =>
+  requirements.map((requirement) => {
+    const candidates = documents
+      .map((document) => ({
+        document,
+        score: scoreDocumentMatch(requirement, document),
+        expired: isDocumentExpired(document, now),
+      }))
+      .filter(({ score }) => score >= MIN_MATCH_SCORE)
+      .sort(
+        (a, b) =>
+          Number(a.expired) - Number(b.expired) ||
+          b.score - a.score ||
+          (b.document.uploadDate || "").localeCompare(a.document.uploadDate || "")
+      )
+      .map(({ document }) => document);
+    return toChecklistItem(requirement, candidates[0] || null, candidates, now);
+  });
+
+/**
+ * Counts checklist items by status
+ * @param items The checklist
+ * @returns Counts, and whether every required item has a valid document
+ */
+export const summarizeChecklist = (items: ChecklistItem[]) => ({
+  matched: items.filter((item) => item.status === "matched").length,
+  expired: items.filter((item) => item.status === "expired").length,
+  missing: items.filter((item) => item.status === "missing").length,
+  complete: items.every((item) => item.status === "matched" || item.requirement.optional),
+});
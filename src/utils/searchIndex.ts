@@ -0,0 +1,369 @@
+/**
+ * In-memory full-text index over wallet documents (name, tags, category,
+ * description and extracted file text).
+ *
+ * Queries are split into clauses that must all match. A clause is:
+ * - a quoted phrase ("trade license"), matched word for word in order;
+ * - a term ending in * (lic*), matched as a prefix;
+ * - any other term, matched exactly, as a prefix (from 3 letters) or
+ *   fuzzily (one typo from 4 letters, two from 8). Exact matches score highest.
+ */
+
+export interface IndexedDocument {
+  id: string;
+  /** Changes whenever the text must be extracted again (new file or access change) */
+  contentKey: string;
+  name: string;
+  category: string;
+  tags: string[];
+  description: string;
+  /** Extracted file text; empty when not extracted or not allowed */
+  content: string;
+}
+
+export type SearchField = "name" | "tags" | "category" | "description" | "content";
+
+export interface HighlightSegment {
+  text: string;
+  match?: boolean;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  /** Fields any clause matched in */
+  fields: SearchField[];
+  /** Document name with matched words marked */
+  name: HighlightSegment[];
+  /** Passage of the extracted text around the first match */
+  snippet?: HighlightSegment[];
+}
+
+// Extracted text beyond this is not indexed (keeps IndexedDB and memory bounded)
+export const MAX_INDEXED_CONTENT_LENGTH = 200_000;
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 4,
+  tags: 3,
+  category: 2,
+  description: 1.5,
+  content: 1,
+};
+
+const MATCH_WEIGHTS = { exact: 1, prefix: 0.7, fuzzy: 0.5 };
+const MIN_PREFIX_LENGTH = 3;
+const SNIPPET_RADIUS = 12;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lower-cases and strips accents so "Café" matches "cafe"
+ * @param word A single word
+ * @returns The normalized term
+ */
+export const normalizeTerm = (word: string): string =>
+  word.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+/**
+ * Splits text into normalized terms
+ * @param text Any text
+ * @returns Terms in order of appearance
+ */
+export const tokenize = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || []).map(normalizeTerm);
+
+interface FieldEntry {
+  /** Terms in order, used for phrase matching */
+  terms: string[];
+  /** Occurrences per term */
+  counts: Map<string, number>;
+}
+
+interface DocumentEntry {
+  document: IndexedDocument;
+  fields: Partial<Record<SearchField, FieldEntry>>;
+}
+
+export interface SearchIndex {
+  entries: Map<string, DocumentEntry>;
+  /** term -> ids of documents containing it */
+  postings: Map<string, Set<string>>;
+  /** Sorted vocabulary for prefix lookups; rebuilt lazily after changes */
+  vocabulary: string[] | null;
+}
+
+/**
+ * Creates an empty index
+ * @param documents Documents to add straight away
+ * @returns The index
+ */
+export const createSearchIndex = (documents: IndexedDocument[] = []): SearchIndex => {
+  const index: SearchIndex = { entries: new Map(), postings: new Map(), vocabulary: null };
+  documents.forEach((document) => addToSearchIndex(index, document));
+  return index;
+};
+
+const fieldText = (document: IndexedDocument, field: SearchField) =>
+  field === "tags" ? document.tags.join(" ") : document[field] || "";
+
+/**
+ * Removes a document from the index
+ * @param index The index
+ * @param id Document id
+ */
+export const removeFromSearchIndex = (index: SearchIndex, id: string) => {
+  const entry = index.entries.get(id);
+  if (!entry) return;
+  Object.values(entry.fields).forEach((field) => {
+    field!.counts.forEach((_, term) => {
+      const ids = index.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        index.postings.delete(term);
+        index.vocabulary = null;
+      }
+    });
+  });
+  index.entries.delete(id);
+};
+
+/**
+ * Adds a document, replacing any previous entry with the same id
+ * @param index The index
+ * @param document The document and its extracted text
+ */
+export const addToSearchIndex = (index: SearchIndex, document: IndexedDocument) => {
+  removeFromSearchIndex(index, document.id);
+  const stored = {
+    ...document,
+    content: (document.content || "").slice(0, MAX_INDEXED_CONTENT_LENGTH),
+  };
+  const entry: DocumentEntry = { document: stored, fields: {} };
+  (Object.keys(FIELD_BOOSTS) as SearchField[]).forEach((field) => {
+    const terms = tokenize(fieldText(stored, field));
+    if (terms.length === 0) return;
+    const counts = new Map<string, number>();
+    terms.forEach((term) => {
+      counts.set(term, (counts.get(term) || 0) + 1);
+      let ids = index.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        index.postings.set(term, ids);
+        index.vocabulary = null;
+      }
+      ids.add(document.id);
+    });
+    entry.fields[field] = { terms, counts };
+  });
+  index.entries.set(document.id, entry);
+};
+
+type Clause =
+  | { kind: "phrase"; terms: string[] }
+  | { kind: "term"; term: string; prefixOnly: boolean };
+
+/**
+ * Splits a query into phrase and term clauses
+ * @param query Raw search text
+ * @returns Clauses, all of which must match
+ */
+export const parseSearchQuery = (query: string): Clause[] => {
+  const clauses: Clause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  for (let match = pattern.exec(query); match; match = pattern.exec(query)) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]);
+      if (terms.length > 1) clauses.push({ kind: "phrase", terms });
+      else if (terms.length === 1) clauses.push({ kind: "term", term: terms[0], prefixOnly: false });
+      continue;
+    }
+    const prefixOnly = match[2].endsWith("*");
+    tokenize(match[2]).forEach((term) => clauses.push({ kind: "term", term, prefixOnly }));
+  }
+  return clauses;
+};
+
+/**
+ * Edit distance between two terms, giving up once it exceeds `max`
+ */
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const getVocabulary = (index: SearchIndex) => {
+  if (!index.vocabulary) index.vocabulary = [...index.postings.keys()].sort();
+  return index.vocabulary;
+};
+
+// Vocabulary terms a query term matches, with how well they match
+const expandTerm = (index: SearchIndex, term: string, prefixOnly: boolean) => {
+  const matches = new Map<string, number>();
+  if (!prefixOnly && index.postings.has(term)) matches.set(term, MATCH_WEIGHTS.exact);
+  if (prefixOnly || term.length >= MIN_PREFIX_LENGTH) {
+    const vocabulary = getVocabulary(index);
+    // Binary search for the first term >= the prefix
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < term) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(term); i++) {
+      if (!matches.has(vocabulary[i])) {
+        matches.set(vocabulary[i], vocabulary[i] === term ? MATCH_WEIGHTS.exact : MATCH_WEIGHTS.prefix);
+      }
+    }
+  }
+  if (!prefixOnly && term.length >= 4) {
+    const maxEdits = term.length >= 8 ? 2 : 1;
+    index.postings.forEach((_, candidate) => {
+      if (matches.has(candidate)) return;
+      if (boundedEditDistance(term, candidate, maxEdits) <= maxEdits) {
+        matches.set(candidate, MATCH_WEIGHTS.fuzzy);
+      }
+    });
+  }
+  return matches;
+};
+
+const containsPhrase = (terms: string[], phrase: string[]) => {
+  for (let i = 0; i + phrase.length <= terms.length; i++) {
+    if (phrase.every((term, offset) => terms[i + offset] === term)) return true;
+  }
+  return false;
+};
+
+/**
+ * Marks matched words in a piece of text
+ * @param text Original text
+ * @param terms Normalized terms to mark
+ * @returns Segments covering the whole text
+ */
+export const highlightText = (text: string, terms: Set<string>): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (!terms.has(normalizeTerm(match[0]))) continue;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+/**
+ * Cuts a passage around the first matched word and marks the matches in it
+ * @param text Extracted document text
+ * @param terms Normalized terms to look for
+ * @returns Highlighted passage, or undefined when nothing matches
+ */
+export const buildSnippet = (text: string, terms: Set<string>): HighlightSegment[] | undefined => {
+  const words = [...text.matchAll(WORD_PATTERN)];
+  const first = words.findIndex((word) => terms.has(normalizeTerm(word[0])));
+  if (first < 0) return undefined;
+  const startWord = Math.max(0, first - SNIPPET_RADIUS);
+  const endWord = Math.min(words.length - 1, first + SNIPPET_RADIUS * 2);
+  const start = words[startWord].index!;
+  const end = words[endWord].index! + words[endWord][0].length;
+  const passage = text.slice(start, end).replace(/\s+/g, " ");
+  const segments = highlightText(passage, terms);
+  if (startWord > 0) segments.unshift({ text: "…" });
+  if (endWord < words.length - 1) segments.push({ text: "…" });
+  return segments;
+};
+
+/**
+ * Runs a query against the index
+ * @param index The index
+ * @param query Raw search text
+ * @param limit Maximum number of hits
+ * @returns Hits, best first
+ */
+export const searchDocuments = (index: SearchIndex, query: string, limit = 200): SearchHit[] => {
+  const clauses = parseSearchQuery(query);
+  if (clauses.length === 0) return [];
+  const total = index.entries.size || 1;
+  const idf = (term: string) => Math.log(1 + total / (index.postings.get(term)?.size || 1));
+
+  const scores = new Map<string, number>();
+  const fieldsHit = new Map<string, Set<SearchField>>();
+  const highlightTerms = new Set<string>();
+  let candidates = null as Set<string> | null;
+
+  for (const clause of clauses) {
+    const clauseScores = new Map<string, number>();
+    const clauseFields = new Map<string, Set<SearchField>>();
+    const record = (id: string, field: SearchField, score: number) => {
+      if (score > (clauseScores.get(id) || 0)) clauseScores.set(id, score);
+      if (!clauseFields.has(id)) clauseFields.set(id, new Set());
+      clauseFields.get(id)!.add(field);
+    };
+
+    if (clause.kind === "phrase") {
+      const ids = index.postings.get(clause.terms[0]) || new Set<string>();
+      ids.forEach((id) => {
+        const entry = index.entries.get(id)!;
+        (Object.keys(entry.fields) as SearchField[]).forEach((field) => {
+          if (containsPhrase(entry.fields[field]!.terms, clause.terms)) {
+            record(id, field, FIELD_BOOSTS[field] * clause.terms.length * idf(clause.terms[0]));
+          }
+        });
+      });
+      if (clauseScores.size > 0) clause.terms.forEach((term) => highlightTerms.add(term));
+    } else {
+      expandTerm(index, clause.term, clause.prefixOnly).forEach((weight, term) => {
+        highlightTerms.add(term);
+        index.postings.get(term)!.forEach((id) => {
+          const entry = index.entries.get(id)!;
+          (Object.keys(entry.fields) as SearchField[]).forEach((field) => {
+            const count = entry.fields[field]!.counts.get(term);
+            if (count) record(id, field, weight * FIELD_BOOSTS[field] * (1 + Math.log(count)) * idf(term));
+          });
+        });
+      });
+    }
+
+    const matched = new Set(clauseScores.keys());
+    candidates = candidates ? new Set([...candidates].filter((id) => matched.has(id))) : matched;
+    clauseScores.forEach((score, id) => scores.set(id, (scores.get(id) || 0) + score));
+    clauseFields.forEach((fields, id) => {
+      const all = fieldsHit.get(id) || new Set<SearchField>();
+      fields.forEach((field) => all.add(field));
+      fieldsHit.set(id, all);
+    });
+    if (candidates.size === 0) return [];
+  }
+
+  return [...candidates!]
+    .map((id) => ({ id, score: scores.get(id) || 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ id, score }) => {
+      const { document } = index.entries.get(id)!;
+      const fields = [...fieldsHit.get(id)!];
+      return {
+        id,
+        score,
+        fields,
+        name: highlightText(document.name, highlightTerms),
+        snippet: fields.includes("content")
+          ? buildSnippet(document.content, highlightTerms)
+          : undefined,
+      };
+    });
+};
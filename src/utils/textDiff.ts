@@ -0,0 +1,192 @@
+/**
+ * Line and word level comparison of two document texts, plus a summary of
+ * which sections (headings) were added or removed.
+ */
+import { diffArrays, diffWordsWithSpace } from "diff";
+
+export interface DiffSegment {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export type DiffRowType = "unchanged" | "added" | "removed" | "changed";
+
+/**
+ * One row of the side-by-side view. Line numbers are 1-based and refer to
+ * the non-empty lines of each text.
+ */
+export interface DiffRow {
+  type: DiffRowType;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  oldText?: string;
+  newText?: string;
+  /** Word-level segments for "changed" rows */
+  oldSegments?: DiffSegment[];
+  newSegments?: DiffSegment[];
+}
+
+export interface DocumentDiffSummary {
+  linesAdded: number;
+  linesRemoved: number;
+  linesChanged: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+  sectionsAdded: string[];
+  sectionsRemoved: string[];
+}
+
+export interface DocumentDiff {
+  rows: DiffRow[];
+  summary: DocumentDiffSummary;
+}
+
+// Changed lines below this share of common words are shown as remove + add
+const MIN_LINE_SIMILARITY = 0.4;
+
+const splitLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const HEADING_PATTERN =
+  /^(?:(?:section|article|clause|schedule|part|chapter|annex|appendix)\b|\d+(?:\.\d+)*[.)]?\s+\S)/i;
+
+/**
+ * Treats numbered lines, "Section 4"-style lines and short ALL-CAPS lines
+ * as section headings
+ */
+const isHeading = (line: string) => {
+  if (line.length > 80) return false;
+  if (HEADING_PATTERN.test(line)) return true;
+  const letters = line.replace(/[^a-z]/gi, "");
+  return letters.length >= 3 && countWords(line) <= 8 && letters === letters.toUpperCase();
+};
+
+// Compares headings without their numbering so renumbering isn't reported
+const headingKey = (line: string) =>
+  line
+    .replace(/^(?:(?:section|article|clause|schedule|part|chapter|annex|appendix)\s+)?[\divxlc]+(?:\.\d+)*[.):-]?\s*/i, "")
+    .toLowerCase();
+
+const sectionChanges = (oldLines: string[], newLines: string[]) => {
+  const oldHeadings = oldLines.filter(isHeading);
+  const newHeadings = newLines.filter(isHeading);
+  const oldKeys = new Set(oldHeadings.map(headingKey));
+  const newKeys = new Set(newHeadings.map(headingKey));
+  return {
+    sectionsAdded: newHeadings.filter((heading) => !oldKeys.has(headingKey(heading))),
+    sectionsRemoved: oldHeadings.filter((heading) => !newKeys.has(headingKey(heading))),
+  };
+};
+
+const wordDiff = (oldLine: string, newLine: string) => {
+  const changes = diffWordsWithSpace(oldLine, newLine);
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+  let commonWords = 0;
+  changes.forEach((change) => {
+    if (!change.added) oldSegments.push({ value: change.value, removed: change.removed || undefined });
+    if (!change.removed) newSegments.push({ value: change.value, added: change.added || undefined });
+    if (!change.added && !change.removed) commonWords += countWords(change.value);
+  });
+  const similarity = commonWords / Math.max(countWords(oldLine), countWords(newLine), 1);
+  return { oldSegments, newSegments, similarity };
+};
+
+/**
+ * Diffs two document texts line by line, with word highlights for lines
+ * that were edited rather than replaced
+ * @param oldText Text of the base version
+ * @param newText Text of the version being compared
+ * @returns Rows for a side-by-side view and a change summary
+ */
+export const diffDocuments = (oldText: string, newText: string): DocumentDiff => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const rows: DiffRow[] = [];
+  const summary: DocumentDiffSummary = {
+    linesAdded: 0,
+    linesRemoved: 0,
+    linesChanged: 0,
+    wordsAdded: 0,
+    wordsRemoved: 0,
+    ...sectionChanges(oldLines, newLines),
+  };
+
+  let oldLineNumber = 0;
+  let newLineNumber = 0;
+  let pendingRemoved: string[] = [];
+
+  const pushRemoved = (line: string) => {
+    rows.push({ type: "removed", oldLineNumber: ++oldLineNumber, oldText: line });
+    summary.linesRemoved++;
+    summary.wordsRemoved += countWords(line);
+  };
+  const pushAdded = (line: string) => {
+    rows.push({ type: "added", newLineNumber: ++newLineNumber, newText: line });
+    summary.linesAdded++;
+    summary.wordsAdded += countWords(line);
+  };
+
+  // Pairs a removed block with the added block that follows it
+  const pairBlocks = (removed: string[], added: string[]) => {
+    const pairs = Math.min(removed.length, added.length);
+    for (let i = 0; i < pairs; i++) {
+      const { oldSegments, newSegments, similarity } = wordDiff(removed[i], added[i]);
+      if (similarity < MIN_LINE_SIMILARITY) {
+        pushRemoved(removed[i]);
+        pushAdded(added[i]);
+        continue;
+      }
+      rows.push({
+        type: "changed",
+        oldLineNumber: ++oldLineNumber,
+        newLineNumber: ++newLineNumber,
+        oldText: removed[i],
+        newText: added[i],
+        oldSegments,
+        newSegments,
+      });
+      summary.linesChanged++;
+      oldSegments.forEach((segment) => {
+        if (segment.removed) summary.wordsRemoved += countWords(segment.value);
+      });
+      newSegments.forEach((segment) => {
+        if (segment.added) summary.wordsAdded += countWords(segment.value);
+      });
+    }
+    removed.slice(pairs).forEach(pushRemoved);
+    added.slice(pairs).forEach(pushAdded);
+  };
+
+  diffArrays(oldLines, newLines).forEach((change) => {
+    if (change.removed) {
+      pendingRemoved = change.value;
+      return;
+    }
+    if (change.added) {
+      pairBlocks(pendingRemoved, change.value);
+      pendingRemoved = [];
+      return;
+    }
+    pendingRemoved.forEach(pushRemoved);
+    pendingRemoved = [];
+    change.value.forEach((line) => {
+      rows.push({
+        type: "unchanged",
+        oldLineNumber: ++oldLineNumber,
+        newLineNumber: ++newLineNumber,
+        oldText: line,
+        newText: line,
+      });
+    });
+  });
+  pendingRemoved.forEach(pushRemoved);
+
+  return { rows, summary };
+};
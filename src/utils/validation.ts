@@ -1,9 +1,149 @@
 // utils/validation.js
-export function validateFormField(field, value) {
+import { getFieldState, isEmptyValue } from "./fieldRules";
+import { isE164, isIsoDate } from "./fieldFormats";
+import { isRegistrationNumberAvailable } from "../services/onboardingService";
+
+// DD/MM/YYYY or ISO (YYYY-MM-DD) dates; a bare year is the 1st of January
+function parseDateValue(value) {
+  const text = String(value ?? "").trim();
+  let match = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (match) return { date: new Date(+match[3], +match[2] - 1, +match[1]), yearOnly: false };
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return { date: new Date(+match[1], +match[2] - 1, +match[3]), yearOnly: false };
+  match = text.match(/^(\d{4})$/);
+  if (match) return { date: new Date(+match[1], 0, 1), yearOnly: true };
+  return null;
+}
+
+// Domain of an email address or website URL, without "www."
+function domainOf(value) {
+  const text = String(value ?? "").trim().toLowerCase();
+  const host = text.includes("@")
+    ? text.split("@").pop()
+    : text.replace(/^[a-z]+:\/\//, "").split(/[/?#:]/)[0];
+  return (host || "").replace(/^www\./, "");
+}
+
+// A subdomain matches its parent, e.g. mail.example.com and example.com
+function sameDomain(a, b) {
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+// Checks a non-empty value against its cross-field rules; returns an error or null
+function checkCrossFieldRules(field, value, values) {
+  for (const rule of field.rules || []) {
+    const other = rule.field ? values[rule.field] : undefined;
+    if (rule.rule === "notInFuture") {
+      const parsed = parseDateValue(value);
+      if (parsed && parsed.date.getTime() > Date.now()) {
+        return rule.message || `${field.label} cannot be in the future`;
+      }
+    } else if (rule.rule === "notAfter") {
+      const own = parseDateValue(value);
+      const limit = parseDateValue(other);
+      if (!own || !limit) continue;
+      // A year is only compared with the other date's year
+      const isAfter =
+        own.yearOnly || limit.yearOnly
+          ? own.date.getFullYear() > limit.date.getFullYear()
+          : own.date.getTime() > limit.date.getTime();
+      if (isAfter) return rule.message || `${field.label} cannot be after ${rule.field}`;
+    } else if (rule.rule === "sameDomainAs") {
+      const ownDomain = domainOf(value);
+      const otherDomain = domainOf(other);
+      if (ownDomain && otherDomain && !sameDomain(ownDomain, otherDomain)) {
+        return rule.message || `${field.label} must use the domain ${otherDomain}`;
+      }
+    }
+  }
+  return null;
+}
+
+// Checks a non-empty value of a rich field type; returns an error or null
+function checkFieldType(field, value) {
+  switch (field.type) {
+    case "date":
+      return isIsoDate(value) ? null : `${field.label} must be a valid date`;
+    case "phone":
+      return isE164(value)
+        ? null
+        : `${field.label} must include a country code and a valid number`;
+    case "multiselect": {
+      if (!Array.isArray(value)) return `${field.label} has an invalid selection`;
+      const allowed = (field.options || []).map((option) => option.value);
+      if (value.some((entry) => !allowed.includes(entry))) {
+        return `${field.label} has an option that is no longer available`;
+      }
+      return checkItemCount(field, value.length, "options");
+    }
+    case "file":
+      return value?.documentId
+        ? null
+        : `${field.label} has not finished uploading`;
+    case "repeatable": {
+      if (!Array.isArray(value)) return `${field.label} has an invalid value`;
+      const itemLabel = field.itemLabel || "Entry";
+      for (const [index, item] of value.entries()) {
+        for (const itemField of field.itemFields || []) {
+          const result = validateFormField(itemField, item?.[itemField.fieldName], item || {});
+          if (!result.success) return `${itemLabel} ${index + 1}: ${result.error}`;
+        }
+      }
+      if (field.maxTotal) {
+        const { field: totalField, max } = field.maxTotal;
+        const total = value.reduce((sum, item) => sum + (Number(item?.[totalField]) || 0), 0);
+        if (total > max) {
+          const label =
+            field.itemFields?.find((itemField) => itemField.fieldName === totalField)?.label || totalField;
+          return `${label} of all ${field.label.toLowerCase()} adds up to ${total}, more than ${max}`;
+        }
+      }
+      return checkItemCount(field, value.length, `${itemLabel.toLowerCase()}s`);
+    }
+    default:
+      return null;
+  }
+}
+
+// Bounds on the number of choices or entries of a list field
+function checkItemCount(field, count, noun) {
+  if (field.minItems !== undefined && count < field.minItems) {
+    return `${field.label} needs at least ${field.minItems} ${noun}`;
+  }
+  if (field.maxItems !== undefined && count > field.maxItems) {
+    return `${field.label} allows no more than ${field.maxItems} ${noun}`;
+  }
+  return null;
+}
+
+/**
+ * Validators that need the server, referenced by name from a field's
+ * `asyncValidator`. Each resolves to an error message, or null when valid.
+ */
+export const asyncValidators: Record<
+  string,
+  (value: any, signal: AbortSignal) => Promise<string | null>
+> = {
+  uniqueRegistrationNumber: async (value, signal) =>
+    (await isRegistrationNumberAvailable(String(value), signal))
+      ? null
+      : "This registration number is already registered to another business",
+};
+
+// `values` (all form answers) enables the field's conditional rules; without
+// them only `required` applies
+export function validateFormField(field, value, values?: Record<string, any>) {
   const trimmedValue = typeof value === "string" ? value.trim() : value;
+  const state = values
+    ? getFieldState(field, { ...values, [field.fieldName]: value })
+    : null;
+
+  // Hidden fields are not validated
+  if (state && !state.visible) return { success: true };
 
   // Required validation
-  if (field.required && (!trimmedValue || trimmedValue === "")) {
+  const isRequired = state ? state.required : field.required;
+  if (isRequired && isEmptyValue(trimmedValue)) {
     return {
       success: false,
       error: `${field.label} is required`,
@@ -46,8 +186,11 @@ export function validateFormField(field, value) {
     }
   }
 
-  // Number validation
-  if (field.type === "number" && trimmedValue !== "") {
+  // Number validation; amounts are numbers too
+  if (
+    (field.type === "number" || field.type === "currency") &&
+    !isEmptyValue(trimmedValue)
+  ) {
     const numValue = Number(trimmedValue);
     if (isNaN(numValue)) {
       return {
@@ -71,5 +214,17 @@ export function validateFormField(field, value) {
     }
   }
 
+  // Format of the rich field types
+  if (!isEmptyValue(trimmedValue)) {
+    const error = checkFieldType(field, trimmedValue);
+    if (error) return { success: false, error };
+  }
+
+  // Cross-field rules, which need the other answers
+  if (values && !isEmptyValue(trimmedValue)) {
+    const error = checkCrossFieldRules(field, trimmedValue, values);
+    if (error) return { success: false, error };
+  }
+
   return { success: true };
 }
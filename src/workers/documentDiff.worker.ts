@@ -0,0 +1,62 @@
+/**
+ * Web Worker that downloads two document versions, extracts their text and
+ * diffs them, so large PDFs don't block the UI thread.
+ */
+// Registers pdf.js's parser on this thread; pdf.js then skips spawning its own worker
+import "pdfjs-dist/build/pdf.worker.mjs";
+import { extractText } from "../utils/documentText";
+import { diffDocuments, DocumentDiff } from "../utils/textDiff";
+
+export interface DiffSource {
+  /** Signed URL the worker can fetch */
+  url: string;
+  /** Used to pick the text extractor */
+  fileName: string;
+}
+
+export interface DocumentDiffRequest {
+  id: number;
+  base: DiffSource;
+  target: DiffSource;
+}
+
+export type DocumentDiffStage = "downloading" | "extracting" | "comparing";
+
+export type DocumentDiffMessage =
+  | { id: number; type: "progress"; stage: DocumentDiffStage }
+  | { id: number; type: "result"; diff: DocumentDiff }
+  | { id: number; type: "error"; message: string };
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<DocumentDiffRequest>) => void) | null;
+  postMessage: (message: DocumentDiffMessage) => void;
+};
+
+const download = async (source: DiffSource) => {
+  const response = await fetch(source.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${source.fileName} (${response.status})`);
+  }
+  return response.arrayBuffer();
+};
+
+ctx.onmessage = async (event) => {
+  const { id, base, target } = event.data;
+  try {
+    ctx.postMessage({ id, type: "progress", stage: "downloading" });
+    const [baseData, targetData] = await Promise.all([download(base), download(target)]);
+
+    ctx.postMessage({ id, type: "progress", stage: "extracting" });
+    const baseText = await extractText(baseData, base.fileName);
+    const targetText = await extractText(targetData, target.fileName);
+
+    ctx.postMessage({ id, type: "progress", stage: "comparing" });
+    ctx.postMessage({ id, type: "result", diff: diffDocuments(baseText, targetText) });
+  } catch (error) {
+    ctx.postMessage({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,42 @@
+/**
+ * Web Worker that reads a local file's text and runs the metadata
+ * extractors on it, so parsing PDFs during upload doesn't block the UI.
+ */
+// Registers pdf.js's parser on this thread; pdf.js then skips spawning its own worker
+import "pdfjs-dist/build/pdf.worker.mjs";
+import { extractText } from "../utils/documentText";
+import { extractDocumentMetadata, ExtractedMetadata } from "../utils/documentMetadata";
+
+export interface DocumentMetadataRequest {
+  id: number;
+  file: File;
+  /** Wallet categories the suggestion may choose from */
+  categories?: string[];
+}
+
+export type DocumentMetadataMessage =
+  | { id: number; type: "result"; metadata: ExtractedMetadata }
+  | { id: number; type: "error"; message: string };
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<DocumentMetadataRequest>) => void) | null;
+  postMessage: (message: DocumentMetadataMessage) => void;
+};
+
+ctx.onmessage = async (event) => {
+  const { id, file, categories } = event.data;
+  try {
+    const text = await extractText(await file.arrayBuffer(), file.name);
+    ctx.postMessage({
+      id,
+      type: "result",
+      metadata: extractDocumentMetadata(text, { categories }),
+    });
+  } catch (error) {
+    ctx.postMessage({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
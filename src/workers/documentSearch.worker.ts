@@ -0,0 +1,183 @@
+/**
+ * Web Worker that owns the wallet's full-text index. It downloads and
+ * extracts document text, answers queries, and keeps the indexed documents
+ * in IndexedDB so text is only extracted again when a file changes.
+ */
+// Registers pdf.js's parser on this thread; pdf.js then skips spawning its own worker
+import "pdfjs-dist/build/pdf.worker.mjs";
+import { extractText } from "../utils/documentText";
+import {
+  addToSearchIndex,
+  createSearchIndex,
+  IndexedDocument,
+  removeFromSearchIndex,
+  SearchHit,
+  SearchIndex,
+  searchDocuments,
+} from "../utils/searchIndex";
+
+/** Document metadata sent on sync */
+export interface SearchableDocument {
+  id: string;
+  name: string;
+  category: string;
+  tags: string[];
+  description: string;
+  /** Identifies the file to extract; null when its text must not be indexed */
+  contentKey: string | null;
+}
+
+export type DocumentSearchRequest =
+  | { id: number; type: "open"; storeKey: string }
+  | { id: number; type: "sync"; documents: SearchableDocument[] }
+  | { id: number; type: "content"; documentId: string; contentKey: string; url: string; fileName: string }
+  | { id: number; type: "search"; query: string };
+
+export type DocumentSearchMessage =
+  | { id: number; type: "opened" }
+  | { id: number; type: "synced"; needsContent: string[] }
+  | { id: number; type: "indexed" }
+  | { id: number; type: "results"; hits: SearchHit[] }
+  | { id: number; type: "error"; message: string };
+
+const DB_NAME = "documentSearch";
+const DB_VERSION = 1;
+const STORE_NAME = "indexes";
+// Coalesces writes while many files are extracted in a row
+const PERSIST_DELAY_MS = 1000;
+// Files larger than this are indexed by metadata only
+const MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<DocumentSearchRequest>) => void) | null;
+  postMessage: (message: DocumentSearchMessage) => void;
+};
+
+let index: SearchIndex = createSearchIndex();
+let storeKey: string | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// Content key each document had at the last sync
+let expectedKeys = new Map<string, string | null>();
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const persist = async () => {
+  persistTimer = null;
+  if (!storeKey) return;
+  const documents = [...index.entries.values()].map((entry) => entry.document);
+  try {
+    await runTransaction("readwrite", (store) => store.put(documents, storeKey!));
+  } catch (error) {
+    // The index still works in memory; it is rebuilt next session
+    console.error("Error saving search index:", error);
+  }
+};
+
+const schedulePersist = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+};
+
+const open = async (key: string) => {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    await persist();
+  }
+  storeKey = key;
+  expectedKeys = new Map();
+  let stored: IndexedDocument[] = [];
+  try {
+    stored = (await runTransaction<IndexedDocument[] | undefined>("readonly", (store) => store.get(key))) || [];
+  } catch (error) {
+    console.error("Error loading search index:", error);
+  }
+  index = createSearchIndex(stored);
+};
+
+// Updates metadata, drops removed documents and reports which need text extracted
+const sync = (documents: SearchableDocument[]) => {
+  expectedKeys = new Map(documents.map((document) => [document.id, document.contentKey]));
+  const ids = new Set(documents.map((document) => document.id));
+  [...index.entries.keys()].forEach((id) => {
+    if (!ids.has(id)) removeFromSearchIndex(index, id);
+  });
+  const needsContent: string[] = [];
+  documents.forEach(({ contentKey, ...metadata }) => {
+    const existing = index.entries.get(metadata.id)?.document;
+    // Text is kept only while it belongs to the same file and is still allowed
+    const keep = contentKey !== null && existing?.contentKey === contentKey;
+    addToSearchIndex(index, {
+      ...metadata,
+      contentKey: keep ? contentKey! : "",
+      content: keep ? existing!.content : "",
+    });
+    if (contentKey !== null && !keep) needsContent.push(metadata.id);
+  });
+  schedulePersist();
+  return needsContent;
+};
+
+const indexContent = async (documentId: string, contentKey: string, url: string, fileName: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${fileName} (${response.status})`);
+  }
+  if (Number(response.headers.get("content-length")) > MAX_DOWNLOAD_BYTES) return;
+  const content = await extractText(await response.arrayBuffer(), fileName);
+  const existing = index.entries.get(documentId)?.document;
+  // The document may have been removed, replaced or made confidential while downloading
+  if (!existing || expectedKeys.get(documentId) !== contentKey) return;
+  addToSearchIndex(index, { ...existing, contentKey, content });
+  schedulePersist();
+};
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+  const { id } = request;
+  try {
+    switch (request.type) {
+      case "open":
+        await open(request.storeKey);
+        ctx.postMessage({ id, type: "opened" });
+        break;
+      case "sync":
+        ctx.postMessage({ id, type: "synced", needsContent: sync(request.documents) });
+        break;
+      case "content":
+        await indexContent(request.documentId, request.contentKey, request.url, request.fileName);
+        ctx.postMessage({ id, type: "indexed" });
+        break;
+      case "search":
+        ctx.postMessage({ id, type: "results", hits: searchDocuments(index, request.query) });
+        break;
+    }
+  } catch (error) {
+    ctx.postMessage({
+      id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
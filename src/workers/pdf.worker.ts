@@ -0,0 +1,6 @@
+/**
+ * pdf.js parser thread for PDFs rendered on the page (the document
+ * previewer). Bundled by Vite like the other workers so it is versioned
+ * with the app.
+ */
+import "pdfjs-dist/build/pdf.worker.mjs";